@@ -1,34 +1,95 @@
-import { useState, useEffect } from 'react';
+import { useCallback, useState, useEffect } from 'react';
 import { useAuth } from '@/hooks/useAuth';
+import { useI18n } from '@/hooks/i18n-context';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { supabase } from '@/integrations/supabase/client';
 import { UserProfileForm } from './UserProfileForm';
 import { MealPlanViewer } from './MealPlanViewer';
 import { GroceryList } from './GroceryList';
+import { PantryManager } from './PantryManager';
+import { HouseholdManager } from './HouseholdManager';
 import { MealCalendar } from './MealCalendar';
+import { PrepDayView } from './PrepDayView';
+import { GenerationJob, GenerationJobStatus } from './GenerationJobStatus';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { LogOut, User, Calendar, ShoppingCart, ChefHat, CalendarDays } from 'lucide-react';
+import { LogOut, User, Calendar, ShoppingCart, ChefHat, CalendarDays, Package, CookingPot } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 
+// How often an unfinished generation job is checked
+const JOB_POLL_INTERVAL_MS = 3000;
+
 export const Dashboard = () => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { t } = useI18n();
   const [hasProfile, setHasProfile] = useState(false);
   const [currentMealPlan, setCurrentMealPlan] = useState(null);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState('profile');
+  const [generationJob, setGenerationJob] = useState<GenerationJob | null>(null);
+  const [retryingJob, setRetryingJob] = useState(false);
+
+  const loadCurrentMealPlan = useCallback(async () => {
+    const { data } = await supabase
+      .from('meal_plans')
+      .select('*')
+      .eq('user_id', user?.id)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .single();
+
+    setCurrentMealPlan(data);
+  }, [user]);
 
   useEffect(() => {
     if (user) {
       const checkAuth = async () => {
         await checkUserProfile();
         await loadCurrentMealPlan();
+        await loadActiveGenerationJob();
       };
       checkAuth();
     }
   }, [user]);
 
+  // Poll an unfinished job until it succeeds or fails; this also resumes after a reload
+  const jobId = generationJob?.id;
+  const jobIsActive = generationJob?.status === 'queued' || generationJob?.status === 'running';
+  useEffect(() => {
+    if (!jobId || !jobIsActive) return;
+
+    const interval = setInterval(async () => {
+      const { data: job, error } = await supabase
+        .from('generation_jobs')
+        .select('*')
+        .eq('id', jobId)
+        .single();
+
+      if (error || !job) {
+        console.error('Error checking generation job:', error);
+        return;
+      }
+
+      setGenerationJob(job);
+      if (job.status === 'succeeded') {
+        await loadCurrentMealPlan();
+        toast({
+          title: t('common.success'),
+          description: t('dashboard.planGenerated'),
+        });
+      } else if (job.status === 'failed') {
+        toast({
+          title: t('common.error'),
+          description: job.error || t('dashboard.generateFailed'),
+          variant: 'destructive',
+        });
+      }
+    }, JOB_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [jobId, jobIsActive, loadCurrentMealPlan, t, toast]);
+
   const checkUserProfile = async () => {
     try {
       setLoading(true);
@@ -65,16 +126,50 @@ export const Dashboard = () => {
     }
   };
 
-  const loadCurrentMealPlan = async () => {
+  const loadActiveGenerationJob = async () => {
     const { data } = await supabase
-      .from('meal_plans')
+      .from('generation_jobs')
       .select('*')
       .eq('user_id', user?.id)
+      .in('status', ['queued', 'running'])
       .order('created_at', { ascending: false })
       .limit(1)
-      .single();
+      .maybeSingle();
 
-    setCurrentMealPlan(data);
+    setGenerationJob(data);
+  };
+
+  const handleGenerationJob = async (jobId: string) => {
+    const { data } = await supabase
+      .from('generation_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    setGenerationJob(data);
+  };
+
+  const retryGenerationJob = async () => {
+    if (!generationJob) return;
+    setRetryingJob(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('generate-meal-plan', {
+        body: { action: 'retry', jobId: generationJob.id }
+      });
+
+      if (error || !data?.success) {
+        throw new Error(data?.error || error?.message || t('dashboard.retryFailed'));
+      }
+      setGenerationJob(data.job);
+    } catch (error) {
+      toast({
+        title: t('common.error'),
+        description: error.message || t('dashboard.retryFailed'),
+        variant: 'destructive',
+      });
+    } finally {
+      setRetryingJob(false);
+    }
   };
 
   const handleSignOut = async () => {
@@ -93,14 +188,14 @@ export const Dashboard = () => {
       setActiveTab('meal-plan');
       
       toast({
-        title: 'Profile updated!',
-        description: 'Your profile has been saved successfully.',
+        title: t('dashboard.profileUpdated'),
+        description: t('dashboard.profileSaved'),
       });
     } catch (error) {
       console.error('Error in handleProfileComplete:', error);
       toast({
-        title: 'Error',
-        description: 'Failed to update profile status. Please refresh the page.',
+        title: t('common.error'),
+        description: t('dashboard.profileStatusFailed'),
         variant: 'destructive',
       });
     }
@@ -115,7 +210,7 @@ export const Dashboard = () => {
       <div className="min-h-screen bg-gradient-to-br from-background via-secondary/30 to-accent/20 flex items-center justify-center">
         <div className="glass p-8 rounded-2xl">
           <div className="animate-spin rounded-full h-12 w-12 border-2 border-primary border-t-transparent mx-auto mb-4"></div>
-          <p className="text-muted-foreground font-medium">Loading your dashboard...</p>
+          <p className="text-muted-foreground font-medium">{t('dashboard.loading')}</p>
         </div>
       </div>
     );
@@ -134,9 +229,9 @@ export const Dashboard = () => {
               </div>
               <div>
                 <h1 className="font-display text-2xl font-bold bg-gradient-to-r from-primary to-primary-light bg-clip-text text-transparent">
-                  Welcome to NutriPlanner
+                  {t('dashboard.welcomeTitle')}
                 </h1>
-                <p className="text-muted-foreground">Let's set up your personalized nutrition journey</p>
+                <p className="text-muted-foreground">{t('dashboard.welcomeSubtitle')}</p>
               </div>
             </div>
             <Button 
@@ -145,7 +240,7 @@ export const Dashboard = () => {
               className="rounded-xl hover:bg-destructive/10 hover:text-destructive transition-colors"
             >
               <LogOut className="h-4 w-4 mr-2" />
-              Sign Out
+              {t('dashboard.signOut')}
             </Button>
           </div>
         </div>
@@ -175,13 +270,14 @@ export const Dashboard = () => {
           
           <div className="flex items-center gap-2">
             <div className="glass px-3 py-1.5 rounded-full text-sm text-muted-foreground">
-              Welcome, {user?.user_metadata?.full_name || user?.email?.split('@')[0]}
+              {t('dashboard.welcomeUser', { name: user?.user_metadata?.full_name || user?.email?.split('@')[0] })}
             </div>
             <Button 
               variant="ghost" 
               size="sm" 
               onClick={handleSignOut}
               className="rounded-full hover:bg-destructive/10 hover:text-destructive transition-colors"
+              aria-label={t('dashboard.signOut')}
             >
               <LogOut className="h-4 w-4" />
             </Button>
@@ -201,37 +297,60 @@ export const Dashboard = () => {
                   className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground data-[state=active]:shadow-lg rounded-xl px-6 py-3 font-medium transition-all duration-300 hover:bg-secondary/60"
                 >
                   <ChefHat className="h-4 w-4 mr-2" />
-                  Meal Plan
+                  {t('dashboard.tabs.mealPlan')}
                 </TabsTrigger>
                 <TabsTrigger 
                   value="grocery" 
                   className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground data-[state=active]:shadow-lg rounded-xl px-6 py-3 font-medium transition-all duration-300 hover:bg-secondary/60"
                 >
                   <ShoppingCart className="h-4 w-4 mr-2" />
-                  Grocery List
+                  {t('dashboard.tabs.grocery')}
+                </TabsTrigger>
+                <TabsTrigger 
+                  value="pantry" 
+                  className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground data-[state=active]:shadow-lg rounded-xl px-6 py-3 font-medium transition-all duration-300 hover:bg-secondary/60"
+                >
+                  <Package className="h-4 w-4 mr-2" />
+                  {t('dashboard.tabs.pantry')}
                 </TabsTrigger>
                 <TabsTrigger 
                   value="calendar" 
                   className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground data-[state=active]:shadow-lg rounded-xl px-6 py-3 font-medium transition-all duration-300 hover:bg-secondary/60"
                 >
                   <CalendarDays className="h-4 w-4 mr-2" />
-                  Calendar
+                  {t('dashboard.tabs.calendar')}
+                </TabsTrigger>
+                <TabsTrigger 
+                  value="prep" 
+                  className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground data-[state=active]:shadow-lg rounded-xl px-6 py-3 font-medium transition-all duration-300 hover:bg-secondary/60"
+                >
+                  <CookingPot className="h-4 w-4 mr-2" />
+                  {t('dashboard.tabs.prep')}
                 </TabsTrigger>
                 <TabsTrigger 
                   value="profile" 
                   className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground data-[state=active]:shadow-lg rounded-xl px-6 py-3 font-medium transition-all duration-300 hover:bg-secondary/60"
                 >
                   <User className="h-4 w-4 mr-2" />
-                  Profile
+                  {t('dashboard.tabs.profile')}
                 </TabsTrigger>
               </TabsList>
             </div>
 
             <div className="animate-fade-in">
               <TabsContent value="meal-plan" className="mt-0">
+                {generationJob && (
+                  <GenerationJobStatus
+                    job={generationJob}
+                    retrying={retryingJob}
+                    onRetry={retryGenerationJob}
+                    onDismiss={() => setGenerationJob(null)}
+                  />
+                )}
                 <MealPlanViewer 
                   currentMealPlan={currentMealPlan} 
                   onMealPlanGenerated={handleMealPlanGenerated} 
+                  onGenerationJob={handleGenerationJob}
                 />
               </TabsContent>
 
@@ -239,12 +358,21 @@ export const Dashboard = () => {
                 <GroceryList />
               </TabsContent>
 
+              <TabsContent value="pantry" className="mt-0">
+                <PantryManager />
+              </TabsContent>
+
               <TabsContent value="calendar" className="mt-0">
                 <MealCalendar currentMealPlan={currentMealPlan} />
               </TabsContent>
 
+              <TabsContent value="prep" className="mt-0">
+                <PrepDayView currentMealPlan={currentMealPlan} />
+              </TabsContent>
+
               <TabsContent value="profile" className="mt-0">
                 <UserProfileForm onComplete={handleProfileComplete} />
+                <HouseholdManager />
               </TabsContent>
             </div>
           </Tabs>
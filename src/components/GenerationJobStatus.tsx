@@ -0,0 +1,75 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Tables } from '@/integrations/supabase/types';
+import { AlertCircle, Loader2, RefreshCw, X } from 'lucide-react';
+
+export type GenerationJob = Tables<'generation_jobs'>;
+
+interface GenerationJobStatusProps {
+  job: GenerationJob;
+  retrying: boolean;
+  onRetry: () => void;
+  onDismiss: () => void;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  queued: 'Queued',
+  running: 'Generating',
+  succeeded: 'Ready',
+  failed: 'Failed',
+};
+
+export const GenerationJobStatus = ({ job, retrying, onRetry, onDismiss }: GenerationJobStatusProps) => {
+  const totalDays = job.total_days || 0;
+  const isActive = job.status === 'queued' || job.status === 'running';
+  const canRetry = job.status === 'failed' || (job.status === 'queued' && job.attempts > 0);
+
+  return (
+    <div className="glass p-4 rounded-2xl border border-border/20 space-y-3 mb-6">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-start gap-3">
+          {job.status === 'failed' ? (
+            <AlertCircle className="h-5 w-5 text-destructive flex-shrink-0 mt-0.5" />
+          ) : (
+            <Loader2 className={`h-5 w-5 text-primary flex-shrink-0 mt-0.5 ${isActive ? 'animate-spin' : ''}`} />
+          )}
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <p className="font-medium">Meal plan generation</p>
+              <Badge variant={job.status === 'failed' ? 'destructive' : 'secondary'}>
+                {STATUS_LABELS[job.status] || job.status}
+              </Badge>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {job.status === 'queued' && job.attempts === 0 && 'Waiting to start...'}
+              {job.status === 'queued' && job.attempts > 0 && `Attempt ${job.attempts} of ${job.max_attempts} failed, waiting to retry.`}
+              {job.status === 'running' && `Day ${Math.min(job.days_completed + 1, totalDays)} of ${totalDays} • attempt ${job.attempts} of ${job.max_attempts}`}
+              {job.status === 'succeeded' && 'Your new meal plan is ready.'}
+              {job.status === 'failed' && `Stopped after ${job.attempts} attempt${job.attempts === 1 ? '' : 's'}.`}
+            </p>
+            {job.error && job.status !== 'succeeded' && (
+              <p className="text-sm text-destructive">{job.error}</p>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {canRetry && (
+            <Button size="sm" variant="outline" onClick={onRetry} disabled={retrying} className="rounded-xl">
+              <RefreshCw className={`h-4 w-4 mr-2 ${retrying ? 'animate-spin' : ''}`} />
+              Retry now
+            </Button>
+          )}
+          {!isActive && (
+            <Button size="sm" variant="ghost" onClick={onDismiss} className="rounded-xl" aria-label="Dismiss">
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+      {job.status === 'running' && totalDays > 0 && (
+        <Progress value={(job.days_completed / totalDays) * 100} className="h-2" />
+      )}
+    </div>
+  );
+};
@@ -4,98 +4,80 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Checkbox } from '@/components/ui/checkbox';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { ShoppingCart, MapPin, Trash2 } from 'lucide-react';
+import { ShoppingCart, MapPin, Trash2, Package } from 'lucide-react';
+import { aggregateGroceryItems, AggregatedGroceryItem, GroceryRow, pantryChangesForPurchase } from '@/lib/grocery';
+import { PantryItem } from './PantryManager';
+import { IngredientPrices } from './IngredientPrices';
+import { usePriceTable } from '@/hooks/usePriceTable';
+import { useTimeZone } from '@/hooks/useTimeZone';
+import { useI18n } from '@/hooks/i18n-context';
+import { estimateAmountCost, formatMoney } from '@/lib/costs';
+import { findCurrentPlan, todayIsoDate } from '@/lib/dates';
 
-interface GroceryItem {
-  id: string;
-  item_name: string;
-  quantity: string;
-  is_purchased: boolean;
-  notes?: string;
-}
+// Remembers whether purchased items should be moved into the pantry
+const ADD_TO_PANTRY_KEY = 'grocery:add-to-pantry';
 
 export const GroceryList = () => {
   const { user } = useAuth();
   const { toast } = useToast();
-  const [groceryItems, setGroceryItems] = useState<GroceryItem[]>([]);
+  const [groceryRows, setGroceryRows] = useState<GroceryRow[]>([]);
+  const [pantryItems, setPantryItems] = useState<PantryItem[]>([]);
   const [loading, setLoading] = useState(true);
+  const [addToPantry, setAddToPantry] = useState(() => localStorage.getItem(ADD_TO_PANTRY_KEY) !== 'false');
+  const { userPrices, lookup, currency, weeklyBudget, reload: reloadPrices } = usePriceTable();
+  const timeZone = useTimeZone();
+  const { language, t } = useI18n();
+
+  // One line per product with quantities summed across the week, minus pantry stock
+  const groceryItems = aggregateGroceryItems(groceryRows, pantryItems);
 
   useEffect(() => {
-    if (user) {
+    if (user && timeZone) {
       loadCurrentWeekGroceryItems();
     }
-  }, [user]);
-
-  // Helper to get current week's start and end dates (Monday to Sunday)
-  const getCurrentWeekRange = () => {
-    const now = new Date();
-    const day = now.getDay();
-    // Monday as start of week
-    const diffToMonday = day === 0 ? -6 : 1 - day;
-    const weekStart = new Date(now);
-    weekStart.setDate(now.getDate() + diffToMonday);
-    weekStart.setHours(0, 0, 0, 0);
-    const weekEnd = new Date(weekStart);
-    weekEnd.setDate(weekStart.getDate() + 6);
-    weekEnd.setHours(23, 59, 59, 999);
-    return { weekStart, weekEnd };
-  };
+  }, [user, timeZone]);
 
-  // Load grocery items only if a meal plan was created this week
+  // Load grocery items for the plan that covers today, or the next one to start
   const loadCurrentWeekGroceryItems = async () => {
     setLoading(true);
     try {
-      // 1. Find meal plan created in current week
-      const { weekStart, weekEnd } = getCurrentWeekRange();
+      // 1. Find the current meal plan by its dates
       const { data: mealPlans, error: mealPlanError } = await supabase
         .from('meal_plans')
-        .select('id, created_at, week_start_date')
+        .select('id, created_at, week_start_date, total_days')
         .eq('user_id', user.id)
         .order('created_at', { ascending: false });
       if (mealPlanError) throw mealPlanError;
-      const thisWeekPlan = (mealPlans || []).find(mp => {
-        const created = new Date(mp.created_at);
-        return created >= weekStart && created <= weekEnd;
-      });
+      const thisWeekPlan = findCurrentPlan(mealPlans || [], todayIsoDate(timeZone), timeZone);
       if (!thisWeekPlan) {
-        setGroceryItems([]);
+        setGroceryRows([]);
         setLoading(false);
         return;
       }
-      // 2. Fetch grocery items for that meal plan's week_start_date
+      // 2. Fetch grocery items for that meal plan; older rows are only linked by week_start_date
       const { data, error } = await supabase
         .from('grocery_lists')
         .select('*')
         .eq('user_id', user.id)
-        .eq('week_start_date', thisWeekPlan.week_start_date)
+        .or(`meal_plan_id.eq.${thisWeekPlan.id},and(meal_plan_id.is.null,week_start_date.eq.${thisWeekPlan.week_start_date})`)
         .order('item_name', { ascending: true });
       if (error) throw error;
-      // Group by item name and combine quantities
-      const groupedItems = (data || []).reduce((acc: Record<string, GroceryItem>, item) => {
-        const key = item.item_name.toLowerCase();
-        if (acc[key]) {
-          const quantities = acc[key].quantity.split(', ');
-          if (!quantities.includes(item.quantity)) {
-            quantities.push(item.quantity);
-          }
-          acc[key].quantity = quantities.join(', ');
-        } else {
-          acc[key] = {
-            id: item.id,
-            item_name: item.item_name,
-            quantity: item.quantity || '1 unit',
-            is_purchased: item.is_purchased,
-            notes: item.notes,
-          };
-        }
-        return acc;
-      }, {});
-      setGroceryItems(Object.values(groupedItems));
+      setGroceryRows(data || []);
+
+      // 3. Fetch the pantry so items already at home can be subtracted
+      const { data: pantry, error: pantryError } = await supabase
+        .from('pantry_items')
+        .select('*')
+        .eq('user_id', user.id);
+      if (pantryError) throw pantryError;
+      setPantryItems(pantry || []);
     } catch (error: any) {
       toast({
-        title: 'Error',
+        title: t('common.error'),
         description: error.message,
         variant: 'destructive',
       });
@@ -105,29 +87,71 @@ export const GroceryList = () => {
   };
 
 
-  const togglePurchased = async (itemId: string, isPurchased: boolean) => {
+  const togglePurchased = async (item: AggregatedGroceryItem, isPurchased: boolean) => {
     try {
       const { error } = await supabase
         .from('grocery_lists')
         .update({ is_purchased: isPurchased })
-        .eq('id', itemId);
+        .in('id', item.ids);
 
       if (error) throw error;
 
-      setGroceryItems(prev =>
-        prev.map(item =>
-          item.id === itemId ? { ...item, is_purchased: isPurchased } : item
-        )
+      setGroceryRows(prev =>
+        prev.map(row => (item.ids.includes(row.id) ? { ...row, is_purchased: isPurchased } : row))
       );
+
+      if (isPurchased && addToPantry) {
+        await moveToPantry(item);
+      }
     } catch (error: any) {
       toast({
-        title: 'Error',
+        title: t('common.error'),
         description: error.message,
         variant: 'destructive',
       });
     }
   };
 
+  // Add what was just bought to the pantry, merging with rows already there
+  const moveToPantry = async (item: AggregatedGroceryItem) => {
+    const { updates, inserts } = pantryChangesForPurchase(item, pantryItems);
+
+    for (const update of updates) {
+      const { error } = await supabase
+        .from('pantry_items')
+        .update({ quantity: update.quantity })
+        .eq('id', update.id);
+      if (error) throw error;
+    }
+
+    let inserted: PantryItem[] = [];
+    if (inserts.length) {
+      const { data, error } = await supabase
+        .from('pantry_items')
+        .insert(inserts.map(entry => ({ ...entry, user_id: user.id })))
+        .select();
+      if (error) throw error;
+      inserted = data || [];
+    }
+
+    setPantryItems(prev => [
+      ...prev.map(existing => {
+        const update = updates.find(change => change.id === existing.id);
+        return update ? { ...existing, quantity: update.quantity } : existing;
+      }),
+      ...inserted,
+    ]);
+    toast({
+      title: t('grocery.addedToPantry'),
+      description: t('grocery.addedToPantryDescription', { name: item.item_name }),
+    });
+  };
+
+  const handleAddToPantryChange = (checked: boolean) => {
+    setAddToPantry(checked);
+    localStorage.setItem(ADD_TO_PANTRY_KEY, String(checked));
+  };
+
   const clearPurchased = async () => {
     try {
       const { error } = await supabase
@@ -140,12 +164,12 @@ export const GroceryList = () => {
 
       loadCurrentWeekGroceryItems();
       toast({
-        title: 'Success',
-        description: 'Purchased items cleared.',
+        title: t('common.success'),
+        description: t('grocery.cleared'),
       });
     } catch (error: any) {
       toast({
-        title: 'Error',
+        title: t('common.error'),
         description: error.message,
         variant: 'destructive',
       });
@@ -177,29 +201,57 @@ export const GroceryList = () => {
     );
   }
 
-  const purchasedCount = groceryItems.filter(item => item.is_purchased).length;
-  const totalCount = groceryItems.length;
+  const shoppingItems = groceryItems.filter(item => !item.in_pantry);
+  const pantryCoveredItems = groceryItems.filter(item => item.in_pantry);
+  const purchasedCount = shoppingItems.filter(item => item.is_purchased).length;
+  const totalCount = shoppingItems.length;
+
+  // Estimated cost of what is left to buy; null when none of it has a price
+  const itemCost = (item: AggregatedGroceryItem) => {
+    const costs = item.amounts.map(({ amount, unit }) => estimateAmountCost(lookup, item.name_en, amount, unit));
+    return costs.some(cost => cost !== null) ? costs.reduce((sum, cost) => sum + (cost ?? 0), 0) : null;
+  };
+  const listCost = shoppingItems.reduce((sum, item) => sum + (itemCost(item) ?? 0), 0);
+  const unpricedCount = shoppingItems.filter(item => item.amounts.length > 0 && itemCost(item) === null).length;
 
   return (
     <div className="space-y-6 animate-fade-in">
       <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
         <div>
           <h2 className="text-3xl font-display font-bold bg-gradient-to-r from-primary to-primary-light bg-clip-text text-transparent">
-            Grocery List
+            {t('grocery.title')}
           </h2>
           <p className="text-muted-foreground">
-            {purchasedCount} of {totalCount} items purchased
+            {t('grocery.purchasedCount', { purchased: purchasedCount, count: totalCount })}
+            {pantryCoveredItems.length > 0 && ` · ${t('grocery.inPantryCount', { count: pantryCoveredItems.length })}`}
           </p>
+          {listCost > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {weeklyBudget
+                ? t('grocery.estimatedTotalOfBudget', {
+                  total: formatMoney(listCost, currency, language),
+                  budget: formatMoney(weeklyBudget, currency, language),
+                })
+                : t('grocery.estimatedTotal', { total: formatMoney(listCost, currency, language) })}
+              {unpricedCount > 0 && ` · ${t('grocery.unpriced', { count: unpricedCount })}`}
+            </p>
+          )}
         </div>
         <div className="flex gap-2 items-center">
+          <div className="flex items-center gap-2 mr-2">
+            <Switch id="add-to-pantry" checked={addToPantry} onCheckedChange={handleAddToPantryChange} />
+            <Label htmlFor="add-to-pantry" className="text-sm text-muted-foreground">
+              {t('grocery.movePurchases')}
+            </Label>
+          </div>
           <Button variant="outline" onClick={searchNearbyStores} className="action-btn rounded-xl">
             <MapPin className="h-4 w-4 mr-2" />
-            Find Stores
+            {t('grocery.findStores')}
           </Button>
           {purchasedCount > 0 && (
             <Button variant="outline" onClick={clearPurchased} className="action-btn rounded-xl hover:bg-destructive/10 hover:text-destructive">
               <Trash2 className="h-4 w-4 mr-2" />
-              Clear Purchased
+              {t('grocery.clearPurchased')}
             </Button>
           )}
         </div>
@@ -211,30 +263,32 @@ export const GroceryList = () => {
             <div className="w-20 h-20 mx-auto mb-6 rounded-2xl bg-gradient-to-br from-primary/10 to-secondary/20 flex items-center justify-center">
               <ShoppingCart className="h-10 w-10 text-primary" />
             </div>
-            <CardTitle className="text-2xl font-display">No items in your grocery list</CardTitle>
+            <CardTitle className="text-2xl font-display">{t('grocery.emptyTitle')}</CardTitle>
             <CardDescription className="text-lg mt-2">
-              Generate a meal plan to automatically populate your grocery list
+              {t('grocery.emptyDescription')}
             </CardDescription>
           </CardHeader>
         </div>
       ) : (
+        <>
+        {shoppingItems.length > 0 && (
         <div className="card-modern">
           <CardHeader className="border-b border-border/20">
             <CardTitle className="flex items-center gap-3 text-xl font-display">
               <div className="w-8 h-8 rounded-xl bg-gradient-to-br from-primary to-primary-light flex items-center justify-center">
                 <ShoppingCart className="h-4 w-4 text-primary-foreground" />
               </div>
-              Shopping List
+              {t('grocery.shoppingList')}
             </CardTitle>
             <CardDescription>
-              Check off items as you shop
+              {t('grocery.shoppingListDescription')}
             </CardDescription>
           </CardHeader>
           <CardContent className="p-6">
             <div className="space-y-3">
-              {groceryItems.map((item) => (
+              {shoppingItems.map((item) => (
                 <div
-                  key={item.id}
+                  key={item.key}
                   className={`glass p-4 rounded-xl border transition-all duration-300 ${
                     item.is_purchased 
                       ? 'bg-muted/30 border-muted' 
@@ -244,7 +298,7 @@ export const GroceryList = () => {
                   <div className="flex items-center space-x-4">
                     <Checkbox
                       checked={item.is_purchased}
-                      onCheckedChange={(checked) => togglePurchased(item.id, checked as boolean)}
+                      onCheckedChange={(checked) => togglePurchased(item, checked as boolean)}
                       className="data-[state=checked]:bg-primary data-[state=checked]:border-primary"
                     />
                     <div className="flex-1 min-w-0">
@@ -254,15 +308,25 @@ export const GroceryList = () => {
                       <div className="text-sm text-muted-foreground">
                         {item.quantity}
                       </div>
+                      {item.pantry_quantity && !item.is_purchased && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {t('grocery.pantryQuantity', { quantity: item.pantry_quantity })}
+                        </div>
+                      )}
                       {item.notes && (
                         <div className="text-xs text-muted-foreground mt-1">
                           {item.notes}
                         </div>
                       )}
                     </div>
+                    {itemCost(item) !== null && (
+                      <span className="text-sm text-muted-foreground">
+                        ~{formatMoney(itemCost(item), currency, language)}
+                      </span>
+                    )}
                     {item.is_purchased && (
                       <Badge className="bg-primary/10 text-primary border-primary/20 rounded-full">
-                        Purchased
+                        {t('grocery.purchased')}
                       </Badge>
                     )}
                   </div>
@@ -271,7 +335,39 @@ export const GroceryList = () => {
             </div>
           </CardContent>
         </div>
+        )}
+
+        {pantryCoveredItems.length > 0 && (
+          <div className="card-modern">
+            <CardHeader className="border-b border-border/20">
+              <CardTitle className="flex items-center gap-3 text-xl font-display">
+                <div className="w-8 h-8 rounded-xl bg-gradient-to-br from-primary to-primary-light flex items-center justify-center">
+                  <Package className="h-4 w-4 text-primary-foreground" />
+                </div>
+                {t('grocery.inPantryTitle')}
+              </CardTitle>
+              <CardDescription>
+                {t('grocery.inPantryDescription')}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-6">
+              <div className="space-y-3">
+                {pantryCoveredItems.map((item) => (
+                  <div key={item.key} className="glass p-4 rounded-xl border border-muted bg-muted/30">
+                    <div className="font-medium text-muted-foreground">{item.item_name}</div>
+                    {item.quantity && (
+                      <div className="text-sm text-muted-foreground">{item.quantity}</div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </div>
+        )}
+        </>
       )}
+
+      <IngredientPrices prices={userPrices} currency={currency} onChange={reloadPrices} />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,432 @@
+import { useCallback, useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+import { useI18n } from '@/hooks/i18n-context';
+import { MessageKey, TranslationKey } from '@/lib/i18n';
+import { Pencil, Plus, Trash2, Users } from 'lucide-react';
+
+export type HouseholdMember = Tables<'household_members'>;
+
+const ALLERGY_OPTIONS = ['dairy', 'nuts', 'gluten', 'soy', 'eggs', 'shellfish', 'citrus'];
+
+const DIET_OPTIONS: { value: string; label: MessageKey }[] = [
+  { value: 'vegetarian', label: 'profile.diet.vegetarian' },
+  { value: 'vegan', label: 'profile.diet.vegan' },
+  { value: 'gluten_free', label: 'profile.diet.glutenFree' },
+  { value: 'dairy_free', label: 'profile.diet.dairyFree' },
+  { value: 'mediterranean', label: 'profile.diet.mediterranean' },
+  { value: 'custom', label: 'profile.diet.custom' },
+];
+
+const emptyForm = {
+  name: '',
+  date_of_birth: '',
+  gender: '',
+  height_cm: '',
+  weight_kg: '',
+  fitness_goal: '',
+  activity_level: '',
+  diet_type: '',
+  allergies: [] as string[],
+  foods_to_avoid: '',
+  calorie_target: '',
+};
+
+type MemberForm = typeof emptyForm;
+
+const toForm = (member: HouseholdMember): MemberForm => ({
+  name: member.name,
+  date_of_birth: member.date_of_birth ?? '',
+  gender: member.gender ?? '',
+  height_cm: member.height_cm?.toString() ?? '',
+  weight_kg: member.weight_kg?.toString() ?? '',
+  fitness_goal: member.fitness_goal ?? '',
+  activity_level: member.activity_level ?? '',
+  diet_type: member.diet_type ?? '',
+  allergies: member.allergies,
+  foods_to_avoid: member.foods_to_avoid.join(', '),
+  calorie_target: member.calorie_target?.toString() ?? '',
+});
+
+// Empty means not given; anything else has to be a positive number
+const parsePositive = (value: string) => {
+  if (!value.trim()) return null;
+  const parsed = Number(value.replace(',', '.'));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+export const HouseholdManager = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { t } = useI18n();
+  const [members, setMembers] = useState<HouseholdMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  // Member being edited, or null while adding
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const dietLabel = (dietType: string) => {
+    const option = DIET_OPTIONS.find(option => option.value === dietType);
+    return option ? t(option.label) : dietType;
+  };
+
+  const showError = (error: unknown) => {
+    toast({
+      title: t('common.error'),
+      description: error instanceof Error ? error.message : t('common.unknownError'),
+      variant: 'destructive',
+    });
+  };
+
+  const loadMembers = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('household_members')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setMembers(data || []);
+    } catch (error) {
+      toast({
+        title: t('common.error'),
+        description: error instanceof Error ? error.message : t('common.unknownError'),
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast, t]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+  };
+
+  const handleAllergyChange = (allergy: string, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      allergies: checked
+        ? [...prev.allergies, allergy]
+        : prev.allergies.filter(a => a !== allergy)
+    }));
+  };
+
+  const saveMember = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const heightCm = parsePositive(form.height_cm);
+    const weightKg = parsePositive(form.weight_kg);
+    const calorieTarget = parsePositive(form.calorie_target);
+    if (!form.name.trim() || heightCm === undefined || weightKg === undefined || calorieTarget === undefined) {
+      toast({
+        title: t('household.checkTitle'),
+        description: t('household.checkDescription'),
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const values = {
+      name: form.name.trim(),
+      date_of_birth: form.date_of_birth || null,
+      gender: form.gender || null,
+      height_cm: heightCm,
+      weight_kg: weightKg,
+      fitness_goal: form.fitness_goal || null,
+      activity_level: form.activity_level || null,
+      diet_type: form.diet_type || null,
+      allergies: form.allergies,
+      foods_to_avoid: form.foods_to_avoid.split(',').map(s => s.trim()).filter(Boolean),
+      calorie_target: calorieTarget === null ? null : Math.round(calorieTarget),
+    };
+
+    setSaving(true);
+    try {
+      if (editingId) {
+        const { data, error } = await supabase
+          .from('household_members')
+          .update(values)
+          .eq('id', editingId)
+          .select()
+          .single();
+
+        if (error) throw error;
+        setMembers(prev => prev.map(existing => (existing.id === editingId ? data : existing)));
+      } else {
+        const { data, error } = await supabase
+          .from('household_members')
+          .insert({ ...values, user_id: user.id })
+          .select()
+          .single();
+
+        if (error) throw error;
+        setMembers(prev => [...prev, data]);
+      }
+      resetForm();
+    } catch (error) {
+      showError(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeMember = async (member: HouseholdMember) => {
+    try {
+      const { error } = await supabase
+        .from('household_members')
+        .delete()
+        .eq('id', member.id);
+
+      if (error) throw error;
+      setMembers(prev => prev.filter(existing => existing.id !== member.id));
+      if (editingId === member.id) resetForm();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const editMember = (member: HouseholdMember) => {
+    setEditingId(member.id);
+    setForm(toForm(member));
+  };
+
+  if (loading) {
+    return (
+      <div className="card-modern mt-6">
+        <CardContent className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </CardContent>
+      </div>
+    );
+  }
+
+  return (
+    <div className="card-modern mt-6">
+      <CardHeader className="border-b border-border/20">
+        <CardTitle className="flex items-center gap-3 text-xl font-display">
+          <div className="w-8 h-8 rounded-xl bg-gradient-to-br from-primary to-primary-light flex items-center justify-center">
+            <Users className="h-4 w-4 text-primary-foreground" />
+          </div>
+          {t('household.title')}
+        </CardTitle>
+        <CardDescription>
+          {t('household.description')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6 space-y-6">
+        {members.length > 0 && (
+          <div className="space-y-3">
+            {members.map((member) => (
+              <div
+                key={member.id}
+                className="glass p-4 rounded-xl border border-border/20 hover:border-primary/30 transition-all duration-300"
+              >
+                <div className="flex items-center gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium">{member.name}</div>
+                    <div className="flex flex-wrap gap-2 mt-1">
+                      {member.diet_type && (
+                        <Badge variant="outline" className="rounded-full">
+                          {dietLabel(member.diet_type)}
+                        </Badge>
+                      )}
+                      {member.allergies.map((allergy) => (
+                        <Badge key={allergy} variant="secondary" className="rounded-full">
+                          {t(`profile.allergy.${allergy}` as TranslationKey)}
+                        </Badge>
+                      ))}
+                      {member.calorie_target && (
+                        <span className="text-xs text-muted-foreground">{t('household.caloriesPerDay', { calories: member.calorie_target })}</span>
+                      )}
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => editMember(member)}
+                    aria-label={t('household.edit', { name: member.name })}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeMember(member)}
+                    className="hover:bg-destructive/10 hover:text-destructive"
+                    aria-label={t('household.remove', { name: member.name })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={saveMember} className="space-y-4">
+          <h4 className="font-semibold text-sm uppercase tracking-wide text-muted-foreground">
+            {editingId ? t('household.editMember') : t('household.addMemberTitle')}
+          </h4>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="member_name">{t('household.name')}</Label>
+              <Input
+                id="member_name"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="member_date_of_birth">{t('profile.dateOfBirth')}</Label>
+              <Input
+                id="member_date_of_birth"
+                type="date"
+                value={form.date_of_birth}
+                onChange={(e) => setForm(prev => ({ ...prev, date_of_birth: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t('profile.gender')}</Label>
+              <Select value={form.gender} onValueChange={(value) => setForm(prev => ({ ...prev, gender: value }))}>
+                <SelectTrigger>
+                  <SelectValue placeholder={t('profile.selectGender')} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="male">{t('profile.genderMale')}</SelectItem>
+                  <SelectItem value="female">{t('profile.genderFemale')}</SelectItem>
+                  <SelectItem value="other">{t('profile.genderOther')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="member_height_cm">{t('profile.height')}</Label>
+              <Input
+                id="member_height_cm"
+                inputMode="decimal"
+                value={form.height_cm}
+                onChange={(e) => setForm(prev => ({ ...prev, height_cm: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="member_weight_kg">{t('profile.weight')}</Label>
+              <Input
+                id="member_weight_kg"
+                inputMode="decimal"
+                value={form.weight_kg}
+                onChange={(e) => setForm(prev => ({ ...prev, weight_kg: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t('profile.fitnessGoal')}</Label>
+              <Select value={form.fitness_goal} onValueChange={(value) => setForm(prev => ({ ...prev, fitness_goal: value }))}>
+                <SelectTrigger>
+                  <SelectValue placeholder={t('profile.selectFitnessGoal')} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="weight_loss">{t('profile.goal.weightLoss')}</SelectItem>
+                  <SelectItem value="maintain">{t('profile.goal.maintain')}</SelectItem>
+                  <SelectItem value="muscle_gain">{t('profile.goal.muscleGain')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t('profile.activityLevel')}</Label>
+              <Select value={form.activity_level} onValueChange={(value) => setForm(prev => ({ ...prev, activity_level: value }))}>
+                <SelectTrigger>
+                  <SelectValue placeholder={t('profile.selectActivityLevel')} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="sedentary">{t('profile.activity.sedentary')}</SelectItem>
+                  <SelectItem value="lightly_active">{t('profile.activity.lightlyActive')}</SelectItem>
+                  <SelectItem value="active">{t('profile.activity.active')}</SelectItem>
+                  <SelectItem value="very_active">{t('profile.activity.veryActive')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t('profile.dietType')}</Label>
+              <Select value={form.diet_type} onValueChange={(value) => setForm(prev => ({ ...prev, diet_type: value }))}>
+                <SelectTrigger>
+                  <SelectValue placeholder={t('household.noDiet')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {DIET_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{t(option.label)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="member_calorie_target">{t('household.calorieTarget')}</Label>
+              <Input
+                id="member_calorie_target"
+                inputMode="numeric"
+                value={form.calorie_target}
+                placeholder={t('household.calorieTargetPlaceholder')}
+                onChange={(e) => setForm(prev => ({ ...prev, calorie_target: e.target.value }))}
+              />
+              <p className="text-xs text-muted-foreground">
+                {t('household.calorieTargetHint')}
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>{t('profile.allergies')}</Label>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {ALLERGY_OPTIONS.map((allergy) => (
+                <div key={allergy} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`member_${allergy}`}
+                    checked={form.allergies.includes(allergy)}
+                    onCheckedChange={(checked) => handleAllergyChange(allergy, checked as boolean)}
+                  />
+                  <Label htmlFor={`member_${allergy}`}>{t(`profile.allergy.${allergy}` as TranslationKey)}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="member_foods_to_avoid">{t('profile.foodsToAvoid')}</Label>
+            <Input
+              id="member_foods_to_avoid"
+              value={form.foods_to_avoid}
+              placeholder={t('household.foodsToAvoidPlaceholder')}
+              onChange={(e) => setForm(prev => ({ ...prev, foods_to_avoid: e.target.value }))}
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <Button type="submit" disabled={saving} className="btn-gradient rounded-xl">
+              <Plus className="h-4 w-4 mr-2" />
+              {editingId ? t('household.saveMember') : t('household.addMember')}
+            </Button>
+            {editingId && (
+              <Button type="button" variant="outline" className="rounded-xl" onClick={resetForm}>
+                {t('common.cancel')}
+              </Button>
+            )}
+          </div>
+        </form>
+      </CardContent>
+    </div>
+  );
+};
@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useI18n } from '@/hooks/i18n-context';
+import { Plus, Tag, Trash2 } from 'lucide-react';
+import { formatMoney, IngredientPrice } from '@/lib/costs';
+import { productKey, toBaseAmount } from '@/lib/grocery';
+
+interface IngredientPricesProps {
+  prices: IngredientPrice[];
+  currency: string;
+  onChange: () => void;
+}
+
+const emptyForm = { name: '', price: '', amount: '1', unit: '' };
+
+const parsePositive = (value: string) => {
+  const parsed = Number(value.replace(',', '.'));
+  return value.trim() && Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+// The user's own ingredient prices; they override the built-in estimates
+export const IngredientPrices = ({ prices, currency, onChange }: IngredientPricesProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { language, t } = useI18n();
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const showError = (error: unknown) => {
+    toast({
+      title: t('common.error'),
+      description: error instanceof Error ? error.message : t('common.unknownError'),
+      variant: 'destructive',
+    });
+  };
+
+  const addPrice = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const price = parsePositive(form.price);
+    const amount = parsePositive(form.amount);
+    if (!form.name.trim() || price === null || !amount) {
+      toast({
+        title: t('prices.checkTitle'),
+        description: t('prices.checkDescription'),
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const row = {
+      user_id: user.id,
+      name: form.name.trim(),
+      price,
+      amount,
+      unit: form.unit.trim() || 'piece',
+      currency,
+    };
+    // Entering a product again with the same kind of unit updates its price
+    const existing = prices.find(entry =>
+      productKey(entry.name) === productKey(row.name) &&
+      toBaseAmount(1, entry.unit).group === toBaseAmount(1, row.unit).group
+    );
+
+    setSaving(true);
+    try {
+      const { error } = existing
+        ? await supabase.from('ingredient_prices').update(row).eq('id', existing.id)
+        : await supabase.from('ingredient_prices').insert(row);
+
+      if (error) throw error;
+      setForm(emptyForm);
+      onChange();
+    } catch (error) {
+      showError(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removePrice = async (price: IngredientPrice) => {
+    try {
+      const { error } = await supabase
+        .from('ingredient_prices')
+        .delete()
+        .eq('id', price.id);
+
+      if (error) throw error;
+      onChange();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  return (
+    <div className="card-modern">
+      <CardHeader className="border-b border-border/20">
+        <CardTitle className="flex items-center gap-3 text-xl font-display">
+          <div className="w-8 h-8 rounded-xl bg-gradient-to-br from-primary to-primary-light flex items-center justify-center">
+            <Tag className="h-4 w-4 text-primary-foreground" />
+          </div>
+          {t('prices.title')}
+        </CardTitle>
+        <CardDescription>
+          {currency === 'USD' ? t('prices.descriptionUsd') : t('prices.descriptionOther', { currency })}
+          {language !== 'en' && ` ${t('prices.englishNames')}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        <form onSubmit={addPrice} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="price_name">{t('prices.ingredient')}</Label>
+            <Input
+              id="price_name"
+              value={form.name}
+              placeholder={t('prices.ingredientPlaceholder')}
+              onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="price_value">{t('prices.price', { currency })}</Label>
+            <Input
+              id="price_value"
+              inputMode="decimal"
+              value={form.price}
+              placeholder="2.50"
+              onChange={(e) => setForm(prev => ({ ...prev, price: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="price_amount">{t('prices.for')}</Label>
+            <div className="flex gap-2">
+              <Input
+                id="price_amount"
+                inputMode="decimal"
+                value={form.amount}
+                onChange={(e) => setForm(prev => ({ ...prev, amount: e.target.value }))}
+              />
+              <Input
+                aria-label={t('common.unit')}
+                value={form.unit}
+                placeholder="kg"
+                className="w-20"
+                onChange={(e) => setForm(prev => ({ ...prev, unit: e.target.value }))}
+              />
+            </div>
+          </div>
+          <Button type="submit" disabled={saving} className="btn-gradient rounded-xl">
+            <Plus className="h-4 w-4 mr-2" />
+            {t('prices.save')}
+          </Button>
+        </form>
+
+        {prices.length > 0 && (
+          <div className="space-y-2">
+            {prices.map((price) => (
+              <div key={price.id} className="glass p-3 rounded-xl border border-border/20 flex items-center gap-4">
+                <div className="flex-1 min-w-0 font-medium">{price.name}</div>
+                <div className="text-sm text-muted-foreground">
+                  {t('prices.priceFor', {
+                    price: formatMoney(price.price, price.currency, language),
+                    amount: price.amount,
+                    unit: price.unit,
+                  })}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removePrice(price)}
+                  className="hover:bg-destructive/10 hover:text-destructive"
+                  aria-label={t('prices.remove', { name: price.name })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </div>
+  );
+};
@@ -7,7 +7,11 @@ import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { CalendarIcon, Clock, Bell, Plus } from 'lucide-react';
-import { format, startOfWeek, addDays, isSunday } from 'date-fns';
+import { format } from 'date-fns';
+import { deviceTimeZone, formatDateTime, isLastDayOfWeek, planDayOn, todayIsoDate, toIsoDate } from '@/lib/dates';
+import { useWeekStart } from '@/hooks/useWeekStart';
+import { useTimeZone } from '@/hooks/useTimeZone';
+import { useI18n } from '@/hooks/i18n-context';
 
 interface MealCalendarProps {
   currentMealPlan: any;
@@ -26,6 +30,9 @@ export const MealCalendar = ({ currentMealPlan }: MealCalendarProps) => {
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [loading, setLoading] = useState(false);
+  const weekStartsOn = useWeekStart();
+  const timeZone = useTimeZone();
+  const { language, t, mealType, dateLocale } = useI18n();
 
   useEffect(() => {
     loadNotifications();
@@ -52,8 +59,8 @@ export const MealCalendar = ({ currentMealPlan }: MealCalendarProps) => {
   const generateWeeklyReminders = async () => {
     if (!currentMealPlan?.plan_data) {
       toast({
-        title: 'No meal plan',
-        description: 'Generate a meal plan first to create reminders.',
+        title: t('calendar.noPlan'),
+        description: t('calendar.noPlanDescription'),
         variant: 'destructive',
       });
       return;
@@ -61,103 +68,25 @@ export const MealCalendar = ({ currentMealPlan }: MealCalendarProps) => {
 
     setLoading(true);
     try {
-      // Get user preferences for meal times
-      const { data: preferences } = await supabase
-        .from('diet_preferences')
-        .select('meal_times, reminder_tone')
-        .eq('user_id', user?.id)
-        .single();
-
-      const mealTimes = preferences?.meal_times || {
-        breakfast: '08:00',
-        lunch: '12:00',
-        dinner: '18:00',
-      };
-
-      const reminderTone = preferences?.reminder_tone || 'motivational';
-
-      // Generate notifications for each day and meal
-      const newNotifications = [];
-      const weekStart = startOfWeek(new Date(), { weekStartsOn: 1 }); // Monday
-
-      for (const day of currentMealPlan.plan_data.days) {
-        const dayDate = addDays(weekStart, day.day - 1);
-        
-        for (const meal of day.meals) {
-          const mealType = meal.type.toLowerCase();
-          const mealTime = mealTimes[mealType] || '12:00';
-          
-          // Create scheduled time for the meal
-          const [hours, minutes] = mealTime.split(':');
-          const scheduledTime = new Date(dayDate);
-          scheduledTime.setHours(parseInt(hours), parseInt(minutes), 0, 0);
-
-          // Prep reminder (1 hour before)
-          const prepTime = new Date(scheduledTime);
-          prepTime.setHours(prepTime.getHours() - 1);
-
-          // Different messages based on reminder tone
-          let prepMessage, mealMessage;
-          
-          switch (reminderTone) {
-            case 'funny':
-              prepMessage = `🍳 Time to channel your inner chef! Get ready to make ${meal.name}`;
-              mealMessage = `🍽️ Your stomach is calling - ${meal.name} is ready to be devoured!`;
-              break;
-            case 'gentle':
-              prepMessage = `🌿 Gentle reminder: It's time to start preparing ${meal.name}`;
-              mealMessage = `🍃 Time for your ${meal.type.toLowerCase()}. Enjoy your ${meal.name}`;
-              break;
-            default: // motivational
-              prepMessage = `💪 Fuel your body! Time to prep ${meal.name}`;
-              mealMessage = `🌟 Your day gets better when you eat well. It's time for ${meal.name}!`;
-          }
-
-          newNotifications.push({
-            user_id: user?.id,
-            meal_plan_id: currentMealPlan.id,
-            message: prepMessage,
-            scheduled_time: prepTime.toISOString(),
-            is_sent: false,
-          });
-
-          newNotifications.push({
-            user_id: user?.id,
-            meal_plan_id: currentMealPlan.id,
-            message: mealMessage,
-            scheduled_time: scheduledTime.toISOString(),
-            is_sent: false,
-          });
-        }
-      }
-
-      // Add Sunday regeneration reminder
-      const nextSunday = addDays(weekStart, 6);
-      nextSunday.setHours(10, 0, 0, 0);
-      
-      newNotifications.push({
-        user_id: user?.id,
-        meal_plan_id: currentMealPlan.id,
-        message: "🗓️ Ready for your next week's plan? Time to regenerate your meal plan!",
-        scheduled_time: nextSunday.toISOString(),
-        is_sent: false,
+      // Reminder times are worked out on the server in the profile's time zone,
+      // or the device's while the profile has none saved
+      const { data, error } = await supabase.functions.invoke('schedule-reminders', {
+        body: { mealPlanId: currentMealPlan.id, timeZone: deviceTimeZone() }
       });
-
-      // Save all notifications
-      const { error } = await supabase
-        .from('notifications')
-        .insert(newNotifications);
-
-      if (error) throw error;
+      if (error) {
+        // Non-2xx responses keep the JSON body on error.context
+        const body = await error.context?.json?.().catch(() => null);
+        throw new Error(body?.error || error.message);
+      }
 
       loadNotifications();
       toast({
-        title: 'Success!',
-        description: `${newNotifications.length} reminders created for your meal plan.`,
+        title: t('common.success'),
+        description: t('calendar.remindersCreated', { count: data.count }),
       });
     } catch (error: any) {
       toast({
-        title: 'Error',
+        title: t('common.error'),
         description: error.message,
         variant: 'destructive',
       });
@@ -178,12 +107,12 @@ export const MealCalendar = ({ currentMealPlan }: MealCalendarProps) => {
 
       loadNotifications();
       toast({
-        title: 'Success',
-        description: 'Old notifications cleared.',
+        title: t('common.success'),
+        description: t('calendar.cleared'),
       });
     } catch (error: any) {
       toast({
-        title: 'Error',
+        title: t('common.error'),
         description: error.message,
         variant: 'destructive',
       });
@@ -193,9 +122,8 @@ export const MealCalendar = ({ currentMealPlan }: MealCalendarProps) => {
   const getSelectedDateMeals = () => {
     if (!currentMealPlan?.plan_data) return [];
 
-    const weekStart = startOfWeek(new Date(), { weekStartsOn: 1 });
-    const daysDiff = Math.floor((selectedDate.getTime() - weekStart.getTime()) / (1000 * 60 * 60 * 24));
-    const dayNumber = daysDiff + 1;
+    const dayNumber = planDayOn(currentMealPlan, toIsoDate(selectedDate), timeZone);
+    if (dayNumber === null) return [];
 
     const day = currentMealPlan.plan_data.days?.find((d: any) => d.day === dayNumber);
     return day?.meals || [];
@@ -209,18 +137,18 @@ export const MealCalendar = ({ currentMealPlan }: MealCalendarProps) => {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <div>
-          <h2 className="text-2xl font-bold">Meal Calendar & Reminders</h2>
+          <h2 className="text-2xl font-bold">{t('calendar.title')}</h2>
           <p className="text-muted-foreground">
-            Schedule and track your meal times
+            {t('calendar.subtitle')}
           </p>
         </div>
         <div className="flex gap-2">
           <Button variant="outline" onClick={clearOldNotifications}>
-            Clear Old
+            {t('calendar.clearOld')}
           </Button>
           <Button onClick={generateWeeklyReminders} disabled={loading}>
             <Plus className="h-4 w-4 mr-2" />
-            {loading ? 'Creating...' : 'Create Reminders'}
+            {loading ? t('calendar.creating') : t('calendar.createReminders')}
           </Button>
         </div>
       </div>
@@ -231,10 +159,10 @@ export const MealCalendar = ({ currentMealPlan }: MealCalendarProps) => {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <CalendarIcon className="h-5 w-5" />
-              Meal Calendar
+              {t('calendar.calendarTitle')}
             </CardTitle>
             <CardDescription>
-              Select a date to view your planned meals
+              {t('calendar.calendarDescription')}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -242,6 +170,10 @@ export const MealCalendar = ({ currentMealPlan }: MealCalendarProps) => {
               mode="single"
               selected={selectedDate}
               onSelect={(date) => date && setSelectedDate(date)}
+              weekStartsOn={weekStartsOn as 0 | 1 | 2 | 3 | 4 | 5 | 6}
+              locale={dateLocale}
+              modifiers={{ planned: (date) => Boolean(currentMealPlan?.plan_data) && planDayOn(currentMealPlan, toIsoDate(date), timeZone) !== null }}
+              modifiersClassNames={{ planned: 'font-semibold text-primary' }}
               className="rounded-md border w-full"
             />
           </CardContent>
@@ -251,19 +183,19 @@ export const MealCalendar = ({ currentMealPlan }: MealCalendarProps) => {
         <Card>
           <CardHeader>
             <CardTitle>
-              Meals for {format(selectedDate, 'MMMM d, yyyy')}
+              {t('calendar.mealsFor', { date: format(selectedDate, 'PPP', { locale: dateLocale }) })}
             </CardTitle>
           </CardHeader>
           <CardContent>
             {getSelectedDateMeals().length === 0 ? (
               <p className="text-muted-foreground text-center py-8">
-                No meals planned for this date
+                {t('calendar.noMeals')}
               </p>
             ) : (
               <div className="space-y-4">
                 {getSelectedDateMeals().map((meal: any, index: number) => (
                   <div key={index} className="flex items-center gap-3 p-3 rounded-lg border">
-                    <Badge variant="outline">{meal.type}</Badge>
+                    <Badge variant="outline">{mealType(meal.type)}</Badge>
                     <div className="flex-1">
                       <div className="font-medium">{meal.name}</div>
                       <div className="text-sm text-muted-foreground">
@@ -283,16 +215,16 @@ export const MealCalendar = ({ currentMealPlan }: MealCalendarProps) => {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Bell className="h-5 w-5" />
-            Upcoming Reminders
+            {t('calendar.upcomingTitle')}
           </CardTitle>
           <CardDescription>
-            Your scheduled meal notifications
+            {t('calendar.upcomingDescription')}
           </CardDescription>
         </CardHeader>
         <CardContent>
           {upcomingNotifications.length === 0 ? (
             <p className="text-muted-foreground text-center py-8">
-              No upcoming reminders. Create some reminders for your meal plan!
+              {t('calendar.noReminders')}
             </p>
           ) : (
             <div className="space-y-3">
@@ -302,7 +234,7 @@ export const MealCalendar = ({ currentMealPlan }: MealCalendarProps) => {
                   <div className="flex-1">
                     <div className="font-medium">{notification.message}</div>
                     <div className="text-sm text-muted-foreground">
-                      {format(new Date(notification.scheduled_time), 'MMM d, h:mm a')}
+                      {formatDateTime(notification.scheduled_time, timeZone, language)}
                     </div>
                   </div>
                 </div>
@@ -312,18 +244,18 @@ export const MealCalendar = ({ currentMealPlan }: MealCalendarProps) => {
         </CardContent>
       </Card>
 
-      {/* Sunday Regeneration Notice */}
-      {isSunday(new Date()) && (
+      {/* Planning notice on the last day of the user's week */}
+      {isLastDayOfWeek(todayIsoDate(timeZone), weekStartsOn) && (
         <Card className="border-primary">
           <CardHeader>
-            <CardTitle className="text-primary">🗓️ Weekly Planning Day!</CardTitle>
+            <CardTitle className="text-primary">{t('calendar.planningDayTitle')}</CardTitle>
             <CardDescription>
-              It's Sunday - the perfect time to plan your upcoming week's meals
+              {t('calendar.planningDayDescription')}
             </CardDescription>
           </CardHeader>
           <CardContent>
             <Button className="w-full" onClick={() => window.location.reload()}>
-              Generate Next Week's Plan
+              {t('calendar.generateNextWeek')}
             </Button>
           </CardContent>
         </Card>
@@ -1,154 +1,252 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { ChefHat, Clock, ShoppingCart, Play, Utensils, Star } from 'lucide-react';
+import { ChefHat, Clock, ShoppingCart, Utensils, Star, Flame, ShieldCheck, RefreshCw, Wallet, Repeat, Layers, BookOpen } from 'lucide-react';
+import { getDayTotals, getTargetProgress, hasMacros, NutritionTargets } from '@/lib/nutrition';
+import { readEventStream } from '@/lib/sse';
+import { formatIngredient, formatQuantity, PlanIngredient } from '@/lib/ingredients';
+import { budgetForDays, estimateMealCost, formatMoney } from '@/lib/costs';
+import { usePriceTable } from '@/hooks/usePriceTable';
+import { BatchMeal, isLeftovers, mealServings, scaleIngredient } from '@/lib/leftovers';
+import { formatPortions, planPortions } from '@/lib/household';
+import { deviceTimeZone, parseIsoDate, planDayDate, planDayOn, todayIsoDate } from '@/lib/dates';
+import { useMealRatings } from '@/hooks/useMealRatings';
+import { useTimeZone } from '@/hooks/useTimeZone';
+import { useI18n } from '@/hooks/i18n-context';
+import { Language } from '@/lib/i18n';
+import { MealRating } from '@/components/MealRating';
+import { formatCookingTime } from '@/lib/cooking';
+import { RecipeDetailDialog, RecipeMeal } from '@/components/RecipeDetailDialog';
+
+interface GenerationQuota {
+  limit: number;
+  used: number;
+  remaining: number;
+  retry_after: number;
+}
+
+// Cost of the plan as estimated when it was generated
+interface CostEstimate {
+  currency: string;
+  total: number;
+  budget: number | null;
+  over_budget: boolean;
+}
+
+interface GenerationResult {
+  success: boolean;
+  mealPlan: any;
+  planData: any;
+  costEstimate?: CostEstimate;
+  generation?: { path: string };
+  quota?: GenerationQuota;
+}
+
+// Payloads of the start, day, complete and error events sent by generate-meal-plan
+interface GenerationStreamData extends Partial<GenerationResult> {
+  total?: number;
+  index?: number;
+  day?: unknown;
+  error?: string;
+  jobId?: string;
+  job?: { id: string; status: string };
+}
+
+// "in 45 seconds", "in 3 minutes", "in 2 hours", in the given language
+const formatRetryAfter = (seconds: number, language: Language) => {
+  const relative = new Intl.RelativeTimeFormat(language, { numeric: 'always' });
+  if (seconds < 60) return relative.format(seconds, 'second');
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return relative.format(minutes, 'minute');
+  return relative.format(Math.ceil(minutes / 60), 'hour');
+};
 
 interface MealPlanViewerProps {
   currentMealPlan: any;
   onMealPlanGenerated: (mealPlan: any) => void;
+  onGenerationJob?: (jobId: string) => void;
 }
 
-export const MealPlanViewer = ({ currentMealPlan, onMealPlanGenerated }: MealPlanViewerProps) => {
+export const MealPlanViewer = ({ currentMealPlan, onMealPlanGenerated, onGenerationJob }: MealPlanViewerProps) => {
   const { user } = useAuth();
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
+  const [swappingMeal, setSwappingMeal] = useState<string | null>(null);
+  const [recipeMeal, setRecipeMeal] = useState<RecipeMeal | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [quota, setQuota] = useState<GenerationQuota | null>(null);
+  // Reused when a request fails before the server answers, so a retry cannot start a second generation
+  const idempotencyKeyRef = useRef<string | null>(null);
   const [planData, setPlanData] = useState<any>(null);
   const [defaultTab, setDefaultTab] = useState<string>('day-1');
+  const nutritionTargets = currentMealPlan?.nutrition_targets as NutritionTargets | undefined;
+  const allergenViolations: { resolution: string; day: number; meal_name: string }[] = currentMealPlan?.allergen_violations || [];
+  const { lookup: priceLookup, currency, weeklyBudget } = usePriceTable();
+  const { getRating, rateMeal } = useMealRatings();
+  const timeZone = useTimeZone();
+  const { language, t, mealType } = useI18n();
+  // Every serving is cooked for the whole household
+  const portions = planPortions(planData);
+  const cookedServings = (meal: BatchMeal) => mealServings(meal) * portions;
+
+  // Load how many generations are left today
+  const loadQuota = async () => {
+    const { data, error } = await supabase.functions.invoke('generate-meal-plan', {
+      body: { action: 'quota' }
+    });
+    if (error) {
+      console.error('Error loading generation quota:', error);
+      return;
+    }
+    if (data?.quota) setQuota(data.quota);
+  };
 
-  // Helper: Get start of week (Sunday)
-  function getStartOfWeek(date: Date) {
-    const d = new Date(date);
-    d.setHours(0, 0, 0, 0);
-    d.setDate(d.getDate() - d.getDay()); // Sunday = 0
-    return d;
-  }
-
-  // Helper: Format date as yyyy-mm-dd
-  function formatDate(date: Date) {
-    return date.toISOString().split('T')[0];
-  }
+  useEffect(() => {
+    if (user) loadQuota();
+  }, [user]);
 
-  // On planData or currentMealPlan change, update planData with correct dates and set default tab
+  // On currentMealPlan change, date every day from the plan's start and open today's tab
   useEffect(() => {
     if (currentMealPlan?.plan_data) {
-      // Find the week start (Sunday) for the meal plan
-      let weekStart: Date;
-      if (currentMealPlan.week_start_date) {
-        weekStart = new Date(currentMealPlan.week_start_date);
-      } else {
-        weekStart = getStartOfWeek(new Date());
-      }
-
-      // Map days to add correct date
-      const daysWithDates = currentMealPlan.plan_data.days?.map((day: any, idx: number) => {
-        const dayDate = new Date(weekStart);
-        dayDate.setDate(weekStart.getDate() + idx); // idx: 0=Sunday, 1=Monday, ...
-        return {
-          ...day,
-          date: formatDate(dayDate),
-        };
-      });
+      const daysWithDates = currentMealPlan.plan_data.days?.map((day: any) => ({
+        ...day,
+        date: planDayDate(currentMealPlan, day.day, timeZone),
+      }));
 
       setPlanData({ ...currentMealPlan.plan_data, days: daysWithDates });
-
-      // Set default tab to today (relative to week start)
-      const today = new Date();
-      const todayIdx = (today.getDay()); // 0=Sunday, 1=Monday, ...
-      setDefaultTab(`day-${todayIdx + 1}`); // Day 1 = Sunday
+      setDefaultTab(`day-${planDayOn(currentMealPlan, todayIsoDate(timeZone), timeZone) ?? 1}`);
     }
-  }, [currentMealPlan]);
-
-  
+  }, [currentMealPlan, timeZone]);
 
   const generateMealPlan = async () => {
     setLoading(true);
     try {
-      console.log('Fetching user preferences...');
-      // Get user preferences
-      const { data: preferences, error: prefError } = await supabase
-        .from('diet_preferences')
-        .select('*')
-        .eq('user_id', user?.id)
-        .single();
-
-      if (prefError) {
-        console.error('Error fetching preferences:', prefError);
-        throw new Error('Failed to load your preferences. Please try again.');
-      }
-
-      if (!preferences) {
-        const errorMsg = 'No preferences found. Please complete your profile first.';
-        console.error(errorMsg);
-        toast({
-          title: 'Profile Incomplete',
-          description: errorMsg,
-          variant: 'destructive',
-        });
-        return;
-      }
-
-      console.log('Preferences loaded:', JSON.stringify(preferences, null, 2));
       console.log('Calling generate-meal-plan Edge Function...');
       
+      let jobId: string | undefined;
+      let jobStatus: string | undefined;
       try {
-        // Call the edge function with timeout
-        const response = await Promise.race([
-          supabase.functions.invoke('generate-meal-plan', {
-            body: { preferences }
-          }),
-          new Promise((_, reject) => 
-            setTimeout(() => reject(new Error('Request timed out after 20s')), 20000)
-          )
-        ]) as { data: any, error: any };
-
-        console.log('Edge Function response:', response);
-
-        if (response.error) {
-          console.error('Edge Function returned an error:', response.error);
-          throw new Error(response.error.message || 'Failed to generate meal plan');
+        // The function loads preferences itself; ask for a streamed response so
+        // days appear as soon as they are ready
+        const idempotencyKey = idempotencyKeyRef.current ?? crypto.randomUUID();
+        idempotencyKeyRef.current = idempotencyKey;
+        const { data, error } = await supabase.functions.invoke('generate-meal-plan', {
+          // The device's zone is only used while the profile has none saved
+          body: { stream: true, idempotencyKey, timeZone: deviceTimeZone() }
+        });
+
+        if (error) {
+          console.error('Edge Function returned an error:', error);
+          // Non-2xx responses keep the JSON body on error.context
+          const body = await error.context?.json?.().catch(() => null);
+          if (body) idempotencyKeyRef.current = null;
+          if (body?.quota) setQuota(body.quota);
+          if (body?.job) {
+            jobId = body.job.id;
+            jobStatus = body.job.status;
+          }
+          if (error.context?.status === 429) {
+            throw new Error(t('mealPlan.limitReached', { retry: formatRetryAfter(body?.quota?.retry_after || 60, language) }));
+          }
+          throw new Error(body?.error || error.message || t('dashboard.generateFailed'));
         }
 
-        if (!response.data) {
-          throw new Error('No data returned from the server');
+        if (!data) {
+          throw new Error(t('mealPlan.noData'));
         }
 
-        if (response.data.success) {
-          console.log('Meal plan generated successfully:', response.data.mealPlan);
-          setPlanData(response.data.planData);
-          onMealPlanGenerated(response.data.mealPlan);
-          toast({
-            title: 'Success!',
-            description: 'Your meal plan has been generated.',
+        let result: GenerationResult | null = null;
+        if (data instanceof Response) {
+          const streamedDays: unknown[] = [];
+          await readEventStream<GenerationStreamData>(data, ({ event, data: payload }) => {
+            if (event === 'start') {
+              jobId = payload.jobId;
+              if (payload.quota) setQuota(payload.quota);
+              setProgress({ done: 0, total: payload.total });
+            } else if (event === 'day') {
+              streamedDays.push(payload.day);
+              setPlanData({ days: [...streamedDays] });
+              setProgress({ done: payload.index + 1, total: payload.total });
+            } else if (event === 'complete') {
+              result = payload as GenerationResult;
+            } else if (event === 'error') {
+              idempotencyKeyRef.current = null;
+              jobStatus = payload.job?.status;
+              throw new Error(payload.error || t('dashboard.generateFailed'));
+            }
           });
         } else {
-          console.error('Unexpected response format:', response.data);
-          throw new Error('Unexpected response from the server');
+          result = data as GenerationResult;
         }
-      } catch (edgeError: any) {
+
+        if (result?.quota) setQuota(result.quota);
+        if (result?.success) {
+          idempotencyKeyRef.current = null;
+          console.log('Meal plan generated successfully:', result.mealPlan);
+          setPlanData(result.planData);
+          onMealPlanGenerated(result.mealPlan);
+          if (result.costEstimate?.over_budget) {
+            const { total, budget, currency: planCurrency } = result.costEstimate;
+            toast({
+              title: t('mealPlan.overBudgetTitle'),
+              description: t('mealPlan.overBudgetDescription', {
+                total: formatMoney(total, planCurrency, language),
+                budget: formatMoney(budget, planCurrency, language),
+              }),
+            });
+          } else if (result.generation?.path === 'fallback') {
+            toast({
+              title: t('mealPlan.fallbackTitle'),
+              description: t('mealPlan.fallbackDescription'),
+            });
+          } else {
+            toast({
+              title: t('common.success'),
+              description: t('dashboard.planGenerated'),
+            });
+          }
+        } else {
+          console.error('Unexpected response format:', result);
+          throw new Error(t('mealPlan.unexpectedResponse'));
+        }
+      } catch (edgeError) {
         console.error('Edge Function call failed:', edgeError);
-        throw new Error(`Failed to generate meal plan: ${edgeError.message}`);
+        if (jobId) {
+          // The job is tracked server-side, so the dashboard can follow it from here
+          onGenerationJob?.(jobId);
+          if (jobStatus !== 'failed') {
+            toast({
+              title: t('mealPlan.stillGeneratingTitle'),
+              description: t('mealPlan.stillGeneratingDescription'),
+            });
+            return;
+          }
+        }
+        throw new Error(t('mealPlan.generateFailedReason', { reason: edgeError.message }));
       }
     } catch (error: any) {
       toast({
-        title: 'Error',
-        description: error.message || 'Failed to generate meal plan',
+        title: t('common.error'),
+        description: error.message || t('dashboard.generateFailed'),
         variant: 'destructive',
       });
     } finally {
       setLoading(false);
+      setProgress(null);
     }
   };
 
   const addIngredientsToGroceryList = async (meal: any, mealPlanId: string | undefined) => {
     if (!meal.ingredients || meal.ingredients.length === 0) {
       toast({
-        title: 'No ingredients',
-        description: 'This meal has no ingredients to add.',
+        title: t('mealPlan.noIngredientsTitle'),
+        description: t('mealPlan.noIngredientsDescription'),
         variant: 'destructive',
       });
       return;
@@ -156,8 +254,8 @@ export const MealPlanViewer = ({ currentMealPlan, onMealPlanGenerated }: MealPla
 
     if (!mealPlanId) {
       toast({
-        title: 'Error',
-        description: 'No meal plan is currently selected. Please generate or select a meal plan first.',
+        title: t('common.error'),
+        description: t('mealPlan.noPlanSelected'),
         variant: 'destructive',
       });
       return;
@@ -172,44 +270,107 @@ export const MealPlanViewer = ({ currentMealPlan, onMealPlanGenerated }: MealPla
         .single();
 
       if (mealPlanError || !mealPlan) {
-        throw new Error('The associated meal plan could not be found.');
+        throw new Error(t('mealPlan.planNotFound'));
       }
 
       if (!mealPlan.week_start_date) {
-        throw new Error('Meal plan is missing week start date.');
+        throw new Error(t('mealPlan.missingStartDate'));
       }
 
-      // Insert each ingredient as a separate grocery list item
+      // Insert each ingredient as a separate grocery list item, for the whole batch
       const { error } = await supabase
         .from('grocery_lists')
         .insert(
-          meal.ingredients.map((ingredient: string) => ({
-            user_id: user?.id,
-            week_start_date: mealPlan.week_start_date,
-            item_name: ingredient,
-            quantity: '1 unit',
-            is_purchased: false
-          }))
+          meal.ingredients.map((ingredient: PlanIngredient) => {
+            const { name, name_en, amount, unit } = scaleIngredient(ingredient, cookedServings(meal));
+            return {
+              user_id: user?.id,
+              meal_plan_id: mealPlanId,
+              week_start_date: mealPlan.week_start_date,
+              item_name: name,
+              name_en,
+              quantity: formatQuantity(amount, unit),
+              amount,
+              unit,
+              is_purchased: false
+            };
+          })
         );
 
       if (error) throw error;
 
       toast({
-        title: 'Success!',
-        description: 'Ingredients added to grocery list.',
+        title: t('common.success'),
+        description: t('mealPlan.ingredientsAdded'),
       });
     } catch (error: any) {
       console.error('Error adding to grocery list:', error);
       toast({
-        title: 'Error',
-        description: error.message || 'Failed to add ingredients to grocery list.',
+        title: t('common.error'),
+        description: error.message || t('mealPlan.ingredientsAddFailed'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const swapMeal = async (dayIndex: number, mealIndex: number) => {
+    if (!currentMealPlan?.id) {
+      toast({
+        title: t('common.error'),
+        description: t('mealPlan.noActivePlan'),
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSwappingMeal(`${dayIndex}-${mealIndex}`);
+    try {
+      const { data, error } = await supabase.functions.invoke('swap-meal', {
+        body: { mealPlanId: currentMealPlan.id, dayIndex, mealIndex }
+      });
+
+      if (error) {
+        // Non-2xx responses keep the JSON body on error.context
+        const body = await error.context?.json?.().catch(() => null);
+        if (error.context?.status === 429) {
+          throw new Error(t('mealPlan.limitReached', { retry: formatRetryAfter(body?.quota?.retry_after || 60, language) }));
+        }
+        throw new Error(body?.error || error.message || t('mealPlan.swapFailed'));
+      }
+      if (!data?.success) throw new Error(data?.error || t('mealPlan.swapFailed'));
+
+      onMealPlanGenerated(data.mealPlan);
+      toast({
+        title: t('mealPlan.swappedTitle'),
+        description: t('mealPlan.swappedDescription', { name: data.meal.name }),
+      });
+    } catch (error) {
+      console.error('Error swapping meal:', error);
+      toast({
+        title: t('common.error'),
+        description: error.message || t('mealPlan.swapFailed'),
+        variant: 'destructive',
+      });
+    } finally {
+      setSwappingMeal(null);
+    }
+  };
+
+  const rate = async (mealName: string, rating: number) => {
+    try {
+      await rateMeal(mealName, rating, currentMealPlan?.id);
+    } catch (error) {
+      console.error('Error saving meal rating:', error);
+      toast({
+        title: t('common.error'),
+        description: error.message || t('mealPlan.ratingFailed'),
         variant: 'destructive',
       });
     }
   };
 
   const getYouTubeSearchUrl = (mealName: string) => {
-    const query = encodeURIComponent(`${mealName} recipe`);
+    const query = encodeURIComponent(t('mealPlan.videoQuery', { name: mealName }));
     return `https://www.youtube.com/results?search_query=${query}`;
   };
 
@@ -230,9 +391,9 @@ export const MealPlanViewer = ({ currentMealPlan, onMealPlanGenerated }: MealPla
           <div className="w-20 h-20 mx-auto mb-6 rounded-2xl bg-gradient-to-br from-primary to-primary-light flex items-center justify-center">
             <ChefHat className="h-10 w-10 text-primary-foreground" />
           </div>
-          <CardTitle className="text-2xl font-display">Generate Your Meal Plan</CardTitle>
+          <CardTitle className="text-2xl font-display">{t('mealPlan.emptyTitle')}</CardTitle>
           <CardDescription className="text-lg mt-2">
-            Create a personalized meal plan based on your preferences and goals
+            {t('mealPlan.emptyDescription')}
           </CardDescription>
         </CardHeader>
         <CardContent className="text-center pb-8">
@@ -245,15 +406,28 @@ export const MealPlanViewer = ({ currentMealPlan, onMealPlanGenerated }: MealPla
             {loading ? (
               <>
                 <div className="animate-spin rounded-full h-5 w-5 border-2 border-primary-foreground border-t-transparent mr-3"></div>
-                Generating...
+                {t('mealPlan.generating')}
               </>
             ) : (
               <>
                 <Star className="h-5 w-5 mr-3" />
-                Generate My Meal Plan
+                {t('mealPlan.generateFirst')}
               </>
             )}
           </Button>
+          {quota && !progress && (
+            <p className="text-sm text-muted-foreground mt-4">
+              {t('mealPlan.quota', { remaining: quota.remaining, count: quota.limit })}
+            </p>
+          )}
+          {progress && (
+            <div className="mt-6 space-y-2 max-w-sm mx-auto">
+              <Progress value={(progress.done / progress.total) * 100} className="h-2" />
+              <p className="text-sm text-muted-foreground">
+                {t('mealPlan.generatingDay', { day: Math.min(progress.done + 1, progress.total), total: progress.total })}
+              </p>
+            </div>
+          )}
         </CardContent>
       </div>
     );
@@ -265,10 +439,18 @@ export const MealPlanViewer = ({ currentMealPlan, onMealPlanGenerated }: MealPla
       <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
         <div className="space-y-1">
           <h2 className="text-3xl font-display font-bold bg-gradient-to-r from-primary to-primary-light bg-clip-text text-transparent">
-            Your Meal Plan
+            {t('mealPlan.title')}
           </h2>
           <p className="text-muted-foreground">
-            {planData.days?.length || 0} days • Generated on {currentMealPlan?.created_at ? new Date(currentMealPlan.created_at).toLocaleDateString() : 'today'}
+            {t('mealPlan.days', { count: planData.days?.length || 0 })} • {currentMealPlan?.created_at
+              ? t('mealPlan.generatedOn', { date: new Date(currentMealPlan.created_at).toLocaleDateString(language) })
+              : t('mealPlan.generatedToday')}
+            {typeof currentMealPlan?.variety_score === 'number' && ` • ${t('mealPlan.variety', { score: currentMealPlan.variety_score })}`}
+            {planData.household && ` • ${t('mealPlan.cookingFor', {
+              count: planData.household.members.length,
+              portions: formatPortions(portions, t),
+            })}`}
+            {quota && ` • ${t('mealPlan.quota', { remaining: quota.remaining, count: quota.limit })}`}
           </p>
         </div>
         <Button 
@@ -279,17 +461,73 @@ export const MealPlanViewer = ({ currentMealPlan, onMealPlanGenerated }: MealPla
           {loading ? (
             <>
               <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary-foreground border-t-transparent mr-2"></div>
-              Regenerating...
+              {t('mealPlan.regenerating')}
             </>
           ) : (
             <>
               <Star className="h-4 w-4 mr-2" />
-              Generate New Plan
+              {t('mealPlan.generateNew')}
             </>
           )}
         </Button>
       </div>
 
+      {progress && (
+        <div className="glass p-4 rounded-2xl border border-border/20 space-y-2">
+          <div className="flex justify-between text-sm">
+            <span className="font-medium">
+              {t('mealPlan.generatingDay', { day: Math.min(progress.done + 1, progress.total), total: progress.total })}
+            </span>
+            <span className="text-muted-foreground">{t('mealPlan.ready', { done: progress.done, total: progress.total })}</span>
+          </div>
+          <Progress value={(progress.done / progress.total) * 100} className="h-2" />
+        </div>
+      )}
+
+      {/* Estimated grocery cost compared to the budget */}
+      {(() => {
+        const dayCosts = (planData.days || []).map((day) =>
+          (day.meals || []).reduce((sum: number, meal) => sum + estimateMealCost(meal.ingredients, priceLookup).cost * cookedServings(meal), 0)
+        );
+        const total = dayCosts.reduce((sum: number, cost: number) => sum + cost, 0);
+        if (!total) return null;
+        const budget = budgetForDays(weeklyBudget, dayCosts.length);
+        const overBudget = budget !== null && total > budget;
+        return (
+          <div className={`glass p-4 rounded-2xl border flex items-start gap-3 text-sm ${overBudget ? 'border-destructive/30' : 'border-border/20'}`}>
+            <Wallet className={`h-5 w-5 flex-shrink-0 ${overBudget ? 'text-destructive' : 'text-primary'}`} />
+            <p className="text-muted-foreground">
+              {budget === null
+                ? t('mealPlan.estimatedCost', { total: formatMoney(total, currency, language) })
+                : t('mealPlan.estimatedCostOfBudget', {
+                  total: formatMoney(total, currency, language),
+                  budget: formatMoney(budget, currency, language),
+                  count: dayCosts.length,
+                })}
+              {overBudget && ` ${t('mealPlan.overBy', { amount: formatMoney(total - budget, currency, language) })}`}
+            </p>
+          </div>
+        );
+      })()}
+
+      {/* Meals adjusted by the allergen guard */}
+      {allergenViolations.length > 0 && (() => {
+        const countMeals = (resolution: string) =>
+          new Set(allergenViolations.filter(v => v.resolution === resolution).map(v => `${v.day}:${v.meal_name}`)).size;
+        const replaced = countMeals('regenerated') + countMeals('substituted');
+        const removed = countMeals('removed');
+        return (
+          <div className="glass p-4 rounded-2xl border border-border/20 flex items-start gap-3 text-sm">
+            <ShieldCheck className="h-5 w-5 text-primary flex-shrink-0" />
+            <p className="text-muted-foreground">
+              {t('mealPlan.allergenIntro')}
+              {replaced > 0 && ` ${t('mealPlan.allergenReplaced', { count: replaced })}`}
+              {removed > 0 && ` ${t('mealPlan.allergenRemoved', { count: removed })}`}
+            </p>
+          </div>
+        );
+      })()}
+
       <Tabs defaultValue={defaultTab} className="w-full">
         {/* Modern Pill-shaped Day Tabs */}
         <div className="flex justify-center mb-8">
@@ -300,28 +538,69 @@ export const MealPlanViewer = ({ currentMealPlan, onMealPlanGenerated }: MealPla
                 value={`day-${day.day}`}
                 className="pill-tab"
               >
-                Day {day.day}
+                {t('mealPlan.day', { day: day.day })}
               </TabsTrigger>
             ))}
           </TabsList>
         </div>
         
-        {planData.days?.map((day: any) => (
+        {planData.days?.map((day: any, dayIndex: number) => (
           <TabsContent key={day.day} value={`day-${day.day}`} className="space-y-6 animate-scale-in">
             {/* Day Header */}
             <div className="glass p-4 rounded-2xl border border-border/20 text-center">
               <h3 className="font-display text-xl font-semibold mb-2">
-                Day {day.day}
+                {t('mealPlan.day', { day: day.day })}
               </h3>
               <div className="flex items-center justify-center gap-4 text-sm text-muted-foreground">
-                <Badge variant="outline" className="rounded-full px-3 py-1">
-                  {new Date(day.date).toLocaleDateString()}
-                </Badge>
+                {day.date && (
+                  <Badge variant="outline" className="rounded-full px-3 py-1">
+                    {parseIsoDate(day.date).toLocaleDateString(language, { weekday: 'long', month: 'short', day: 'numeric' })}
+                  </Badge>
+                )}
                 <Badge className="rounded-full px-3 py-1 bg-primary/10 text-primary border-primary/20">
                   <Utensils className="h-3 w-3 mr-1" />
-                  {day.meals?.length || 0} meals
+                  {t('mealPlan.meals', { count: day.meals?.length || 0 })}
                 </Badge>
+                {(() => {
+                  const dayCost = (day.meals || []).reduce(
+                    (sum: number, meal) => sum + estimateMealCost(meal.ingredients, priceLookup).cost * cookedServings(meal), 0
+                  );
+                  return dayCost > 0 ? (
+                    <Badge variant="outline" className="rounded-full px-3 py-1">
+                      <Wallet className="h-3 w-3 mr-1" />
+                      ~{formatMoney(dayCost, currency, language)}
+                    </Badge>
+                  ) : null;
+                })()}
               </div>
+
+              {/* Daily totals compared to the plan's nutrition targets */}
+              {hasMacros(day.meals) && (() => {
+                const totals = getDayTotals(day.meals);
+                const rows = [
+                  { label: t('nutrition.calories'), value: totals.calories, target: nutritionTargets?.calories, unit: 'kcal' },
+                  { label: t('nutrition.protein'), value: totals.protein_g, target: nutritionTargets?.protein_g, unit: 'g' },
+                  { label: t('nutrition.carbs'), value: totals.carbs_g, target: nutritionTargets?.carbs_g, unit: 'g' },
+                  { label: t('nutrition.fat'), value: totals.fat_g, target: nutritionTargets?.fat_g, unit: 'g' },
+                ];
+                return (
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4 text-left">
+                    {rows.map((row) => (
+                      <div key={row.label} className="space-y-1">
+                        <div className="flex justify-between text-xs text-muted-foreground">
+                          <span>{row.label}</span>
+                          <span>
+                            {row.value}{row.target ? ` / ${row.target}` : ''} {row.unit}
+                          </span>
+                        </div>
+                        {row.target ? (
+                          <Progress value={getTargetProgress(row.value, row.target)} className="h-1.5" />
+                        ) : null}
+                      </div>
+                    ))}
+                  </div>
+                );
+              })()}
             </div>
             
             {/* Meal Cards Grid */}
@@ -336,7 +615,7 @@ export const MealPlanViewer = ({ currentMealPlan, onMealPlanGenerated }: MealPla
                         <Utensils className="h-8 w-8 text-primary" />
                       </div>
                       <Badge className={`${getMealTypeClass(meal.type)} rounded-full px-3 py-1 font-medium`}>
-                        {meal.type}
+                        {mealType(meal.type)}
                       </Badge>
                     </div>
                   </div>
@@ -347,34 +626,86 @@ export const MealPlanViewer = ({ currentMealPlan, onMealPlanGenerated }: MealPla
                     </CardTitle>
                     <CardDescription className="flex items-center gap-2">
                       <Clock className="h-4 w-4" />
-                      Perfect for {meal.type.toLowerCase()}
+                      {isLeftovers(meal)
+                        ? t('mealPlan.justReheat')
+                        : formatCookingTime(meal, t) || t('mealPlan.perfectFor', { type: mealType(meal.type, true) })}
                     </CardDescription>
+                    {meal.macros && (
+                      <div className="flex flex-wrap gap-2 pt-1 text-xs text-muted-foreground">
+                        <span className="flex items-center gap-1 font-medium text-foreground">
+                          <Flame className="h-3 w-3 text-primary" />
+                          {Math.round(meal.macros.calories)} kcal
+                        </span>
+                        <span>{t('nutrition.proteinShort', { grams: Math.round(meal.macros.protein_g) })}</span>
+                        <span>{t('nutrition.carbsShort', { grams: Math.round(meal.macros.carbs_g) })}</span>
+                        <span>{t('nutrition.fatShort', { grams: Math.round(meal.macros.fat_g) })}</span>
+                      </div>
+                    )}
+                    {(() => {
+                      const cost = estimateMealCost(meal.ingredients, priceLookup).cost * cookedServings(meal);
+                      return cost > 0 ? (
+                        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                          <Wallet className="h-3 w-3" />
+                          {cookedServings(meal) === 1
+                            ? t('mealPlan.about', { cost: formatMoney(cost, currency, language) })
+                            : t('mealPlan.aboutFor', {
+                              cost: formatMoney(cost, currency, language),
+                              portions: formatPortions(cookedServings(meal), t),
+                            })}
+                        </div>
+                      ) : null;
+                    })()}
+                    {isLeftovers(meal) ? (
+                      <div className="flex items-center gap-1 text-xs font-medium text-primary">
+                        <Repeat className="h-3 w-3" />
+                        {t('mealPlan.leftoversFrom', { day: meal.leftovers_from.day })}
+                      </div>
+                    ) : mealServings(meal) > 1 && (
+                      <div className="flex items-center gap-1 text-xs font-medium text-primary">
+                        <Layers className="h-3 w-3" />
+                        {t('mealPlan.cookBatch', { portions: formatPortions(cookedServings(meal), t) })}
+                      </div>
+                    )}
+                    <MealRating
+                      rating={getRating(meal.name_en ?? meal.name)}
+                      onRate={(rating) => rate(meal.name_en ?? meal.name, rating)}
+                    />
                   </CardHeader>
 
                   <CardContent className="space-y-4">
                     {/* Recipe Description */}
                     <div>
-                      <h4 className="font-semibold mb-2 text-sm uppercase tracking-wide text-muted-foreground">Recipe</h4>
+                      <h4 className="font-semibold mb-2 text-sm uppercase tracking-wide text-muted-foreground">{t('recipe.recipe')}</h4>
                       <p className="text-sm leading-relaxed">
-                        {meal.recipe || 'A delicious and nutritious meal tailored to your preferences.'}
+                        {isLeftovers(meal)
+                          ? t('mealPlan.reheatPortion', { name: meal.name, day: meal.leftovers_from.day })
+                          : meal.recipe || t('recipe.defaultDescription')}
                       </p>
                     </div>
                     
-                    {/* Ingredients */}
-                    {meal.ingredients && meal.ingredients.length > 0 && (
+                    {/* Ingredients, for the whole batch; leftovers were bought with theirs */}
+                    {!isLeftovers(meal) && meal.ingredients && meal.ingredients.length > 0 && (
                       <div>
-                        <h4 className="font-semibold mb-2 text-sm uppercase tracking-wide text-muted-foreground">Ingredients</h4>
+                        <h4 className="font-semibold mb-2 text-sm uppercase tracking-wide text-muted-foreground">
+                          {t('recipe.ingredients')}{cookedServings(meal) !== 1 && ` (${formatPortions(cookedServings(meal), t)})`}
+                        </h4>
                         <div className="glass p-3 rounded-xl">
                           <ul className="text-sm space-y-1">
-                            {meal.ingredients.slice(0, 4).map((ingredient: string, i: number) => (
+                            {meal.ingredients.slice(0, 4).map((ingredient: PlanIngredient, i: number) => (
                               <li key={i} className="flex items-start gap-2">
                                 <span className="w-1.5 h-1.5 rounded-full bg-primary mt-2 flex-shrink-0"></span>
-                                <span>{ingredient}</span>
+                                <span>{formatIngredient(scaleIngredient(ingredient, cookedServings(meal)))}</span>
                               </li>
                             ))}
                             {meal.ingredients.length > 4 && (
-                              <li className="text-xs text-muted-foreground font-medium pt-1">
-                                +{meal.ingredients.length - 4} more ingredients
+                              <li className="pt-1">
+                                <button
+                                  type="button"
+                                  className="text-xs text-muted-foreground font-medium hover:text-primary"
+                                  onClick={() => setRecipeMeal(meal)}
+                                >
+                                  {t('mealPlan.moreIngredients', { count: meal.ingredients.length - 4 })}
+                                </button>
                               </li>
                             )}
                           </ul>
@@ -387,20 +718,30 @@ export const MealPlanViewer = ({ currentMealPlan, onMealPlanGenerated }: MealPla
                       <Button
                         variant="outline"
                         className="action-btn rounded-xl border-primary/20 hover:bg-primary/5 hover:border-primary/40 w-full"
-                        onClick={() => window.open(getYouTubeSearchUrl(meal.name), '_blank')}
+                        onClick={() => setRecipeMeal(meal)}
                       >
-                        <Play className="h-4 w-4" />
-                        Watch Recipe Video
+                        <BookOpen className="h-4 w-4" />
+                        {t('mealPlan.viewRecipe')}
+                      </Button>
+
+                      <Button
+                        variant="outline"
+                        className="action-btn rounded-xl border-primary/20 hover:bg-primary/5 hover:border-primary/40 w-full"
+                        disabled={swappingMeal !== null || loading}
+                        onClick={() => swapMeal(dayIndex, mealIndex)}
+                      >
+                        <RefreshCw className={`h-4 w-4 ${swappingMeal === `${dayIndex}-${mealIndex}` ? 'animate-spin' : ''}`} />
+                        {swappingMeal === `${dayIndex}-${mealIndex}` ? t('mealPlan.swapping') : t('mealPlan.swap')}
                       </Button>
                       
-                      {meal.ingredients && meal.ingredients.length > 0 && (
+                      {!isLeftovers(meal) && meal.ingredients && meal.ingredients.length > 0 && (
                         <Button
                           className="action-btn btn-gradient w-full rounded-xl"
                           onClick={() => {
                             if (!currentMealPlan?.id) {
                               toast({
-                                title: 'Error',
-                                description: 'No active meal plan found. Please generate a meal plan first.',
+                                title: t('common.error'),
+                                description: t('mealPlan.noActivePlan'),
                                 variant: 'destructive',
                               });
                               return;
@@ -409,7 +750,7 @@ export const MealPlanViewer = ({ currentMealPlan, onMealPlanGenerated }: MealPla
                           }}
                         >
                           <ShoppingCart className="h-4 w-4" />
-                          Add to Grocery List
+                          {t('mealPlan.addToGrocery')}
                         </Button>
                       )}
                     </div>
@@ -420,6 +761,13 @@ export const MealPlanViewer = ({ currentMealPlan, onMealPlanGenerated }: MealPla
           </TabsContent>
         ))}
       </Tabs>
+
+      <RecipeDetailDialog
+        meal={recipeMeal}
+        portions={portions}
+        onClose={() => setRecipeMeal(null)}
+        onWatchVideo={(mealName) => window.open(getYouTubeSearchUrl(mealName), '_blank')}
+      />
     </div>
   );
 };
\ No newline at end of file
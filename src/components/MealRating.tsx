@@ -0,0 +1,25 @@
+import { Star } from 'lucide-react';
+
+interface MealRatingProps {
+  rating: number;
+  onRate: (rating: number) => void;
+}
+
+// Five stars; dishes rated 2 or lower are left out of future plans
+export const MealRating = ({ rating, onRate }: MealRatingProps) => (
+  <div className="flex items-center gap-0.5" role="radiogroup" aria-label="Rate this meal">
+    {[1, 2, 3, 4, 5].map((value) => (
+      <button
+        key={value}
+        type="button"
+        role="radio"
+        aria-checked={rating === value}
+        aria-label={`${value} star${value === 1 ? '' : 's'}`}
+        onClick={() => onRate(value)}
+        className="p-0.5 rounded transition-transform hover:scale-110"
+      >
+        <Star className={`h-4 w-4 ${value <= rating ? 'fill-primary text-primary' : 'text-muted-foreground/40'}`} />
+      </button>
+    ))}
+  </div>
+);
@@ -0,0 +1,300 @@
+import { useCallback, useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+import { useI18n } from '@/hooks/i18n-context';
+import { Package, Plus, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { daysBetween, parseIsoDate, todayIsoDate } from '@/lib/dates';
+
+export type PantryItem = Tables<'pantry_items'>;
+
+// Items expiring within this many days are flagged
+const EXPIRING_SOON_DAYS = 3;
+
+const emptyForm = { name: '', quantity: '', unit: '', expires_on: '' };
+
+// Whole days from today until the expiry date; negative once expired
+const daysUntil = (date: string) => daysBetween(todayIsoDate(), date);
+
+const parseQuantity = (value: string) => {
+  if (!value.trim()) return null;
+  const parsed = Number(value.replace(',', '.'));
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+export const PantryManager = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { t, dateLocale } = useI18n();
+  const [items, setItems] = useState<PantryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  const showError = (error: unknown) => {
+    toast({
+      title: t('common.error'),
+      description: error instanceof Error ? error.message : t('common.unknownError'),
+      variant: 'destructive',
+    });
+  };
+
+  const loadPantryItems = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('pantry_items')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('expires_on', { ascending: true, nullsFirst: false })
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      setItems(data || []);
+    } catch (error) {
+      toast({
+        title: t('common.error'),
+        description: error instanceof Error ? error.message : t('common.unknownError'),
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast, t]);
+
+  useEffect(() => {
+    loadPantryItems();
+  }, [loadPantryItems]);
+
+  const addItem = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const quantity = parseQuantity(form.quantity);
+    if (!form.name.trim() || quantity === undefined) {
+      toast({
+        title: t('pantry.checkTitle'),
+        description: t('pantry.checkDescription'),
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('pantry_items')
+        .insert({
+          user_id: user.id,
+          name: form.name.trim(),
+          quantity,
+          unit: form.unit.trim() || null,
+          expires_on: form.expires_on || null,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      setItems(prev => [...prev, data]);
+      setForm(emptyForm);
+    } catch (error) {
+      showError(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateQuantity = async (item: PantryItem, value: string) => {
+    const quantity = parseQuantity(value);
+    if (quantity === undefined || quantity === item.quantity) return;
+
+    try {
+      const { error } = await supabase
+        .from('pantry_items')
+        .update({ quantity })
+        .eq('id', item.id);
+
+      if (error) throw error;
+      setItems(prev => prev.map(existing => (existing.id === item.id ? { ...existing, quantity } : existing)));
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const removeItem = async (item: PantryItem) => {
+    try {
+      const { error } = await supabase
+        .from('pantry_items')
+        .delete()
+        .eq('id', item.id);
+
+      if (error) throw error;
+      setItems(prev => prev.filter(existing => existing.id !== item.id));
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const renderExpiry = (item: PantryItem) => {
+    if (!item.expires_on) return null;
+    const days = daysUntil(item.expires_on);
+    if (days < 0) {
+      return <Badge variant="destructive" className="rounded-full">{t('pantry.expired')}</Badge>;
+    }
+    if (days <= EXPIRING_SOON_DAYS) {
+      return (
+        <Badge className="bg-amber-500/10 text-amber-600 border-amber-500/20 rounded-full">
+          {days === 0 ? t('pantry.useToday') : t('pantry.useWithin', { count: days })}
+        </Badge>
+      );
+    }
+    return (
+      <span className="text-xs text-muted-foreground">
+        {t('pantry.useByDate', { date: format(parseIsoDate(item.expires_on), 'PP', { locale: dateLocale }) })}
+      </span>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="card-modern">
+        <CardContent className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </CardContent>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div>
+        <h2 className="text-3xl font-display font-bold bg-gradient-to-r from-primary to-primary-light bg-clip-text text-transparent">
+          {t('pantry.title')}
+        </h2>
+        <p className="text-muted-foreground">
+          {t('pantry.subtitle')}
+        </p>
+      </div>
+
+      <div className="card-modern">
+        <CardHeader className="border-b border-border/20">
+          <CardTitle className="flex items-center gap-3 text-xl font-display">
+            <div className="w-8 h-8 rounded-xl bg-gradient-to-br from-primary to-primary-light flex items-center justify-center">
+              <Package className="h-4 w-4 text-primary-foreground" />
+            </div>
+            {t('pantry.addTitle')}
+          </CardTitle>
+          <CardDescription>
+            {t('pantry.addDescription')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-6">
+          <form onSubmit={addItem} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="pantry_name">{t('pantry.name')}</Label>
+              <Input
+                id="pantry_name"
+                value={form.name}
+                placeholder={t('pantry.namePlaceholder')}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pantry_quantity">{t('pantry.quantity')}</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="pantry_quantity"
+                  inputMode="decimal"
+                  value={form.quantity}
+                  placeholder="500"
+                  onChange={(e) => setForm(prev => ({ ...prev, quantity: e.target.value }))}
+                />
+                <Input
+                  aria-label={t('common.unit')}
+                  value={form.unit}
+                  placeholder="g"
+                  className="w-20"
+                  onChange={(e) => setForm(prev => ({ ...prev, unit: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pantry_expires_on">{t('pantry.useBy')}</Label>
+              <Input
+                id="pantry_expires_on"
+                type="date"
+                value={form.expires_on}
+                onChange={(e) => setForm(prev => ({ ...prev, expires_on: e.target.value }))}
+              />
+            </div>
+            <Button type="submit" disabled={saving} className="btn-gradient rounded-xl">
+              <Plus className="h-4 w-4 mr-2" />
+              {t('pantry.add')}
+            </Button>
+          </form>
+        </CardContent>
+      </div>
+
+      {items.length === 0 ? (
+        <div className="card-modern max-w-2xl mx-auto">
+          <CardHeader className="text-center py-12">
+            <div className="w-20 h-20 mx-auto mb-6 rounded-2xl bg-gradient-to-br from-primary/10 to-secondary/20 flex items-center justify-center">
+              <Package className="h-10 w-10 text-primary" />
+            </div>
+            <CardTitle className="text-2xl font-display">{t('pantry.emptyTitle')}</CardTitle>
+            <CardDescription className="text-lg mt-2">
+              {t('pantry.emptyDescription')}
+            </CardDescription>
+          </CardHeader>
+        </div>
+      ) : (
+        <div className="card-modern">
+          <CardContent className="p-6">
+            <div className="space-y-3">
+              {items.map((item) => (
+                <div
+                  key={item.id}
+                  className="glass p-4 rounded-xl border border-border/20 hover:border-primary/30 transition-all duration-300"
+                >
+                  <div className="flex items-center gap-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium">{item.name}</div>
+                      <div className="mt-1">{renderExpiry(item)}</div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        key={`${item.id}-${item.quantity}`}
+                        aria-label={t('pantry.quantityOf', { name: item.name })}
+                        inputMode="decimal"
+                        defaultValue={item.quantity ?? ''}
+                        placeholder={t('pantry.anyQuantity')}
+                        className="w-24"
+                        onBlur={(e) => updateQuantity(item, e.target.value)}
+                      />
+                      <span className="text-sm text-muted-foreground w-12">{item.unit}</span>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeItem(item)}
+                      className="hover:bg-destructive/10 hover:text-destructive"
+                      aria-label={t('pantry.remove', { name: item.name })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </div>
+      )}
+    </div>
+  );
+};
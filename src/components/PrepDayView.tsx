@@ -0,0 +1,132 @@
+import { useMemo } from 'react';
+import { CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { buildPrepSession, formatPrepTime, PrepDay } from '@/lib/prep';
+import { formatPortions, planPortions, PlanHousehold } from '@/lib/household';
+import { useI18n } from '@/hooks/i18n-context';
+import { Clock, CookingPot, Flame, ListChecks, Snowflake } from 'lucide-react';
+
+interface PrepDayViewProps {
+  currentMealPlan: { plan_data?: { days?: PrepDay[]; household?: PlanHousehold | null } } | null;
+}
+
+export const PrepDayView = ({ currentMealPlan }: PrepDayViewProps) => {
+  const { language, t, mealType } = useI18n();
+  const session = useMemo(
+    () => buildPrepSession(currentMealPlan?.plan_data?.days || [], planPortions(currentMealPlan?.plan_data), language),
+    [currentMealPlan, language]
+  );
+
+  if (!session.meals.length) {
+    return (
+      <div className="card-modern max-w-2xl mx-auto">
+        <CardHeader className="text-center py-12">
+          <div className="w-20 h-20 mx-auto mb-6 rounded-2xl bg-gradient-to-br from-primary/10 to-secondary/20 flex items-center justify-center">
+            <CookingPot className="h-10 w-10 text-primary" />
+          </div>
+          <CardTitle className="text-2xl font-display">{t('prep.emptyTitle')}</CardTitle>
+          <CardDescription className="text-lg mt-2">
+            {t('prep.emptyDescription')}
+          </CardDescription>
+        </CardHeader>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div>
+        <h2 className="text-3xl font-display font-bold bg-gradient-to-r from-primary to-primary-light bg-clip-text text-transparent">
+          {t('prep.title')}
+        </h2>
+        <p className="text-muted-foreground">
+          {t('prep.subtitle', { minutes: session.total_minutes })}
+        </p>
+      </div>
+
+      {session.tasks.length > 0 && (
+        <div className="card-modern">
+          <CardHeader className="border-b border-border/20">
+            <CardTitle className="flex items-center gap-3 text-xl font-display">
+              <div className="w-8 h-8 rounded-xl bg-gradient-to-br from-primary to-primary-light flex items-center justify-center">
+                <ListChecks className="h-4 w-4 text-primary-foreground" />
+              </div>
+              {t('prep.tasks')}
+            </CardTitle>
+            <CardDescription>
+              {t('prep.tasksDescription')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-6">
+            <ol className="space-y-3">
+              {session.tasks.map((task) => (
+                <li
+                  key={task.kind}
+                  className="glass p-4 rounded-xl border border-border/20 hover:border-primary/30 transition-all duration-300"
+                >
+                  <div className="flex flex-wrap items-center gap-2 mb-3">
+                    <Badge variant="outline" className="rounded-full font-mono">
+                      {formatPrepTime(task.start)}
+                    </Badge>
+                    <span className="font-semibold">{task.title}</span>
+                    <span className="flex items-center gap-1 text-sm text-muted-foreground">
+                      <Clock className="h-3 w-3" />
+                      {t('prep.minutes', { minutes: task.minutes })}
+                    </span>
+                    {task.hands_off && (
+                      <Badge variant="secondary" className="rounded-full">{t('prep.handsOff')}</Badge>
+                    )}
+                  </div>
+                  <ul className="space-y-1 text-sm">
+                    {task.items.map((item) => (
+                      <li key={item.name} className="flex flex-wrap gap-x-2">
+                        <span className="font-medium">{item.quantity ? `${item.quantity} ${item.name}` : item.name}</span>
+                        {item.preparation && <span className="text-muted-foreground">{item.preparation}</span>}
+                        <span className="text-xs text-muted-foreground">· {item.meals.join(', ')}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ol>
+          </CardContent>
+        </div>
+      )}
+
+      <div className="card-modern">
+        <CardHeader className="border-b border-border/20">
+          <CardTitle className="flex items-center gap-3 text-xl font-display">
+            <div className="w-8 h-8 rounded-xl bg-gradient-to-br from-primary to-primary-light flex items-center justify-center">
+              <Snowflake className="h-4 w-4 text-primary-foreground" />
+            </div>
+            {t('prep.storageTitle')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {session.meals.map((meal) => (
+              <div key={`${meal.day}-${meal.type}-${meal.name}`} className="glass p-4 rounded-xl border border-border/20">
+                <div className="flex items-center gap-2 mb-2">
+                  <Badge variant="outline">{mealType(meal.type)}</Badge>
+                  <span className="font-semibold">{meal.name}</span>
+                </div>
+                <p className="text-xs text-muted-foreground mb-2">
+                  {t('prep.eatenOn', { days: meal.eaten_on.join(', ') })}
+                  {meal.servings > 1 && ` · ${formatPortions(meal.servings, t)}`}
+                </p>
+                <p className="flex gap-2 text-sm mb-1">
+                  <Snowflake className="h-4 w-4 shrink-0 mt-0.5 text-primary" />
+                  {meal.storage}
+                </p>
+                <p className="flex gap-2 text-sm">
+                  <Flame className="h-4 w-4 shrink-0 mt-0.5 text-primary" />
+                  {meal.reheating}
+                </p>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,176 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Clock, Lightbulb, Minus, Play, Plus, Repeat, Utensils } from 'lucide-react';
+import { formatIngredient, PlanIngredient } from '@/lib/ingredients';
+import { BatchMeal, isLeftovers, mealServings, scaleIngredient } from '@/lib/leftovers';
+import { formatCookingTime } from '@/lib/cooking';
+import { useI18n } from '@/hooks/i18n-context';
+
+// A plan_data meal. Plans made before full recipes only have the short
+// "recipe" text, so the steps, equipment and tips may be missing.
+export interface RecipeMeal extends BatchMeal {
+  type: string;
+  name: string;
+  recipe?: string;
+  ingredients?: PlanIngredient[];
+  instructions?: string[];
+  equipment?: string[];
+  tips?: string[];
+  prep_minutes?: number;
+  cook_minutes?: number;
+  skill_level?: string;
+}
+
+interface RecipeDetailDialogProps {
+  meal: RecipeMeal | null;
+  // Household portions per serving, from the plan
+  portions?: number;
+  onClose: () => void;
+  onWatchVideo: (mealName: string) => void;
+}
+
+const MAX_SERVINGS = 12;
+
+export const RecipeDetailDialog = ({ meal, portions = 1, onClose, onWatchVideo }: RecipeDetailDialogProps) => {
+  const [servings, setServings] = useState(1);
+  const { t, mealType } = useI18n();
+
+  // Start from the portions the plan cooks; leftovers are one reheated serving
+  useEffect(() => {
+    if (meal) setServings(Math.max(1, mealServings(meal)) * portions);
+  }, [meal, portions]);
+
+  if (!meal) return null;
+
+  const instructions = meal.instructions || [];
+  const ingredients = meal.ingredients || [];
+  const cookingTime = formatCookingTime(meal, t);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <div className="space-y-6">
+          <DialogHeader className="text-left space-y-2">
+            <Badge variant="outline" className="w-fit rounded-full">{mealType(meal.type)}</Badge>
+            <DialogTitle className="text-2xl font-display">{meal.name}</DialogTitle>
+            {instructions.length > 0 && meal.recipe && <DialogDescription>{meal.recipe}</DialogDescription>}
+            {cookingTime && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Clock className="h-4 w-4" />
+                {cookingTime}
+              </div>
+            )}
+            {isLeftovers(meal) && (
+              <div className="flex items-center gap-1 text-sm font-medium text-primary">
+                <Repeat className="h-4 w-4" />
+                {t('recipe.leftovers', { day: meal.leftovers_from.day })}
+              </div>
+            )}
+          </DialogHeader>
+
+          {ingredients.length > 0 && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="font-semibold text-sm uppercase tracking-wide text-muted-foreground">{t('recipe.ingredients')}</h4>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="h-7 w-7 rounded-full"
+                    disabled={servings <= 1}
+                    onClick={() => setServings(Math.max(1, servings - 1))}
+                    aria-label={t('recipe.fewerServings')}
+                  >
+                    <Minus className="h-3 w-3" />
+                  </Button>
+                  <span className="text-sm font-medium w-20 text-center">
+                    {t('recipe.servings', { count: Math.round(servings * 100) / 100 })}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="h-7 w-7 rounded-full"
+                    disabled={servings >= MAX_SERVINGS}
+                    onClick={() => setServings(Math.min(MAX_SERVINGS, servings + 1))}
+                    aria-label={t('recipe.moreServings')}
+                  >
+                    <Plus className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+              <div className="glass p-3 rounded-xl">
+                <ul className="text-sm space-y-1">
+                  {ingredients.map((ingredient, i) => (
+                    <li key={i} className="flex items-start gap-2">
+                      <span className="w-1.5 h-1.5 rounded-full bg-primary mt-2 flex-shrink-0"></span>
+                      <span>{formatIngredient(scaleIngredient(ingredient, servings))}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
+
+          {meal.equipment && meal.equipment.length > 0 && (
+            <div>
+              <h4 className="font-semibold mb-2 text-sm uppercase tracking-wide text-muted-foreground">{t('recipe.equipment')}</h4>
+              <div className="flex flex-wrap gap-2">
+                {meal.equipment.map((item) => (
+                  <Badge key={item} variant="secondary" className="rounded-full">
+                    <Utensils className="h-3 w-3 mr-1" />
+                    {item}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h4 className="font-semibold mb-2 text-sm uppercase tracking-wide text-muted-foreground">{t('recipe.steps')}</h4>
+            {instructions.length > 0 ? (
+              <ol className="space-y-3">
+                {instructions.map((step, i) => (
+                  <li key={i} className="flex gap-3 text-sm leading-relaxed">
+                    <span className="w-6 h-6 rounded-full bg-primary text-primary-foreground text-xs font-semibold flex items-center justify-center flex-shrink-0">
+                      {i + 1}
+                    </span>
+                    <span className="pt-0.5">{step}</span>
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <p className="text-sm leading-relaxed">
+                {meal.recipe || t('recipe.defaultDescription')}
+              </p>
+            )}
+          </div>
+
+          {meal.tips && meal.tips.length > 0 && (
+            <div>
+              <h4 className="font-semibold mb-2 text-sm uppercase tracking-wide text-muted-foreground">{t('recipe.tips')}</h4>
+              <ul className="space-y-2">
+                {meal.tips.map((tip, i) => (
+                  <li key={i} className="flex gap-2 text-sm">
+                    <Lightbulb className="h-4 w-4 text-primary flex-shrink-0 mt-0.5" />
+                    {tip}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <Button
+            variant="outline"
+            className="action-btn rounded-xl border-primary/20 hover:bg-primary/5 hover:border-primary/40 w-full"
+            onClick={() => onWatchVideo(meal.name)}
+          >
+            <Play className="h-4 w-4" />
+            {t('recipe.watchVideo')}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
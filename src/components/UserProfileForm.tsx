@@ -15,6 +15,11 @@ import { cn } from '@/lib/utils';
 import { format, getYear, setYear, setMonth } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { CURRENCIES } from '@/lib/costs';
+import { COOKING_SLOTS, CookingLimit, CookingLimits, CookingSlot, MINUTE_OPTIONS, parseCookingLimits, SKILL_LEVELS, SkillLevel } from '@/lib/cooking';
+import { DEFAULT_WEEK_STARTS_ON, deviceTimeZone, formatWeekday, isTimeZone, listTimeZones, parseIsoDate, toIsoDate, WEEKDAYS } from '@/lib/dates';
+import { useI18n } from '@/hooks/i18n-context';
+import { isLanguage, LANGUAGES, translate, TranslationKey } from '@/lib/i18n';
 
 interface UserProfileFormProps {
   onComplete: () => void;
@@ -23,6 +28,7 @@ interface UserProfileFormProps {
 export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { language, setLanguage, t, mealType, dateLocale } = useI18n();
   const [loading, setLoading] = useState(false);
   const [dateOfBirth, setDateOfBirth] = useState<Date>();
   const [selectedYear, setSelectedYear] = useState<number>(new Date().getFullYear());
@@ -36,6 +42,8 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
     weight_kg: '',
     fitness_goal: '',
     activity_level: '',
+    time_zone: deviceTimeZone(),
+    language: language as string,
   });
 
   // Diet preferences
@@ -47,6 +55,11 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
     meals_per_day: 3,
     total_days: 7,
     include_snacks: false,
+    batch_cooking: false,
+    cooking_limits: {} as CookingLimits,
+    weekend_long_recipes: false,
+    plan_start: 'today',
+    week_starts_on: DEFAULT_WEEK_STARTS_ON,
     meal_times: {
       breakfast: '08:00',
       lunch: '12:00',
@@ -54,9 +67,11 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
     },
     reminder_tone: 'motivational',
     reminder_enabled: true,
+    currency: 'USD',
   });
 
   const [foodsToAvoidText, setFoodsToAvoidText] = useState('');
+  const [weeklyBudgetText, setWeeklyBudgetText] = useState('');
 
   const allergyOptions = ['dairy', 'nuts', 'gluten', 'soy', 'eggs', 'shellfish', 'citrus'];
   const cuisineOptions = ['indian', 'mediterranean', 'asian', 'italian', 'mexican', 'american', 'mixed'];
@@ -89,13 +104,13 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
 
     const { data: profile } = await supabase
       .from('user_profiles')
-      .select('full_name, gender, height_cm, weight_kg, fitness_goal, activity_level, date_of_birth')
+      .select('full_name, gender, height_cm, weight_kg, fitness_goal, activity_level, date_of_birth, time_zone, language')
       .eq('user_id', user.id)
       .maybeSingle();
 
     const { data: preferences } = await supabase
       .from('diet_preferences')
-      .select('diet_type, allergies, foods_to_avoid, preferred_cuisines, include_snacks, reminder_tone, reminder_enabled')
+      .select('diet_type, allergies, foods_to_avoid, preferred_cuisines, include_snacks, batch_cooking, cooking_limits, weekend_long_recipes, plan_start, week_starts_on, reminder_tone, reminder_enabled, weekly_budget, currency')
       .eq('user_id', user.id)
       .maybeSingle();
 
@@ -107,9 +122,11 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
         weight_kg: profile.weight_kg?.toString() || '',
         fitness_goal: profile.fitness_goal || '',
         activity_level: profile.activity_level || '',
+        time_zone: profile.time_zone || deviceTimeZone(),
+        language: isLanguage(profile.language) ? profile.language : language,
       });
       if (profile.date_of_birth) {
-        setDateOfBirth(new Date(profile.date_of_birth));
+        setDateOfBirth(parseIsoDate(profile.date_of_birth));
       }
     }
 
@@ -122,6 +139,11 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
         meals_per_day: 3,
         total_days: 7,
         include_snacks: preferences.include_snacks || false,
+        batch_cooking: preferences.batch_cooking ?? false,
+        cooking_limits: parseCookingLimits(preferences.cooking_limits),
+        weekend_long_recipes: preferences.weekend_long_recipes ?? false,
+        plan_start: preferences.plan_start || 'today',
+        week_starts_on: preferences.week_starts_on ?? DEFAULT_WEEK_STARTS_ON,
         meal_times: {
           breakfast: '08:00',
           lunch: '12:00',
@@ -129,8 +151,10 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
         },
         reminder_tone: preferences.reminder_tone || 'motivational',
         reminder_enabled: preferences.reminder_enabled ?? true,
+        currency: preferences.currency || 'USD',
       });
       setFoodsToAvoidText(preferences.foods_to_avoid?.join(', ') || '');
+      setWeeklyBudgetText(preferences.weekly_budget?.toString() || '');
     }
   };
 
@@ -141,7 +165,10 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
     try {
       // Basic validation
       if (!profileData.full_name || !dietData.diet_type) {
-        throw new Error('Please fill in all required fields');
+        throw new Error(t('profile.requiredFields'));
+      }
+      if (!isTimeZone(profileData.time_zone)) {
+        throw new Error(t('profile.invalidTimeZone'));
       }
 
       // Update user profile
@@ -152,7 +179,9 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
         weight_kg: profileData.weight_kg ? parseFloat(profileData.weight_kg) : null,
         fitness_goal: profileData.fitness_goal as any,
         activity_level: profileData.activity_level as any,
-        date_of_birth: dateOfBirth?.toISOString().split('T')[0] || null,
+        time_zone: profileData.time_zone,
+        language: profileData.language,
+        date_of_birth: dateOfBirth ? toIsoDate(dateOfBirth) : null,
       };
 
       // Upsert user profile
@@ -172,14 +201,19 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
           user_id: user?.id,
           ...dietData,
           foods_to_avoid: foodsToAvoidText.split(',').map(s => s.trim()).filter(Boolean),
+          weekly_budget: parseFloat(weeklyBudgetText) > 0 ? parseFloat(weeklyBudgetText) : null,
         });
 
       if (dietError) throw dietError;
 
+      // Switch the app over once the new language is saved
+      const savedLanguage = isLanguage(profileData.language) ? profileData.language : language;
+      setLanguage(savedLanguage);
+
       // Show success message
       toast({
-        title: 'Profile saved!',
-        description: 'Your preferences have been updated successfully.',
+        title: translate(savedLanguage, 'profile.savedTitle'),
+        description: translate(savedLanguage, 'profile.savedDescription'),
       });
 
       // Only call onComplete if this was the initial profile setup
@@ -189,7 +223,7 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
       }
     } catch (error: any) {
       toast({
-        title: 'Error',
+        title: t('common.error'),
         description: error.message,
         variant: 'destructive',
       });
@@ -207,6 +241,19 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
     }));
   };
 
+  const handleCookingLimitChange = (slot: CookingSlot, change: Partial<CookingLimit>) => {
+    setDietData(prev => {
+      const limit = { max_minutes: null, skill: null, ...prev.cooking_limits[slot], ...change };
+      const cookingLimits = { ...prev.cooking_limits };
+      if (limit.max_minutes || limit.skill) {
+        cookingLimits[slot] = limit;
+      } else {
+        delete cookingLimits[slot];
+      }
+      return { ...prev, cooking_limits: cookingLimits };
+    });
+  };
+
   const handleCuisineChange = (cuisine: string, checked: boolean) => {
     setDietData(prev => ({
       ...prev,
@@ -219,19 +266,19 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
   return (
     <Card className="max-w-4xl mx-auto">
       <CardHeader>
-        <CardTitle>Complete Your Profile</CardTitle>
+        <CardTitle>{t('profile.title')}</CardTitle>
         <CardDescription>
-          Help us create personalized meal plans just for you
+          {t('profile.description')}
         </CardDescription>
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-8">
           {/* Personal Information */}
           <div className="space-y-4">
-            <h3 className="text-lg font-semibold">Personal Information</h3>
+            <h3 className="text-lg font-semibold">{t('profile.personal')}</h3>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="full_name">Full Name</Label>
+                <Label htmlFor="full_name">{t('profile.fullName')}</Label>
                 <Input
                   id="full_name"
                   value={profileData.full_name}
@@ -240,7 +287,7 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
               </div>
               
               <div className="space-y-2">
-                <Label>Date of Birth</Label>
+                <Label>{t('profile.dateOfBirth')}</Label>
                 <Popover>
                   <PopoverTrigger asChild>
                     <Button
@@ -251,7 +298,7 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
                       )}
                     >
                       <CalendarIcon className="mr-2 h-4 w-4" />
-                      {dateOfBirth ? format(dateOfBirth, "PPP") : "Pick a date"}
+                      {dateOfBirth ? format(dateOfBirth, "PPP", { locale: dateLocale }) : t('profile.pickDate')}
                     </Button>
                   </PopoverTrigger>
                   <PopoverContent className="w-auto p-0">
@@ -268,12 +315,12 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
                           }}
                         >
                           <SelectTrigger className="w-[140px]">
-                            <SelectValue placeholder="Month" />
+                            <SelectValue placeholder={t('profile.month')} />
                           </SelectTrigger>
                           <SelectContent>
                             {Array.from({ length: 12 }).map((_, i) => (
                               <SelectItem key={i} value={i.toString()}>
-                                {new Date(0, i).toLocaleString(undefined, { month: 'long' })}
+                                {new Date(0, i).toLocaleString(language, { month: 'long' })}
                               </SelectItem>
                             ))}
                           </SelectContent>
@@ -289,7 +336,7 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
                           }}
                         >
                           <SelectTrigger className="w-[100px] ml-2">
-                            <SelectValue placeholder="Year" />
+                            <SelectValue placeholder={t('profile.year')} />
                           </SelectTrigger>
                           <SelectContent>
                             {Array.from({ length: 100 }, (_, i) => {
@@ -319,6 +366,7 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
                           setSelectedMonth(date.getMonth());
                         }}
                         initialFocus
+                        locale={dateLocale}
                         className="p-0"
                       />
                     </div>
@@ -327,21 +375,21 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
               </div>
 
               <div className="space-y-2">
-                <Label>Gender</Label>
+                <Label>{t('profile.gender')}</Label>
                 <Select value={profileData.gender} onValueChange={(value) => setProfileData(prev => ({ ...prev, gender: value }))}>
                   <SelectTrigger>
-                    <SelectValue placeholder="Select gender" />
+                    <SelectValue placeholder={t('profile.selectGender')} />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="male">Male</SelectItem>
-                    <SelectItem value="female">Female</SelectItem>
-                    <SelectItem value="other">Other</SelectItem>
+                    <SelectItem value="male">{t('profile.genderMale')}</SelectItem>
+                    <SelectItem value="female">{t('profile.genderFemale')}</SelectItem>
+                    <SelectItem value="other">{t('profile.genderOther')}</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="height_cm">Height (cm)</Label>
+                <Label htmlFor="height_cm">{t('profile.height')}</Label>
                 <Input
                   id="height_cm"
                   type="number"
@@ -351,7 +399,7 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="weight_kg">Weight (kg)</Label>
+                <Label htmlFor="weight_kg">{t('profile.weight')}</Label>
                 <Input
                   id="weight_kg"
                   type="number"
@@ -361,59 +409,99 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
               </div>
 
               <div className="space-y-2">
-                <Label>Fitness Goal</Label>
+                <Label>{t('profile.fitnessGoal')}</Label>
                 <Select value={profileData.fitness_goal} onValueChange={(value) => setProfileData(prev => ({ ...prev, fitness_goal: value }))}>
                   <SelectTrigger>
-                    <SelectValue placeholder="Select fitness goal" />
+                    <SelectValue placeholder={t('profile.selectFitnessGoal')} />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="weight_loss">Weight Loss</SelectItem>
-                    <SelectItem value="maintain">Maintain</SelectItem>
-                    <SelectItem value="muscle_gain">Muscle Gain</SelectItem>
+                    <SelectItem value="weight_loss">{t('profile.goal.weightLoss')}</SelectItem>
+                    <SelectItem value="maintain">{t('profile.goal.maintain')}</SelectItem>
+                    <SelectItem value="muscle_gain">{t('profile.goal.muscleGain')}</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
 
               <div className="space-y-2">
-                <Label>Activity Level</Label>
+                <Label>{t('profile.activityLevel')}</Label>
                 <Select value={profileData.activity_level} onValueChange={(value) => setProfileData(prev => ({ ...prev, activity_level: value }))}>
                   <SelectTrigger>
-                    <SelectValue placeholder="Select activity level" />
+                    <SelectValue placeholder={t('profile.selectActivityLevel')} />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="sedentary">Sedentary</SelectItem>
-                    <SelectItem value="lightly_active">Lightly Active</SelectItem>
-                    <SelectItem value="active">Active</SelectItem>
-                    <SelectItem value="very_active">Very Active</SelectItem>
+                    <SelectItem value="sedentary">{t('profile.activity.sedentary')}</SelectItem>
+                    <SelectItem value="lightly_active">{t('profile.activity.lightlyActive')}</SelectItem>
+                    <SelectItem value="active">{t('profile.activity.active')}</SelectItem>
+                    <SelectItem value="very_active">{t('profile.activity.veryActive')}</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="time_zone">{t('profile.timeZone')}</Label>
+                <Input
+                  id="time_zone"
+                  list="time_zone_options"
+                  value={profileData.time_zone}
+                  onChange={(e) => setProfileData(prev => ({ ...prev, time_zone: e.target.value }))}
+                  placeholder={t('profile.timeZonePlaceholder')}
+                />
+                <datalist id="time_zone_options">
+                  {listTimeZones().map((zone) => (
+                    <option key={zone} value={zone} />
+                  ))}
+                </datalist>
+                {profileData.time_zone !== deviceTimeZone() && (
+                  <button
+                    type="button"
+                    className="text-xs text-muted-foreground hover:text-primary"
+                    onClick={() => setProfileData(prev => ({ ...prev, time_zone: deviceTimeZone() }))}
+                  >
+                    {t('profile.useDeviceTimeZone', { zone: deviceTimeZone() })}
+                  </button>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="language">{t('common.language')}</Label>
+                <Select value={profileData.language} onValueChange={(value) => setProfileData(prev => ({ ...prev, language: value }))}>
+                  <SelectTrigger id="language">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LANGUAGES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{t('profile.languageHint')}</p>
+              </div>
             </div>
           </div>
 
           {/* Diet Preferences */}
           <div className="space-y-4">
-            <h3 className="text-lg font-semibold">Diet Preferences</h3>
+            <h3 className="text-lg font-semibold">{t('profile.dietPreferences')}</h3>
             
             <div className="space-y-2">
-              <Label>Diet Type</Label>
+              <Label>{t('profile.dietType')}</Label>
               <Select value={dietData.diet_type} onValueChange={(value) => setDietData(prev => ({ ...prev, diet_type: value }))}>
                 <SelectTrigger>
-                  <SelectValue placeholder="Select diet type" />
+                  <SelectValue placeholder={t('profile.selectDietType')} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="vegetarian">Vegetarian</SelectItem>
-                  <SelectItem value="vegan">Vegan</SelectItem>
-                  <SelectItem value="gluten_free">Gluten-Free</SelectItem>
-                  <SelectItem value="dairy_free">Dairy-Free</SelectItem>
-                  <SelectItem value="mediterranean">Mediterranean</SelectItem>
-                  <SelectItem value="custom">Custom</SelectItem>
+                  <SelectItem value="vegetarian">{t('profile.diet.vegetarian')}</SelectItem>
+                  <SelectItem value="vegan">{t('profile.diet.vegan')}</SelectItem>
+                  <SelectItem value="gluten_free">{t('profile.diet.glutenFree')}</SelectItem>
+                  <SelectItem value="dairy_free">{t('profile.diet.dairyFree')}</SelectItem>
+                  <SelectItem value="mediterranean">{t('profile.diet.mediterranean')}</SelectItem>
+                  <SelectItem value="custom">{t('profile.diet.custom')}</SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
             <div className="space-y-2">
-              <Label>Allergies</Label>
+              <Label>{t('profile.allergies')}</Label>
               <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
                 {allergyOptions.map((allergy) => (
                   <div key={allergy} className="flex items-center space-x-2">
@@ -422,24 +510,24 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
                       checked={dietData.allergies.includes(allergy)}
                       onCheckedChange={(checked) => handleAllergyChange(allergy, checked as boolean)}
                     />
-                    <Label htmlFor={allergy} className="capitalize">{allergy}</Label>
+                    <Label htmlFor={allergy}>{t(`profile.allergy.${allergy}` as TranslationKey)}</Label>
                   </div>
                 ))}
               </div>
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="foods_to_avoid">Foods to Avoid (comma-separated)</Label>
+              <Label htmlFor="foods_to_avoid">{t('profile.foodsToAvoid')}</Label>
               <Textarea
                 id="foods_to_avoid"
                 value={foodsToAvoidText}
                 onChange={(e) => setFoodsToAvoidText(e.target.value)}
-                placeholder="e.g., spicy food, raw fish, etc."
+                placeholder={t('profile.foodsToAvoidPlaceholder')}
               />
             </div>
 
             <div className="space-y-2">
-              <Label>Preferred Cuisines</Label>
+              <Label>{t('profile.cuisines')}</Label>
               <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
                 {cuisineOptions.map((cuisine) => (
                   <div key={cuisine} className="flex items-center space-x-2">
@@ -448,7 +536,7 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
                       checked={dietData.preferred_cuisines.includes(cuisine)}
                       onCheckedChange={(checked) => handleCuisineChange(cuisine, checked as boolean)}
                     />
-                    <Label htmlFor={cuisine} className="capitalize">{cuisine}</Label>
+                    <Label htmlFor={cuisine}>{t(`profile.cuisine.${cuisine}` as TranslationKey)}</Label>
                   </div>
                 ))}
               </div>
@@ -456,7 +544,7 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
 
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="meals_per_day">Meals per Day</Label>
+                <Label htmlFor="meals_per_day">{t('profile.mealsPerDay')}</Label>
                 <Select value={dietData.meals_per_day.toString()} onValueChange={(value) => setDietData(prev => ({ ...prev, meals_per_day: parseInt(value) }))}>
                   <SelectTrigger>
                     <SelectValue />
@@ -470,7 +558,7 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="total_days">Total Days</Label>
+                <Label htmlFor="total_days">{t('profile.totalDays')}</Label>
                 <Select value={dietData.total_days.toString()} onValueChange={(value) => setDietData(prev => ({ ...prev, total_days: parseInt(value) }))}>
                   <SelectTrigger>
                     <SelectValue />
@@ -483,21 +571,140 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
                 </Select>
               </div>
 
+              <div className="space-y-2">
+                <Label>{t('profile.planStart')}</Label>
+                <Select value={dietData.plan_start} onValueChange={(value) => setDietData(prev => ({ ...prev, plan_start: value }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="today">{t('profile.planStart.today')}</SelectItem>
+                    <SelectItem value="tomorrow">{t('profile.planStart.tomorrow')}</SelectItem>
+                    <SelectItem value="next_week">{t('profile.planStart.nextWeek')}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>{t('profile.weekStartsOn')}</Label>
+                <Select value={dietData.week_starts_on.toString()} onValueChange={(value) => setDietData(prev => ({ ...prev, week_starts_on: parseInt(value) }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAYS.map((weekday, index) => (
+                      <SelectItem key={weekday} value={index.toString()}>{formatWeekday(index, language)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="flex items-center space-x-2">
                 <Switch
                   id="include_snacks"
                   checked={dietData.include_snacks}
                   onCheckedChange={(checked) => setDietData(prev => ({ ...prev, include_snacks: checked }))}
                 />
-                <Label htmlFor="include_snacks">Include Snacks</Label>
+                <Label htmlFor="include_snacks">{t('profile.includeSnacks')}</Label>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="batch_cooking"
+                  checked={dietData.batch_cooking}
+                  onCheckedChange={(checked) => setDietData(prev => ({ ...prev, batch_cooking: checked }))}
+                />
+                <Label htmlFor="batch_cooking">{t('profile.batchCooking')}</Label>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="weekly_budget">{t('profile.weeklyBudget')}</Label>
+                <Input
+                  id="weekly_budget"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder={t('profile.noBudget')}
+                  value={weeklyBudgetText}
+                  onChange={(e) => setWeeklyBudgetText(e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="currency">{t('profile.currency')}</Label>
+                <Select value={dietData.currency} onValueChange={(value) => setDietData(prev => ({ ...prev, currency: value }))}>
+                  <SelectTrigger id="currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCIES.map(code => (
+                      <SelectItem key={code} value={code}>{code}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t('profile.cookingLimits')}</Label>
+              <p className="text-sm text-muted-foreground">{t('profile.cookingLimitsDescription')}</p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {COOKING_SLOTS.map(slot => {
+                  const limit = dietData.cooking_limits[slot];
+                  return (
+                    <div key={slot} className="space-y-2">
+                      <Label>{mealType(slot)}</Label>
+                      <div className="flex gap-2">
+                        <Select
+                          value={limit?.max_minutes?.toString() ?? 'any'}
+                          onValueChange={(value) => handleCookingLimitChange(slot, { max_minutes: value === 'any' ? null : parseInt(value) })}
+                        >
+                          <SelectTrigger aria-label={t('profile.longestRecipe', { type: mealType(slot, true) })}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="any">{t('profile.anyTime')}</SelectItem>
+                            {MINUTE_OPTIONS.map(minutes => (
+                              <SelectItem key={minutes} value={minutes.toString()}>{t('profile.upToMinutes', { minutes })}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Select
+                          value={limit?.skill ?? 'any'}
+                          onValueChange={(value) => handleCookingLimitChange(slot, { skill: value === 'any' ? null : value as SkillLevel })}
+                        >
+                          <SelectTrigger aria-label={t('profile.hardestRecipe', { type: mealType(slot, true) })}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="any">{t('profile.anySkill')}</SelectItem>
+                            {SKILL_LEVELS.map(level => (
+                              <SelectItem key={level} value={level}>{t(`skill.${level}`)}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="flex items-center space-x-2 pt-2">
+                <Switch
+                  id="weekend_long_recipes"
+                  checked={dietData.weekend_long_recipes}
+                  onCheckedChange={(checked) => setDietData(prev => ({ ...prev, weekend_long_recipes: checked }))}
+                />
+                <Label htmlFor="weekend_long_recipes">{t('profile.weekendLongRecipes')}</Label>
               </div>
             </div>
 
             <div className="space-y-2">
-              <Label>Meal Times</Label>
+              <Label>{t('profile.mealTimes')}</Label>
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="breakfast_time">Breakfast</Label>
+                  <Label htmlFor="breakfast_time">{t('mealType.breakfast')}</Label>
                   <Input
                     id="breakfast_time"
                     type="time"
@@ -509,7 +716,7 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="lunch_time">Lunch</Label>
+                  <Label htmlFor="lunch_time">{t('mealType.lunch')}</Label>
                   <Input
                     id="lunch_time"
                     type="time"
@@ -521,7 +728,7 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="dinner_time">Dinner</Label>
+                  <Label htmlFor="dinner_time">{t('mealType.dinner')}</Label>
                   <Input
                     id="dinner_time"
                     type="time"
@@ -537,15 +744,15 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label>Reminder Tone</Label>
+                <Label>{t('profile.reminderTone')}</Label>
                 <Select value={dietData.reminder_tone} onValueChange={(value) => setDietData(prev => ({ ...prev, reminder_tone: value }))}>
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="motivational">Motivational</SelectItem>
-                    <SelectItem value="gentle">Gentle</SelectItem>
-                    <SelectItem value="funny">Funny</SelectItem>
+                    <SelectItem value="motivational">{t('profile.tone.motivational')}</SelectItem>
+                    <SelectItem value="gentle">{t('profile.tone.gentle')}</SelectItem>
+                    <SelectItem value="funny">{t('profile.tone.funny')}</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -556,13 +763,13 @@ export const UserProfileForm = ({ onComplete }: UserProfileFormProps) => {
                   checked={dietData.reminder_enabled}
                   onCheckedChange={(checked) => setDietData(prev => ({ ...prev, reminder_enabled: checked }))}
                 />
-                <Label htmlFor="reminder_enabled">Enable Reminders</Label>
+                <Label htmlFor="reminder_enabled">{t('profile.enableReminders')}</Label>
               </div>
             </div>
           </div>
 
           <Button type="submit" className="w-full" disabled={loading}>
-            {loading ? 'Saving...' : 'Save Profile & Preferences'}
+            {loading ? t('profile.saving') : t('profile.save')}
           </Button>
         </form>
       </CardContent>
@@ -0,0 +1,22 @@
+import { createContext, useContext } from 'react';
+import type { Locale } from 'date-fns';
+import { DATE_LOCALES, DEFAULT_LANGUAGE, Language, translateEnglish, translateMealType, Translate } from '@/lib/i18n';
+
+export interface I18nContextType {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  t: Translate;
+  mealType: (type: string, inSentence?: boolean) => string;
+  dateLocale: Locale;
+}
+
+// English until an I18nProvider above sets the language
+export const I18nContext = createContext<I18nContextType>({
+  language: DEFAULT_LANGUAGE,
+  setLanguage: () => {},
+  t: translateEnglish,
+  mealType: (type, inSentence) => translateMealType(DEFAULT_LANGUAGE, type, inSentence),
+  dateLocale: DATE_LOCALES[DEFAULT_LANGUAGE],
+});
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { I18nContext } from '@/hooks/i18n-context';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  browserLanguage,
+  DATE_LOCALES,
+  isLanguage,
+  Language,
+  translate,
+  translateMealType,
+  TranslationKey,
+  TranslationValues,
+} from '@/lib/i18n';
+
+// Remembers the language on this device for the sign-in page and before the profile loads
+const STORAGE_KEY = 'language';
+
+const storedLanguage = (): Language => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isLanguage(stored) ? stored : browserLanguage();
+  } catch {
+    return browserLanguage();
+  }
+};
+
+// The language on the user's profile once signed in, else the one last used on
+// this device or the browser's. Changing it here does not save the profile.
+export const I18nProvider = ({ children }: { children: React.ReactNode }) => {
+  const { user } = useAuth();
+  const [language, setLanguageState] = useState<Language>(storedLanguage);
+
+  const setLanguage = useCallback((next: Language) => {
+    setLanguageState(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // Private browsing can block storage; the choice still applies until reload
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    const load = async () => {
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('language')
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (error) {
+        console.error('Error loading language:', error);
+        return;
+      }
+      if (isLanguage(data?.language)) setLanguage(data.language);
+    };
+    load();
+  }, [user, setLanguage]);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const value = useMemo(() => ({
+    language,
+    setLanguage,
+    t: (key: TranslationKey, values?: TranslationValues) => translate(language, key, values),
+    mealType: (type: string, inSentence?: boolean) => translateMealType(language, type, inSentence),
+    dateLocale: DATE_LOCALES[language],
+  }), [language, setLanguage]);
+
+  return (
+    <I18nContext.Provider value={value}>
+      {children}
+    </I18nContext.Provider>
+  );
+};
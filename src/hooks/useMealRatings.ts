@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+
+// Dish names are compared without case, as generation does
+const dishKey = (name: string) => name.trim().toLowerCase();
+
+// The user's 1-5 ratings by dish, and a function to rate a dish. Dishes are
+// rated under their English name (name_en on translated meals), the name
+// generation compares against.
+export const useMealRatings = () => {
+  const { user } = useAuth();
+  const [ratings, setRatings] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    if (!user) return;
+    const load = async () => {
+      const { data, error } = await supabase
+        .from('meal_ratings')
+        .select('meal_name, rating')
+        .eq('user_id', user.id);
+      if (error) {
+        console.error('Error loading meal ratings:', error);
+        return;
+      }
+      setRatings(Object.fromEntries((data || []).map(row => [dishKey(row.meal_name), row.rating])));
+    };
+    load();
+  }, [user]);
+
+  const rateMeal = useCallback(async (mealName: string, rating: number, mealPlanId?: string) => {
+    if (!user) return;
+    const key = dishKey(mealName);
+    const previous = ratings[key];
+    setRatings(prev => ({ ...prev, [key]: rating }));
+
+    const { error } = await supabase
+      .from('meal_ratings')
+      .upsert(
+        { user_id: user.id, meal_name: mealName, rating, meal_plan_id: mealPlanId ?? null },
+        { onConflict: 'user_id,meal_name' }
+      );
+    if (error) {
+      setRatings(prev => ({ ...prev, [key]: previous }));
+      throw error;
+    }
+  }, [user, ratings]);
+
+  const getRating = useCallback((mealName: string) => ratings[dishKey(mealName)] ?? 0, [ratings]);
+
+  return { getRating, rateMeal };
+};
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { buildPriceLookup, IngredientPrice } from '@/lib/costs';
+
+// The user's budget settings and the ingredient prices that apply to them
+export const usePriceTable = () => {
+  const { user } = useAuth();
+  const [prices, setPrices] = useState<IngredientPrice[]>([]);
+  const [currency, setCurrency] = useState('USD');
+  const [weeklyBudget, setWeeklyBudget] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const { data: preferences, error: preferencesError } = await supabase
+        .from('diet_preferences')
+        .select('weekly_budget, currency')
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (preferencesError) throw preferencesError;
+
+      const userCurrency = preferences?.currency || 'USD';
+      // RLS returns the shared defaults and the user's own rows
+      const { data, error } = await supabase
+        .from('ingredient_prices')
+        .select('*')
+        .eq('currency', userCurrency)
+        .order('name', { ascending: true });
+      if (error) throw error;
+
+      setCurrency(userCurrency);
+      setWeeklyBudget(preferences?.weekly_budget ?? null);
+      setPrices(data || []);
+    } catch (error) {
+      console.error('Error loading ingredient prices:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const lookup = useMemo(() => buildPriceLookup(prices, currency), [prices, currency]);
+  const userPrices = useMemo(() => prices.filter(price => price.user_id === user?.id), [prices, user]);
+
+  return { prices, userPrices, lookup, currency, weeklyBudget, loading, reload };
+};
@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { deviceTimeZone } from '@/lib/dates';
+
+// The time zone on the user's profile, or null until it has loaded. A profile
+// without one gets the device's zone saved, so the server uses it too. When the
+// profile cannot be read, the device's zone is used.
+export const useTimeZone = () => {
+  const { user } = useAuth();
+  const [timeZone, setTimeZone] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    const load = async () => {
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('time_zone')
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (error) console.error('Error loading time zone:', error);
+      if (data && !data.time_zone) {
+        const { error: saveError } = await supabase
+          .from('user_profiles')
+          .update({ time_zone: deviceTimeZone() })
+          .eq('user_id', user.id);
+        if (saveError) console.error('Error saving time zone:', saveError);
+      }
+      setTimeZone(data?.time_zone ?? deviceTimeZone());
+    };
+    load();
+  }, [user]);
+
+  return timeZone;
+};
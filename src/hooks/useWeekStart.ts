@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_WEEK_STARTS_ON } from '@/lib/dates';
+
+// The weekday the user's week starts on, 0 being Sunday
+export const useWeekStart = () => {
+  const { user } = useAuth();
+  const [weekStartsOn, setWeekStartsOn] = useState(DEFAULT_WEEK_STARTS_ON);
+
+  useEffect(() => {
+    if (!user) return;
+    const load = async () => {
+      const { data, error } = await supabase
+        .from('diet_preferences')
+        .select('week_starts_on')
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (error) {
+        console.error('Error loading week start:', error);
+        return;
+      }
+      if (data) setWeekStartsOn(data.week_starts_on);
+    };
+    load();
+  }, [user]);
+
+  return weekStartsOn;
+};
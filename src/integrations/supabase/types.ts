@@ -17,107 +17,402 @@ export type Database = {
       diet_preferences: {
         Row: {
           allergies: string[] | null
+          batch_cooking: boolean
+          cooking_limits: Json
+          currency: string
           diet_type: string | null
           foods_to_avoid: string[] | null
           include_snacks: boolean | null
           meal_times: Json | null
           meals_per_day: number | null
+          plan_start: string
           preferred_cuisines: string[] | null
           reminder_enabled: boolean | null
           reminder_tone: string | null
           total_days: number | null
           updated_at: string | null
           user_id: string
+          week_starts_on: number
+          weekend_long_recipes: boolean
+          weekly_budget: number | null
         }
         Insert: {
           allergies?: string[] | null
+          batch_cooking?: boolean
+          cooking_limits?: Json
+          currency?: string
           diet_type?: string | null
           foods_to_avoid?: string[] | null
           include_snacks?: boolean | null
           meal_times?: Json | null
           meals_per_day?: number | null
+          plan_start?: string
           preferred_cuisines?: string[] | null
           reminder_enabled?: boolean | null
           reminder_tone?: string | null
           total_days?: number | null
           updated_at?: string | null
           user_id: string
+          week_starts_on?: number
+          weekend_long_recipes?: boolean
+          weekly_budget?: number | null
         }
         Update: {
           allergies?: string[] | null
+          batch_cooking?: boolean
+          cooking_limits?: Json
+          currency?: string
           diet_type?: string | null
           foods_to_avoid?: string[] | null
           include_snacks?: boolean | null
           meal_times?: Json | null
           meals_per_day?: number | null
+          plan_start?: string
           preferred_cuisines?: string[] | null
           reminder_enabled?: boolean | null
           reminder_tone?: string | null
           total_days?: number | null
           updated_at?: string | null
           user_id?: string
+          week_starts_on?: number
+          weekend_long_recipes?: boolean
+          weekly_budget?: number | null
         }
         Relationships: []
       }
+      generation_jobs: {
+        Row: {
+          attempts: number
+          created_at: string
+          days_completed: number
+          error: string | null
+          finished_at: string | null
+          id: string
+          idempotency_key: string | null
+          max_attempts: number
+          meal_plan_id: string | null
+          preferences: Json
+          retries: number
+          started_at: string | null
+          status: string
+          total_days: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          days_completed?: number
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          idempotency_key?: string | null
+          max_attempts?: number
+          meal_plan_id?: string | null
+          preferences: Json
+          retries?: number
+          started_at?: string | null
+          status?: string
+          total_days?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          days_completed?: number
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          idempotency_key?: string | null
+          max_attempts?: number
+          meal_plan_id?: string | null
+          preferences?: Json
+          retries?: number
+          started_at?: string | null
+          status?: string
+          total_days?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "generation_jobs_meal_plan_id_fkey"
+            columns: ["meal_plan_id"]
+            isOneToOne: false
+            referencedRelation: "meal_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       grocery_lists: {
         Row: {
+          amount: number | null
           id: string
           is_purchased: boolean | null
           item_name: string | null
+          meal_plan_id: string | null
+          name_en: string | null
           notes: string | null
           quantity: string | null
+          unit: string | null
           user_id: string | null
           week_start_date: string | null
         }
         Insert: {
+          amount?: number | null
           id?: string
           is_purchased?: boolean | null
           item_name?: string | null
+          meal_plan_id?: string | null
+          name_en?: string | null
           notes?: string | null
           quantity?: string | null
+          unit?: string | null
           user_id?: string | null
           week_start_date?: string | null
         }
         Update: {
+          amount?: number | null
           id?: string
           is_purchased?: boolean | null
           item_name?: string | null
+          meal_plan_id?: string | null
+          name_en?: string | null
           notes?: string | null
           quantity?: string | null
+          unit?: string | null
           user_id?: string | null
           week_start_date?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "grocery_lists_meal_plan_id_fkey"
+            columns: ["meal_plan_id"]
+            isOneToOne: false
+            referencedRelation: "meal_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      household_members: {
+        Row: {
+          activity_level: string | null
+          allergies: string[]
+          calorie_target: number | null
+          created_at: string
+          date_of_birth: string | null
+          diet_type: string | null
+          fitness_goal: string | null
+          foods_to_avoid: string[]
+          gender: string | null
+          height_cm: number | null
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+          weight_kg: number | null
+        }
+        Insert: {
+          activity_level?: string | null
+          allergies?: string[]
+          calorie_target?: number | null
+          created_at?: string
+          date_of_birth?: string | null
+          diet_type?: string | null
+          fitness_goal?: string | null
+          foods_to_avoid?: string[]
+          gender?: string | null
+          height_cm?: number | null
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+          weight_kg?: number | null
+        }
+        Update: {
+          activity_level?: string | null
+          allergies?: string[]
+          calorie_target?: number | null
+          created_at?: string
+          date_of_birth?: string | null
+          diet_type?: string | null
+          fitness_goal?: string | null
+          foods_to_avoid?: string[]
+          gender?: string | null
+          height_cm?: number | null
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+          weight_kg?: number | null
+        }
+        Relationships: []
+      }
+      ingredient_prices: {
+        Row: {
+          amount: number
+          created_at: string
+          currency: string
+          id: string
+          name: string
+          price: number
+          unit: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          amount?: number
+          created_at?: string
+          currency?: string
+          id?: string
+          name: string
+          price: number
+          unit?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          currency?: string
+          id?: string
+          name?: string
+          price?: number
+          unit?: string
+          updated_at?: string
+          user_id?: string | null
+        }
         Relationships: []
       }
       meal_plans: {
         Row: {
+          allergen_violations: Json
+          cost_estimate: Json | null
           created_at: string | null
+          generation_job_id: string | null
+          generation_params: Json | null
           id: string
           meals_per_day: number | null
+          model: string | null
+          nutrition_targets: Json | null
           plan_data: Json | null
+          prompt_version: string | null
           total_days: number | null
           user_id: string | null
+          variety_score: number | null
           week_start_date: string | null
         }
         Insert: {
+          allergen_violations?: Json
+          cost_estimate?: Json | null
           created_at?: string | null
+          generation_job_id?: string | null
+          generation_params?: Json | null
           id?: string
           meals_per_day?: number | null
+          model?: string | null
+          nutrition_targets?: Json | null
           plan_data?: Json | null
+          prompt_version?: string | null
           total_days?: number | null
           user_id?: string | null
+          variety_score?: number | null
           week_start_date?: string | null
         }
         Update: {
+          allergen_violations?: Json
+          cost_estimate?: Json | null
           created_at?: string | null
+          generation_job_id?: string | null
+          generation_params?: Json | null
           id?: string
           meals_per_day?: number | null
+          model?: string | null
+          nutrition_targets?: Json | null
           plan_data?: Json | null
+          prompt_version?: string | null
           total_days?: number | null
           user_id?: string | null
+          variety_score?: number | null
           week_start_date?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "meal_plans_generation_job_id_fkey"
+            columns: ["generation_job_id"]
+            isOneToOne: true
+            referencedRelation: "generation_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      meal_ratings: {
+        Row: {
+          created_at: string
+          id: string
+          meal_name: string
+          meal_plan_id: string | null
+          rating: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          meal_name: string
+          meal_plan_id?: string | null
+          rating: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          meal_name?: string
+          meal_plan_id?: string | null
+          rating?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meal_ratings_meal_plan_id_fkey"
+            columns: ["meal_plan_id"]
+            isOneToOne: false
+            referencedRelation: "meal_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      meal_swaps: {
+        Row: {
+          created_at: string
+          id: string
+          meal_plan_id: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          meal_plan_id?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          meal_plan_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meal_swaps_meal_plan_id_fkey"
+            columns: ["meal_plan_id"]
+            isOneToOne: false
+            referencedRelation: "meal_plans"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       notifications: {
         Row: {
@@ -143,6 +438,39 @@ export type Database = {
         }
         Relationships: []
       }
+      pantry_items: {
+        Row: {
+          created_at: string
+          expires_on: string | null
+          id: string
+          name: string
+          quantity: number | null
+          unit: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_on?: string | null
+          id?: string
+          name: string
+          quantity?: number | null
+          unit?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_on?: string | null
+          id?: string
+          name?: string
+          quantity?: number | null
+          unit?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_profiles: {
         Row: {
           activity_level: string | null
@@ -152,6 +480,8 @@ export type Database = {
           full_name: string | null
           gender: string | null
           height_cm: number | null
+          language: string
+          time_zone: string | null
           updated_at: string | null
           user_id: string
           weight_kg: number | null
@@ -164,6 +494,8 @@ export type Database = {
           full_name?: string | null
           gender?: string | null
           height_cm?: number | null
+          language?: string
+          time_zone?: string | null
           updated_at?: string | null
           user_id: string
           weight_kg?: number | null
@@ -176,6 +508,8 @@ export type Database = {
           full_name?: string | null
           gender?: string | null
           height_cm?: number | null
+          language?: string
+          time_zone?: string | null
           updated_at?: string | null
           user_id?: string
           weight_kg?: number | null
@@ -187,7 +521,54 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      enqueue_generation_job: {
+        Args: {
+          p_daily_limit: number
+          p_idempotency_key?: string
+          p_min_interval_seconds: number
+          p_preferences: Json
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      meal_swap_quota: {
+        Args: {
+          p_daily_limit: number
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      save_generated_meal_plan: {
+        Args: {
+          p_grocery_rows: Json
+          p_job_id: string
+          p_meal_plan: Json
+          p_user_id: string
+        }
+        Returns: {
+          allergen_violations: Json
+          created_at: string | null
+          generation_job_id: string | null
+          id: string
+          meals_per_day: number | null
+          nutrition_targets: Json | null
+          plan_data: Json | null
+          total_days: number | null
+          user_id: string | null
+          week_start_date: string | null
+        }
+      }
+      save_swapped_meal: {
+        Args: {
+          p_daily_limit: number
+          p_grocery_rows: Json
+          p_meal_plan_id: string
+          p_plan_data: Json
+          p_remove_ids: string[]
+          p_user_id: string
+        }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,54 @@
+// Cooking time and skill limits per meal slot, stored in diet_preferences.cooking_limits
+// and matching supabase/functions/_shared/cooking.ts.
+
+import { Translate, translateEnglish } from '@/lib/i18n';
+
+export const SKILL_LEVELS = ['beginner', 'intermediate', 'advanced'] as const;
+
+export type SkillLevel = typeof SKILL_LEVELS[number];
+
+export const COOKING_SLOTS = ['breakfast', 'lunch', 'dinner', 'snack'] as const;
+
+export type CookingSlot = typeof COOKING_SLOTS[number];
+
+// A type alias rather than an interface so limits can be saved as Json
+export type CookingLimit = {
+  max_minutes: number | null;
+  skill: SkillLevel | null;
+};
+
+export type CookingLimits = Partial<Record<CookingSlot, CookingLimit>>;
+
+// Choices offered for the longest a meal may take
+export const MINUTE_OPTIONS = [10, 15, 20, 30, 45, 60, 90];
+
+// Stored JSON with unknown slots, minutes and skill levels dropped
+export const parseCookingLimits = (stored: unknown): CookingLimits => {
+  const limits: CookingLimits = {};
+  if (!stored || typeof stored !== 'object') return limits;
+  for (const slot of COOKING_SLOTS) {
+    const entry = (stored as Record<string, Partial<CookingLimit> | undefined>)[slot];
+    const maxMinutes = Number.isInteger(entry?.max_minutes) && entry.max_minutes > 0 ? entry.max_minutes : null;
+    const skill = SKILL_LEVELS.includes(entry?.skill as SkillLevel) ? entry.skill : null;
+    if (maxMinutes || skill) limits[slot] = { max_minutes: maxMinutes, skill };
+  }
+  return limits;
+};
+
+// e.g. "10 min prep · 25 min cook · Beginner", or null for meals from older plans
+export const formatCookingTime = (
+  meal: { prep_minutes?: number; cook_minutes?: number; skill_level?: string },
+  t: Translate = translateEnglish
+) => {
+  const parts = [];
+  if (typeof meal.prep_minutes === 'number') parts.push(t('cooking.prep', { minutes: meal.prep_minutes }));
+  if (typeof meal.cook_minutes === 'number') {
+    parts.push(meal.cook_minutes ? t('cooking.cook', { minutes: meal.cook_minutes }) : t('cooking.noCooking'));
+  }
+  if (meal.skill_level) {
+    parts.push(SKILL_LEVELS.includes(meal.skill_level as SkillLevel)
+      ? t(`skill.${meal.skill_level as SkillLevel}`)
+      : meal.skill_level.charAt(0).toUpperCase() + meal.skill_level.slice(1));
+  }
+  return parts.length ? parts.join(' · ') : null;
+};
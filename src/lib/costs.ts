@@ -0,0 +1,70 @@
+// Cost estimates from ingredient_prices, matching supabase/functions/_shared/costs.ts.
+// Shared default rows have no user; a user's own price for the same product and
+// kind of unit wins. Only prices in the user's currency are used. Prices are kept
+// under English names, so translated ingredients are priced by their name_en.
+
+import { Tables } from '@/integrations/supabase/types';
+import { productKey, toBaseAmount } from '@/lib/grocery';
+import { normalizeIngredient, PlanIngredient } from '@/lib/ingredients';
+
+export type IngredientPrice = Tables<'ingredient_prices'>;
+
+// Product key -> unit group -> price per base unit (gram, millilitre or item)
+export type PriceLookup = Map<string, Map<string, number>>;
+
+export const CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'INR'];
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export const buildPriceLookup = (prices: IngredientPrice[], currency: string): PriceLookup => {
+  const lookup: PriceLookup = new Map();
+  // Defaults first so the user's own rows overwrite them
+  const ordered = [...prices].sort((a, b) => Number(Boolean(a.user_id)) - Number(Boolean(b.user_id)));
+  for (const row of ordered) {
+    if (row.currency !== currency || !row.name?.trim() || !(row.amount > 0) || !(row.price >= 0)) continue;
+    const { group, total } = toBaseAmount(Number(row.amount), row.unit);
+    const key = productKey(row.name);
+    if (!lookup.has(key)) lookup.set(key, new Map());
+    lookup.get(key).set(group, Number(row.price) / total);
+  }
+  return lookup;
+};
+
+// Cost of one amount of a product, or null when there is no comparable price.
+// "black beans" falls back to a price for "beans".
+export const estimateAmountCost = (lookup: PriceLookup, name: string, amount: number | null, unit: string | null) => {
+  if (!amount || amount <= 0) return null;
+  const { group, total } = toBaseAmount(amount, unit);
+  const words = productKey(name).split(' ');
+  for (let i = 0; i < words.length; i++) {
+    const perBase = lookup.get(words.slice(i).join(' '))?.get(group);
+    if (perBase !== undefined) return perBase * total;
+  }
+  return null;
+};
+
+// Cost of a meal's priced ingredients; seasonings without an amount are skipped
+export const estimateMealCost = (ingredients: PlanIngredient[] | undefined, lookup: PriceLookup) => {
+  let cost = 0;
+  let unpriced = 0;
+  for (const ingredient of (ingredients || []).map(normalizeIngredient)) {
+    if (ingredient.amount === null) continue;
+    const ingredientCost = estimateAmountCost(lookup, ingredient.name_en ?? ingredient.name, ingredient.amount, ingredient.unit);
+    if (ingredientCost === null) unpriced += 1;
+    else cost += ingredientCost;
+  }
+  return { cost: roundMoney(cost), unpriced };
+};
+
+// Budget for a plan of totalDays, scaled from the weekly budget
+export const budgetForDays = (weeklyBudget: number | null, totalDays: number) =>
+  weeklyBudget ? roundMoney((weeklyBudget * totalDays) / 7) : null;
+
+// In the given language's format, or the browser's without one
+export const formatMoney = (value: number, currency: string, locale?: string) => {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(value);
+  } catch {
+    return `${value.toFixed(2)} ${currency}`;
+  }
+};
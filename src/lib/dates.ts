@@ -0,0 +1,120 @@
+// Plan dates, matching supabase/functions/_shared/dates.ts. A plan's
+// week_start_date is the date of day 1 and day N falls N - 1 days later.
+// Dates are yyyy-mm-dd strings read as local calendar dates, so a plan day
+// shows on the same date in every view. "Today" and reminder times are in the
+// time zone on the user's profile, which may not be the device's.
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const DEFAULT_WEEK_STARTS_ON = 1;
+
+// Name of a weekday from WEEKDAYS, 0 being Sunday, in the given language
+export const formatWeekday = (index: number, locale?: string) =>
+  new Date(Date.UTC(2024, 0, 7 + index)).toLocaleDateString(locale, { weekday: 'long', timeZone: 'UTC' });
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The fields of a meal_plans row that place it on the calendar
+export interface DatedPlan {
+  week_start_date?: string | null;
+  created_at?: string | null;
+  total_days?: number | null;
+  plan_data?: unknown;
+}
+
+// Local midnight of a yyyy-mm-dd date; new Date('yyyy-mm-dd') would be UTC midnight
+export const parseIsoDate = (isoDate: string) => {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const toIsoDate = (date: Date) =>
+  [date.getFullYear(), String(date.getMonth() + 1).padStart(2, '0'), String(date.getDate()).padStart(2, '0')].join('-');
+
+export const isTimeZone = (value: string) => {
+  if (!value) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const deviceTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Every zone the browser knows, for pickers; older browsers only offer the device's
+export const listTimeZones = () => {
+  const supportedValuesOf = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  return supportedValuesOf ? supportedValuesOf('timeZone') : [deviceTimeZone()];
+};
+
+// The date of an instant in a time zone, or on the device's clock without one
+export const isoDateIn = (instant: Date, timeZone?: string | null) => {
+  if (!timeZone || !isTimeZone(timeZone)) return toIsoDate(instant);
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+      .formatToParts(instant)
+      .map((part) => [part.type, part.value])
+  );
+  return `${parts.year}-${parts.month}-${parts.day}`;
+};
+
+export const todayIsoDate = (timeZone?: string | null) => isoDateIn(new Date(), timeZone);
+
+// e.g. "Oct 18, 6:00 PM", as the clock shows it in the time zone, in the
+// given language's format or the browser's without one
+export const formatDateTime = (instant: string | Date, timeZone?: string | null, locale?: string) =>
+  new Intl.DateTimeFormat(locale, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: timeZone && isTimeZone(timeZone) ? timeZone : undefined,
+  }).format(new Date(instant));
+
+export const addDays = (isoDate: string, days: number) => {
+  const date = parseIsoDate(isoDate);
+  date.setDate(date.getDate() + days);
+  return toIsoDate(date);
+};
+
+// Whole days from one date to another; negative when the second is earlier
+export const daysBetween = (fromIsoDate: string, toIsoDate: string) =>
+  Math.round((parseIsoDate(toIsoDate).getTime() - parseIsoDate(fromIsoDate).getTime()) / DAY_MS);
+
+// Day 1 of a plan. Plans saved without a week_start_date started the day they
+// were made, in the profile's time zone like every other server date.
+export const planStartDate = (plan: DatedPlan, timeZone?: string | null) =>
+  plan.week_start_date || (plan.created_at ? isoDateIn(new Date(plan.created_at), timeZone) : todayIsoDate(timeZone));
+
+export const planLength = (plan: DatedPlan) => {
+  const days = (plan.plan_data as { days?: unknown[] } | null)?.days;
+  if (Array.isArray(days) && days.length) return days.length;
+  return plan.total_days || 7;
+};
+
+// yyyy-mm-dd of a plan day
+export const planDayDate = (plan: DatedPlan, day: number, timeZone?: string | null) =>
+  addDays(planStartDate(plan, timeZone), day - 1);
+
+// The plan day that falls on a date, or null outside the plan
+export const planDayOn = (plan: DatedPlan, isoDate: string, timeZone?: string | null) => {
+  const day = daysBetween(planStartDate(plan, timeZone), isoDate) + 1;
+  return day >= 1 && day <= planLength(plan) ? day : null;
+};
+
+// The plan for a date: the newest one with a day on it, else the next one to
+// start, so a plan made ahead of the week can be shopped for. Null when neither.
+export const findCurrentPlan = <T extends DatedPlan>(plans: T[], isoDate: string, timeZone?: string | null) => {
+  const newestFirst = [...plans].sort((a, b) => (b.created_at ?? '').localeCompare(a.created_at ?? ''));
+  return newestFirst.find((plan) => planDayOn(plan, isoDate, timeZone) !== null)
+    ?? newestFirst
+      .filter((plan) => daysBetween(isoDate, planStartDate(plan, timeZone)) > 0)
+      .sort((a, b) => planStartDate(a, timeZone).localeCompare(planStartDate(b, timeZone)))[0]
+    ?? null;
+};
+
+// The last day of the user's week, a good day to plan the next one
+export const isLastDayOfWeek = (isoDate: string, weekStartsOn: number) =>
+  parseIsoDate(isoDate).getDay() === (weekStartsOn + 6) % 7;
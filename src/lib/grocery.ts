@@ -0,0 +1,345 @@
+// Aggregates grocery rows into one line per product for the week: amounts are
+// converted to a common unit where the units are compatible and summed, and
+// name variants ("tomato"/"tomatoes", "red onion, diced") are merged. Pantry
+// stock is subtracted so only what is still missing needs buying. Translated
+// rows are grouped by their English name, so they merge with untranslated rows
+// of the same product and can be priced.
+
+export interface GroceryRow {
+  id: string;
+  item_name: string | null;
+  name_en?: string | null;
+  quantity: string | null;
+  amount?: number | null;
+  unit?: string | null;
+  is_purchased: boolean | null;
+  notes?: string | null;
+}
+
+export interface PantryStock {
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+}
+
+// An amount in the base unit of its group: g, ml, piece or a count unit like clove
+export interface GroceryAmount {
+  amount: number;
+  unit: string;
+}
+
+export interface AggregatedGroceryItem {
+  key: string;
+  ids: string[];
+  item_name: string;
+  // English name for pricing; the same as item_name for untranslated items
+  name_en: string;
+  // Still to buy, or the full amount once purchased or covered by the pantry
+  quantity: string;
+  amounts: GroceryAmount[];
+  is_purchased: boolean;
+  // The pantry already holds everything this item needs
+  in_pantry: boolean;
+  // How much of the item the pantry covers, when it covers some
+  pantry_quantity?: string;
+  notes?: string;
+}
+
+type Dimension = 'mass' | 'volume' | 'count';
+
+interface UnitInfo {
+  dimension: Dimension;
+  // Size in the dimension's base unit: grams, millilitres or items
+  factor: number;
+  // Base unit name; count units each keep their own (2 cloves and 1 can do not add up)
+  name: string;
+  metric?: boolean;
+}
+
+const UNITS: Record<string, UnitInfo> = {
+  mg: { dimension: 'mass', factor: 0.001, name: 'g', metric: true },
+  g: { dimension: 'mass', factor: 1, name: 'g', metric: true },
+  kg: { dimension: 'mass', factor: 1000, name: 'g', metric: true },
+  oz: { dimension: 'mass', factor: 28.35, name: 'g' },
+  lb: { dimension: 'mass', factor: 453.6, name: 'g' },
+  ml: { dimension: 'volume', factor: 1, name: 'ml', metric: true },
+  l: { dimension: 'volume', factor: 1000, name: 'ml', metric: true },
+  tsp: { dimension: 'volume', factor: 4.93, name: 'ml' },
+  tbsp: { dimension: 'volume', factor: 14.79, name: 'ml' },
+  cup: { dimension: 'volume', factor: 240, name: 'ml' },
+  piece: { dimension: 'count', factor: 1, name: 'piece' },
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  milligram: 'mg', milligrams: 'mg',
+  gram: 'g', grams: 'g', gr: 'g',
+  kilogram: 'kg', kilograms: 'kg', kgs: 'kg',
+  ounce: 'oz', ounces: 'oz',
+  pound: 'lb', pounds: 'lb', lbs: 'lb',
+  milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml',
+  liter: 'l', liters: 'l', litre: 'l', litres: 'l',
+  teaspoon: 'tsp', teaspoons: 'tsp',
+  tablespoon: 'tbsp', tablespoons: 'tbsp', tbs: 'tbsp',
+  cups: 'cup',
+  pieces: 'piece', pc: 'piece', pcs: 'piece', whole: 'piece', unit: 'piece', units: 'piece',
+  cloves: 'clove', slices: 'slice', cans: 'can', tins: 'can', tin: 'can',
+  bunches: 'bunch', handfuls: 'handful', pinches: 'pinch', stalks: 'stalk', sprigs: 'sprig',
+};
+
+const PLURAL_UNITS: Record<string, string> = {
+  cup: 'cups', clove: 'cloves', slice: 'slices', can: 'cans', bunch: 'bunches',
+  handful: 'handfuls', pinch: 'pinches', stalk: 'stalks', sprig: 'sprigs',
+};
+
+// Words that end in "s" but are not plurals
+const SINGULAR_EXCEPTIONS = new Set(['molasses', 'series']);
+
+const canonicalUnit = (unit: string | null | undefined) => {
+  if (!unit) return 'piece';
+  const cleaned = unit.trim().toLowerCase().replace(/\.$/, '');
+  return UNIT_ALIASES[cleaned] || cleaned;
+};
+
+const unitInfo = (unit: string): UnitInfo =>
+  UNITS[unit] || { dimension: 'count', factor: 1, name: unit };
+
+const singularize = (word: string) => {
+  if (SINGULAR_EXCEPTIONS.has(word) || word.length <= 3) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('oes')) return word.slice(0, -2);
+  if (/(ches|shes|sses|xes)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+};
+
+// Display name without preparation notes: "Red Onion, diced" -> "Red Onion"
+const cleanName = (name: string) =>
+  name.split(',')[0].replace(/\([^)]*\)/g, '').replace(/\s+/g, ' ').trim();
+
+// Grouping key: lowercase, singular last word
+export const productKey = (name: string) => {
+  const words = cleanName(name).toLowerCase().split(' ');
+  words[words.length - 1] = singularize(words[words.length - 1]);
+  return words.join(' ');
+};
+
+const parseNumber = (text: string) => {
+  const mixed = text.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) return Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+  const fraction = text.match(/^(\d+)\/(\d+)$/);
+  if (fraction) return Number(fraction[1]) / Number(fraction[2]);
+  const value = Number(text.replace(',', '.'));
+  return Number.isFinite(value) ? value : null;
+};
+
+const AMOUNT_PATTERN = '(\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d+(?:[.,]\\d+)?)';
+
+// "0.5 cup" -> { amount: 0.5, unit: 'cup' }
+const parseQuantity = (quantity: string) => {
+  const match = quantity.trim().match(new RegExp(`^${AMOUNT_PATTERN}\\s*([a-zA-Z.]+)?$`));
+  if (!match) return null;
+  const amount = parseNumber(match[1]);
+  return amount ? { amount, unit: canonicalUnit(match[2]) } : null;
+};
+
+// Older rows kept the whole ingredient in item_name: "1 cup rolled oats", "2 eggs".
+// A name that is only an amount and a unit, like "1 unit", has no product to split off.
+const parseLegacyName = (itemName: string) => {
+  const match = itemName.trim().match(new RegExp(`^${AMOUNT_PATTERN}\\s+(\\S+)(?:\\s+(.+))?$`));
+  if (!match) return null;
+  const amount = parseNumber(match[1]);
+  if (!amount) return null;
+  const unit = canonicalUnit(match[2]);
+  const isUnit = Boolean(UNITS[unit] || PLURAL_UNITS[unit]);
+  if (!match[3] && isUnit) return null;
+  if (match[3] && isUnit) return { amount, unit, name: match[3] };
+  return { amount, unit: 'piece', name: match[3] ? `${match[2]} ${match[3]}` : match[2] };
+};
+
+// Amount, unit and product name for one row. A bare "1 unit" quantity was a
+// placeholder written before rows carried real quantities, so it counts as unknown.
+const readRow = (row: GroceryRow) => {
+  const itemName = row.item_name?.trim() || '';
+  const nameEn = row.name_en?.trim() || null;
+  if (typeof row.amount === 'number' && row.amount > 0) {
+    return { name: itemName, nameEn: nameEn ?? itemName, amount: row.amount, unit: canonicalUnit(row.unit) };
+  }
+  const legacy = parseLegacyName(itemName);
+  if (legacy) return { ...legacy, nameEn: legacy.name };
+  const parsed = row.quantity && row.quantity !== '1 unit' ? parseQuantity(row.quantity) : null;
+  return { name: itemName, nameEn: nameEn ?? itemName, amount: parsed?.amount ?? null, unit: parsed?.unit ?? null };
+};
+
+const round = (value: number) => String(Math.round(value * 100) / 100);
+
+const formatTotal = (total: number, info: UnitInfo, metric: boolean) => {
+  if (info.dimension === 'mass') {
+    return total >= 1000 ? `${round(total / 1000)} kg` : `${round(total)} g`;
+  }
+  if (info.dimension === 'volume') {
+    if (metric) return total >= 1000 ? `${round(total / 1000)} l` : `${round(total)} ml`;
+    if (total >= UNITS.cup.factor / 4) {
+      const cups = total / UNITS.cup.factor;
+      return `${round(cups)} ${cups === 1 ? 'cup' : 'cups'}`;
+    }
+    if (total >= UNITS.tbsp.factor) return `${round(total / UNITS.tbsp.factor)} tbsp`;
+    return `${round(total / UNITS.tsp.factor)} tsp`;
+  }
+  if (info.name === 'piece') return round(total);
+  return `${round(total)} ${total === 1 ? info.name : PLURAL_UNITS[info.name] || info.name}`;
+};
+
+interface UnitTotal {
+  total: number;
+  info: UnitInfo;
+  metric: boolean;
+}
+
+const groupKey = (info: UnitInfo) => `${info.dimension}:${info.name}`;
+
+// e.g. { group: 'mass:g', total: 250 } for 0.25 kg
+export const toBaseAmount = (amount: number, unit: string | null | undefined) => {
+  const info = unitInfo(canonicalUnit(unit));
+  return { group: groupKey(info), total: amount * info.factor };
+};
+
+const addToTotals = (totals: Map<string, UnitTotal>, amount: number, unit: string) => {
+  const info = unitInfo(unit);
+  const group = totals.get(groupKey(info)) || { total: 0, info, metric: true };
+  group.total += amount * info.factor;
+  group.metric = group.metric && Boolean(info.metric);
+  totals.set(groupKey(info), group);
+};
+
+const formatTotals = (totals: UnitTotal[]) =>
+  totals.map(({ total, info, metric }) => formatTotal(total, info, metric)).join(' + ');
+
+// Pantry stock per product. A pantry item without a quantity counts as "enough".
+const indexPantry = (pantry: PantryStock[]) => {
+  const stock = new Map<string, { totals: Map<string, UnitTotal>; unlimited: boolean }>();
+  for (const item of pantry) {
+    const name = item.name?.trim();
+    if (!name) continue;
+    const key = productKey(name);
+    if (!stock.has(key)) stock.set(key, { totals: new Map(), unlimited: false });
+    const entry = stock.get(key);
+    if (item.quantity === null || item.quantity === undefined) {
+      entry.unlimited = true;
+    } else if (item.quantity > 0) {
+      addToTotals(entry.totals, Number(item.quantity), canonicalUnit(item.unit));
+    }
+  }
+  return stock;
+};
+
+// Leaves out rounding noise from unit conversion
+const EPSILON = 0.005;
+
+export const aggregateGroceryItems = (rows: GroceryRow[], pantry: PantryStock[] = []): AggregatedGroceryItem[] => {
+  const products = new Map<string, {
+    name: string;
+    nameEn: string;
+    ids: string[];
+    purchased: boolean[];
+    notes: string[];
+    // Totals per unit group, in the group's base unit
+    totals: Map<string, UnitTotal>;
+  }>();
+
+  for (const row of rows) {
+    const { name, nameEn, amount, unit } = readRow(row);
+    if (!name) continue;
+
+    const key = productKey(nameEn);
+    if (!products.has(key)) {
+      products.set(key, { name: cleanName(name), nameEn: cleanName(nameEn), ids: [], purchased: [], notes: [], totals: new Map() });
+    }
+    const product = products.get(key);
+    product.ids.push(row.id);
+    product.purchased.push(Boolean(row.is_purchased));
+    if (row.notes && !product.notes.includes(row.notes)) product.notes.push(row.notes);
+
+    if (amount === null || !unit) continue;
+    addToTotals(product.totals, amount, unit);
+  }
+
+  const stock = indexPantry(pantry);
+
+  return Array.from(products.entries())
+    .map(([key, product]) => {
+      const needed = Array.from(product.totals.values());
+      const isPurchased = product.purchased.every(Boolean);
+      // Pantry items may be named in English or in the user's language
+      const onHand = stock.get(key) ?? stock.get(productKey(product.name));
+
+      // Purchased items are left as they are; they may well be in the pantry now
+      let remaining = needed;
+      let covered: UnitTotal[] = [];
+      let inPantry = false;
+      if (onHand && !isPurchased) {
+        if (onHand.unlimited) {
+          remaining = [];
+          covered = needed;
+        } else {
+          remaining = needed.map((group) => {
+            const available = onHand.totals.get(groupKey(group.info))?.total ?? 0;
+            return { ...group, total: Math.max(0, group.total - available) };
+          });
+          covered = needed
+            .map((group, i) => ({ ...group, total: group.total - remaining[i].total }))
+            .filter((group) => group.total > EPSILON);
+          remaining = remaining.filter((group) => group.total > EPSILON);
+        }
+        inPantry = remaining.length === 0 && (onHand.unlimited || covered.length > 0);
+      }
+
+      const toBuy = inPantry ? needed : remaining;
+      return {
+        key,
+        ids: product.ids,
+        item_name: product.name,
+        name_en: product.nameEn,
+        quantity: formatTotals(toBuy),
+        amounts: toBuy.map(({ total, info }) => ({ amount: Math.round(total * 100) / 100, unit: info.name })),
+        is_purchased: isPurchased,
+        in_pantry: inPantry,
+        pantry_quantity: covered.length ? formatTotals(covered) || undefined : undefined,
+        notes: product.notes.join('; ') || undefined,
+      };
+    })
+    .sort((a, b) => a.item_name.localeCompare(b.item_name));
+};
+
+// Pantry rows for a purchased item, merged into existing rows of the same
+// product and unit group so repeated purchases add up
+export const pantryChangesForPurchase = <T extends PantryStock & { id: string }>(
+  item: AggregatedGroceryItem,
+  pantry: T[]
+) => {
+  const updates: { id: string; quantity: number }[] = [];
+  const inserts: PantryStock[] = [];
+
+  const amounts = item.amounts.length ? item.amounts : [{ amount: null, unit: null }];
+  for (const { amount, unit } of amounts) {
+    const info = unit ? unitInfo(canonicalUnit(unit)) : null;
+    const existing = pantry.find((entry) =>
+      [item.key, productKey(item.item_name)].includes(productKey(entry.name)) &&
+      (info
+        ? entry.quantity !== null && groupKey(unitInfo(canonicalUnit(entry.unit))) === groupKey(info)
+        : entry.quantity === null)
+    );
+
+    if (!existing) {
+      inserts.push({ name: item.item_name, quantity: amount, unit: unit && unit !== 'piece' ? unit : null });
+    } else if (info) {
+      // Add in the unit the pantry row already uses
+      const existingFactor = unitInfo(canonicalUnit(existing.unit)).factor;
+      updates.push({
+        id: existing.id,
+        quantity: Math.round((Number(existing.quantity) + (amount * info.factor) / existingFactor) * 100) / 100,
+      });
+    }
+  }
+
+  return { updates, inserts };
+};
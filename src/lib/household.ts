@@ -0,0 +1,26 @@
+// Household fields on plan_data, matching supabase/functions/_shared/household.ts.
+// The account holder eats one portion of every serving; other members eat more
+// or less depending on their calorie needs.
+
+import { Translate, translateEnglish } from '@/lib/i18n';
+
+export interface HouseholdPortion {
+  name: string;
+  calories: number;
+  portions: number;
+}
+
+export interface PlanHousehold {
+  portions: number;
+  members: HouseholdPortion[];
+}
+
+// Portions of every serving the plan is cooked and shopped for
+export const planPortions = (planData: { household?: PlanHousehold | null } | null | undefined) => {
+  const portions = Number(planData?.household?.portions);
+  return Number.isFinite(portions) && portions > 0 ? portions : 1;
+};
+
+// e.g. "3 portions" or "2.75 portions"
+export const formatPortions = (portions: number, t: Translate = translateEnglish) =>
+  t('household.portions', { count: Math.round(portions * 100) / 100 });
@@ -0,0 +1,80 @@
+// UI translations. Every catalog in src/locales has the same keys as the
+// English one, which is also the fallback for anything missing at runtime.
+// Messages use {name} placeholders; a message with plural forms has one key
+// per CLDR plural category, e.g. "days.one" and "days.other", and is looked
+// up by its base key with a count.
+
+import type { Locale } from 'date-fns';
+import { de as deLocale, enUS, es as esLocale, fr as frLocale } from 'date-fns/locale';
+import { en } from '@/locales/en';
+import { es } from '@/locales/es';
+import { fr } from '@/locales/fr';
+import { de } from '@/locales/de';
+
+export type Language = 'en' | 'es' | 'fr' | 'de';
+
+// Matches the check on user_profiles.language; labels are in their own language
+export const LANGUAGES: { value: Language; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'es', label: 'Español' },
+  { value: 'fr', label: 'Français' },
+  { value: 'de', label: 'Deutsch' },
+];
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
+
+// Base keys of messages with plural forms
+type PluralKey = MessageKey extends infer K ? (K extends `${infer Base}.other` ? Base : never) : never;
+
+export type TranslationKey = MessageKey | PluralKey;
+export type TranslationValues = Record<string, string | number>;
+
+export type Translate = (key: TranslationKey, values?: TranslationValues) => string;
+
+const CATALOGS: Record<Language, Messages> = { en, es, fr, de };
+
+export const DATE_LOCALES: Record<Language, Locale> = { en: enUS, es: esLocale, fr: frLocale, de: deLocale };
+
+export const isLanguage = (value: unknown): value is Language =>
+  LANGUAGES.some((language) => language.value === value);
+
+// The first language the browser prefers that the app has, else English
+export const browserLanguage = (): Language => {
+  const preferred = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  const match = preferred.map((tag) => tag?.split('-')[0]).find(isLanguage);
+  return match ?? DEFAULT_LANGUAGE;
+};
+
+const lookup = (language: Language, key: string) =>
+  (CATALOGS[language] as Record<string, string>)[key] ?? (en as Record<string, string>)[key];
+
+// The message for a key with its placeholders filled in. A count picks the plural form.
+export const translate = (language: Language, key: TranslationKey, values: TranslationValues = {}) => {
+  let message = lookup(language, key);
+  if (message === undefined && typeof values.count === 'number') {
+    const category = new Intl.PluralRules(language).select(values.count);
+    message = lookup(language, `${key}.${category}`) ?? lookup(language, `${key}.other`);
+  }
+  if (message === undefined) return key;
+  return message.replace(/\{(\w+)\}/g, (match, name) =>
+    values[name] === undefined ? match : String(values[name])
+  );
+};
+
+// For helpers that format text and are also used outside a component
+export const translateEnglish: Translate = (key, values) => translate(DEFAULT_LANGUAGE, key, values);
+
+// Plan meal types are English; known ones are shown in the UI language. Inside a
+// sentence they are lowercased, except in German where nouns keep their capital.
+export const translateMealType = (language: Language, type: string, inSentence = false) => {
+  const key = `mealType.${String(type).toLowerCase()}`;
+  const name = key in en ? translate(language, key as MessageKey) : type;
+  return inSentence && language !== 'de' ? name.toLocaleLowerCase(language) : name;
+};
+
+// e.g. "1,234.5" or "1.234,5"
+export const formatNumber = (value: number, language: Language, options?: Intl.NumberFormatOptions) =>
+  new Intl.NumberFormat(language, options).format(value);
@@ -0,0 +1,43 @@
+// Structured ingredient as stored in plan_data. Plans created before ingredients
+// were structured hold plain strings, so helpers accept both.
+export interface Ingredient {
+  name: string;
+  // English name of a translated ingredient; prices are kept under it
+  name_en?: string | null;
+  amount: number | null;
+  unit: string | null;
+  preparation?: string | null;
+}
+
+export type PlanIngredient = Ingredient | string;
+
+export const normalizeIngredient = (ingredient: PlanIngredient): Ingredient => {
+  if (typeof ingredient === 'string') {
+    return { name: ingredient.trim(), name_en: null, amount: null, unit: null, preparation: null };
+  }
+  return {
+    name: ingredient.name.trim(),
+    name_en: ingredient.name_en?.trim() || null,
+    amount: typeof ingredient.amount === 'number' && ingredient.amount > 0 ? ingredient.amount : null,
+    unit: ingredient.unit || null,
+    preparation: ingredient.preparation || null,
+  };
+};
+
+const formatAmount = (amount: number) =>
+  Number.isInteger(amount) ? String(amount) : String(Math.round(amount * 100) / 100);
+
+// e.g. "0.5 cup", "3" or null when there is no amount
+export const formatQuantity = (amount: number | null, unit: string | null) => {
+  if (amount === null || amount === undefined) return null;
+  if (!unit || unit === 'piece') return formatAmount(amount);
+  return `${formatAmount(amount)} ${unit}`;
+};
+
+// e.g. "1 cup rolled oats" or "2 clove garlic, minced"
+export const formatIngredient = (ingredient: PlanIngredient) => {
+  const { name, amount, unit, preparation } = normalizeIngredient(ingredient);
+  const quantity = formatQuantity(amount, unit);
+  const text = quantity ? `${quantity} ${name}` : name;
+  return preparation ? `${text}, ${preparation}` : text;
+};
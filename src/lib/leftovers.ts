@@ -0,0 +1,29 @@
+// Batch cooking fields on plan_data meals, matching supabase/functions/_shared/leftovers.ts.
+// Ingredients are for one serving; a cooked meal's servings include the portions
+// eaten later as leftovers.
+import { normalizeIngredient, PlanIngredient } from '@/lib/ingredients';
+
+export interface LeftoversSource {
+  day: number;
+  name: string;
+}
+
+export interface BatchMeal {
+  servings?: number;
+  leftovers_from?: LeftoversSource | null;
+}
+
+export const isLeftovers = (meal: BatchMeal) => Boolean(meal?.leftovers_from);
+
+// Portions to cook and shop for: none for leftovers, otherwise at least one
+export const mealServings = (meal: BatchMeal) => {
+  if (isLeftovers(meal)) return 0;
+  return Number.isInteger(meal?.servings) && meal.servings > 1 ? meal.servings : 1;
+};
+
+// An ingredient with its amount multiplied for a whole batch
+export const scaleIngredient = (ingredient: PlanIngredient, servings: number) => {
+  const normalized = normalizeIngredient(ingredient);
+  if (normalized.amount === null || servings === 1) return normalized;
+  return { ...normalized, amount: Math.round(normalized.amount * servings * 1000) / 1000 };
+};
@@ -0,0 +1,36 @@
+export interface MealMacros {
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fat_g: number;
+}
+
+export interface NutritionTargets extends MealMacros {
+  bmr: number;
+  tdee: number;
+  fitness_goal: string;
+  activity_level: string;
+}
+
+export const MACRO_KEYS: (keyof MealMacros)[] = ['calories', 'protein_g', 'carbs_g', 'fat_g'];
+
+// Sum the macros of every meal in a day; meals without macros count as zero
+export const getDayTotals = (meals: { macros?: Partial<MealMacros> }[] = []): MealMacros => {
+  const totals: MealMacros = { calories: 0, protein_g: 0, carbs_g: 0, fat_g: 0 };
+  for (const meal of meals) {
+    for (const key of MACRO_KEYS) {
+      totals[key] += Number(meal.macros?.[key]) || 0;
+    }
+  }
+  for (const key of MACRO_KEYS) {
+    totals[key] = Math.round(totals[key]);
+  }
+  return totals;
+};
+
+export const hasMacros = (meals: { macros?: Partial<MealMacros> }[] = []) =>
+  meals.some((meal) => meal.macros && Number(meal.macros.calories) > 0);
+
+// Percentage of target reached, capped for progress bars
+export const getTargetProgress = (value: number, target: number) =>
+  target > 0 ? Math.min(100, Math.round((value / target) * 100)) : 0;
@@ -0,0 +1,303 @@
+// Prep Day session derived from plan_data: the week's shared cooking tasks
+// (start grains, chop vegetables, marinate and cook proteins, mix sauces) with
+// amounts summed across meals, ordered so each task starts once the tasks it
+// needs are done, plus storage and reheating notes for every cooked meal.
+// The session is assumed to happen on day 1 of the plan (Sunday). Meals are
+// recognised by their English names; the text is in the given language.
+import { aggregateGroceryItems, GroceryRow } from '@/lib/grocery';
+import { formatPortions } from '@/lib/household';
+import { DEFAULT_LANGUAGE, Language, MessageKey, translate, Translate, translateMealType } from '@/lib/i18n';
+import { normalizeIngredient, PlanIngredient } from '@/lib/ingredients';
+import { isLeftovers, mealServings, scaleIngredient, LeftoversSource } from '@/lib/leftovers';
+
+export interface PrepMeal {
+  type: string;
+  name: string;
+  name_en?: string;
+  recipe?: string;
+  ingredients?: PlanIngredient[];
+  servings?: number;
+  leftovers_from?: LeftoversSource | null;
+}
+
+export interface PrepDay {
+  day: number;
+  meals: PrepMeal[];
+}
+
+export type PrepTaskKind = 'grains' | 'chop' | 'marinate' | 'proteins' | 'sauces' | 'store';
+
+export interface PrepTaskItem {
+  name: string;
+  quantity: string;
+  // e.g. "diced, minced" from the ingredients' preparation notes
+  preparation?: string;
+  meals: string[];
+}
+
+export interface PrepTask {
+  kind: PrepTaskKind;
+  title: string;
+  // Minutes from the start of the session
+  start: number;
+  minutes: number;
+  // Runs unattended (simmering, marinating), so other tasks can go on meanwhile
+  hands_off: boolean;
+  items: PrepTaskItem[];
+}
+
+export interface MealStorage {
+  day: number;
+  type: string;
+  name: string;
+  servings: number;
+  eaten_on: number[];
+  storage: string;
+  reheating: string;
+}
+
+export interface PrepSession {
+  tasks: PrepTask[];
+  meals: MealStorage[];
+  total_minutes: number;
+}
+
+interface TaskRule {
+  title: MessageKey;
+  // Tasks that have to be finished before this one starts
+  after: PrepTaskKind[];
+  hands_off: boolean;
+  minutes: (items: PrepTaskItem[]) => number;
+}
+
+const TASK_RULES: Record<PrepTaskKind, TaskRule> = {
+  grains: { title: 'prep.task.grains', after: [], hands_off: true, minutes: (items) => Math.max(...items.map((item) => grainMinutes(item.name))) },
+  chop: { title: 'prep.task.chop', after: [], hands_off: false, minutes: (items) => 5 + 3 * items.length },
+  marinate: { title: 'prep.task.marinate', after: ['chop'], hands_off: true, minutes: () => 30 },
+  proteins: { title: 'prep.task.proteins', after: ['chop', 'marinate'], hands_off: false, minutes: (items) => 15 + 5 * items.length },
+  sauces: { title: 'prep.task.sauces', after: ['chop'], hands_off: false, minutes: (items) => 5 * items.length },
+  store: { title: 'prep.task.store', after: ['grains', 'proteins', 'sauces'], hands_off: false, minutes: (items) => 10 + 2 * items.length },
+};
+
+const TASK_ORDER: PrepTaskKind[] = ['grains', 'chop', 'marinate', 'sauces', 'proteins', 'store'];
+
+// Simmering times, most specific first
+const GRAIN_MINUTES: [RegExp, number][] = [
+  [/\bbrown rice\b|\bwild rice\b|\bfarro\b|\bbarley\b/, 45],
+  [/\bchickpeas?\b|\bblack beans?\b|\bkidney beans?\b/, 60],
+  [/\blentils?\b/, 25],
+  [/\brice\b/, 20],
+  [/\bquinoa\b|\bbulgur\b|\bmillet\b/, 15],
+  [/\bpasta\b|\bnoodles?\b|\bspaghetti\b|\bpenne\b|\bfusilli\b|\bmacaroni\b|\bcouscous\b/, 12],
+];
+
+const grainMinutes = (name: string) =>
+  GRAIN_MINUTES.find(([pattern]) => pattern.test(name.toLowerCase()))?.[1] ?? 20;
+
+// Canned or ready-to-eat versions need no cooking
+const READY_TO_EAT = /\b(canned|tinned|cooked|instant|leftover)\b/;
+
+// Products named after a grain that are not one
+const NOT_GRAINS = /\b(sauce|vinegar|paper|wine|flour|milk|cakes?)\b/;
+
+const isGrain = (name: string, unit: string | null) =>
+  GRAIN_MINUTES.some(([pattern]) => pattern.test(name)) && !READY_TO_EAT.test(name) && !NOT_GRAINS.test(name) && unit !== 'can';
+
+const VEGETABLES = /\b(onions?|shallots?|garlic|ginger|scallions?|leeks?|peppers?|carrots?|celery|broccoli|cauliflower|zucchini|courgettes?|eggplants?|aubergines?|mushrooms?|tomato(es)?|cabbage|kale|spinach|cucumbers?|squash|pumpkin|sweet potato(es)?|potato(es)?|asparagus|green beans|beets?|radish(es)?|herbs?|cilantro|parsley|basil|chillies|chilies|chili pepper|jalapenos?|avocados?|lettuce|brussels sprouts)\b/;
+
+const CUTS = /\b(chopped|diced|minced|sliced|grated|shredded|julienned|cubed|cut|peeled|crushed|halved|quartered|spiralized)\b/;
+
+const PROTEINS = /\b(chicken|turkey|beef|steak|pork|lamb|salmon|tuna steak|cod|tilapia|trout|haddock|fish|shrimp|prawns?|tofu|tempeh|seitan|paneer|halloumi)\b/;
+
+// Already cooked or cured proteins only need to be portioned
+const READY_PROTEINS = /\b(canned|smoked|cured|deli|rotisserie|bacon|ham|jerky)\b/;
+
+const SAUCES = /\b(dressing|vinaigrette|marinade|pesto|salsa|tahini sauce|peanut sauce|tzatziki|sauce)\b/;
+
+const MARINATES = /\bmarinat/;
+
+// Days a cooked meal keeps in the fridge, by what it is made of
+const FRIDGE_DAYS: [RegExp, number][] = [
+  [/\b(salmon|tuna|cod|tilapia|trout|haddock|fish|shrimp|prawns?|scallops?|mussels?|crab)\b/, 2],
+  [/\b(chicken|turkey|beef|steak|pork|lamb|sausage|eggs?|rice)\b/, 3],
+];
+
+const DEFAULT_FRIDGE_DAYS = 4;
+
+const FREEZABLE = /\b(soup|stew|curry|chili|chilli|casserole|bolognese|ragu|meatballs?|burritos?|lasagna|lasagne|dal|daal|enchiladas?|muffins?|pancakes?|patties|burgers?)\b/;
+
+const SERVED_COLD = /\b(salad|overnight oats|parfait|smoothie|yogurt|wrap|sandwich|sushi|poke|hummus|chia pudding|gazpacho)\b/;
+
+const SOUPY = /\b(soup|stew|curry|chili|chilli|dal|daal|ragu|bolognese|broth)\b/;
+
+// English name of the dish, which the patterns above are written for
+const dishName = (meal: PrepMeal) => (meal.name_en ?? meal.name).toLowerCase();
+
+const mealText = (meal: PrepMeal) => `${dishName(meal)} ${meal.recipe ?? ''}`.toLowerCase();
+
+const ingredientNames = (meal: PrepMeal) =>
+  (meal.ingredients ?? []).map((ingredient) => {
+    const { name, name_en } = normalizeIngredient(ingredient);
+    return (name_en ?? name).toLowerCase();
+  }).join(' ');
+
+// e.g. "Fridge up to 3 days in airtight containers" and a note for later days
+const storageFor = (meal: PrepMeal, eatenOn: number[], t: Translate) => {
+  const text = `${mealText(meal)} ${ingredientNames(meal)}`;
+  const fridgeDays = FRIDGE_DAYS.find(([pattern]) => pattern.test(text))?.[1] ?? DEFAULT_FRIDGE_DAYS;
+  const name = dishName(meal);
+  const freezable = FREEZABLE.test(name) && !SERVED_COLD.test(name);
+  const lastDay = Math.max(...eatenOn);
+  const parts = [t('prep.storage.fridge', { count: fridgeDays })];
+
+  if (lastDay - 1 > fridgeDays) {
+    parts.push(freezable
+      ? t('prep.storage.freezePortions', { days: eatenOn.filter((day) => day - 1 > fridgeDays).join(', ') })
+      : t('prep.storage.tooLong', { day: lastDay }));
+  } else if (freezable) {
+    parts.push(t('prep.storage.freezes'));
+  }
+  if (/\b(salad|bowl)\b/.test(name) && SAUCES.test(text)) {
+    parts.push(t('prep.storage.dressing'));
+  }
+  return parts.join(' ');
+};
+
+// Judged by the dish name; recipes mention too many ingredients to go by
+const reheatingFor = (meal: PrepMeal, t: Translate) => {
+  const name = dishName(meal);
+  if (SERVED_COLD.test(name)) return t('prep.reheat.cold');
+  if (SOUPY.test(name)) return t('prep.reheat.soup');
+  if (/\b(salmon|tuna|cod|tilapia|trout|haddock|fish|shrimp|prawns?)\b/.test(`${name} ${ingredientNames(meal)}`)) {
+    return t('prep.reheat.fish');
+  }
+  if (/\brice\b/.test(`${name} ${ingredientNames(meal)}`)) {
+    return t('prep.reheat.rice');
+  }
+  return t('prep.reheat.default');
+};
+
+// Tasks an ingredient goes through; none for things that go in as they are
+const taskKindsFor = (name: string, unit: string | null, preparation: string | null, meal: PrepMeal): PrepTaskKind[] => {
+  const lower = name.toLowerCase();
+  if (isGrain(lower, unit)) return ['grains'];
+  if (PROTEINS.test(lower) && !READY_PROTEINS.test(lower)) {
+    return MARINATES.test(`${mealText(meal)} ${preparation ?? ''}`) ? ['marinate', 'proteins'] : ['proteins'];
+  }
+  if (SAUCES.test(lower) && !/\b(soy|fish|hot|worcestershire|tomato|pasta)\s+sauce\b/.test(lower)) return ['sauces'];
+  if (VEGETABLES.test(lower) || CUTS.test(preparation ?? '')) return ['chop'];
+  return [];
+};
+
+interface CollectedItem {
+  row: GroceryRow;
+  preparation: string | null;
+  meal: string;
+}
+
+// One item per product, with amounts summed the way the grocery list sums them
+const buildItems = (collected: CollectedItem[]): PrepTaskItem[] => {
+  const byId = new Map(collected.map((item) => [item.row.id, item]));
+
+  return aggregateGroceryItems(collected.map((item) => item.row)).map((product) => {
+    const items = product.ids.map((id) => byId.get(id));
+    const preparations = Array.from(new Set(items.map((item) => item.preparation).filter(Boolean)));
+    return {
+      name: product.item_name,
+      quantity: product.quantity,
+      preparation: preparations.join(', ') || undefined,
+      meals: Array.from(new Set(items.map((item) => item.meal))),
+    };
+  });
+};
+
+// Start time of each task: once everything it waits for that is in the session
+// has finished. Hands-off tasks do not hold up the hands-on ones started next to them.
+const scheduleTasks = (tasks: Omit<PrepTask, 'start'>[]): PrepTask[] => {
+  const ends = new Map<PrepTaskKind, number>();
+  const scheduled: PrepTask[] = [];
+  let handsFreeAt = 0;
+
+  for (const kind of TASK_ORDER) {
+    const task = tasks.find((t) => t.kind === kind);
+    if (!task) continue;
+    const ready = Math.max(0, ...TASK_RULES[kind].after.map((dependency) => ends.get(dependency) ?? 0));
+    const start = task.hands_off ? ready : Math.max(ready, handsFreeAt);
+    if (!task.hands_off) handsFreeAt = start + task.minutes;
+    ends.set(kind, start + task.minutes);
+    scheduled.push({ ...task, start });
+  }
+  return scheduled.sort((a, b) => a.start - b.start || TASK_ORDER.indexOf(a.kind) - TASK_ORDER.indexOf(b.kind));
+};
+
+// Portions multiply every serving for a household; see @/lib/household
+export const buildPrepSession = (days: PrepDay[], portions = 1, language: Language = DEFAULT_LANGUAGE): PrepSession => {
+  const t: Translate = (key, values) => translate(language, key, values);
+  const mealLabel = (day: number, type: string, name: string) =>
+    t('prep.mealLabel', { day, type: translateMealType(language, type, true), name });
+  const collected = new Map<PrepTaskKind, CollectedItem[]>();
+  const meals: MealStorage[] = [];
+  const ordered = [...days].sort((a, b) => a.day - b.day);
+
+  for (const day of ordered) {
+    day.meals.forEach((meal, mealIndex) => {
+      if (isLeftovers(meal)) return;
+      const servings = mealServings(meal) * portions;
+      const label = mealLabel(day.day, meal.type, meal.name);
+
+      (meal.ingredients ?? []).forEach((ingredient, index) => {
+        const { name, name_en, amount, unit, preparation } = scaleIngredient(ingredient, servings);
+        if (!name) return;
+        for (const kind of taskKindsFor(name_en ?? name, unit, preparation, meal)) {
+          collected.set(kind, [...(collected.get(kind) ?? []), {
+            row: { id: `${day.day}-${mealIndex}-${index}`, item_name: name, name_en, quantity: null, amount, unit, is_purchased: false },
+            preparation,
+            meal: label,
+          }]);
+        }
+      });
+
+      const eatenOn = [day.day, ...ordered
+        .filter((other) => other.meals.some((m) => m.leftovers_from?.day === day.day && m.leftovers_from.name === meal.name))
+        .map((other) => other.day)];
+      meals.push({
+        day: day.day,
+        type: meal.type,
+        name: meal.name,
+        servings,
+        eaten_on: eatenOn,
+        storage: storageFor(meal, eatenOn, t),
+        reheating: reheatingFor(meal, t),
+      });
+    });
+  }
+
+  const tasks = TASK_ORDER
+    .filter((kind) => kind !== 'store' && collected.has(kind))
+    .map((kind) => {
+      const items = buildItems(collected.get(kind));
+      const rule = TASK_RULES[kind];
+      return { kind, title: t(rule.title), minutes: rule.minutes(items), hands_off: rule.hands_off, items };
+    });
+
+  if (tasks.length) {
+    const storeItems = meals.map((meal) => ({
+      name: meal.name,
+      quantity: formatPortions(meal.servings, t),
+      meals: [mealLabel(meal.day, meal.type, meal.name)],
+    }));
+    const rule = TASK_RULES.store;
+    tasks.push({ kind: 'store', title: t(rule.title), minutes: rule.minutes(storeItems), hands_off: rule.hands_off, items: storeItems });
+  }
+
+  const scheduled = scheduleTasks(tasks);
+  return {
+    tasks: scheduled,
+    meals,
+    total_minutes: Math.max(0, ...scheduled.map((task) => task.start + task.minutes)),
+  };
+};
+
+// e.g. "0:45"
+export const formatPrepTime = (minutes: number) =>
+  `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`;
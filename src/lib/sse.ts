@@ -0,0 +1,44 @@
+export interface ServerSentEvent<T = unknown> {
+  event: string;
+  data: T;
+}
+
+// Read a text/event-stream response and call onEvent for each parsed event.
+// Event data is expected to be JSON, as sent by the edge functions.
+export const readEventStream = async <T = unknown>(
+  response: Response,
+  onEvent: (event: ServerSentEvent<T>) => void
+) => {
+  if (!response.body) throw new Error('Streaming is not supported by this browser');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (block: string) => {
+    let event = 'message';
+    const dataLines: string[] = [];
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim());
+    }
+    if (dataLines.length) {
+      onEvent({ event, data: JSON.parse(dataLines.join('\n')) });
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  if (buffer.trim()) dispatch(buffer);
+};
@@ -0,0 +1,358 @@
+import type { Messages } from '@/lib/i18n';
+
+export const de: Messages = {
+  'common.success': 'Erledigt!',
+  'common.error': 'Fehler',
+  'common.language': 'Sprache',
+  'common.cancel': 'Abbrechen',
+  'common.unit': 'Einheit',
+  'common.unknownError': 'Etwas ist schiefgelaufen',
+
+  'auth.tagline': 'Dein KI-Assistent für die Essensplanung',
+  'auth.signIn': 'Anmelden',
+  'auth.signUp': 'Registrieren',
+  'auth.email': 'E-Mail',
+  'auth.password': 'Passwort',
+  'auth.fullName': 'Vollständiger Name (optional)',
+  'auth.signingIn': 'Anmeldung läuft...',
+  'auth.creatingAccount': 'Konto wird erstellt...',
+  'auth.createAccount': 'Konto erstellen',
+  'auth.checkEmail': 'Bitte bestätige dein Konto über den Link in deiner E-Mail.',
+
+  'dashboard.planGenerated': 'Dein Essensplan ist fertig.',
+  'dashboard.generateFailed': 'Essensplan konnte nicht erstellt werden',
+  'dashboard.retryFailed': 'Erstellung konnte nicht erneut gestartet werden',
+  'dashboard.profileUpdated': 'Profil aktualisiert!',
+  'dashboard.profileSaved': 'Dein Profil wurde gespeichert.',
+  'dashboard.profileStatusFailed': 'Profilstatus konnte nicht aktualisiert werden. Bitte lade die Seite neu.',
+  'dashboard.loading': 'Dein Dashboard wird geladen...',
+  'dashboard.welcomeTitle': 'Willkommen bei NutriPlanner',
+  'dashboard.welcomeSubtitle': 'Lass uns deinen persönlichen Ernährungsplan einrichten',
+  'dashboard.signOut': 'Abmelden',
+  'dashboard.welcomeUser': 'Hallo, {name}',
+  'dashboard.tabs.mealPlan': 'Essensplan',
+  'dashboard.tabs.grocery': 'Einkaufsliste',
+  'dashboard.tabs.pantry': 'Vorrat',
+  'dashboard.tabs.calendar': 'Kalender',
+  'dashboard.tabs.prep': 'Vorkochtag',
+  'dashboard.tabs.profile': 'Profil',
+
+  'mealType.breakfast': 'Frühstück',
+  'mealType.lunch': 'Mittagessen',
+  'mealType.dinner': 'Abendessen',
+  'mealType.snack': 'Snack',
+
+  'calendar.noPlan': 'Kein Essensplan',
+  'calendar.noPlanDescription': 'Erstelle zuerst einen Essensplan, um Erinnerungen anzulegen.',
+  'calendar.remindersCreated.one': '{count} Erinnerung für deinen Essensplan angelegt.',
+  'calendar.remindersCreated.other': '{count} Erinnerungen für deinen Essensplan angelegt.',
+  'calendar.cleared': 'Alte Benachrichtigungen gelöscht.',
+  'calendar.title': 'Kalender und Erinnerungen',
+  'calendar.subtitle': 'Plane und verfolge deine Essenszeiten',
+  'calendar.clearOld': 'Alte löschen',
+  'calendar.creating': 'Wird angelegt...',
+  'calendar.createReminders': 'Erinnerungen anlegen',
+  'calendar.calendarTitle': 'Essenskalender',
+  'calendar.calendarDescription': 'Wähle ein Datum, um die geplanten Mahlzeiten zu sehen',
+  'calendar.mealsFor': 'Mahlzeiten am {date}',
+  'calendar.noMeals': 'Für dieses Datum sind keine Mahlzeiten geplant',
+  'calendar.upcomingTitle': 'Anstehende Erinnerungen',
+  'calendar.upcomingDescription': 'Deine geplanten Essenserinnerungen',
+  'calendar.noReminders': 'Keine anstehenden Erinnerungen. Lege welche für deinen Essensplan an!',
+  'calendar.planningDayTitle': '🗓️ Planungstag für die Woche!',
+  'calendar.planningDayDescription': 'Deine Woche beginnt morgen – der perfekte Moment, um die Mahlzeiten der Woche zu planen',
+  'calendar.generateNextWeek': 'Plan für nächste Woche erstellen',
+
+  'grocery.addedToPantry': 'Zum Vorrat hinzugefügt',
+  'grocery.addedToPantryDescription': '{name} ist jetzt in deinem Vorrat.',
+  'grocery.cleared': 'Gekaufte Artikel entfernt.',
+  'grocery.title': 'Einkaufsliste',
+  'grocery.purchasedCount.one': '{purchased} von {count} Artikel gekauft',
+  'grocery.purchasedCount.other': '{purchased} von {count} Artikeln gekauft',
+  'grocery.inPantryCount.one': '{count} bereits im Vorrat',
+  'grocery.inPantryCount.other': '{count} bereits im Vorrat',
+  'grocery.estimatedTotal': 'Geschätzte Summe {total}',
+  'grocery.estimatedTotalOfBudget': 'Geschätzte Summe {total} von deinem Wochenbudget von {budget}',
+  'grocery.unpriced.one': '{count} Artikel ohne Preis',
+  'grocery.unpriced.other': '{count} Artikel ohne Preis',
+  'grocery.movePurchases': 'Einkäufe in den Vorrat übernehmen',
+  'grocery.findStores': 'Geschäfte finden',
+  'grocery.clearPurchased': 'Gekaufte entfernen',
+  'grocery.emptyTitle': 'Deine Einkaufsliste ist leer',
+  'grocery.emptyDescription': 'Erstelle einen Essensplan, um deine Einkaufsliste automatisch zu füllen',
+  'grocery.shoppingList': 'Einkaufsliste',
+  'grocery.shoppingListDescription': 'Hake Artikel beim Einkaufen ab',
+  'grocery.pantryQuantity': '{quantity} bereits im Vorrat',
+  'grocery.purchased': 'Gekauft',
+  'grocery.inPantryTitle': 'Bereits im Vorrat',
+  'grocery.inPantryDescription': 'Für den Plan dieser Woche musst du sie nicht kaufen',
+
+  'pantry.checkTitle': 'Artikel prüfen',
+  'pantry.checkDescription': 'Gib einen Namen und, wenn du möchtest, eine Menge von null oder mehr ein.',
+  'pantry.expired': 'Abgelaufen',
+  'pantry.useToday': 'Heute verbrauchen',
+  'pantry.useWithin.one': 'Innerhalb von {count} Tag verbrauchen',
+  'pantry.useWithin.other': 'Innerhalb von {count} Tagen verbrauchen',
+  'pantry.useByDate': 'Verbrauchen bis {date}',
+  'pantry.title': 'Vorrat',
+  'pantry.subtitle': 'Neue Essenspläne verwenden zuerst, was du hast, und deine Einkaufsliste zeigt nur, was fehlt',
+  'pantry.addTitle': 'Artikel hinzufügen',
+  'pantry.addDescription': 'Lass die Menge bei Grundzutaten leer, die du immer hast',
+  'pantry.name': 'Name',
+  'pantry.namePlaceholder': 'z. B. Haferflocken',
+  'pantry.quantity': 'Menge',
+  'pantry.useBy': 'Verbrauchen bis',
+  'pantry.add': 'Hinzufügen',
+  'pantry.emptyTitle': 'Dein Vorrat ist leer',
+  'pantry.emptyDescription': 'Füge hinzu, was du zu Hause hast, oder verschiebe gekaufte Einkäufe hierher',
+  'pantry.quantityOf': 'Menge von {name}',
+  'pantry.anyQuantity': 'Beliebig',
+  'pantry.remove': '{name} entfernen',
+
+  'prices.checkTitle': 'Preis prüfen',
+  'prices.checkDescription': 'Gib eine Zutat, einen Preis und die Menge dafür ein.',
+  'prices.title': 'Deine Preise',
+  'prices.descriptionUsd': 'Die Schätzungen verwenden typische US-Preise; trage ein, was du vor Ort zahlst, damit sie genauer werden',
+  'prices.descriptionOther': 'Die eingebauten Schätzungen sind in USD, trage also ein, was du in {currency} zahlst, um Kosten zu sehen',
+  'prices.englishNames': 'Gib Zutaten mit ihrem englischen Namen ein, über den die Preise zugeordnet werden.',
+  'prices.ingredient': 'Zutat',
+  'prices.ingredientPlaceholder': 'z. B. basmati rice',
+  'prices.price': 'Preis ({currency})',
+  'prices.for': 'Für',
+  'prices.save': 'Speichern',
+  'prices.priceFor': '{price} für {amount} {unit}',
+  'prices.remove': 'Preis für {name} entfernen',
+
+  'prep.emptyTitle': 'Noch nichts vorzubereiten',
+  'prep.emptyDescription': 'Erstelle einen Essensplan, um eine Vorbereitungssession für die Woche zu erhalten',
+  'prep.title': 'Vorbereitungstag',
+  'prep.subtitle': 'Eine Session am Sonntag für das Kochen der Woche, insgesamt etwa {minutes} Minuten',
+  'prep.tasks': 'Aufgaben',
+  'prep.tasksDescription': 'Gemeinsame Schritte für alle Mahlzeiten, in der Reihenfolge, in der du sie beginnst',
+  'prep.minutes': '{minutes} Min.',
+  'prep.handsOff': 'Ohne Aufsicht',
+  'prep.storageTitle': 'Aufbewahren und Aufwärmen',
+  'prep.eatenOn': 'Gegessen an Tag {days}',
+  'prep.mealLabel': 'Tag {day}, {type}: {name}',
+  'prep.task.grains': 'Getreide und Hülsenfrüchte kochen',
+  'prep.task.chop': 'Obst und Gemüse waschen und schneiden',
+  'prep.task.marinate': 'Proteine marinieren',
+  'prep.task.proteins': 'Proteine garen',
+  'prep.task.sauces': 'Soßen und Dressings anrühren',
+  'prep.task.store': 'Abkühlen, portionieren und lagern',
+  'prep.storage.fridge.one': 'Im Kühlschrank bis zu {count} Tag in luftdichten Behältern.',
+  'prep.storage.fridge.other': 'Im Kühlschrank bis zu {count} Tage in luftdichten Behältern.',
+  'prep.storage.freezePortions': 'Friere die Portionen für Tag {days} ein und taue sie über Nacht im Kühlschrank auf.',
+  'prep.storage.tooLong': 'Hält sich nicht bis Tag {day}: bereite nur die Zutaten vor und koche es näher an dem Tag.',
+  'prep.storage.freezes': 'Lässt sich bis zu 3 Monate gut einfrieren.',
+  'prep.storage.dressing': 'Bewahre das Dressing bis zum Servieren in einem separaten Glas auf.',
+  'prep.reheat.cold': 'Kalt servieren; 10 Minuten vor dem Essen aus dem Kühlschrank nehmen.',
+  'prep.reheat.soup': 'In einem Topf bei mittlerer Hitze unter Rühren erhitzen, bis es dampft; einen Schuss Wasser zugeben, falls es eingedickt ist.',
+  'prep.reheat.fish': 'Sanft bei niedriger Leistung oder in einer abgedeckten Pfanne erwärmen, damit es nicht austrocknet, oder kalt essen.',
+  'prep.reheat.rice': 'Abgedeckt mit einem Schuss Wasser in der Mikrowelle erhitzen, bis es durch und durch heiß ist.',
+  'prep.reheat.default': '2-3 Minuten in der Mikrowelle erhitzen, nach der Hälfte umrühren, oder in einer Pfanne erwärmen, bis es dampft.',
+
+  'skill.beginner': 'Einsteiger',
+  'skill.intermediate': 'Fortgeschritten',
+  'skill.advanced': 'Profi',
+  'cooking.prep': '{minutes} Min. Vorbereitung',
+  'cooking.cook': '{minutes} Min. Kochzeit',
+  'cooking.noCooking': 'ohne Kochen',
+  'household.portions.one': '{count} Portion',
+  'household.portions.other': '{count} Portionen',
+  'household.title': 'Haushalt',
+  'household.description': 'Essenspläne passen zu allen, die du hier hinzufügst, und werden in Portionen für den ganzen Haushalt gekocht',
+  'household.caloriesPerDay': '{calories} kcal pro Tag',
+  'household.edit': '{name} bearbeiten',
+  'household.remove': '{name} entfernen',
+  'household.editMember': 'Mitglied bearbeiten',
+  'household.addMemberTitle': 'Mitglied hinzufügen',
+  'household.name': 'Name',
+  'household.noDiet': 'Keine besondere Ernährung',
+  'household.calorieTarget': 'Kalorienziel (kcal)',
+  'household.calorieTargetPlaceholder': 'Aus dem Profil',
+  'household.calorieTargetHint': 'Für Kinder angeben; die Formel für Erwachsene überschätzt ihren Bedarf',
+  'household.foodsToAvoidPlaceholder': 'z. B. Pilze, scharfes Essen',
+  'household.saveMember': 'Mitglied speichern',
+  'household.addMember': 'Mitglied hinzufügen',
+  'household.checkTitle': 'Angaben prüfen',
+  'household.checkDescription': 'Gib einen Namen ein und verwende positive Zahlen für Größe, Gewicht und Kalorienziel.',
+
+  'nutrition.calories': 'Kalorien',
+  'nutrition.protein': 'Eiweiß',
+  'nutrition.carbs': 'Kohlenhydrate',
+  'nutrition.fat': 'Fett',
+  'nutrition.proteinShort': 'E {grams} g',
+  'nutrition.carbsShort': 'K {grams} g',
+  'nutrition.fatShort': 'F {grams} g',
+
+  'mealPlan.limitReached': 'Erstellungslimit erreicht. Versuche es {retry} erneut.',
+  'mealPlan.noData': 'Der Server hat keine Daten zurückgegeben',
+  'mealPlan.overBudgetTitle': 'Plan über dem Budget',
+  'mealPlan.overBudgetDescription': 'Dieser Plan kostet schätzungsweise {total} und liegt damit über deinem Budget von {budget} für diese Tage. Ein paar Mahlzeiten zu tauschen oder deine lokalen Preise einzutragen kann helfen.',
+  'mealPlan.fallbackTitle': 'Plan aus unserer Rezeptsammlung erstellt',
+  'mealPlan.fallbackDescription': 'Die KI-Erstellung war nicht verfügbar, daher wurde dein Plan aus ausgewählten Rezepten erstellt, die zu deinen Vorlieben passen.',
+  'mealPlan.unexpectedResponse': 'Unerwartete Antwort vom Server',
+  'mealPlan.stillGeneratingTitle': 'Wird noch erstellt',
+  'mealPlan.stillGeneratingDescription': 'Die Live-Verbindung wurde unterbrochen, aber dein Essensplan wird weiter erstellt.',
+  'mealPlan.generateFailedReason': 'Essensplan konnte nicht erstellt werden: {reason}',
+  'mealPlan.noIngredientsTitle': 'Keine Zutaten',
+  'mealPlan.noIngredientsDescription': 'Diese Mahlzeit hat keine Zutaten zum Hinzufügen.',
+  'mealPlan.noPlanSelected': 'Kein Essensplan ausgewählt. Erstelle oder wähle zuerst einen Plan.',
+  'mealPlan.planNotFound': 'Der zugehörige Essensplan wurde nicht gefunden.',
+  'mealPlan.missingStartDate': 'Dem Essensplan fehlt ein Startdatum.',
+  'mealPlan.ingredientsAdded': 'Zutaten zur Einkaufsliste hinzugefügt.',
+  'mealPlan.ingredientsAddFailed': 'Zutaten konnten nicht zur Einkaufsliste hinzugefügt werden.',
+  'mealPlan.noActivePlan': 'Kein aktiver Essensplan. Erstelle zuerst einen Plan.',
+  'mealPlan.swapFailed': 'Mahlzeit konnte nicht getauscht werden',
+  'mealPlan.swappedTitle': 'Mahlzeit getauscht',
+  'mealPlan.swappedDescription': '{name} steht jetzt auf dem Plan und deine Einkaufsliste wurde aktualisiert.',
+  'mealPlan.ratingFailed': 'Bewertung konnte nicht gespeichert werden',
+  'mealPlan.videoQuery': '{name} Rezept',
+  'mealPlan.emptyTitle': 'Erstelle deinen Essensplan',
+  'mealPlan.emptyDescription': 'Erhalte einen persönlichen Essensplan passend zu deinen Vorlieben und Zielen',
+  'mealPlan.generating': 'Wird erstellt...',
+  'mealPlan.generateFirst': 'Meinen Essensplan erstellen',
+  'mealPlan.quota.one': 'Heute noch {remaining} von {count} Erstellung übrig',
+  'mealPlan.quota.other': 'Heute noch {remaining} von {count} Erstellungen übrig',
+  'mealPlan.generatingDay': 'Tag {day} von {total} wird erstellt',
+  'mealPlan.ready': '{done}/{total} fertig',
+  'mealPlan.title': 'Dein Essensplan',
+  'mealPlan.days.one': '{count} Tag',
+  'mealPlan.days.other': '{count} Tage',
+  'mealPlan.generatedOn': 'Erstellt am {date}',
+  'mealPlan.generatedToday': 'Heute erstellt',
+  'mealPlan.variety': 'Abwechslung {score}/100',
+  'mealPlan.cookingFor.one': 'Kochen für {count} Person ({portions})',
+  'mealPlan.cookingFor.other': 'Kochen für {count} Personen ({portions})',
+  'mealPlan.regenerating': 'Wird neu erstellt...',
+  'mealPlan.generateNew': 'Neuen Plan erstellen',
+  'mealPlan.estimatedCost': 'Geschätzte Einkaufskosten: {total}.',
+  'mealPlan.estimatedCostOfBudget.one': 'Geschätzte Einkaufskosten: {total} von deinem Budget von {budget} für {count} Tag.',
+  'mealPlan.estimatedCostOfBudget.other': 'Geschätzte Einkaufskosten: {total} von deinem Budget von {budget} für {count} Tage.',
+  'mealPlan.overBy': '{amount} darüber.',
+  'mealPlan.allergenIntro': 'Wegen deiner Allergien und der Lebensmittel, die du meidest:',
+  'mealPlan.allergenReplaced.one': '{count} Mahlzeit in diesem Plan wurde ersetzt.',
+  'mealPlan.allergenReplaced.other': '{count} Mahlzeiten in diesem Plan wurden ersetzt.',
+  'mealPlan.allergenRemoved.one': '{count} Mahlzeit wurde entfernt.',
+  'mealPlan.allergenRemoved.other': '{count} Mahlzeiten wurden entfernt.',
+  'mealPlan.day': 'Tag {day}',
+  'mealPlan.meals.one': '{count} Mahlzeit',
+  'mealPlan.meals.other': '{count} Mahlzeiten',
+  'mealPlan.justReheat': 'Nur aufwärmen',
+  'mealPlan.perfectFor': 'Perfekt als {type}',
+  'mealPlan.about': 'Etwa {cost}',
+  'mealPlan.aboutFor': 'Etwa {cost} für {portions}',
+  'mealPlan.leftoversFrom': 'Reste von Tag {day}',
+  'mealPlan.cookBatch': '{portions} kochen, den Rest später essen',
+  'mealPlan.reheatPortion': 'Eine Portion {name} von Tag {day} aufwärmen.',
+  'mealPlan.moreIngredients.one': '+{count} weitere Zutat',
+  'mealPlan.moreIngredients.other': '+{count} weitere Zutaten',
+  'mealPlan.viewRecipe': 'Ganzes Rezept ansehen',
+  'mealPlan.swapping': 'Wird getauscht...',
+  'mealPlan.swap': 'Diese Mahlzeit tauschen',
+  'mealPlan.addToGrocery': 'Zur Einkaufsliste hinzufügen',
+
+  'recipe.recipe': 'Rezept',
+  'recipe.ingredients': 'Zutaten',
+  'recipe.equipment': 'Küchengeräte',
+  'recipe.steps': 'Schritte',
+  'recipe.tips': 'Tipps',
+  'recipe.defaultDescription': 'Eine leckere, nahrhafte Mahlzeit passend zu deinen Vorlieben.',
+  'recipe.leftovers': 'Reste von Tag {day}: Wärme eine Portion auf oder koche sie mit den Schritten unten frisch',
+  'recipe.fewerServings': 'Weniger Portionen',
+  'recipe.moreServings': 'Mehr Portionen',
+  'recipe.servings.one': '{count} Portion',
+  'recipe.servings.other': '{count} Portionen',
+  'recipe.watchVideo': 'Rezeptvideo ansehen',
+
+  'profile.requiredFields': 'Bitte fülle alle Pflichtfelder aus',
+  'profile.invalidTimeZone': 'Wähle eine Zeitzone aus der Liste',
+  'profile.savedTitle': 'Profil gespeichert!',
+  'profile.savedDescription': 'Deine Einstellungen wurden aktualisiert.',
+  'profile.title': 'Vervollständige dein Profil',
+  'profile.description': 'Hilf uns, Essenspläne nur für dich zu erstellen',
+  'profile.personal': 'Persönliche Angaben',
+  'profile.fullName': 'Vollständiger Name',
+  'profile.dateOfBirth': 'Geburtsdatum',
+  'profile.pickDate': 'Datum wählen',
+  'profile.month': 'Monat',
+  'profile.year': 'Jahr',
+  'profile.gender': 'Geschlecht',
+  'profile.selectGender': 'Geschlecht wählen',
+  'profile.genderMale': 'Männlich',
+  'profile.genderFemale': 'Weiblich',
+  'profile.genderOther': 'Divers',
+  'profile.height': 'Größe (cm)',
+  'profile.weight': 'Gewicht (kg)',
+  'profile.fitnessGoal': 'Fitnessziel',
+  'profile.selectFitnessGoal': 'Fitnessziel wählen',
+  'profile.goal.weightLoss': 'Abnehmen',
+  'profile.goal.maintain': 'Gewicht halten',
+  'profile.goal.muscleGain': 'Muskelaufbau',
+  'profile.activityLevel': 'Aktivitätslevel',
+  'profile.selectActivityLevel': 'Aktivitätslevel wählen',
+  'profile.activity.sedentary': 'Sitzend',
+  'profile.activity.lightlyActive': 'Leicht aktiv',
+  'profile.activity.active': 'Aktiv',
+  'profile.activity.veryActive': 'Sehr aktiv',
+  'profile.timeZone': 'Zeitzone',
+  'profile.timeZonePlaceholder': 'z. B. Europe/Berlin',
+  'profile.useDeviceTimeZone': 'Zeitzone dieses Geräts verwenden ({zone})',
+  'profile.languageHint': 'Die App und neue Essenspläne werden in dieser Sprache angezeigt',
+  'profile.dietPreferences': 'Ernährungsvorlieben',
+  'profile.dietType': 'Ernährungsform',
+  'profile.selectDietType': 'Ernährungsform wählen',
+  'profile.diet.vegetarian': 'Vegetarisch',
+  'profile.diet.vegan': 'Vegan',
+  'profile.diet.glutenFree': 'Glutenfrei',
+  'profile.diet.dairyFree': 'Milchfrei',
+  'profile.diet.mediterranean': 'Mediterran',
+  'profile.diet.custom': 'Eigene',
+  'profile.allergies': 'Allergien',
+  'profile.allergy.dairy': 'Milchprodukte',
+  'profile.allergy.nuts': 'Nüsse',
+  'profile.allergy.gluten': 'Gluten',
+  'profile.allergy.soy': 'Soja',
+  'profile.allergy.eggs': 'Eier',
+  'profile.allergy.shellfish': 'Schalentiere',
+  'profile.allergy.citrus': 'Zitrusfrüchte',
+  'profile.foodsToAvoid': 'Zu meidende Lebensmittel (durch Kommas getrennt)',
+  'profile.foodsToAvoidPlaceholder': 'z. B. scharf, roher Fisch usw.',
+  'profile.cuisines': 'Bevorzugte Küchen',
+  'profile.cuisine.indian': 'Indisch',
+  'profile.cuisine.mediterranean': 'Mediterran',
+  'profile.cuisine.asian': 'Asiatisch',
+  'profile.cuisine.italian': 'Italienisch',
+  'profile.cuisine.mexican': 'Mexikanisch',
+  'profile.cuisine.american': 'Amerikanisch',
+  'profile.cuisine.mixed': 'Gemischt',
+  'profile.mealsPerDay': 'Mahlzeiten pro Tag',
+  'profile.totalDays': 'Anzahl der Tage',
+  'profile.planStart': 'Neue Pläne beginnen',
+  'profile.planStart.today': 'Heute',
+  'profile.planStart.tomorrow': 'Morgen',
+  'profile.planStart.nextWeek': 'Wenn meine Woche beginnt',
+  'profile.weekStartsOn': 'Die Woche beginnt am',
+  'profile.includeSnacks': 'Snacks einplanen',
+  'profile.batchCooking': 'Vorkochen (Reste einplanen)',
+  'profile.weeklyBudget': 'Wöchentliches Einkaufsbudget',
+  'profile.noBudget': 'Kein Budget',
+  'profile.currency': 'Währung',
+  'profile.cookingLimits': 'Kochzeit und Schwierigkeit',
+  'profile.cookingLimitsDescription': 'Die längsten und schwierigsten Rezepte, die du für jede Mahlzeit möchtest',
+  'profile.longestRecipe': 'Längstes Rezept ({type})',
+  'profile.hardestRecipe': 'Schwierigstes Rezept ({type})',
+  'profile.anyTime': 'Beliebige Dauer',
+  'profile.upToMinutes': 'Bis zu {minutes} Min.',
+  'profile.anySkill': 'Beliebiges Niveau',
+  'profile.weekendLongRecipes': 'Längere Rezepte am Wochenende',
+  'profile.mealTimes': 'Essenszeiten',
+  'profile.reminderTone': 'Ton der Erinnerungen',
+  'profile.tone.motivational': 'Motivierend',
+  'profile.tone.gentle': 'Sanft',
+  'profile.tone.funny': 'Witzig',
+  'profile.enableReminders': 'Erinnerungen aktivieren',
+  'profile.saving': 'Wird gespeichert...',
+  'profile.save': 'Profil und Einstellungen speichern',
+};
@@ -0,0 +1,358 @@
+// English UI messages. The keys of this catalog are the ones every other
+// language has to provide; see src/lib/i18n.ts.
+export const en = {
+  'common.success': 'Success!',
+  'common.error': 'Error',
+  'common.language': 'Language',
+  'common.cancel': 'Cancel',
+  'common.unit': 'Unit',
+  'common.unknownError': 'Something went wrong',
+
+  'auth.tagline': 'Your AI-powered meal planning companion',
+  'auth.signIn': 'Sign In',
+  'auth.signUp': 'Sign Up',
+  'auth.email': 'Email',
+  'auth.password': 'Password',
+  'auth.fullName': 'Full Name (Optional)',
+  'auth.signingIn': 'Signing in...',
+  'auth.creatingAccount': 'Creating account...',
+  'auth.createAccount': 'Create Account',
+  'auth.checkEmail': 'Please check your email to confirm your account.',
+
+  'dashboard.planGenerated': 'Your meal plan has been generated.',
+  'dashboard.generateFailed': 'Failed to generate meal plan',
+  'dashboard.retryFailed': 'Failed to retry generation',
+  'dashboard.profileUpdated': 'Profile updated!',
+  'dashboard.profileSaved': 'Your profile has been saved successfully.',
+  'dashboard.profileStatusFailed': 'Failed to update profile status. Please refresh the page.',
+  'dashboard.loading': 'Loading your dashboard...',
+  'dashboard.welcomeTitle': 'Welcome to NutriPlanner',
+  'dashboard.welcomeSubtitle': "Let's set up your personalized nutrition journey",
+  'dashboard.signOut': 'Sign Out',
+  'dashboard.welcomeUser': 'Welcome, {name}',
+  'dashboard.tabs.mealPlan': 'Meal Plan',
+  'dashboard.tabs.grocery': 'Grocery List',
+  'dashboard.tabs.pantry': 'Pantry',
+  'dashboard.tabs.calendar': 'Calendar',
+  'dashboard.tabs.prep': 'Prep Day',
+  'dashboard.tabs.profile': 'Profile',
+
+  'mealType.breakfast': 'Breakfast',
+  'mealType.lunch': 'Lunch',
+  'mealType.dinner': 'Dinner',
+  'mealType.snack': 'Snack',
+
+  'calendar.noPlan': 'No meal plan',
+  'calendar.noPlanDescription': 'Generate a meal plan first to create reminders.',
+  'calendar.remindersCreated.one': '{count} reminder created for your meal plan.',
+  'calendar.remindersCreated.other': '{count} reminders created for your meal plan.',
+  'calendar.cleared': 'Old notifications cleared.',
+  'calendar.title': 'Meal Calendar & Reminders',
+  'calendar.subtitle': 'Schedule and track your meal times',
+  'calendar.clearOld': 'Clear Old',
+  'calendar.creating': 'Creating...',
+  'calendar.createReminders': 'Create Reminders',
+  'calendar.calendarTitle': 'Meal Calendar',
+  'calendar.calendarDescription': 'Select a date to view your planned meals',
+  'calendar.mealsFor': 'Meals for {date}',
+  'calendar.noMeals': 'No meals planned for this date',
+  'calendar.upcomingTitle': 'Upcoming Reminders',
+  'calendar.upcomingDescription': 'Your scheduled meal notifications',
+  'calendar.noReminders': 'No upcoming reminders. Create some reminders for your meal plan!',
+  'calendar.planningDayTitle': '🗓️ Weekly Planning Day!',
+  'calendar.planningDayDescription': "Your week starts tomorrow - the perfect time to plan your upcoming week's meals",
+  'calendar.generateNextWeek': "Generate Next Week's Plan",
+
+  'grocery.addedToPantry': 'Added to pantry',
+  'grocery.addedToPantryDescription': '{name} is now in your pantry.',
+  'grocery.cleared': 'Purchased items cleared.',
+  'grocery.title': 'Grocery List',
+  'grocery.purchasedCount.one': '{purchased} of {count} item purchased',
+  'grocery.purchasedCount.other': '{purchased} of {count} items purchased',
+  'grocery.inPantryCount.one': '{count} already in your pantry',
+  'grocery.inPantryCount.other': '{count} already in your pantry',
+  'grocery.estimatedTotal': 'Estimated total {total}',
+  'grocery.estimatedTotalOfBudget': 'Estimated total {total} of your {budget} weekly budget',
+  'grocery.unpriced.one': '{count} item without a price',
+  'grocery.unpriced.other': '{count} items without a price',
+  'grocery.movePurchases': 'Move purchases to pantry',
+  'grocery.findStores': 'Find Stores',
+  'grocery.clearPurchased': 'Clear Purchased',
+  'grocery.emptyTitle': 'No items in your grocery list',
+  'grocery.emptyDescription': 'Generate a meal plan to automatically populate your grocery list',
+  'grocery.shoppingList': 'Shopping List',
+  'grocery.shoppingListDescription': 'Check off items as you shop',
+  'grocery.pantryQuantity': '{quantity} already in your pantry',
+  'grocery.purchased': 'Purchased',
+  'grocery.inPantryTitle': 'Already in Your Pantry',
+  'grocery.inPantryDescription': "No need to buy these for this week's plan",
+
+  'pantry.checkTitle': 'Check the item',
+  'pantry.checkDescription': 'Enter a name and, if you like, a quantity of zero or more.',
+  'pantry.expired': 'Expired',
+  'pantry.useToday': 'Use today',
+  'pantry.useWithin.one': 'Use within {count} day',
+  'pantry.useWithin.other': 'Use within {count} days',
+  'pantry.useByDate': 'Use by {date}',
+  'pantry.title': 'Pantry',
+  'pantry.subtitle': 'New meal plans use what you have first, and your grocery list only shows what is missing',
+  'pantry.addTitle': 'Add an Item',
+  'pantry.addDescription': 'Leave the quantity empty for staples you always have',
+  'pantry.name': 'Name',
+  'pantry.namePlaceholder': 'e.g. rolled oats',
+  'pantry.quantity': 'Quantity',
+  'pantry.useBy': 'Use by',
+  'pantry.add': 'Add',
+  'pantry.emptyTitle': 'Your pantry is empty',
+  'pantry.emptyDescription': 'Add what you have at home, or move purchased grocery items here',
+  'pantry.quantityOf': 'Quantity of {name}',
+  'pantry.anyQuantity': 'Any',
+  'pantry.remove': 'Remove {name}',
+
+  'prices.checkTitle': 'Check the price',
+  'prices.checkDescription': 'Enter an ingredient, a price and the amount it buys.',
+  'prices.title': 'Your Prices',
+  'prices.descriptionUsd': 'Estimates use typical US prices; add what you pay locally to make them more accurate',
+  'prices.descriptionOther': 'Built-in estimates are in USD, so add what you pay in {currency} to see costs',
+  'prices.englishNames': 'Enter ingredients by their English name, which prices are matched by.',
+  'prices.ingredient': 'Ingredient',
+  'prices.ingredientPlaceholder': 'e.g. basmati rice',
+  'prices.price': 'Price ({currency})',
+  'prices.for': 'For',
+  'prices.save': 'Save',
+  'prices.priceFor': '{price} for {amount} {unit}',
+  'prices.remove': 'Remove price for {name}',
+
+  'prep.emptyTitle': 'Nothing to prep yet',
+  'prep.emptyDescription': 'Generate a meal plan to get a prep session for the week',
+  'prep.title': 'Prep Day',
+  'prep.subtitle': "One Sunday session for the week's cooking, about {minutes} minutes in total",
+  'prep.tasks': 'Tasks',
+  'prep.tasksDescription': 'Shared steps across all meals, in the order to start them',
+  'prep.minutes': '{minutes} min',
+  'prep.handsOff': 'Hands-off',
+  'prep.storageTitle': 'Storage and Reheating',
+  'prep.eatenOn': 'Eaten on day {days}',
+  'prep.mealLabel': 'Day {day} {type}: {name}',
+  'prep.task.grains': 'Cook grains and legumes',
+  'prep.task.chop': 'Wash and chop produce',
+  'prep.task.marinate': 'Marinate proteins',
+  'prep.task.proteins': 'Cook proteins',
+  'prep.task.sauces': 'Mix sauces and dressings',
+  'prep.task.store': 'Cool, portion and store',
+  'prep.storage.fridge.one': 'Fridge up to {count} day in airtight containers.',
+  'prep.storage.fridge.other': 'Fridge up to {count} days in airtight containers.',
+  'prep.storage.freezePortions': 'Freeze the portions for day {days} and thaw them overnight in the fridge.',
+  'prep.storage.tooLong': 'Too long to keep for day {day}: prep the ingredients only and cook it closer to the day.',
+  'prep.storage.freezes': 'Freezes well for up to 3 months.',
+  'prep.storage.dressing': 'Keep the dressing in a separate jar until serving.',
+  'prep.reheat.cold': 'Serve cold; take it out of the fridge 10 minutes before eating.',
+  'prep.reheat.soup': 'Reheat in a pan over medium heat, stirring, until steaming; add a splash of water if it has thickened.',
+  'prep.reheat.fish': 'Reheat gently at low power or in a covered pan so it does not dry out, or eat it cold.',
+  'prep.reheat.rice': 'Microwave covered with a splash of water until piping hot all the way through.',
+  'prep.reheat.default': 'Microwave for 2-3 minutes, stirring halfway, or warm in a pan until steaming hot.',
+
+  'skill.beginner': 'Beginner',
+  'skill.intermediate': 'Intermediate',
+  'skill.advanced': 'Advanced',
+  'cooking.prep': '{minutes} min prep',
+  'cooking.cook': '{minutes} min cook',
+  'cooking.noCooking': 'no cooking',
+  'household.portions.one': '{count} portion',
+  'household.portions.other': '{count} portions',
+  'household.title': 'Household',
+  'household.description': 'Meal plans suit everyone you add here and are cooked in portions for the whole household',
+  'household.caloriesPerDay': '{calories} kcal a day',
+  'household.edit': 'Edit {name}',
+  'household.remove': 'Remove {name}',
+  'household.editMember': 'Edit Member',
+  'household.addMemberTitle': 'Add a Member',
+  'household.name': 'Name',
+  'household.noDiet': 'No special diet',
+  'household.calorieTarget': 'Calorie Target (kcal)',
+  'household.calorieTargetPlaceholder': 'From their profile',
+  'household.calorieTargetHint': 'Set this for children; the adult formula overestimates their needs',
+  'household.foodsToAvoidPlaceholder': 'e.g., mushrooms, spicy food',
+  'household.saveMember': 'Save Member',
+  'household.addMember': 'Add Member',
+  'household.checkTitle': 'Check the details',
+  'household.checkDescription': 'Enter a name, and use positive numbers for height, weight and calorie target.',
+
+  'nutrition.calories': 'Calories',
+  'nutrition.protein': 'Protein',
+  'nutrition.carbs': 'Carbs',
+  'nutrition.fat': 'Fat',
+  'nutrition.proteinShort': 'P {grams}g',
+  'nutrition.carbsShort': 'C {grams}g',
+  'nutrition.fatShort': 'F {grams}g',
+
+  'mealPlan.limitReached': 'Generation limit reached. Try again {retry}.',
+  'mealPlan.noData': 'No data returned from the server',
+  'mealPlan.overBudgetTitle': 'Plan is over budget',
+  'mealPlan.overBudgetDescription': 'This plan is estimated at {total}, above your {budget} budget for these days. Swapping a few meals or adding your local prices may help.',
+  'mealPlan.fallbackTitle': 'Plan created from our recipe library',
+  'mealPlan.fallbackDescription': 'AI generation was unavailable, so your plan was built from curated recipes that match your preferences.',
+  'mealPlan.unexpectedResponse': 'Unexpected response from the server',
+  'mealPlan.stillGeneratingTitle': 'Still generating',
+  'mealPlan.stillGeneratingDescription': 'The live connection dropped, but your meal plan is still being generated.',
+  'mealPlan.generateFailedReason': 'Failed to generate meal plan: {reason}',
+  'mealPlan.noIngredientsTitle': 'No ingredients',
+  'mealPlan.noIngredientsDescription': 'This meal has no ingredients to add.',
+  'mealPlan.noPlanSelected': 'No meal plan is currently selected. Please generate or select a meal plan first.',
+  'mealPlan.planNotFound': 'The associated meal plan could not be found.',
+  'mealPlan.missingStartDate': 'Meal plan is missing week start date.',
+  'mealPlan.ingredientsAdded': 'Ingredients added to grocery list.',
+  'mealPlan.ingredientsAddFailed': 'Failed to add ingredients to grocery list.',
+  'mealPlan.noActivePlan': 'No active meal plan found. Please generate a meal plan first.',
+  'mealPlan.swapFailed': 'Failed to swap meal',
+  'mealPlan.swappedTitle': 'Meal swapped',
+  'mealPlan.swappedDescription': '{name} is on the menu, and your grocery list has been updated.',
+  'mealPlan.ratingFailed': 'Failed to save rating',
+  'mealPlan.videoQuery': '{name} recipe',
+  'mealPlan.emptyTitle': 'Generate Your Meal Plan',
+  'mealPlan.emptyDescription': 'Create a personalized meal plan based on your preferences and goals',
+  'mealPlan.generating': 'Generating...',
+  'mealPlan.generateFirst': 'Generate My Meal Plan',
+  'mealPlan.quota.one': '{remaining} of {count} generation left today',
+  'mealPlan.quota.other': '{remaining} of {count} generations left today',
+  'mealPlan.generatingDay': 'Generating day {day} of {total}',
+  'mealPlan.ready': '{done}/{total} ready',
+  'mealPlan.title': 'Your Meal Plan',
+  'mealPlan.days.one': '{count} day',
+  'mealPlan.days.other': '{count} days',
+  'mealPlan.generatedOn': 'Generated on {date}',
+  'mealPlan.generatedToday': 'Generated today',
+  'mealPlan.variety': 'Variety {score}/100',
+  'mealPlan.cookingFor.one': 'Cooking for {count} person ({portions})',
+  'mealPlan.cookingFor.other': 'Cooking for {count} people ({portions})',
+  'mealPlan.regenerating': 'Regenerating...',
+  'mealPlan.generateNew': 'Generate New Plan',
+  'mealPlan.estimatedCost': 'Estimated grocery cost {total}.',
+  'mealPlan.estimatedCostOfBudget.one': 'Estimated grocery cost {total} of your {budget} budget for {count} day.',
+  'mealPlan.estimatedCostOfBudget.other': 'Estimated grocery cost {total} of your {budget} budget for {count} days.',
+  'mealPlan.overBy': '{amount} over.',
+  'mealPlan.allergenIntro': 'To respect your allergies and foods to avoid:',
+  'mealPlan.allergenReplaced.one': '{count} meal in this plan was replaced.',
+  'mealPlan.allergenReplaced.other': '{count} meals in this plan were replaced.',
+  'mealPlan.allergenRemoved.one': '{count} meal was removed.',
+  'mealPlan.allergenRemoved.other': '{count} meals were removed.',
+  'mealPlan.day': 'Day {day}',
+  'mealPlan.meals.one': '{count} meal',
+  'mealPlan.meals.other': '{count} meals',
+  'mealPlan.justReheat': 'Just reheat',
+  'mealPlan.perfectFor': 'Perfect for {type}',
+  'mealPlan.about': 'About {cost}',
+  'mealPlan.aboutFor': 'About {cost} for {portions}',
+  'mealPlan.leftoversFrom': 'Leftovers from Day {day}',
+  'mealPlan.cookBatch': 'Cook {portions}, eat the rest later',
+  'mealPlan.reheatPortion': 'Reheat a portion of the {name} cooked on Day {day}.',
+  'mealPlan.moreIngredients.one': '+{count} more ingredient',
+  'mealPlan.moreIngredients.other': '+{count} more ingredients',
+  'mealPlan.viewRecipe': 'View Full Recipe',
+  'mealPlan.swapping': 'Swapping...',
+  'mealPlan.swap': 'Swap This Meal',
+  'mealPlan.addToGrocery': 'Add to Grocery List',
+
+  'recipe.recipe': 'Recipe',
+  'recipe.ingredients': 'Ingredients',
+  'recipe.equipment': 'Equipment',
+  'recipe.steps': 'Steps',
+  'recipe.tips': 'Tips',
+  'recipe.defaultDescription': 'A delicious and nutritious meal tailored to your preferences.',
+  'recipe.leftovers': 'Leftovers from Day {day}: reheat a portion, or cook it fresh with the steps below',
+  'recipe.fewerServings': 'Fewer servings',
+  'recipe.moreServings': 'More servings',
+  'recipe.servings.one': '{count} serving',
+  'recipe.servings.other': '{count} servings',
+  'recipe.watchVideo': 'Watch Recipe Video',
+
+  'profile.requiredFields': 'Please fill in all required fields',
+  'profile.invalidTimeZone': 'Please choose a time zone from the list',
+  'profile.savedTitle': 'Profile saved!',
+  'profile.savedDescription': 'Your preferences have been updated successfully.',
+  'profile.title': 'Complete Your Profile',
+  'profile.description': 'Help us create personalized meal plans just for you',
+  'profile.personal': 'Personal Information',
+  'profile.fullName': 'Full Name',
+  'profile.dateOfBirth': 'Date of Birth',
+  'profile.pickDate': 'Pick a date',
+  'profile.month': 'Month',
+  'profile.year': 'Year',
+  'profile.gender': 'Gender',
+  'profile.selectGender': 'Select gender',
+  'profile.genderMale': 'Male',
+  'profile.genderFemale': 'Female',
+  'profile.genderOther': 'Other',
+  'profile.height': 'Height (cm)',
+  'profile.weight': 'Weight (kg)',
+  'profile.fitnessGoal': 'Fitness Goal',
+  'profile.selectFitnessGoal': 'Select fitness goal',
+  'profile.goal.weightLoss': 'Weight Loss',
+  'profile.goal.maintain': 'Maintain',
+  'profile.goal.muscleGain': 'Muscle Gain',
+  'profile.activityLevel': 'Activity Level',
+  'profile.selectActivityLevel': 'Select activity level',
+  'profile.activity.sedentary': 'Sedentary',
+  'profile.activity.lightlyActive': 'Lightly Active',
+  'profile.activity.active': 'Active',
+  'profile.activity.veryActive': 'Very Active',
+  'profile.timeZone': 'Time Zone',
+  'profile.timeZonePlaceholder': 'e.g. Europe/Berlin',
+  'profile.useDeviceTimeZone': "Use this device's time zone ({zone})",
+  'profile.languageHint': 'The app and new meal plans are shown in this language',
+  'profile.dietPreferences': 'Diet Preferences',
+  'profile.dietType': 'Diet Type',
+  'profile.selectDietType': 'Select diet type',
+  'profile.diet.vegetarian': 'Vegetarian',
+  'profile.diet.vegan': 'Vegan',
+  'profile.diet.glutenFree': 'Gluten-Free',
+  'profile.diet.dairyFree': 'Dairy-Free',
+  'profile.diet.mediterranean': 'Mediterranean',
+  'profile.diet.custom': 'Custom',
+  'profile.allergies': 'Allergies',
+  'profile.allergy.dairy': 'Dairy',
+  'profile.allergy.nuts': 'Nuts',
+  'profile.allergy.gluten': 'Gluten',
+  'profile.allergy.soy': 'Soy',
+  'profile.allergy.eggs': 'Eggs',
+  'profile.allergy.shellfish': 'Shellfish',
+  'profile.allergy.citrus': 'Citrus',
+  'profile.foodsToAvoid': 'Foods to Avoid (comma-separated)',
+  'profile.foodsToAvoidPlaceholder': 'e.g., spicy food, raw fish, etc.',
+  'profile.cuisines': 'Preferred Cuisines',
+  'profile.cuisine.indian': 'Indian',
+  'profile.cuisine.mediterranean': 'Mediterranean',
+  'profile.cuisine.asian': 'Asian',
+  'profile.cuisine.italian': 'Italian',
+  'profile.cuisine.mexican': 'Mexican',
+  'profile.cuisine.american': 'American',
+  'profile.cuisine.mixed': 'Mixed',
+  'profile.mealsPerDay': 'Meals per Day',
+  'profile.totalDays': 'Total Days',
+  'profile.planStart': 'New Plans Start',
+  'profile.planStart.today': 'Today',
+  'profile.planStart.tomorrow': 'Tomorrow',
+  'profile.planStart.nextWeek': 'When My Week Starts',
+  'profile.weekStartsOn': 'Week Starts On',
+  'profile.includeSnacks': 'Include Snacks',
+  'profile.batchCooking': 'Cook in Batches (Plan Leftovers)',
+  'profile.weeklyBudget': 'Weekly Grocery Budget',
+  'profile.noBudget': 'No budget',
+  'profile.currency': 'Currency',
+  'profile.cookingLimits': 'Cooking Time and Skill',
+  'profile.cookingLimitsDescription': 'The longest and hardest recipes you want for each meal',
+  'profile.longestRecipe': 'Longest {type} recipe',
+  'profile.hardestRecipe': 'Hardest {type} recipe',
+  'profile.anyTime': 'Any time',
+  'profile.upToMinutes': 'Up to {minutes} min',
+  'profile.anySkill': 'Any skill',
+  'profile.weekendLongRecipes': 'Longer Recipes OK on Weekends',
+  'profile.mealTimes': 'Meal Times',
+  'profile.reminderTone': 'Reminder Tone',
+  'profile.tone.motivational': 'Motivational',
+  'profile.tone.gentle': 'Gentle',
+  'profile.tone.funny': 'Funny',
+  'profile.enableReminders': 'Enable Reminders',
+  'profile.saving': 'Saving...',
+  'profile.save': 'Save Profile & Preferences',
+};
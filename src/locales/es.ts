@@ -0,0 +1,358 @@
+import type { Messages } from '@/lib/i18n';
+
+export const es: Messages = {
+  'common.success': '¡Listo!',
+  'common.error': 'Error',
+  'common.language': 'Idioma',
+  'common.cancel': 'Cancelar',
+  'common.unit': 'Unidad',
+  'common.unknownError': 'Algo salió mal',
+
+  'auth.tagline': 'Tu asistente de planificación de comidas con IA',
+  'auth.signIn': 'Iniciar sesión',
+  'auth.signUp': 'Registrarse',
+  'auth.email': 'Correo electrónico',
+  'auth.password': 'Contraseña',
+  'auth.fullName': 'Nombre completo (opcional)',
+  'auth.signingIn': 'Iniciando sesión...',
+  'auth.creatingAccount': 'Creando cuenta...',
+  'auth.createAccount': 'Crear cuenta',
+  'auth.checkEmail': 'Revisa tu correo para confirmar tu cuenta.',
+
+  'dashboard.planGenerated': 'Tu plan de comidas está listo.',
+  'dashboard.generateFailed': 'No se pudo generar el plan de comidas',
+  'dashboard.retryFailed': 'No se pudo reintentar la generación',
+  'dashboard.profileUpdated': '¡Perfil actualizado!',
+  'dashboard.profileSaved': 'Tu perfil se ha guardado correctamente.',
+  'dashboard.profileStatusFailed': 'No se pudo actualizar el estado del perfil. Recarga la página.',
+  'dashboard.loading': 'Cargando tu panel...',
+  'dashboard.welcomeTitle': 'Te damos la bienvenida a NutriPlanner',
+  'dashboard.welcomeSubtitle': 'Preparemos tu plan de nutrición personalizado',
+  'dashboard.signOut': 'Cerrar sesión',
+  'dashboard.welcomeUser': 'Hola, {name}',
+  'dashboard.tabs.mealPlan': 'Plan de comidas',
+  'dashboard.tabs.grocery': 'Lista de la compra',
+  'dashboard.tabs.pantry': 'Despensa',
+  'dashboard.tabs.calendar': 'Calendario',
+  'dashboard.tabs.prep': 'Día de preparación',
+  'dashboard.tabs.profile': 'Perfil',
+
+  'mealType.breakfast': 'Desayuno',
+  'mealType.lunch': 'Almuerzo',
+  'mealType.dinner': 'Cena',
+  'mealType.snack': 'Merienda',
+
+  'calendar.noPlan': 'No hay plan de comidas',
+  'calendar.noPlanDescription': 'Genera primero un plan de comidas para crear recordatorios.',
+  'calendar.remindersCreated.one': 'Se ha creado {count} recordatorio para tu plan de comidas.',
+  'calendar.remindersCreated.other': 'Se han creado {count} recordatorios para tu plan de comidas.',
+  'calendar.cleared': 'Notificaciones antiguas eliminadas.',
+  'calendar.title': 'Calendario y recordatorios',
+  'calendar.subtitle': 'Programa y sigue tus horarios de comida',
+  'calendar.clearOld': 'Borrar antiguas',
+  'calendar.creating': 'Creando...',
+  'calendar.createReminders': 'Crear recordatorios',
+  'calendar.calendarTitle': 'Calendario de comidas',
+  'calendar.calendarDescription': 'Elige una fecha para ver las comidas planificadas',
+  'calendar.mealsFor': 'Comidas del {date}',
+  'calendar.noMeals': 'No hay comidas planificadas para esta fecha',
+  'calendar.upcomingTitle': 'Próximos recordatorios',
+  'calendar.upcomingDescription': 'Tus avisos de comida programados',
+  'calendar.noReminders': 'No hay próximos recordatorios. ¡Crea algunos para tu plan de comidas!',
+  'calendar.planningDayTitle': '🗓️ ¡Día de planificación semanal!',
+  'calendar.planningDayDescription': 'Tu semana empieza mañana: el momento perfecto para planificar las comidas de la semana',
+  'calendar.generateNextWeek': 'Generar el plan de la próxima semana',
+
+  'grocery.addedToPantry': 'Añadido a la despensa',
+  'grocery.addedToPantryDescription': '{name} ya está en tu despensa.',
+  'grocery.cleared': 'Artículos comprados eliminados.',
+  'grocery.title': 'Lista de la compra',
+  'grocery.purchasedCount.one': '{purchased} de {count} artículo comprado',
+  'grocery.purchasedCount.other': '{purchased} de {count} artículos comprados',
+  'grocery.inPantryCount.one': '{count} ya en tu despensa',
+  'grocery.inPantryCount.other': '{count} ya en tu despensa',
+  'grocery.estimatedTotal': 'Total estimado {total}',
+  'grocery.estimatedTotalOfBudget': 'Total estimado {total} de tu presupuesto semanal de {budget}',
+  'grocery.unpriced.one': '{count} artículo sin precio',
+  'grocery.unpriced.other': '{count} artículos sin precio',
+  'grocery.movePurchases': 'Pasar las compras a la despensa',
+  'grocery.findStores': 'Buscar tiendas',
+  'grocery.clearPurchased': 'Borrar comprados',
+  'grocery.emptyTitle': 'Tu lista de la compra está vacía',
+  'grocery.emptyDescription': 'Genera un plan de comidas para rellenar tu lista de la compra automáticamente',
+  'grocery.shoppingList': 'Lista de la compra',
+  'grocery.shoppingListDescription': 'Marca los artículos mientras compras',
+  'grocery.pantryQuantity': '{quantity} ya en tu despensa',
+  'grocery.purchased': 'Comprado',
+  'grocery.inPantryTitle': 'Ya en tu despensa',
+  'grocery.inPantryDescription': 'No hace falta comprarlos para el plan de esta semana',
+
+  'pantry.checkTitle': 'Revisa el artículo',
+  'pantry.checkDescription': 'Escribe un nombre y, si quieres, una cantidad de cero o más.',
+  'pantry.expired': 'Caducado',
+  'pantry.useToday': 'Usar hoy',
+  'pantry.useWithin.one': 'Usar en {count} día',
+  'pantry.useWithin.other': 'Usar en {count} días',
+  'pantry.useByDate': 'Consumir antes del {date}',
+  'pantry.title': 'Despensa',
+  'pantry.subtitle': 'Los nuevos planes usan primero lo que tienes, y tu lista de la compra solo muestra lo que falta',
+  'pantry.addTitle': 'Añadir un artículo',
+  'pantry.addDescription': 'Deja la cantidad vacía para los básicos que siempre tienes',
+  'pantry.name': 'Nombre',
+  'pantry.namePlaceholder': 'p. ej. copos de avena',
+  'pantry.quantity': 'Cantidad',
+  'pantry.useBy': 'Consumir antes de',
+  'pantry.add': 'Añadir',
+  'pantry.emptyTitle': 'Tu despensa está vacía',
+  'pantry.emptyDescription': 'Añade lo que tienes en casa o mueve aquí lo que has comprado',
+  'pantry.quantityOf': 'Cantidad de {name}',
+  'pantry.anyQuantity': 'Cualquiera',
+  'pantry.remove': 'Quitar {name}',
+
+  'prices.checkTitle': 'Revisa el precio',
+  'prices.checkDescription': 'Escribe un ingrediente, un precio y la cantidad que compra.',
+  'prices.title': 'Tus precios',
+  'prices.descriptionUsd': 'Las estimaciones usan precios típicos de EE. UU.; añade lo que pagas donde vives para que sean más precisas',
+  'prices.descriptionOther': 'Las estimaciones incluidas están en USD, así que añade lo que pagas en {currency} para ver los costes',
+  'prices.englishNames': 'Escribe los ingredientes con su nombre en inglés, que es el que se usa para buscar los precios.',
+  'prices.ingredient': 'Ingrediente',
+  'prices.ingredientPlaceholder': 'p. ej. basmati rice',
+  'prices.price': 'Precio ({currency})',
+  'prices.for': 'Por',
+  'prices.save': 'Guardar',
+  'prices.priceFor': '{price} por {amount} {unit}',
+  'prices.remove': 'Quitar el precio de {name}',
+
+  'prep.emptyTitle': 'Nada que preparar todavía',
+  'prep.emptyDescription': 'Genera un plan de comidas para obtener una sesión de preparación para la semana',
+  'prep.title': 'Día de preparación',
+  'prep.subtitle': 'Una sesión el domingo para cocinar la semana, unos {minutes} minutos en total',
+  'prep.tasks': 'Tareas',
+  'prep.tasksDescription': 'Pasos comunes a todas las comidas, en el orden en que empezarlos',
+  'prep.minutes': '{minutes} min',
+  'prep.handsOff': 'Sin atención',
+  'prep.storageTitle': 'Conservación y recalentado',
+  'prep.eatenOn': 'Se come el día {days}',
+  'prep.mealLabel': 'Día {day}, {type}: {name}',
+  'prep.task.grains': 'Cocer cereales y legumbres',
+  'prep.task.chop': 'Lavar y picar verduras y frutas',
+  'prep.task.marinate': 'Marinar las proteínas',
+  'prep.task.proteins': 'Cocinar las proteínas',
+  'prep.task.sauces': 'Mezclar salsas y aliños',
+  'prep.task.store': 'Enfriar, repartir y guardar',
+  'prep.storage.fridge.one': 'En la nevera hasta {count} día en recipientes herméticos.',
+  'prep.storage.fridge.other': 'En la nevera hasta {count} días en recipientes herméticos.',
+  'prep.storage.freezePortions': 'Congela las porciones del día {days} y descongélalas durante la noche en la nevera.',
+  'prep.storage.tooLong': 'No aguanta hasta el día {day}: prepara solo los ingredientes y cocínalo más cerca de ese día.',
+  'prep.storage.freezes': 'Se congela bien hasta 3 meses.',
+  'prep.storage.dressing': 'Guarda el aliño en un tarro aparte hasta servir.',
+  'prep.reheat.cold': 'Sírvelo frío; sácalo de la nevera 10 minutos antes de comer.',
+  'prep.reheat.soup': 'Recaliéntalo en una olla a fuego medio, removiendo, hasta que humee; añade un chorrito de agua si se ha espesado.',
+  'prep.reheat.fish': 'Recaliéntalo suavemente a baja potencia o en una sartén tapada para que no se seque, o cómelo frío.',
+  'prep.reheat.rice': 'Caliéntalo tapado en el microondas con un chorrito de agua hasta que esté muy caliente por dentro.',
+  'prep.reheat.default': 'Caliéntalo 2-3 minutos en el microondas, removiendo a la mitad, o en una sartén hasta que humee.',
+
+  'skill.beginner': 'Principiante',
+  'skill.intermediate': 'Intermedio',
+  'skill.advanced': 'Avanzado',
+  'cooking.prep': '{minutes} min de preparación',
+  'cooking.cook': '{minutes} min de cocción',
+  'cooking.noCooking': 'sin cocción',
+  'household.portions.one': '{count} ración',
+  'household.portions.other': '{count} raciones',
+  'household.title': 'Hogar',
+  'household.description': 'Los planes de comidas se adaptan a todas las personas que añadas aquí y se cocinan en porciones para todo el hogar',
+  'household.caloriesPerDay': '{calories} kcal al día',
+  'household.edit': 'Editar a {name}',
+  'household.remove': 'Quitar a {name}',
+  'household.editMember': 'Editar miembro',
+  'household.addMemberTitle': 'Añadir un miembro',
+  'household.name': 'Nombre',
+  'household.noDiet': 'Sin dieta especial',
+  'household.calorieTarget': 'Objetivo de calorías (kcal)',
+  'household.calorieTargetPlaceholder': 'Según su perfil',
+  'household.calorieTargetHint': 'Indícalo para niños; la fórmula para adultos sobrestima sus necesidades',
+  'household.foodsToAvoidPlaceholder': 'p. ej., setas, comida picante',
+  'household.saveMember': 'Guardar miembro',
+  'household.addMember': 'Añadir miembro',
+  'household.checkTitle': 'Revisa los datos',
+  'household.checkDescription': 'Escribe un nombre y usa números positivos para la altura, el peso y el objetivo de calorías.',
+
+  'nutrition.calories': 'Calorías',
+  'nutrition.protein': 'Proteínas',
+  'nutrition.carbs': 'Carbohidratos',
+  'nutrition.fat': 'Grasas',
+  'nutrition.proteinShort': 'P {grams} g',
+  'nutrition.carbsShort': 'C {grams} g',
+  'nutrition.fatShort': 'G {grams} g',
+
+  'mealPlan.limitReached': 'Has alcanzado el límite de generaciones. Vuelve a intentarlo {retry}.',
+  'mealPlan.noData': 'El servidor no devolvió datos',
+  'mealPlan.overBudgetTitle': 'El plan supera el presupuesto',
+  'mealPlan.overBudgetDescription': 'Este plan cuesta unos {total}, por encima de tu presupuesto de {budget} para estos días. Cambiar algunas comidas o añadir tus precios locales puede ayudar.',
+  'mealPlan.fallbackTitle': 'Plan creado con nuestra biblioteca de recetas',
+  'mealPlan.fallbackDescription': 'La generación con IA no estaba disponible, así que tu plan se creó con recetas seleccionadas que encajan con tus preferencias.',
+  'mealPlan.unexpectedResponse': 'Respuesta inesperada del servidor',
+  'mealPlan.stillGeneratingTitle': 'Sigue generándose',
+  'mealPlan.stillGeneratingDescription': 'Se cortó la conexión en directo, pero tu plan de comidas se sigue generando.',
+  'mealPlan.generateFailedReason': 'No se pudo generar el plan de comidas: {reason}',
+  'mealPlan.noIngredientsTitle': 'Sin ingredientes',
+  'mealPlan.noIngredientsDescription': 'Esta comida no tiene ingredientes que añadir.',
+  'mealPlan.noPlanSelected': 'No hay ningún plan de comidas seleccionado. Genera o elige un plan primero.',
+  'mealPlan.planNotFound': 'No se encontró el plan de comidas asociado.',
+  'mealPlan.missingStartDate': 'Al plan de comidas le falta la fecha de inicio.',
+  'mealPlan.ingredientsAdded': 'Ingredientes añadidos a la lista de la compra.',
+  'mealPlan.ingredientsAddFailed': 'No se pudieron añadir los ingredientes a la lista de la compra.',
+  'mealPlan.noActivePlan': 'No hay ningún plan de comidas activo. Genera un plan primero.',
+  'mealPlan.swapFailed': 'No se pudo cambiar la comida',
+  'mealPlan.swappedTitle': 'Comida cambiada',
+  'mealPlan.swappedDescription': '{name} está en el menú y tu lista de la compra se ha actualizado.',
+  'mealPlan.ratingFailed': 'No se pudo guardar la valoración',
+  'mealPlan.videoQuery': 'receta {name}',
+  'mealPlan.emptyTitle': 'Genera tu plan de comidas',
+  'mealPlan.emptyDescription': 'Crea un plan de comidas personalizado según tus preferencias y objetivos',
+  'mealPlan.generating': 'Generando...',
+  'mealPlan.generateFirst': 'Generar mi plan de comidas',
+  'mealPlan.quota.one': 'Te queda {remaining} de {count} generación hoy',
+  'mealPlan.quota.other': 'Te quedan {remaining} de {count} generaciones hoy',
+  'mealPlan.generatingDay': 'Generando el día {day} de {total}',
+  'mealPlan.ready': '{done}/{total} listos',
+  'mealPlan.title': 'Tu plan de comidas',
+  'mealPlan.days.one': '{count} día',
+  'mealPlan.days.other': '{count} días',
+  'mealPlan.generatedOn': 'Generado el {date}',
+  'mealPlan.generatedToday': 'Generado hoy',
+  'mealPlan.variety': 'Variedad {score}/100',
+  'mealPlan.cookingFor.one': 'Cocinando para {count} persona ({portions})',
+  'mealPlan.cookingFor.other': 'Cocinando para {count} personas ({portions})',
+  'mealPlan.regenerating': 'Regenerando...',
+  'mealPlan.generateNew': 'Generar un plan nuevo',
+  'mealPlan.estimatedCost': 'Coste estimado de la compra: {total}.',
+  'mealPlan.estimatedCostOfBudget.one': 'Coste estimado de la compra: {total} de tu presupuesto de {budget} para {count} día.',
+  'mealPlan.estimatedCostOfBudget.other': 'Coste estimado de la compra: {total} de tu presupuesto de {budget} para {count} días.',
+  'mealPlan.overBy': '{amount} por encima.',
+  'mealPlan.allergenIntro': 'Para respetar tus alergias y los alimentos que evitas:',
+  'mealPlan.allergenReplaced.one': 'se sustituyó {count} comida de este plan.',
+  'mealPlan.allergenReplaced.other': 'se sustituyeron {count} comidas de este plan.',
+  'mealPlan.allergenRemoved.one': 'Se eliminó {count} comida.',
+  'mealPlan.allergenRemoved.other': 'Se eliminaron {count} comidas.',
+  'mealPlan.day': 'Día {day}',
+  'mealPlan.meals.one': '{count} comida',
+  'mealPlan.meals.other': '{count} comidas',
+  'mealPlan.justReheat': 'Solo hay que recalentar',
+  'mealPlan.perfectFor': 'Perfecto como {type}',
+  'mealPlan.about': 'Unos {cost}',
+  'mealPlan.aboutFor': 'Unos {cost} por {portions}',
+  'mealPlan.leftoversFrom': 'Sobras del día {day}',
+  'mealPlan.cookBatch': 'Cocina {portions} y guarda el resto para después',
+  'mealPlan.reheatPortion': 'Recalienta una ración de {name}, cocinado el día {day}.',
+  'mealPlan.moreIngredients.one': '+{count} ingrediente más',
+  'mealPlan.moreIngredients.other': '+{count} ingredientes más',
+  'mealPlan.viewRecipe': 'Ver receta completa',
+  'mealPlan.swapping': 'Cambiando...',
+  'mealPlan.swap': 'Cambiar esta comida',
+  'mealPlan.addToGrocery': 'Añadir a la lista de la compra',
+
+  'recipe.recipe': 'Receta',
+  'recipe.ingredients': 'Ingredientes',
+  'recipe.equipment': 'Utensilios',
+  'recipe.steps': 'Pasos',
+  'recipe.tips': 'Consejos',
+  'recipe.defaultDescription': 'Una comida deliciosa y nutritiva adaptada a tus preferencias.',
+  'recipe.leftovers': 'Sobras del día {day}: recalienta una ración o cocínala de nuevo con los pasos de abajo',
+  'recipe.fewerServings': 'Menos raciones',
+  'recipe.moreServings': 'Más raciones',
+  'recipe.servings.one': '{count} ración',
+  'recipe.servings.other': '{count} raciones',
+  'recipe.watchVideo': 'Ver vídeo de la receta',
+
+  'profile.requiredFields': 'Rellena todos los campos obligatorios',
+  'profile.invalidTimeZone': 'Elige una zona horaria de la lista',
+  'profile.savedTitle': '¡Perfil guardado!',
+  'profile.savedDescription': 'Tus preferencias se han actualizado correctamente.',
+  'profile.title': 'Completa tu perfil',
+  'profile.description': 'Ayúdanos a crear planes de comidas hechos para ti',
+  'profile.personal': 'Información personal',
+  'profile.fullName': 'Nombre completo',
+  'profile.dateOfBirth': 'Fecha de nacimiento',
+  'profile.pickDate': 'Elige una fecha',
+  'profile.month': 'Mes',
+  'profile.year': 'Año',
+  'profile.gender': 'Género',
+  'profile.selectGender': 'Selecciona el género',
+  'profile.genderMale': 'Hombre',
+  'profile.genderFemale': 'Mujer',
+  'profile.genderOther': 'Otro',
+  'profile.height': 'Altura (cm)',
+  'profile.weight': 'Peso (kg)',
+  'profile.fitnessGoal': 'Objetivo',
+  'profile.selectFitnessGoal': 'Selecciona un objetivo',
+  'profile.goal.weightLoss': 'Perder peso',
+  'profile.goal.maintain': 'Mantener el peso',
+  'profile.goal.muscleGain': 'Ganar músculo',
+  'profile.activityLevel': 'Nivel de actividad',
+  'profile.selectActivityLevel': 'Selecciona el nivel de actividad',
+  'profile.activity.sedentary': 'Sedentario',
+  'profile.activity.lightlyActive': 'Poco activo',
+  'profile.activity.active': 'Activo',
+  'profile.activity.veryActive': 'Muy activo',
+  'profile.timeZone': 'Zona horaria',
+  'profile.timeZonePlaceholder': 'p. ej. Europe/Madrid',
+  'profile.useDeviceTimeZone': 'Usar la zona horaria de este dispositivo ({zone})',
+  'profile.languageHint': 'La aplicación y los nuevos planes de comidas se muestran en este idioma',
+  'profile.dietPreferences': 'Preferencias de dieta',
+  'profile.dietType': 'Tipo de dieta',
+  'profile.selectDietType': 'Selecciona el tipo de dieta',
+  'profile.diet.vegetarian': 'Vegetariana',
+  'profile.diet.vegan': 'Vegana',
+  'profile.diet.glutenFree': 'Sin gluten',
+  'profile.diet.dairyFree': 'Sin lácteos',
+  'profile.diet.mediterranean': 'Mediterránea',
+  'profile.diet.custom': 'Personalizada',
+  'profile.allergies': 'Alergias',
+  'profile.allergy.dairy': 'Lácteos',
+  'profile.allergy.nuts': 'Frutos secos',
+  'profile.allergy.gluten': 'Gluten',
+  'profile.allergy.soy': 'Soja',
+  'profile.allergy.eggs': 'Huevos',
+  'profile.allergy.shellfish': 'Marisco',
+  'profile.allergy.citrus': 'Cítricos',
+  'profile.foodsToAvoid': 'Alimentos que evitar (separados por comas)',
+  'profile.foodsToAvoidPlaceholder': 'p. ej., picante, pescado crudo, etc.',
+  'profile.cuisines': 'Cocinas preferidas',
+  'profile.cuisine.indian': 'India',
+  'profile.cuisine.mediterranean': 'Mediterránea',
+  'profile.cuisine.asian': 'Asiática',
+  'profile.cuisine.italian': 'Italiana',
+  'profile.cuisine.mexican': 'Mexicana',
+  'profile.cuisine.american': 'Americana',
+  'profile.cuisine.mixed': 'Variada',
+  'profile.mealsPerDay': 'Comidas al día',
+  'profile.totalDays': 'Número de días',
+  'profile.planStart': 'Los planes nuevos empiezan',
+  'profile.planStart.today': 'Hoy',
+  'profile.planStart.tomorrow': 'Mañana',
+  'profile.planStart.nextWeek': 'Cuando empieza mi semana',
+  'profile.weekStartsOn': 'La semana empieza el',
+  'profile.includeSnacks': 'Incluir meriendas',
+  'profile.batchCooking': 'Cocinar en tandas (planificar sobras)',
+  'profile.weeklyBudget': 'Presupuesto semanal de compra',
+  'profile.noBudget': 'Sin presupuesto',
+  'profile.currency': 'Moneda',
+  'profile.cookingLimits': 'Tiempo y nivel de cocina',
+  'profile.cookingLimitsDescription': 'Las recetas más largas y difíciles que quieres para cada comida',
+  'profile.longestRecipe': 'Receta más larga de {type}',
+  'profile.hardestRecipe': 'Receta más difícil de {type}',
+  'profile.anyTime': 'Cualquier duración',
+  'profile.upToMinutes': 'Hasta {minutes} min',
+  'profile.anySkill': 'Cualquier nivel',
+  'profile.weekendLongRecipes': 'Recetas más largas los fines de semana',
+  'profile.mealTimes': 'Horarios de comida',
+  'profile.reminderTone': 'Tono de los recordatorios',
+  'profile.tone.motivational': 'Motivador',
+  'profile.tone.gentle': 'Suave',
+  'profile.tone.funny': 'Divertido',
+  'profile.enableReminders': 'Activar recordatorios',
+  'profile.saving': 'Guardando...',
+  'profile.save': 'Guardar perfil y preferencias',
+};
@@ -0,0 +1,358 @@
+import type { Messages } from '@/lib/i18n';
+
+export const fr: Messages = {
+  'common.success': 'C’est fait !',
+  'common.error': 'Erreur',
+  'common.language': 'Langue',
+  'common.cancel': 'Annuler',
+  'common.unit': 'Unité',
+  'common.unknownError': 'Une erreur s’est produite',
+
+  'auth.tagline': 'Votre assistant de planification des repas propulsé par l’IA',
+  'auth.signIn': 'Se connecter',
+  'auth.signUp': 'S’inscrire',
+  'auth.email': 'E-mail',
+  'auth.password': 'Mot de passe',
+  'auth.fullName': 'Nom complet (facultatif)',
+  'auth.signingIn': 'Connexion...',
+  'auth.creatingAccount': 'Création du compte...',
+  'auth.createAccount': 'Créer un compte',
+  'auth.checkEmail': 'Consultez vos e-mails pour confirmer votre compte.',
+
+  'dashboard.planGenerated': 'Votre plan de repas est prêt.',
+  'dashboard.generateFailed': 'Impossible de générer le plan de repas',
+  'dashboard.retryFailed': 'Impossible de relancer la génération',
+  'dashboard.profileUpdated': 'Profil mis à jour !',
+  'dashboard.profileSaved': 'Votre profil a bien été enregistré.',
+  'dashboard.profileStatusFailed': 'Impossible de mettre à jour le statut du profil. Veuillez recharger la page.',
+  'dashboard.loading': 'Chargement de votre tableau de bord...',
+  'dashboard.welcomeTitle': 'Bienvenue sur NutriPlanner',
+  'dashboard.welcomeSubtitle': 'Préparons votre plan nutritionnel personnalisé',
+  'dashboard.signOut': 'Se déconnecter',
+  'dashboard.welcomeUser': 'Bonjour, {name}',
+  'dashboard.tabs.mealPlan': 'Plan de repas',
+  'dashboard.tabs.grocery': 'Liste de courses',
+  'dashboard.tabs.pantry': 'Garde-manger',
+  'dashboard.tabs.calendar': 'Calendrier',
+  'dashboard.tabs.prep': 'Jour de préparation',
+  'dashboard.tabs.profile': 'Profil',
+
+  'mealType.breakfast': 'Petit-déjeuner',
+  'mealType.lunch': 'Déjeuner',
+  'mealType.dinner': 'Dîner',
+  'mealType.snack': 'Collation',
+
+  'calendar.noPlan': 'Aucun plan de repas',
+  'calendar.noPlanDescription': 'Générez d’abord un plan de repas pour créer des rappels.',
+  'calendar.remindersCreated.one': '{count} rappel créé pour votre plan de repas.',
+  'calendar.remindersCreated.other': '{count} rappels créés pour votre plan de repas.',
+  'calendar.cleared': 'Anciennes notifications supprimées.',
+  'calendar.title': 'Calendrier et rappels',
+  'calendar.subtitle': 'Planifiez et suivez vos horaires de repas',
+  'calendar.clearOld': 'Effacer les anciens',
+  'calendar.creating': 'Création...',
+  'calendar.createReminders': 'Créer des rappels',
+  'calendar.calendarTitle': 'Calendrier des repas',
+  'calendar.calendarDescription': 'Choisissez une date pour voir les repas prévus',
+  'calendar.mealsFor': 'Repas du {date}',
+  'calendar.noMeals': 'Aucun repas prévu à cette date',
+  'calendar.upcomingTitle': 'Rappels à venir',
+  'calendar.upcomingDescription': 'Vos rappels de repas programmés',
+  'calendar.noReminders': 'Aucun rappel à venir. Créez-en pour votre plan de repas !',
+  'calendar.planningDayTitle': '🗓️ Jour de planification de la semaine !',
+  'calendar.planningDayDescription': 'Votre semaine commence demain : le moment idéal pour planifier les repas de la semaine',
+  'calendar.generateNextWeek': 'Générer le plan de la semaine prochaine',
+
+  'grocery.addedToPantry': 'Ajouté au garde-manger',
+  'grocery.addedToPantryDescription': '{name} est maintenant dans votre garde-manger.',
+  'grocery.cleared': 'Articles achetés supprimés.',
+  'grocery.title': 'Liste de courses',
+  'grocery.purchasedCount.one': '{purchased} sur {count} article acheté',
+  'grocery.purchasedCount.other': '{purchased} sur {count} articles achetés',
+  'grocery.inPantryCount.one': '{count} déjà dans votre garde-manger',
+  'grocery.inPantryCount.other': '{count} déjà dans votre garde-manger',
+  'grocery.estimatedTotal': 'Total estimé {total}',
+  'grocery.estimatedTotalOfBudget': 'Total estimé {total} sur votre budget hebdomadaire de {budget}',
+  'grocery.unpriced.one': '{count} article sans prix',
+  'grocery.unpriced.other': '{count} articles sans prix',
+  'grocery.movePurchases': 'Ranger les achats dans le garde-manger',
+  'grocery.findStores': 'Trouver des magasins',
+  'grocery.clearPurchased': 'Effacer les achats',
+  'grocery.emptyTitle': 'Votre liste de courses est vide',
+  'grocery.emptyDescription': 'Générez un plan de repas pour remplir automatiquement votre liste de courses',
+  'grocery.shoppingList': 'Liste de courses',
+  'grocery.shoppingListDescription': 'Cochez les articles au fil de vos achats',
+  'grocery.pantryQuantity': '{quantity} déjà dans votre garde-manger',
+  'grocery.purchased': 'Acheté',
+  'grocery.inPantryTitle': 'Déjà dans votre garde-manger',
+  'grocery.inPantryDescription': 'Inutile de les acheter pour le plan de cette semaine',
+
+  'pantry.checkTitle': 'Vérifiez l’article',
+  'pantry.checkDescription': 'Saisissez un nom et, si vous le souhaitez, une quantité de zéro ou plus.',
+  'pantry.expired': 'Périmé',
+  'pantry.useToday': 'À utiliser aujourd’hui',
+  'pantry.useWithin.one': 'À utiliser sous {count} jour',
+  'pantry.useWithin.other': 'À utiliser sous {count} jours',
+  'pantry.useByDate': 'À consommer avant le {date}',
+  'pantry.title': 'Garde-manger',
+  'pantry.subtitle': 'Les nouveaux plans utilisent d’abord ce que vous avez, et votre liste de courses n’affiche que ce qui manque',
+  'pantry.addTitle': 'Ajouter un article',
+  'pantry.addDescription': 'Laissez la quantité vide pour les produits de base que vous avez toujours',
+  'pantry.name': 'Nom',
+  'pantry.namePlaceholder': 'ex. : flocons d’avoine',
+  'pantry.quantity': 'Quantité',
+  'pantry.useBy': 'À consommer avant',
+  'pantry.add': 'Ajouter',
+  'pantry.emptyTitle': 'Votre garde-manger est vide',
+  'pantry.emptyDescription': 'Ajoutez ce que vous avez à la maison, ou déplacez ici vos courses achetées',
+  'pantry.quantityOf': 'Quantité de {name}',
+  'pantry.anyQuantity': 'Illimitée',
+  'pantry.remove': 'Retirer {name}',
+
+  'prices.checkTitle': 'Vérifiez le prix',
+  'prices.checkDescription': 'Saisissez un ingrédient, un prix et la quantité correspondante.',
+  'prices.title': 'Vos prix',
+  'prices.descriptionUsd': 'Les estimations utilisent des prix américains typiques ; ajoutez ce que vous payez localement pour les affiner',
+  'prices.descriptionOther': 'Les estimations intégrées sont en USD ; ajoutez ce que vous payez en {currency} pour voir les coûts',
+  'prices.englishNames': 'Saisissez les ingrédients sous leur nom anglais, qui sert à retrouver les prix.',
+  'prices.ingredient': 'Ingrédient',
+  'prices.ingredientPlaceholder': 'ex. : basmati rice',
+  'prices.price': 'Prix ({currency})',
+  'prices.for': 'Pour',
+  'prices.save': 'Enregistrer',
+  'prices.priceFor': '{price} pour {amount} {unit}',
+  'prices.remove': 'Supprimer le prix de {name}',
+
+  'prep.emptyTitle': 'Rien à préparer pour le moment',
+  'prep.emptyDescription': 'Générez un plan de repas pour obtenir une séance de préparation pour la semaine',
+  'prep.title': 'Jour de préparation',
+  'prep.subtitle': 'Une séance le dimanche pour la cuisine de la semaine, environ {minutes} minutes au total',
+  'prep.tasks': 'Tâches',
+  'prep.tasksDescription': 'Étapes communes à tous les repas, dans l’ordre où les commencer',
+  'prep.minutes': '{minutes} min',
+  'prep.handsOff': 'Sans surveillance',
+  'prep.storageTitle': 'Conservation et réchauffage',
+  'prep.eatenOn': 'Mangé le jour {days}',
+  'prep.mealLabel': 'Jour {day}, {type} : {name}',
+  'prep.task.grains': 'Cuire céréales et légumineuses',
+  'prep.task.chop': 'Laver et couper les fruits et légumes',
+  'prep.task.marinate': 'Faire mariner les protéines',
+  'prep.task.proteins': 'Cuire les protéines',
+  'prep.task.sauces': 'Préparer sauces et vinaigrettes',
+  'prep.task.store': 'Refroidir, portionner et ranger',
+  'prep.storage.fridge.one': 'Au réfrigérateur jusqu’à {count} jour dans des boîtes hermétiques.',
+  'prep.storage.fridge.other': 'Au réfrigérateur jusqu’à {count} jours dans des boîtes hermétiques.',
+  'prep.storage.freezePortions': 'Congelez les portions du jour {days} et décongelez-les la nuit au réfrigérateur.',
+  'prep.storage.tooLong': 'Trop long à conserver jusqu’au jour {day} : préparez seulement les ingrédients et cuisinez-le plus près du jour.',
+  'prep.storage.freezes': 'Se congèle bien jusqu’à 3 mois.',
+  'prep.storage.dressing': 'Gardez la vinaigrette dans un pot à part jusqu’au service.',
+  'prep.reheat.cold': 'Servir froid ; sortez-le du réfrigérateur 10 minutes avant de manger.',
+  'prep.reheat.soup': 'Réchauffez dans une casserole à feu moyen en remuant jusqu’à ce que ça fume ; ajoutez un peu d’eau si ça a épaissi.',
+  'prep.reheat.fish': 'Réchauffez doucement à faible puissance ou dans une poêle couverte pour qu’il ne se dessèche pas, ou mangez-le froid.',
+  'prep.reheat.rice': 'Réchauffez au micro-ondes, couvert, avec un peu d’eau, jusqu’à ce que ce soit bien chaud à cœur.',
+  'prep.reheat.default': 'Réchauffez 2 à 3 minutes au micro-ondes en remuant à mi-temps, ou à la poêle jusqu’à ce que ça fume.',
+
+  'skill.beginner': 'Débutant',
+  'skill.intermediate': 'Intermédiaire',
+  'skill.advanced': 'Avancé',
+  'cooking.prep': '{minutes} min de préparation',
+  'cooking.cook': '{minutes} min de cuisson',
+  'cooking.noCooking': 'sans cuisson',
+  'household.portions.one': '{count} portion',
+  'household.portions.other': '{count} portions',
+  'household.title': 'Foyer',
+  'household.description': 'Les plans de repas conviennent à toutes les personnes ajoutées ici et sont cuisinés en portions pour tout le foyer',
+  'household.caloriesPerDay': '{calories} kcal par jour',
+  'household.edit': 'Modifier {name}',
+  'household.remove': 'Retirer {name}',
+  'household.editMember': 'Modifier le membre',
+  'household.addMemberTitle': 'Ajouter un membre',
+  'household.name': 'Nom',
+  'household.noDiet': 'Pas de régime particulier',
+  'household.calorieTarget': 'Objectif calorique (kcal)',
+  'household.calorieTargetPlaceholder': 'Selon son profil',
+  'household.calorieTargetHint': 'À renseigner pour les enfants ; la formule pour adultes surestime leurs besoins',
+  'household.foodsToAvoidPlaceholder': 'ex. : champignons, plats épicés',
+  'household.saveMember': 'Enregistrer le membre',
+  'household.addMember': 'Ajouter le membre',
+  'household.checkTitle': 'Vérifiez les informations',
+  'household.checkDescription': 'Saisissez un nom et des nombres positifs pour la taille, le poids et l’objectif calorique.',
+
+  'nutrition.calories': 'Calories',
+  'nutrition.protein': 'Protéines',
+  'nutrition.carbs': 'Glucides',
+  'nutrition.fat': 'Lipides',
+  'nutrition.proteinShort': 'P {grams} g',
+  'nutrition.carbsShort': 'G {grams} g',
+  'nutrition.fatShort': 'L {grams} g',
+
+  'mealPlan.limitReached': 'Limite de générations atteinte. Réessayez {retry}.',
+  'mealPlan.noData': 'Aucune donnée renvoyée par le serveur',
+  'mealPlan.overBudgetTitle': 'Plan au-dessus du budget',
+  'mealPlan.overBudgetDescription': 'Ce plan est estimé à {total}, au-dessus de votre budget de {budget} pour ces jours. Remplacer quelques repas ou ajouter vos prix locaux peut aider.',
+  'mealPlan.fallbackTitle': 'Plan créé à partir de notre bibliothèque de recettes',
+  'mealPlan.fallbackDescription': 'La génération par IA n’était pas disponible : votre plan a donc été créé à partir de recettes sélectionnées selon vos préférences.',
+  'mealPlan.unexpectedResponse': 'Réponse inattendue du serveur',
+  'mealPlan.stillGeneratingTitle': 'Génération en cours',
+  'mealPlan.stillGeneratingDescription': 'La connexion en direct a été interrompue, mais votre plan de repas est toujours en cours de génération.',
+  'mealPlan.generateFailedReason': 'Impossible de générer le plan de repas : {reason}',
+  'mealPlan.noIngredientsTitle': 'Aucun ingrédient',
+  'mealPlan.noIngredientsDescription': 'Ce repas n’a aucun ingrédient à ajouter.',
+  'mealPlan.noPlanSelected': 'Aucun plan de repas sélectionné. Générez ou choisissez d’abord un plan.',
+  'mealPlan.planNotFound': 'Le plan de repas associé est introuvable.',
+  'mealPlan.missingStartDate': 'Il manque la date de début du plan de repas.',
+  'mealPlan.ingredientsAdded': 'Ingrédients ajoutés à la liste de courses.',
+  'mealPlan.ingredientsAddFailed': 'Impossible d’ajouter les ingrédients à la liste de courses.',
+  'mealPlan.noActivePlan': 'Aucun plan de repas actif. Générez d’abord un plan.',
+  'mealPlan.swapFailed': 'Impossible de remplacer le repas',
+  'mealPlan.swappedTitle': 'Repas remplacé',
+  'mealPlan.swappedDescription': '{name} est au menu et votre liste de courses a été mise à jour.',
+  'mealPlan.ratingFailed': 'Impossible d’enregistrer la note',
+  'mealPlan.videoQuery': 'recette {name}',
+  'mealPlan.emptyTitle': 'Générez votre plan de repas',
+  'mealPlan.emptyDescription': 'Obtenez un plan de repas personnalisé selon vos préférences et vos objectifs',
+  'mealPlan.generating': 'Génération...',
+  'mealPlan.generateFirst': 'Générer mon plan de repas',
+  'mealPlan.quota.one': 'Il vous reste {remaining} génération sur {count} aujourd’hui',
+  'mealPlan.quota.other': 'Il vous reste {remaining} générations sur {count} aujourd’hui',
+  'mealPlan.generatingDay': 'Génération du jour {day} sur {total}',
+  'mealPlan.ready': '{done}/{total} prêts',
+  'mealPlan.title': 'Votre plan de repas',
+  'mealPlan.days.one': '{count} jour',
+  'mealPlan.days.other': '{count} jours',
+  'mealPlan.generatedOn': 'Généré le {date}',
+  'mealPlan.generatedToday': 'Généré aujourd’hui',
+  'mealPlan.variety': 'Variété {score}/100',
+  'mealPlan.cookingFor.one': 'Cuisine pour {count} personne ({portions})',
+  'mealPlan.cookingFor.other': 'Cuisine pour {count} personnes ({portions})',
+  'mealPlan.regenerating': 'Régénération...',
+  'mealPlan.generateNew': 'Générer un nouveau plan',
+  'mealPlan.estimatedCost': 'Coût estimé des courses : {total}.',
+  'mealPlan.estimatedCostOfBudget.one': 'Coût estimé des courses : {total} sur votre budget de {budget} pour {count} jour.',
+  'mealPlan.estimatedCostOfBudget.other': 'Coût estimé des courses : {total} sur votre budget de {budget} pour {count} jours.',
+  'mealPlan.overBy': '{amount} de dépassement.',
+  'mealPlan.allergenIntro': 'Pour respecter vos allergies et les aliments à éviter :',
+  'mealPlan.allergenReplaced.one': '{count} repas de ce plan a été remplacé.',
+  'mealPlan.allergenReplaced.other': '{count} repas de ce plan ont été remplacés.',
+  'mealPlan.allergenRemoved.one': '{count} repas a été supprimé.',
+  'mealPlan.allergenRemoved.other': '{count} repas ont été supprimés.',
+  'mealPlan.day': 'Jour {day}',
+  'mealPlan.meals.one': '{count} repas',
+  'mealPlan.meals.other': '{count} repas',
+  'mealPlan.justReheat': 'Il suffit de réchauffer',
+  'mealPlan.perfectFor': 'Parfait comme {type}',
+  'mealPlan.about': 'Environ {cost}',
+  'mealPlan.aboutFor': 'Environ {cost} pour {portions}',
+  'mealPlan.leftoversFrom': 'Restes du jour {day}',
+  'mealPlan.cookBatch': 'Cuisinez {portions}, gardez le reste pour plus tard',
+  'mealPlan.reheatPortion': 'Réchauffez une portion de {name}, cuisiné le jour {day}.',
+  'mealPlan.moreIngredients.one': '+{count} autre ingrédient',
+  'mealPlan.moreIngredients.other': '+{count} autres ingrédients',
+  'mealPlan.viewRecipe': 'Voir la recette complète',
+  'mealPlan.swapping': 'Remplacement...',
+  'mealPlan.swap': 'Remplacer ce repas',
+  'mealPlan.addToGrocery': 'Ajouter à la liste de courses',
+
+  'recipe.recipe': 'Recette',
+  'recipe.ingredients': 'Ingrédients',
+  'recipe.equipment': 'Ustensiles',
+  'recipe.steps': 'Étapes',
+  'recipe.tips': 'Astuces',
+  'recipe.defaultDescription': 'Un repas délicieux et nutritif adapté à vos préférences.',
+  'recipe.leftovers': 'Restes du jour {day} : réchauffez une portion ou cuisinez-le à nouveau avec les étapes ci-dessous',
+  'recipe.fewerServings': 'Moins de portions',
+  'recipe.moreServings': 'Plus de portions',
+  'recipe.servings.one': '{count} portion',
+  'recipe.servings.other': '{count} portions',
+  'recipe.watchVideo': 'Voir la vidéo de la recette',
+
+  'profile.requiredFields': 'Veuillez remplir tous les champs obligatoires',
+  'profile.invalidTimeZone': 'Choisissez un fuseau horaire dans la liste',
+  'profile.savedTitle': 'Profil enregistré !',
+  'profile.savedDescription': 'Vos préférences ont bien été mises à jour.',
+  'profile.title': 'Complétez votre profil',
+  'profile.description': 'Aidez-nous à créer des plans de repas faits pour vous',
+  'profile.personal': 'Informations personnelles',
+  'profile.fullName': 'Nom complet',
+  'profile.dateOfBirth': 'Date de naissance',
+  'profile.pickDate': 'Choisissez une date',
+  'profile.month': 'Mois',
+  'profile.year': 'Année',
+  'profile.gender': 'Genre',
+  'profile.selectGender': 'Sélectionnez le genre',
+  'profile.genderMale': 'Homme',
+  'profile.genderFemale': 'Femme',
+  'profile.genderOther': 'Autre',
+  'profile.height': 'Taille (cm)',
+  'profile.weight': 'Poids (kg)',
+  'profile.fitnessGoal': 'Objectif',
+  'profile.selectFitnessGoal': 'Sélectionnez un objectif',
+  'profile.goal.weightLoss': 'Perdre du poids',
+  'profile.goal.maintain': 'Maintenir son poids',
+  'profile.goal.muscleGain': 'Prendre du muscle',
+  'profile.activityLevel': 'Niveau d’activité',
+  'profile.selectActivityLevel': 'Sélectionnez le niveau d’activité',
+  'profile.activity.sedentary': 'Sédentaire',
+  'profile.activity.lightlyActive': 'Peu actif',
+  'profile.activity.active': 'Actif',
+  'profile.activity.veryActive': 'Très actif',
+  'profile.timeZone': 'Fuseau horaire',
+  'profile.timeZonePlaceholder': 'ex. Europe/Paris',
+  'profile.useDeviceTimeZone': 'Utiliser le fuseau horaire de cet appareil ({zone})',
+  'profile.languageHint': 'L’application et les nouveaux plans de repas s’affichent dans cette langue',
+  'profile.dietPreferences': 'Préférences alimentaires',
+  'profile.dietType': 'Type de régime',
+  'profile.selectDietType': 'Sélectionnez le type de régime',
+  'profile.diet.vegetarian': 'Végétarien',
+  'profile.diet.vegan': 'Végan',
+  'profile.diet.glutenFree': 'Sans gluten',
+  'profile.diet.dairyFree': 'Sans produits laitiers',
+  'profile.diet.mediterranean': 'Méditerranéen',
+  'profile.diet.custom': 'Personnalisé',
+  'profile.allergies': 'Allergies',
+  'profile.allergy.dairy': 'Produits laitiers',
+  'profile.allergy.nuts': 'Fruits à coque',
+  'profile.allergy.gluten': 'Gluten',
+  'profile.allergy.soy': 'Soja',
+  'profile.allergy.eggs': 'Œufs',
+  'profile.allergy.shellfish': 'Crustacés',
+  'profile.allergy.citrus': 'Agrumes',
+  'profile.foodsToAvoid': 'Aliments à éviter (séparés par des virgules)',
+  'profile.foodsToAvoidPlaceholder': 'ex. épicé, poisson cru, etc.',
+  'profile.cuisines': 'Cuisines préférées',
+  'profile.cuisine.indian': 'Indienne',
+  'profile.cuisine.mediterranean': 'Méditerranéenne',
+  'profile.cuisine.asian': 'Asiatique',
+  'profile.cuisine.italian': 'Italienne',
+  'profile.cuisine.mexican': 'Mexicaine',
+  'profile.cuisine.american': 'Américaine',
+  'profile.cuisine.mixed': 'Variée',
+  'profile.mealsPerDay': 'Repas par jour',
+  'profile.totalDays': 'Nombre de jours',
+  'profile.planStart': 'Les nouveaux plans commencent',
+  'profile.planStart.today': 'Aujourd’hui',
+  'profile.planStart.tomorrow': 'Demain',
+  'profile.planStart.nextWeek': 'Au début de ma semaine',
+  'profile.weekStartsOn': 'La semaine commence le',
+  'profile.includeSnacks': 'Inclure des collations',
+  'profile.batchCooking': 'Cuisine en grande quantité (prévoir des restes)',
+  'profile.weeklyBudget': 'Budget courses hebdomadaire',
+  'profile.noBudget': 'Pas de budget',
+  'profile.currency': 'Devise',
+  'profile.cookingLimits': 'Temps et niveau de cuisine',
+  'profile.cookingLimitsDescription': 'Les recettes les plus longues et les plus difficiles que vous acceptez pour chaque repas',
+  'profile.longestRecipe': 'Recette la plus longue ({type})',
+  'profile.hardestRecipe': 'Recette la plus difficile ({type})',
+  'profile.anyTime': 'Toute durée',
+  'profile.upToMinutes': 'Jusqu’à {minutes} min',
+  'profile.anySkill': 'Tout niveau',
+  'profile.weekendLongRecipes': 'Recettes plus longues le week-end',
+  'profile.mealTimes': 'Horaires des repas',
+  'profile.reminderTone': 'Ton des rappels',
+  'profile.tone.motivational': 'Motivant',
+  'profile.tone.gentle': 'Doux',
+  'profile.tone.funny': 'Drôle',
+  'profile.enableReminders': 'Activer les rappels',
+  'profile.saving': 'Enregistrement...',
+  'profile.save': 'Enregistrer le profil et les préférences',
+};
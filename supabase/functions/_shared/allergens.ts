@@ -0,0 +1,154 @@
+import { formatIngredient } from './ingredients.ts';
+
+// Post-generation allergen and avoid-list checks.
+// Keys match the allergyOptions offered in UserProfileForm.
+
+export const ALLERGEN_SYNONYMS = {
+  dairy: [
+    'dairy', 'milk', 'butter', 'buttermilk', 'cheese', 'paneer', 'ghee', 'cream', 'sour cream',
+    'yogurt', 'yoghurt', 'curd', 'whey', 'casein', 'lactose', 'kefir', 'ricotta', 'mozzarella',
+    'parmesan', 'cheddar', 'feta', 'halloumi', 'mascarpone', 'custard', 'ice cream', 'khoa',
+    'raita', 'labneh', 'quark', 'tzatziki'
+  ],
+  nuts: [
+    'nut', 'almond', 'cashew', 'walnut', 'pecan', 'pistachio', 'hazelnut', 'macadamia',
+    'brazil nut', 'pine nut', 'peanut', 'groundnut', 'praline', 'marzipan', 'nutella', 'pesto'
+  ],
+  gluten: [
+    'gluten', 'wheat', 'flour', 'bread', 'breadcrumb', 'panko', 'pasta', 'spaghetti', 'penne',
+    'macaroni', 'noodle', 'couscous', 'bulgur', 'barley', 'rye', 'semolina', 'spelt', 'farro',
+    'seitan', 'malt', 'naan', 'roti', 'chapati', 'paratha', 'tortilla', 'pita', 'bagel',
+    'croissant', 'cracker', 'crouton', 'soy sauce', 'udon', 'orzo', 'maida', 'sooji', 'rava'
+  ],
+  soy: ['soy', 'soya', 'soybean', 'tofu', 'tempeh', 'edamame', 'miso', 'soy sauce', 'tamari', 'natto'],
+  eggs: ['egg', 'egg white', 'egg yolk', 'mayonnaise', 'mayo', 'meringue', 'omelette', 'omelet', 'frittata', 'aioli', 'quiche'],
+  shellfish: [
+    'shellfish', 'shrimp', 'prawn', 'crab', 'lobster', 'crayfish', 'langoustine', 'scallop',
+    'clam', 'mussel', 'oyster', 'squid', 'calamari', 'octopus', 'cockle'
+  ],
+  citrus: [
+    'citrus', 'lemon', 'lime', 'orange', 'grapefruit', 'tangerine', 'mandarin', 'clementine',
+    'yuzu', 'kumquat', 'pomelo'
+  ]
+};
+
+// Phrases that contain a synonym but are safe for that allergy
+const ALLERGEN_EXCEPTIONS = {
+  dairy: [
+    'coconut milk', 'coconut cream', 'coconut yogurt', 'almond milk', 'oat milk', 'soy milk',
+    'rice milk', 'cashew milk', 'peanut butter', 'almond butter', 'cashew butter', 'nut butter',
+    'cocoa butter'
+  ],
+  nuts: ['nutmeg', 'coconut', 'butternut', 'nutritional yeast'],
+  gluten: [
+    'rice flour', 'almond flour', 'coconut flour', 'chickpea flour',
+    'gram flour', 'besan', 'corn flour', 'cornflour', 'buckwheat', 'rice noodle', 'glass noodle',
+    'corn tortilla', 'tamari'
+  ],
+  soy: [],
+  eggs: ['eggplant'],
+  shellfish: [],
+  citrus: ['lemongrass', 'lemon balm']
+};
+
+// Qualifiers that make the whole ingredient safe for that allergy ("gluten-free bread")
+const ALLERGEN_SAFE_QUALIFIERS = {
+  dairy: ['dairy-free', 'dairy free', 'non-dairy', 'vegan', 'plant-based'],
+  nuts: ['nut-free', 'nut free'],
+  gluten: ['gluten-free', 'gluten free'],
+  soy: ['soy-free', 'soy free'],
+  eggs: ['egg-free', 'egg free', 'eggless', 'vegan'],
+  shellfish: [],
+  citrus: []
+};
+
+const escapeRegExp = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Match whole words, allowing simple plurals ("egg" -> "eggs", "tomato" -> "tomatoes")
+const termPattern = (term) => new RegExp(`\\b${escapeRegExp(term.toLowerCase())}(?:s|es)?\\b`, 'i');
+
+// "tomatoes" -> "tomato", "chickpeas" -> "chickpea"; plurals are matched by termPattern
+const singularize = (term) => {
+  if (/(?:ch|sh|x|o)es$/.test(term)) return term.slice(0, -2);
+  if (/[^s]s$/.test(term)) return term.slice(0, -1);
+  return term;
+};
+
+const stripPhrases = (text, phrases) =>
+  phrases.reduce((acc, phrase) => acc.replace(new RegExp(escapeRegExp(phrase), 'gi'), ' '), text.toLowerCase());
+
+const findMatch = (text, terms, exceptions = [], qualifiers = []) => {
+  const lowered = text.toLowerCase();
+  if (qualifiers.some((qualifier) => lowered.includes(qualifier))) return null;
+  const cleaned = stripPhrases(text, exceptions);
+  return terms.find((term) => termPattern(term).test(cleaned)) ?? null;
+};
+
+// Build the list of rules to check from allergies and foods_to_avoid
+export const buildAvoidRules = ({ allergies = [], foodsToAvoid = [] }) => {
+  const rules = [];
+
+  for (const allergy of allergies ?? []) {
+    const key = String(allergy).toLowerCase().trim();
+    if (!key) continue;
+    rules.push({
+      rule: 'allergy',
+      label: key,
+      terms: ALLERGEN_SYNONYMS[key] ?? [key],
+      exceptions: ALLERGEN_EXCEPTIONS[key] ?? [],
+      qualifiers: ALLERGEN_SAFE_QUALIFIERS[key] ?? []
+    });
+  }
+
+  for (const food of foodsToAvoid ?? []) {
+    const term = String(food).toLowerCase().trim();
+    if (!term) continue;
+    const terms = [...new Set([term, singularize(term)])];
+    rules.push({ rule: 'avoid', label: term, terms, exceptions: [], qualifiers: [] });
+  }
+
+  return rules;
+};
+
+// Check one meal's name and ingredients against the rules
+export const findMealViolations = (meal, rules) => {
+  const violations = [];
+  const fields = [
+    { field: 'name', text: meal?.name ?? '' },
+    ...(meal?.ingredients ?? []).map((ingredient) => ({ field: 'ingredient', text: formatIngredient(ingredient) }))
+  ];
+
+  for (const rule of rules) {
+    for (const { field, text } of fields) {
+      const matched = findMatch(text, rule.terms, rule.exceptions, rule.qualifiers);
+      if (matched) {
+        violations.push({ rule: rule.rule, label: rule.label, matched, field, text });
+        break;
+      }
+    }
+  }
+
+  return violations;
+};
+
+// Scan every meal in a plan; returns one entry per offending meal
+export const scanMealPlan = (planData, rules) => {
+  const offenders = [];
+  if (!rules.length) return offenders;
+
+  planData?.days?.forEach((day, dayIndex) => {
+    day.meals?.forEach((meal, mealIndex) => {
+      const violations = findMealViolations(meal, rules);
+      if (violations.length) {
+        offenders.push({ day: day.day ?? dayIndex + 1, dayIndex, mealIndex, meal, violations });
+      }
+    });
+  });
+
+  return offenders;
+};
+
+export const formatRulesForPrompt = (rules) =>
+  rules
+    .map((rule) => (rule.rule === 'allergy' ? `${rule.label} (including ${rule.terms.slice(0, 8).join(', ')})` : rule.label))
+    .join('; ');
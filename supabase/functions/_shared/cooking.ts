@@ -0,0 +1,92 @@
+// Cooking time and skill limits per meal slot, from diet_preferences.cooking_limits,
+// e.g. { "dinner": { "max_minutes": 30, "skill": "beginner" } }. Limits apply
+// every day; with weekend_long_recipes only the skill limit applies on
+// Saturdays and Sundays. Meals carry prep_minutes, cook_minutes and skill_level.
+
+import { isLeftovers } from './leftovers.ts';
+import { planDayDate, weekdayOf } from './dates.ts';
+
+export const SKILL_LEVELS = ['beginner', 'intermediate', 'advanced'];
+
+const LIMITED_SLOTS = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+// Known slots only, whole positive minutes and known skill levels
+export const normalizeCookingLimits = (stored) => {
+  const limits = {};
+  for (const slot of LIMITED_SLOTS) {
+    const entry = stored?.[slot];
+    const minutes = Number(entry?.max_minutes);
+    const maxMinutes = entry?.max_minutes !== null && Number.isInteger(minutes) && minutes > 0 ? minutes : null;
+    const skill = SKILL_LEVELS.includes(entry?.skill) ? entry.skill : null;
+    if (maxMinutes || skill) limits[slot] = { max_minutes: maxMinutes, skill };
+  }
+  return limits;
+};
+
+const weekdayName = (date) => new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' });
+
+const isWeekend = (date) => [0, 6].includes(weekdayOf(date));
+
+// Limit for one meal slot on one plan day, or null when there is none
+export const cookingLimitFor = (preferences, { startDate, day, mealType }) => {
+  const limit = preferences.cooking_limits?.[String(mealType).toLowerCase()];
+  if (!limit) return null;
+  if (preferences.weekend_long_recipes && isWeekend(planDayDate(startDate, day))) {
+    return limit.skill ? { max_minutes: null, skill: limit.skill } : null;
+  }
+  return limit;
+};
+
+// Whether a meal or recipe keeps to a limit. Times or a skill level that were
+// never given are not held against it.
+export const fitsCookingLimit = (meal, limit) => {
+  if (!limit) return true;
+  const prep = Number(meal?.prep_minutes);
+  const cook = Number(meal?.cook_minutes);
+  if (limit.max_minutes && (Number.isFinite(prep) || Number.isFinite(cook))) {
+    if ((Number.isFinite(prep) ? prep : 0) + (Number.isFinite(cook) ? cook : 0) > limit.max_minutes) return false;
+  }
+  const skill = SKILL_LEVELS.indexOf(meal?.skill_level);
+  return !limit.skill || skill === -1 || skill <= SKILL_LEVELS.indexOf(limit.skill);
+};
+
+// e.g. "at most 30 minutes of prep and cooking, beginner level"
+export const formatCookingLimit = (limit) =>
+  [
+    limit.max_minutes ? `at most ${limit.max_minutes} minutes of prep and cooking` : null,
+    limit.skill ? `${limit.skill} level` : null
+  ].filter(Boolean).join(', ');
+
+// Meals that take too long or need more skill than their slot allows.
+// Leftovers only need reheating, so they are never counted.
+export const findCookingLimitIssues = (days, preferences, startDate) => {
+  const issues = [];
+  days.forEach((day, dayIndex) => {
+    day.meals.forEach((meal, mealIndex) => {
+      if (isLeftovers(meal)) return;
+      const limit = cookingLimitFor(preferences, { startDate, day: day.day, mealType: meal.type });
+      if (!fitsCookingLimit(meal, limit)) issues.push({ day: day.day, dayIndex, mealIndex, meal, limit });
+    });
+  });
+  return issues;
+};
+
+// Prompt lines with the limits for a range of days, grouping days with the same limits
+export const formatCookingLimitsForPrompt = (preferences, { startDate, firstDay, lastDay }) => {
+  const groups = new Map();
+  for (let day = firstDay; day <= lastDay; day++) {
+    const parts = LIMITED_SLOTS
+      .map((slot) => {
+        const limit = cookingLimitFor(preferences, { startDate, day, mealType: slot });
+        return limit ? `${slot} ${formatCookingLimit(limit)}` : null;
+      })
+      .filter(Boolean);
+    if (!parts.length) continue;
+    const text = parts.join('; ');
+    groups.set(text, [...(groups.get(text) ?? []), `day ${day} (${weekdayName(planDayDate(startDate, day))})`]);
+  }
+  if (!groups.size) return '';
+
+  const lines = Array.from(groups, ([text, days]) => `- ${days.join(', ')}: ${text}`);
+  return `Cooking limits; prep_minutes plus cook_minutes must stay within them:\n${lines.join('\n')}`;
+};
@@ -0,0 +1,108 @@
+// Grocery cost estimates from ingredient_prices. Shared default rows have no
+// user; a user's own price for the same product and kind of unit wins. Only
+// prices in the user's currency are used.
+
+import { normalizeIngredient } from './ingredients.ts';
+import { productKey, toBaseAmount } from './units.ts';
+import { mealServings } from './leftovers.ts';
+
+const roundMoney = (value) => Math.round(value * 100) / 100;
+
+// Lookup from product key to prices per base unit, one per unit group
+export const buildPriceLookup = (prices, { userId = null, currency = 'USD' } = {}) => {
+  const lookup = new Map();
+  // Defaults first so the user's own rows overwrite them
+  const ordered = [...prices].sort((a, b) => Number(Boolean(a.user_id)) - Number(Boolean(b.user_id)));
+  for (const row of ordered) {
+    if (row.currency !== currency || (row.user_id && row.user_id !== userId)) continue;
+    const amount = Number(row.amount);
+    const price = Number(row.price);
+    if (!row.name?.trim() || !(amount > 0) || !(price >= 0)) continue;
+
+    const { group, total } = toBaseAmount(amount, row.unit);
+    const key = productKey(row.name);
+    if (!lookup.has(key)) lookup.set(key, new Map());
+    lookup.get(key).set(group, price / total);
+  }
+  return lookup;
+};
+
+// Load the prices that apply to a user, or an empty lookup when they fail to load
+export const loadPriceLookup = async (supabaseAdmin, userId, currency) => {
+  const { data, error } = await supabaseAdmin
+    .from('ingredient_prices')
+    .select('user_id, name, price, amount, unit, currency')
+    .or(`user_id.is.null,user_id.eq.${userId}`)
+    .eq('currency', currency);
+
+  if (error) {
+    console.error('Error loading ingredient prices, skipping cost estimate:', error);
+    return new Map();
+  }
+  return buildPriceLookup(data ?? [], { userId, currency });
+};
+
+// Cost of one amount of a product, or null when there is no comparable price.
+// "black beans" falls back to a price for "beans".
+export const estimateAmountCost = (lookup, name, amount, unit) => {
+  if (!(amount > 0)) return null;
+  const { group, total } = toBaseAmount(amount, unit);
+  const words = productKey(name).split(' ');
+  for (let i = 0; i < words.length; i++) {
+    const perBase = lookup.get(words.slice(i).join(' '))?.get(group);
+    if (perBase !== undefined) return perBase * total;
+  }
+  return null;
+};
+
+// Cost of a meal's priced ingredients, with the names that could not be priced
+export const estimateMealCost = (meal, lookup) => {
+  let cost = 0;
+  const unpriced = [];
+  for (const ingredient of (meal.ingredients ?? []).map(normalizeIngredient)) {
+    // Seasonings "to taste" have no amount and are not worth pricing
+    if (ingredient.amount === null) continue;
+    // Prices are kept under English names
+    const ingredientCost = estimateAmountCost(lookup, ingredient.name_en ?? ingredient.name, ingredient.amount, ingredient.unit);
+    if (ingredientCost === null) unpriced.push(ingredient.name);
+    else cost += ingredientCost;
+  }
+  return { cost: roundMoney(cost), unpriced };
+};
+
+// Budget for a plan of totalDays, scaled from the weekly budget
+export const budgetForDays = (weeklyBudget, totalDays) =>
+  weeklyBudget ? roundMoney((weeklyBudget * totalDays) / 7) : null;
+
+// Cost of the portions cooked for a meal; nothing for leftovers. portions is
+// how many portions the household eats of each serving (see household.ts).
+export const estimateCookedCost = (meal, lookup, portions = 1) => {
+  const servings = mealServings(meal);
+  if (!servings) return { cost: 0, unpriced: [] };
+  const estimate = estimateMealCost(meal, lookup);
+  return { cost: roundMoney(estimate.cost * servings * portions), unpriced: estimate.unpriced };
+};
+
+// Estimated cost per meal, per day and in total, compared to the budget
+export const estimatePlanCost = (days, lookup, { currency, weeklyBudget, totalDays, portions = 1 }) => {
+  const unpriced = new Set();
+  const perDay = days.map((day) => {
+    const meals = day.meals.map((meal) => {
+      const estimate = estimateCookedCost(meal, lookup, portions);
+      estimate.unpriced.forEach((name) => unpriced.add(name));
+      return { name: meal.name, cost: estimate.cost };
+    });
+    return { day: day.day, cost: roundMoney(meals.reduce((sum, meal) => sum + meal.cost, 0)), meals };
+  });
+
+  const total = roundMoney(perDay.reduce((sum, day) => sum + day.cost, 0));
+  const budget = budgetForDays(weeklyBudget, totalDays);
+  return {
+    currency,
+    total,
+    budget,
+    over_budget: budget !== null && total > budget,
+    per_day: perDay,
+    unpriced: Array.from(unpriced)
+  };
+};
@@ -0,0 +1,109 @@
+// Plan dates, matching src/lib/dates.ts. A plan's week_start_date is the date
+// of day 1 and day N falls N - 1 days later. Dates are yyyy-mm-dd strings,
+// worked out in UTC so they never shift with the server's time zone. "Today"
+// and times of day are the user's, from user_profiles.time_zone.
+
+// How the first day of a new plan is chosen, from diet_preferences.plan_start
+export const PLAN_STARTS = ['today', 'tomorrow', 'next_week'];
+
+// Weekdays as Date.getUTCDay() numbers them, for diet_preferences.week_starts_on
+export const WEEKDAY_RANGE = { min: 0, max: 6 };
+export const DEFAULT_WEEK_STARTS_ON = 1;
+
+// Used when neither the profile nor the request has a time zone the runtime knows
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+export const isIsoDate = (value) =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(`${value}T00:00:00Z`));
+
+export const isTimeZone = (value) => {
+  if (typeof value !== 'string' || !value) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const zoneOrDefault = (timeZone) => (isTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE);
+
+// Wall-clock year, month, day, hour, minute and second of an instant in a time zone
+const zonedParts = (instant, timeZone) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(instant);
+  return Object.fromEntries(parts.map((part) => [part.type, part.value]));
+};
+
+// Milliseconds the zone's wall clock is ahead of UTC at an instant
+const zoneOffset = (instant, timeZone) => {
+  const parts = zonedParts(new Date(instant), timeZone);
+  const wallClock = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+  return wallClock - Math.floor(instant / 1000) * 1000;
+};
+
+// The user's date today
+export const todayIsoDate = (now = new Date(), timeZone = DEFAULT_TIME_ZONE) => {
+  const parts = zonedParts(now, zoneOrDefault(timeZone));
+  return `${parts.year}-${parts.month}-${parts.day}`;
+};
+
+// The instant a yyyy-mm-dd date and HH:MM time happen in a time zone. The
+// offset is looked up twice so times next to a daylight saving change land right.
+export const zonedTime = (isoDate, time, timeZone) => {
+  const zone = zoneOrDefault(timeZone);
+  const [year, month, day] = isoDate.split('-').map(Number);
+  const [hours, minutes] = String(time).split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours || 0, minutes || 0);
+  let instant = wallClock - zoneOffset(wallClock, zone);
+  instant = wallClock - zoneOffset(instant, zone);
+  return new Date(instant);
+};
+
+// Load the user's time zone. Profiles that have not saved one yet use the
+// zone the app sent with the request (its device's), and UTC without either.
+export const loadTimeZone = async (supabaseAdmin, userId, requestTimeZone = null) => {
+  const { data, error } = await supabaseAdmin
+    .from('user_profiles')
+    .select('time_zone')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) console.error('Error loading time zone:', error);
+  if (isTimeZone(data?.time_zone)) return data.time_zone;
+  if (isTimeZone(requestTimeZone)) return requestTimeZone;
+
+  console.warn(`No time zone for user ${userId}, using ${DEFAULT_TIME_ZONE}`);
+  return DEFAULT_TIME_ZONE;
+};
+
+export const addDays = (isoDate, days) => {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+// Whole days from one date to another; negative when the second is earlier
+export const daysBetween = (fromIsoDate, toIsoDate) =>
+  Math.round((Date.parse(`${toIsoDate}T00:00:00Z`) - Date.parse(`${fromIsoDate}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+
+export const weekdayOf = (isoDate) => new Date(`${isoDate}T00:00:00Z`).getUTCDay();
+
+// yyyy-mm-dd of a plan day, day 1 being the plan's start date
+export const planDayDate = (startDate, day) => addDays(startDate, day - 1);
+
+// First day of a new plan. "next_week" is the next day the user's week starts
+// on, which is today when the week starts today.
+export const planStartDate = (planStart, weekStartsOn, today = todayIsoDate()) => {
+  if (planStart === 'tomorrow') return addDays(today, 1);
+  if (planStart === 'next_week') return addDays(today, (weekStartsOn - weekdayOf(today) + 7) % 7);
+  return today;
+};
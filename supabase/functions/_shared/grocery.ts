@@ -0,0 +1,31 @@
+import { formatQuantity, normalizeIngredient } from './ingredients.ts';
+import { mealServings } from './leftovers.ts';
+
+// Grocery list rows for a set of meals, scaled to the portions cooked and to
+// the household's portions. Meals eaten as leftovers were shopped for with their batch.
+// Translated ingredients keep their English name in name_en, which prices them.
+export const buildGroceryRows = (meals, { userId, weekStartDate, mealPlanId = null, portions = 1 }) => {
+  const rows = [];
+  for (const meal of meals) {
+    const servings = mealServings(meal) * portions;
+    if (!servings) continue;
+    for (const ingredient of meal.ingredients ?? []) {
+      const normalized = normalizeIngredient(ingredient);
+      const { name, name_en, unit } = normalized;
+      const amount = normalized.amount === null ? null : Math.round(normalized.amount * servings * 1000) / 1000;
+      if (!name) continue;
+      rows.push({
+        user_id: userId,
+        meal_plan_id: mealPlanId,
+        week_start_date: weekStartDate,
+        item_name: name,
+        name_en,
+        quantity: formatQuantity(amount, unit),
+        amount,
+        unit,
+        is_purchased: false
+      });
+    }
+  }
+  return rows;
+};
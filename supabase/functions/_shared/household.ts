@@ -0,0 +1,83 @@
+// Household planning. The account holder eats one portion of every meal, sized
+// to their own nutrition targets; each household member eats their calorie need
+// relative to that. Meals have to suit everyone at the table, so diets,
+// allergies and foods to avoid are combined across the household.
+
+import { calculateNutritionTargets } from './nutrition.ts';
+
+// Portions are rounded to quarters, and nobody eats less than half a portion
+const PORTION_STEP = 0.25;
+const MIN_PORTIONS = 0.5;
+
+// Plant-based diets, strictest first; the strictest one anyone follows applies to everyone
+const PLANT_BASED_DIETS = ['vegan', 'vegetarian'];
+
+// Diets that only leave out one allergen group; they become allergies for everyone
+const DIET_ALLERGIES = { gluten_free: 'gluten', dairy_free: 'dairy' };
+
+const uniqueLower = (values) => Array.from(new Set(values.map((value) => String(value).toLowerCase().trim()).filter(Boolean)));
+
+// Load the user's household members. A failed load is an error rather than an
+// empty household, since a member's allergies would otherwise be left out.
+export const loadHouseholdMembers = async (supabaseAdmin, userId) => {
+  const { data, error } = await supabaseAdmin
+    .from('household_members')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error loading household members:', error);
+    throw new Error('Failed to load your household');
+  }
+  return data ?? [];
+};
+
+// Preferences that work for the whole household: the strictest plant-based diet
+// anyone follows and the union of everyone's allergies and foods to avoid
+export const combineHouseholdPreferences = (preferences, members) => {
+  if (!members.length) return preferences;
+
+  const diets = [preferences.diet_type, ...members.map((member) => member.diet_type)].filter(Boolean);
+  const plantBased = PLANT_BASED_DIETS.find((diet) => diets.includes(diet));
+  return {
+    ...preferences,
+    diet_type: plantBased ?? preferences.diet_type,
+    allergies: uniqueLower([
+      ...(preferences.allergies ?? []),
+      ...members.flatMap((member) => member.allergies ?? []),
+      ...diets.map((diet) => DIET_ALLERGIES[diet]).filter(Boolean)
+    ]),
+    foods_to_avoid: uniqueLower([
+      ...(preferences.foods_to_avoid ?? []),
+      ...members.flatMap((member) => member.foods_to_avoid ?? [])
+    ])
+  };
+};
+
+const roundPortions = (portions) =>
+  Math.max(MIN_PORTIONS, Math.round(portions / PORTION_STEP) * PORTION_STEP);
+
+// Who eats how much, saved as plan_data.household, or null without members.
+// A member's calorie_target wins over the target worked out from their profile.
+export const buildHousehold = (owner, members) => {
+  if (!members.length) return null;
+
+  const eaters = [
+    { name: owner.name || 'You', calories: owner.calories, portions: 1 },
+    ...members.map((member) => {
+      const calories = member.calorie_target ?? calculateNutritionTargets(member).calories;
+      return { name: member.name, calories, portions: roundPortions(calories / owner.calories) };
+    })
+  ];
+  return {
+    portions: eaters.reduce((sum, eater) => sum + eater.portions, 0),
+    members: eaters
+  };
+};
+
+// Portions of every serving a saved plan is cooked and shopped for
+export const planPortions = (planData) => {
+  const portions = Number(planData?.household?.portions);
+  return Number.isFinite(portions) && portions > 0 ? portions : 1;
+};
@@ -0,0 +1,35 @@
+// Structured ingredients: { name, amount, unit, preparation }.
+// amount and unit are null for things like "salt to taste"; unit is null or
+// 'piece' for countable items ("2 eggs").
+
+const formatAmount = (amount) => (Number.isInteger(amount) ? String(amount) : String(Math.round(amount * 100) / 100));
+
+// Accepts a structured ingredient or a legacy plain string from older plans
+export const normalizeIngredient = (ingredient) => {
+  if (typeof ingredient === 'string') {
+    return { name: ingredient.trim(), name_en: null, amount: null, unit: null, preparation: null };
+  }
+  const amount = Number(ingredient?.amount);
+  return {
+    name: String(ingredient?.name ?? '').trim(),
+    name_en: ingredient?.name_en ? String(ingredient.name_en).trim() : null,
+    amount: ingredient?.amount !== null && Number.isFinite(amount) && amount > 0 ? amount : null,
+    unit: ingredient?.unit ? String(ingredient.unit).trim() : null,
+    preparation: ingredient?.preparation ? String(ingredient.preparation).trim() : null
+  };
+};
+
+// e.g. "0.5 cup", "3" or null when there is no amount
+export const formatQuantity = (amount, unit) => {
+  if (amount === null || amount === undefined) return null;
+  if (!unit || unit === 'piece') return formatAmount(amount);
+  return `${formatAmount(amount)} ${unit}`;
+};
+
+// e.g. "1 cup rolled oats" or "2 clove garlic, minced"
+export const formatIngredient = (ingredient) => {
+  const { name, amount, unit, preparation } = normalizeIngredient(ingredient);
+  const quantity = formatQuantity(amount, unit);
+  const text = quantity ? `${quantity} ${name}` : name;
+  return preparation ? `${text}, ${preparation}` : text;
+};
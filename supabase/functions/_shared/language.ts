@@ -0,0 +1,152 @@
+// The user's language, from user_profiles.language. Plans are generated, checked
+// against the avoid rules and priced in English, then the finished meals are
+// translated in one pass. A meal that fails to translate stays in English.
+// Translated meals and their ingredients keep their English name in "name_en"
+// so the variety look-back and prices can still recognise them.
+
+import { z } from 'https://esm.sh/zod@3.23.8';
+import { isLeftovers } from './leftovers.ts';
+import { parseModelJson } from './meal-plan-schema.ts';
+import { renderPrompt } from './prompts.ts';
+
+export const LANGUAGES = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German'
+};
+
+export const DEFAULT_LANGUAGE = 'en';
+
+// Meals sent to the model per call
+const MEALS_PER_BATCH = 6;
+
+export const normalizeLanguage = (value) => (Object.hasOwn(LANGUAGES, value) ? value : DEFAULT_LANGUAGE);
+
+// The language on the user's profile, English when it cannot be read
+export const loadLanguage = async (supabaseAdmin, userId) => {
+  const { data, error } = await supabaseAdmin
+    .from('user_profiles')
+    .select('language')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading language, using English:', error);
+    return DEFAULT_LANGUAGE;
+  }
+  return normalizeLanguage(data?.language);
+};
+
+const translationSchema = z.object({
+  name: z.string().min(1),
+  recipe: z.string().min(1),
+  ingredients: z.array(z.object({
+    name: z.string().min(1),
+    preparation: z.string().nullable().optional()
+  })),
+  instructions: z.array(z.string().min(1)),
+  equipment: z.array(z.string().min(1)).default([]),
+  tips: z.array(z.string().min(1)).default([])
+});
+
+// Only the text of a meal goes to the model; amounts, units and macros stay as they are
+const textOf = (meal) => ({
+  name: meal.name,
+  recipe: meal.recipe,
+  ingredients: (meal.ingredients ?? []).map((ingredient) => ({ name: ingredient.name, preparation: ingredient.preparation ?? null })),
+  instructions: meal.instructions ?? [],
+  equipment: meal.equipment ?? [],
+  tips: meal.tips ?? []
+});
+
+// The meal with its translated text, or null when the translation does not line up with it
+const applyTranslation = (meal, candidate) => {
+  const parsed = translationSchema.safeParse(candidate);
+  if (!parsed.success) return null;
+
+  const text = parsed.data;
+  const original = textOf(meal);
+  const sameShape = ['ingredients', 'instructions', 'equipment', 'tips']
+    .every((key) => text[key].length === original[key].length);
+  if (!sameShape) return null;
+
+  return {
+    ...meal,
+    name: text.name,
+    name_en: meal.name_en ?? meal.name,
+    recipe: text.recipe,
+    ingredients: (meal.ingredients ?? []).map((ingredient, i) => ({
+      ...ingredient,
+      name: text.ingredients[i].name,
+      name_en: ingredient.name_en ?? ingredient.name,
+      preparation: ingredient.preparation ? text.ingredients[i].preparation ?? ingredient.preparation : ingredient.preparation
+    })),
+    instructions: text.instructions,
+    equipment: text.equipment,
+    tips: text.tips
+  };
+};
+
+// Translate a list of meals. Returns a new list in the same order; meals the
+// model failed to translate are returned unchanged.
+export const translateMeals = async (llm, prompt, meals, language) => {
+  if (!llm || normalizeLanguage(language) === DEFAULT_LANGUAGE) return meals;
+
+  const translated = [...meals];
+  for (let start = 0; start < meals.length; start += MEALS_PER_BATCH) {
+    const batch = meals.slice(start, start + MEALS_PER_BATCH);
+    try {
+      const content = await llm.complete(renderPrompt(prompt, {
+        language: LANGUAGES[language],
+        meals: JSON.stringify({ meals: batch.map(textOf) }, null, 2)
+      }));
+      const results = parseModelJson(content)?.meals;
+      batch.forEach((meal, i) => {
+        const result = Array.isArray(results) ? applyTranslation(meal, results[i]) : null;
+        if (result) translated[start + i] = result;
+        else console.error(`Meal "${meal.name}" was not translated into ${LANGUAGES[language]}`);
+      });
+    } catch (translateError) {
+      console.error(`Error translating meals into ${LANGUAGES[language]}:`, translateError);
+    }
+  }
+  return translated;
+};
+
+// Translate every cooked meal of a plan in place. Leftovers take the text of
+// the meal they come from and point at its translated name.
+export const translatePlanDays = async (llm, prompt, days, language) => {
+  const slots = [];
+  for (const [dayIndex, day] of days.entries()) {
+    day.meals.forEach((meal, mealIndex) => {
+      if (!isLeftovers(meal)) slots.push({ dayIndex, mealIndex, meal });
+    });
+  }
+
+  const translated = await translateMeals(llm, prompt, slots.map((slot) => slot.meal), language);
+  const bySource = new Map();
+  slots.forEach(({ dayIndex, mealIndex, meal }, i) => {
+    days[dayIndex].meals[mealIndex] = translated[i];
+    bySource.set(`${days[dayIndex].day}:${meal.name}`, translated[i]);
+  });
+
+  for (const day of days) {
+    day.meals = day.meals.map((meal) => {
+      const source = isLeftovers(meal) ? bySource.get(`${meal.leftovers_from.day}:${meal.leftovers_from.name}`) : null;
+      if (!source || source.name === meal.name) return meal;
+      return {
+        ...meal,
+        name: source.name,
+        name_en: source.name_en,
+        recipe: source.recipe,
+        ingredients: source.ingredients,
+        instructions: source.instructions,
+        equipment: source.equipment,
+        tips: source.tips,
+        leftovers_from: { ...meal.leftovers_from, name: source.name }
+      };
+    });
+  }
+  return days;
+};
@@ -0,0 +1,125 @@
+// Batch cooking in plan_data. A meal cooked in a batch has "servings" (portions
+// cooked, including the one eaten then); a later meal eaten from that batch has
+// "leftovers_from": { day, name } and repeats the cooked meal's details.
+// Ingredients are always for one serving; only cooked meals are shopped for.
+
+// Leftovers are eaten at most this many days after they were cooked
+export const MAX_LEFTOVER_AGE_DAYS = 2;
+
+// Portions cooked in one batch, including the meal itself
+export const MAX_BATCH_SERVINGS = 4;
+
+export const isLeftovers = (meal) => Boolean(meal?.leftovers_from);
+
+// Portions to cook and shop for: none for leftovers, otherwise at least one
+export const mealServings = (meal) => {
+  if (isLeftovers(meal)) return 0;
+  const servings = Number(meal?.servings);
+  return Number.isInteger(servings) && servings > 1 ? servings : 1;
+};
+
+// Cooked meal a leftovers reference points at, if it is still in the plan
+export const findBatchMeal = (days, source) => {
+  const day = days.find((d) => d.day === source?.day);
+  return day?.meals.find((meal) => !isLeftovers(meal) && meal.name === source.name) ?? null;
+};
+
+const leftoversOf = (meal, day, type) => ({
+  type,
+  name: meal.name,
+  recipe: meal.recipe,
+  ingredients: meal.ingredients,
+  macros: meal.macros,
+  instructions: meal.instructions,
+  equipment: meal.equipment,
+  tips: meal.tips,
+  leftovers_from: { day, name: meal.name }
+});
+
+// Check every leftovers reference in the plan and set the servings of each
+// cooked meal to match. References to a missing, later or too old meal, or to a
+// full batch, are dropped and the meal is kept as a regular one. Idempotent, so
+// it can run again as more days are added.
+export const linkLeftovers = (days) => {
+  const ordered = [...days].sort((a, b) => a.day - b.day);
+  for (const day of ordered) {
+    for (const meal of day.meals) {
+      if (!isLeftovers(meal)) meal.servings = 1;
+    }
+  }
+
+  for (const day of ordered) {
+    day.meals.forEach((meal, index) => {
+      if (!isLeftovers(meal)) return;
+      const source = meal.leftovers_from;
+      const batch = source.day < day.day && day.day - source.day <= MAX_LEFTOVER_AGE_DAYS
+        ? findBatchMeal(ordered, source)
+        : null;
+
+      if (!batch || batch.servings >= MAX_BATCH_SERVINGS) {
+        delete meal.leftovers_from;
+        meal.servings = 1;
+        return;
+      }
+      batch.servings += 1;
+      // Keep the details in step with the batch so nutrition totals stay right
+      day.meals[index] = leftoversOf(batch, source.day, meal.type);
+    });
+  }
+  return days;
+};
+
+// Recipe bank batch cooking: each day's lunch is the previous day's dinner
+export const planDinnerLeftovers = (days, earlierDays = []) => {
+  const all = [...earlierDays, ...days];
+  for (const day of days) {
+    const lunchIndex = day.meals.findIndex((meal) => meal.type === 'Lunch');
+    const previous = all.find((d) => d.day === day.day - 1);
+    const dinner = previous?.meals.find((meal) => meal.type === 'Dinner' && !isLeftovers(meal));
+    if (lunchIndex === -1 || !dinner) continue;
+    day.meals[lunchIndex] = leftoversOf(dinner, previous.day, 'Lunch');
+  }
+  return linkLeftovers(all);
+};
+
+// Cooked meals from earlier days that later days can still take leftovers from
+export const formatBatchOptions = (earlierDays, firstDay) =>
+  earlierDays
+    .filter((day) => firstDay - day.day <= MAX_LEFTOVER_AGE_DAYS)
+    .flatMap((day) => day.meals
+      .filter((meal) => !isLeftovers(meal) && mealServings(meal) < MAX_BATCH_SERVINGS)
+      .map((meal) => `day ${day.day} "${meal.name}"`))
+    .join(', ');
+
+// Put a new meal in a slot and keep batch links consistent: leftovers of the old
+// meal follow the new one, and swapping out leftovers cooks one portion fewer.
+// Returns the cooked meals whose grocery rows change, before and after.
+export const replaceMeal = (days, dayIndex, mealIndex, newMeal) => {
+  const day = days[dayIndex];
+  const oldMeal = day.meals[mealIndex];
+  const meal = { ...newMeal, servings: 1 };
+  delete meal.leftovers_from;
+  const before = [oldMeal];
+  const after = [meal];
+
+  if (isLeftovers(oldMeal)) {
+    const batch = findBatchMeal(days, oldMeal.leftovers_from);
+    if (batch) {
+      before.push({ ...batch });
+      batch.servings = Math.max(1, mealServings(batch) - 1);
+      after.push(batch);
+    }
+  } else {
+    for (const otherDay of days) {
+      otherDay.meals.forEach((other, index) => {
+        const source = other.leftovers_from;
+        if (source?.day !== day.day || source.name !== oldMeal.name) return;
+        meal.servings += 1;
+        otherDay.meals[index] = leftoversOf(meal, day.day, other.type);
+      });
+    }
+  }
+
+  day.meals[mealIndex] = meal;
+  return { before, after };
+};
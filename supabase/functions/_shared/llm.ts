@@ -0,0 +1,152 @@
+// LLM provider layer for meal plan generation, selected by env vars:
+//
+//   LLM_PROVIDER        openrouter | openai_compatible | mock
+//                       (defaults to openrouter when OPENROUTER_API_KEY is set)
+//   LLM_MODEL           model name passed to the provider
+//   LLM_TEMPERATURE     sampling temperature (default 0.7)
+//   LLM_MAX_TOKENS      completion token limit (default 6000)
+//   LLM_JSON_MODE       send response_format json_object (default true)
+//   LLM_BASE_URL        openai_compatible only, e.g. http://localhost:11434/v1
+//   LLM_API_KEY         openai_compatible only, optional for local servers
+//   LLM_MOCK_RESPONSES  mock only, JSON array of scripted replies
+//   LLM_MOCK_RESPONSES_FILE  mock only, path to a JSON file with the same array
+
+const OPENROUTER_URL = 'https://openrouter.ai/api/v1/chat/completions';
+const DEFAULT_OPENROUTER_MODEL = 'mistralai/mistral-7b-instruct';
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 6000;
+
+const readNumber = (value, fallback) => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const readBoolean = (value, fallback) => {
+  if (value === undefined || value === '') return fallback;
+  return !['false', '0', 'no', 'off'].includes(String(value).toLowerCase());
+};
+
+// Shared request for OpenRouter and any OpenAI-compatible chat completions endpoint
+const createChatCompletionsProvider = ({ name, url, apiKey, headers = {}, model, temperature, maxTokens, jsonMode }) => ({
+  name,
+  model,
+  temperature,
+  maxTokens,
+  complete: async (messages) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+        'Content-Type': 'application/json',
+        ...headers
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        ...(jsonMode ? { response_format: { type: "json_object" } } : {}),
+        temperature,
+        max_tokens: maxTokens
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`${name} API error: ${response.status} ${response.statusText}`);
+    }
+
+    const aiResponse = await response.json();
+    return aiResponse.choices?.[0]?.message?.content ?? '';
+  }
+});
+
+// Replays scripted replies in order and repeats the last one once the script runs out
+const createMockProvider = ({ responses, model }) => {
+  let callCount = 0;
+  return {
+    name: 'mock',
+    model,
+    temperature: 0,
+    maxTokens: 0,
+    complete: async () => {
+      const reply = responses[Math.min(callCount, responses.length - 1)];
+      callCount += 1;
+      return typeof reply === 'string' ? reply : JSON.stringify(reply);
+    }
+  };
+};
+
+const loadMockResponses = (env) => {
+  const inline = env.get('LLM_MOCK_RESPONSES');
+  const file = env.get('LLM_MOCK_RESPONSES_FILE');
+  const raw = inline || (file ? Deno.readTextFileSync(file) : null);
+  if (!raw) {
+    throw new Error('LLM_PROVIDER=mock requires LLM_MOCK_RESPONSES or LLM_MOCK_RESPONSES_FILE');
+  }
+  const responses = JSON.parse(raw);
+  if (!Array.isArray(responses) || responses.length === 0) {
+    throw new Error('Mock LLM responses must be a non-empty JSON array');
+  }
+  return responses;
+};
+
+// Returns the configured provider, or null when none is available
+export const createLlmProvider = (env = Deno.env) => {
+  const openRouterApiKey = env.get('OPENROUTER_API_KEY');
+  const providerName = env.get('LLM_PROVIDER') || (openRouterApiKey ? 'openrouter' : null);
+  if (!providerName) return null;
+
+  const temperature = readNumber(env.get('LLM_TEMPERATURE'), DEFAULT_TEMPERATURE);
+  const maxTokens = readNumber(env.get('LLM_MAX_TOKENS'), DEFAULT_MAX_TOKENS);
+  const jsonMode = readBoolean(env.get('LLM_JSON_MODE'), true);
+
+  switch (providerName) {
+    case 'openrouter':
+      if (!openRouterApiKey) {
+        console.error('LLM_PROVIDER=openrouter but OPENROUTER_API_KEY is not configured');
+        return null;
+      }
+      return createChatCompletionsProvider({
+        name: 'openrouter',
+        url: OPENROUTER_URL,
+        apiKey: openRouterApiKey,
+        headers: {
+          'HTTP-Referer': 'https://ai-nourish-hub.com',
+          'X-Title': 'AI Nourish Hub'
+        },
+        model: env.get('LLM_MODEL') || DEFAULT_OPENROUTER_MODEL,
+        temperature,
+        maxTokens,
+        jsonMode
+      });
+
+    case 'openai_compatible': {
+      const baseUrl = env.get('LLM_BASE_URL');
+      const model = env.get('LLM_MODEL');
+      if (!baseUrl || !model) {
+        console.error('LLM_PROVIDER=openai_compatible requires LLM_BASE_URL and LLM_MODEL');
+        return null;
+      }
+      return createChatCompletionsProvider({
+        name: 'openai_compatible',
+        url: `${baseUrl.replace(/\/+$/, '')}/chat/completions`,
+        apiKey: env.get('LLM_API_KEY'),
+        model,
+        temperature,
+        maxTokens,
+        jsonMode
+      });
+    }
+
+    case 'mock':
+      return createMockProvider({
+        responses: loadMockResponses(env),
+        model: env.get('LLM_MODEL') || 'scripted'
+      });
+
+    default:
+      console.error(`Unknown LLM_PROVIDER "${providerName}"`);
+      return null;
+  }
+};
+
+export const describeProvider = (llm) =>
+  llm ? { provider: llm.name, model: llm.model, temperature: llm.temperature, max_tokens: llm.maxTokens } : null;
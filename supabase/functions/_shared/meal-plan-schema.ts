@@ -0,0 +1,166 @@
+import { z } from 'https://esm.sh/zod@3.23.8';
+
+// Runtime schema for the plan_data the model is asked to return
+
+const macrosSchema = z.object({
+  calories: z.number().nonnegative(),
+  protein_g: z.number().nonnegative(),
+  carbs_g: z.number().nonnegative(),
+  fat_g: z.number().nonnegative()
+});
+
+// amount and unit are null for ingredients used "to taste"
+export const ingredientSchema = z.object({
+  name: z.string().min(1),
+  amount: z.number().positive().nullable(),
+  unit: z.string().min(1).nullable(),
+  preparation: z.string().nullable().optional()
+});
+
+export const mealSchema = z.object({
+  type: z.string().min(1),
+  name: z.string().min(1),
+  recipe: z.string().min(1),
+  ingredients: z.array(ingredientSchema).min(1),
+  macros: macrosSchema,
+  // Full recipe: numbered steps, what it needs and optional tips
+  instructions: z.array(z.string().min(1)).min(1),
+  equipment: z.array(z.string().min(1)).default([]),
+  tips: z.array(z.string().min(1)).default([]),
+  prep_minutes: z.number().int().nonnegative(),
+  cook_minutes: z.number().int().nonnegative(),
+  skill_level: z.enum(['beginner', 'intermediate', 'advanced']),
+  // Batch cooking, see leftovers.ts
+  servings: z.number().int().positive().optional(),
+  leftovers_from: z.object({
+    day: z.number().int().positive(),
+    name: z.string().min(1)
+  }).nullable().optional()
+});
+
+export const daySchema = z.object({
+  day: z.number().int().positive(),
+  date: z.string().optional(),
+  meals: z.array(mealSchema).min(1)
+});
+
+export const mealPlanSchema = z.object({
+  days: z.array(daySchema).min(1)
+});
+
+// Example meal objects shown to the model in prompts. A prompt version keeps
+// the example it was written with, so add a new example for new fields
+// instead of editing one a version already uses.
+export const MEAL_JSON_EXAMPLE_V1 = `{
+  "type": "Breakfast",
+  "name": "Meal Name",
+  "recipe": "Short recipe description",
+  "ingredients": [
+    { "name": "rolled oats", "amount": 0.5, "unit": "cup", "preparation": null },
+    { "name": "banana", "amount": 1, "unit": "piece", "preparation": "sliced" },
+    { "name": "cinnamon", "amount": null, "unit": null, "preparation": "to taste" }
+  ],
+  "macros": { "calories": 450, "protein_g": 30, "carbs_g": 45, "fat_g": 15 }
+}`;
+
+// Adds prep and cook minutes and skill level
+export const MEAL_JSON_EXAMPLE_V2 = `{
+  "type": "Breakfast",
+  "name": "Meal Name",
+  "recipe": "Short recipe description",
+  "ingredients": [
+    { "name": "rolled oats", "amount": 0.5, "unit": "cup", "preparation": null },
+    { "name": "banana", "amount": 1, "unit": "piece", "preparation": "sliced" },
+    { "name": "cinnamon", "amount": null, "unit": null, "preparation": "to taste" }
+  ],
+  "macros": { "calories": 450, "protein_g": 30, "carbs_g": 45, "fat_g": 15 },
+  "prep_minutes": 5,
+  "cook_minutes": 10,
+  "skill_level": "beginner"
+}`;
+
+// Adds the full recipe: steps, equipment and tips
+export const MEAL_JSON_EXAMPLE_V3 = `{
+  "type": "Breakfast",
+  "name": "Meal Name",
+  "recipe": "Short recipe description",
+  "ingredients": [
+    { "name": "rolled oats", "amount": 0.5, "unit": "cup", "preparation": null },
+    { "name": "banana", "amount": 1, "unit": "piece", "preparation": "sliced" },
+    { "name": "cinnamon", "amount": null, "unit": null, "preparation": "to taste" }
+  ],
+  "macros": { "calories": 450, "protein_g": 30, "carbs_g": 45, "fat_g": 15 },
+  "instructions": ["Bring 1 cup of water to a simmer.", "Stir in the oats and cook for 5 minutes.", "Top with the banana and cinnamon."],
+  "equipment": ["small pot"],
+  "tips": ["Add a splash more water if it gets too thick."],
+  "prep_minutes": 5,
+  "cook_minutes": 10,
+  "skill_level": "beginner"
+}`;
+
+// Prompt line that goes with the meal examples
+export const INGREDIENT_INSTRUCTIONS =
+  'Give every ingredient a numeric amount and a unit (g, ml, cup, tbsp, tsp or piece) for one serving. ' +
+  'Use null for both only for seasonings used to taste. Put cutting or cooking notes in "preparation", not in the name.';
+
+// Prompt line asking for a recipe people can cook from
+export const RECIPE_INSTRUCTIONS =
+  'Keep "recipe" to one short sentence. List every step needed to cook the meal in "instructions", one action per step, in order, ' +
+  'with temperatures and times where they matter. List the pots, pans and appliances needed in "equipment".';
+
+const formatIssuePath = (path) =>
+  path.reduce((acc, part) => (typeof part === 'number' ? `${acc}[${part}]` : acc ? `${acc}.${part}` : part), '');
+
+// Validate the shape and check it matches the requested day and meal counts.
+// firstDay lets a partial plan (a chunk of days) be checked on its own.
+export const validateMealPlan = (data, { totalDays, mealsPerDay, firstDay = 1 }) => {
+  const result = mealPlanSchema.safeParse(data);
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map((issue) => `${formatIssuePath(issue.path) || 'root'}: ${issue.message}`)
+    };
+  }
+
+  const errors = [];
+  const plan = result.data;
+
+  if (plan.days.length !== totalDays) {
+    errors.push(`days: expected ${totalDays} days, got ${plan.days.length}`);
+  }
+
+  plan.days.forEach((day, i) => {
+    if (day.day !== firstDay + i) {
+      errors.push(`days[${i}].day: expected ${firstDay + i}, got ${day.day}`);
+    }
+    if (day.meals.length !== mealsPerDay) {
+      errors.push(`days[${i}].meals: expected ${mealsPerDay} meals, got ${day.meals.length}`);
+    }
+  });
+
+  return errors.length ? { success: false, errors } : { success: true, data: plan, errors: [] };
+};
+
+// Pull a JSON object out of a model reply that may be wrapped in markdown or prose
+export const parseModelJson = (content) => {
+  if (typeof content !== 'string' || !content.trim()) {
+    throw new Error('Model returned an empty response');
+  }
+
+  const fenced = content.match(/```(?:json)?\s*\n([\s\S]*?)\n\s*```/);
+  if (fenced) return JSON.parse(fenced[1]);
+
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    const start = content.indexOf('{');
+    const end = content.lastIndexOf('}');
+    if (start === -1 || end <= start) throw error;
+    return JSON.parse(content.slice(start, end + 1));
+  }
+};
+
+export const buildRepairPrompt = (errors) =>
+  `Your previous response did not match the required meal plan structure. Fix these problems and return the complete corrected plan:\n` +
+  errors.slice(0, 20).map((error) => `- ${error}`).join('\n') +
+  `\n\nIMPORTANT: Return ONLY valid JSON, no other text or markdown.`;
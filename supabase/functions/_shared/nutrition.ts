@@ -0,0 +1,101 @@
+// Daily calorie and macro targets derived from user_profiles.
+// BMR uses Mifflin-St Jeor, TDEE applies an activity multiplier, and the
+// fitness goal shifts calories and protein from there.
+
+const ACTIVITY_MULTIPLIERS = {
+  sedentary: 1.2,
+  lightly_active: 1.375,
+  active: 1.55,
+  very_active: 1.725
+};
+
+const GOAL_CALORIE_ADJUSTMENT = {
+  weight_loss: -0.2,
+  maintain: 0,
+  muscle_gain: 0.1
+};
+
+// Protein in grams per kg of body weight
+const GOAL_PROTEIN_PER_KG = {
+  weight_loss: 2.0,
+  maintain: 1.6,
+  muscle_gain: 2.0
+};
+
+// Share of calories from fat
+const GOAL_FAT_RATIO = {
+  weight_loss: 0.3,
+  maintain: 0.3,
+  muscle_gain: 0.25
+};
+
+// Used when the profile is incomplete
+const DEFAULT_PROFILE = {
+  weight_kg: 70,
+  height_cm: 170,
+  age: 30,
+  activity_level: 'lightly_active',
+  fitness_goal: 'maintain'
+};
+
+const MIN_DAILY_CALORIES = 1200;
+
+export const calculateAge = (dateOfBirth, today = new Date()) => {
+  if (!dateOfBirth) return null;
+  const dob = new Date(dateOfBirth);
+  if (isNaN(dob.getTime())) return null;
+
+  let age = today.getFullYear() - dob.getFullYear();
+  const beforeBirthday =
+    today.getMonth() < dob.getMonth() ||
+    (today.getMonth() === dob.getMonth() && today.getDate() < dob.getDate());
+  if (beforeBirthday) age -= 1;
+  return age > 0 ? age : null;
+};
+
+export const calculateBmr = ({ weight_kg, height_cm, age, gender }) => {
+  const base = 10 * weight_kg + 6.25 * height_cm - 5 * age;
+  if (gender === 'male') return base + 5;
+  if (gender === 'female') return base - 161;
+  // Midpoint of the male and female constants
+  return base - 78;
+};
+
+export const calculateNutritionTargets = (profile) => {
+  const weightKg = Number(profile?.weight_kg) || DEFAULT_PROFILE.weight_kg;
+  const heightCm = Number(profile?.height_cm) || DEFAULT_PROFILE.height_cm;
+  const age = calculateAge(profile?.date_of_birth) ?? DEFAULT_PROFILE.age;
+  const activityLevel = ACTIVITY_MULTIPLIERS[profile?.activity_level]
+    ? profile.activity_level
+    : DEFAULT_PROFILE.activity_level;
+  const fitnessGoal = GOAL_CALORIE_ADJUSTMENT[profile?.fitness_goal] !== undefined
+    ? profile.fitness_goal
+    : DEFAULT_PROFILE.fitness_goal;
+
+  const bmr = calculateBmr({ weight_kg: weightKg, height_cm: heightCm, age, gender: profile?.gender });
+  const tdee = bmr * ACTIVITY_MULTIPLIERS[activityLevel];
+  const calories = Math.max(
+    MIN_DAILY_CALORIES,
+    Math.round(tdee * (1 + GOAL_CALORIE_ADJUSTMENT[fitnessGoal]))
+  );
+
+  const proteinG = Math.round(weightKg * GOAL_PROTEIN_PER_KG[fitnessGoal]);
+  const fatG = Math.round((calories * GOAL_FAT_RATIO[fitnessGoal]) / 9);
+  const carbsG = Math.max(0, Math.round((calories - proteinG * 4 - fatG * 9) / 4));
+
+  return {
+    calories,
+    protein_g: proteinG,
+    carbs_g: carbsG,
+    fat_g: fatG,
+    bmr: Math.round(bmr),
+    tdee: Math.round(tdee),
+    fitness_goal: fitnessGoal,
+    activity_level: activityLevel
+  };
+};
+
+export const formatTargetsForPrompt = (targets) =>
+  `Daily nutrition targets: about ${targets.calories} kcal, ${targets.protein_g}g protein, ` +
+  `${targets.carbs_g}g carbs, ${targets.fat_g}g fat (goal: ${targets.fitness_goal.replace('_', ' ')}). ` +
+  `Split these across the day's meals so each day's totals land within 10% of the targets.`;
@@ -0,0 +1,56 @@
+import { formatQuantity } from './ingredients.ts';
+import { todayIsoDate } from './dates.ts';
+
+// Pantry items offered to the model per generation, soonest expiry first
+const MAX_PROMPT_ITEMS = 30;
+
+// Lowercase, singular form used to match pantry items against ingredient names
+const matchKey = (name) =>
+  String(name ?? '')
+    .split(',')[0]
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word))
+    .join(' ');
+
+// Load the user's pantry with the service role client, leaving out expired items.
+// A failure only means generation runs without pantry hints.
+export const loadPantryItems = async (supabaseAdmin, userId, today = todayIsoDate()) => {
+  const { data, error } = await supabaseAdmin
+    .from('pantry_items')
+    .select('name, quantity, unit, expires_on')
+    .eq('user_id', userId)
+    .or(`expires_on.is.null,expires_on.gte.${today}`)
+    .order('expires_on', { ascending: true, nullsFirst: false });
+
+  if (error) {
+    console.error('Error loading pantry items, generating without them:', error);
+    return [];
+  }
+  return (data ?? []).filter((item) => item.name?.trim() && item.quantity !== 0);
+};
+
+// "spinach (200 g, use by 2025-08-20), rice (1 kg)"
+export const formatPantryForPrompt = (items) =>
+  items
+    .slice(0, MAX_PROMPT_ITEMS)
+    .map((item) => {
+      const details = [
+        formatQuantity(item.quantity === null ? null : Number(item.quantity), item.unit),
+        item.expires_on ? `use by ${item.expires_on}` : ''
+      ].filter(Boolean);
+      return details.length ? `${item.name.trim()} (${details.join(', ')})` : item.name.trim();
+    })
+    .join(', ');
+
+// How many of the ingredient names are covered by something in the pantry
+export const countPantryMatches = (ingredientNames, pantryItems) => {
+  const pantryKeys = pantryItems.map((item) => matchKey(item.name)).filter(Boolean);
+  if (!pantryKeys.length) return 0;
+  return ingredientNames.filter((name) => {
+    const key = matchKey(name);
+    return key && pantryKeys.some((pantryKey) => key === pantryKey || key.endsWith(` ${pantryKey}`) || pantryKey.endsWith(` ${key}`));
+  }).length;
+};
@@ -0,0 +1,97 @@
+import { z } from 'https://esm.sh/zod@3.23.8';
+import { normalizeCookingLimits } from './cooking.ts';
+import { daysBetween, DEFAULT_WEEK_STARTS_ON, isIsoDate, PLAN_STARTS, planStartDate, todayIsoDate, WEEKDAY_RANGE } from './dates.ts';
+
+// Same ranges as the CHECK constraints on diet_preferences
+export const MEALS_PER_DAY_RANGE = { min: 1, max: 6 };
+export const TOTAL_DAYS_RANGE = { min: 1, max: 14 };
+
+const DEFAULT_MEALS_PER_DAY = 3;
+const DEFAULT_TOTAL_DAYS = 7;
+
+// A plan may start yesterday, for users a day behind the server, up to four weeks ahead
+const START_DATE_RANGE = { min: -1, max: 28 };
+
+// The only fields a request may override for a single generation
+const overridesSchema = z.object({
+  total_days: z.number().int().min(TOTAL_DAYS_RANGE.min).max(TOTAL_DAYS_RANGE.max).optional(),
+  meals_per_day: z.number().int().min(MEALS_PER_DAY_RANGE.min).max(MEALS_PER_DAY_RANGE.max).optional(),
+  include_snacks: z.boolean().optional(),
+  preferred_cuisines: z.array(z.string().min(1).max(40)).max(10).optional(),
+  start_date: z.string().refine(isIsoDate, 'Expected a yyyy-mm-dd date').optional()
+}).strict();
+
+const clamp = (value, { min, max }, fallback) => {
+  const parsed = Number(value);
+  if (value === null || value === undefined || !Number.isInteger(parsed)) return fallback;
+  return Math.min(max, Math.max(min, parsed));
+};
+
+const positiveNumber = (value) => {
+  const parsed = Number(value);
+  return value !== null && value !== undefined && Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const stringList = (value) => (Array.isArray(value) ? value.filter((item) => typeof item === 'string' && item.trim()) : []);
+
+const badRequest = (message) => {
+  const error = new Error(message);
+  error.status = 400;
+  return error;
+};
+
+// Load the user's stored preferences with the service role client
+export const loadDietPreferences = async (supabaseAdmin, userId) => {
+  const { data, error } = await supabaseAdmin
+    .from('diet_preferences')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading diet preferences:', error);
+    throw new Error('Failed to load your preferences');
+  }
+  return data;
+};
+
+// Stored preferences with defaults and ranges applied, plus any validated overrides.
+// start_date is day 1 of the plan, from the overrides or the stored plan_start.
+// Throws a 400 error for a missing profile or invalid overrides.
+export const resolvePreferences = (stored, overrides = {}, today = todayIsoDate()) => {
+  if (!stored?.diet_type) {
+    throw badRequest('No preferences found. Please complete your profile first.');
+  }
+
+  const parsed = overridesSchema.safeParse(overrides ?? {});
+  if (!parsed.success) {
+    const details = parsed.error.issues.map((issue) => `${issue.path.join('.') || 'overrides'}: ${issue.message}`);
+    throw badRequest(`Invalid overrides: ${details.join('; ')}`);
+  }
+
+  const weekStartsOn = clamp(stored.week_starts_on, WEEKDAY_RANGE, DEFAULT_WEEK_STARTS_ON);
+  const startDate = parsed.data.start_date
+    ?? planStartDate(PLAN_STARTS.includes(stored.plan_start) ? stored.plan_start : 'today', weekStartsOn, today);
+  const startOffset = daysBetween(today, startDate);
+  if (startOffset < START_DATE_RANGE.min || startOffset > START_DATE_RANGE.max) {
+    throw badRequest(`Invalid overrides: start_date must be within ${START_DATE_RANGE.max} days of today`);
+  }
+
+  return {
+    diet_type: stored.diet_type,
+    allergies: stringList(stored.allergies),
+    foods_to_avoid: stringList(stored.foods_to_avoid),
+    preferred_cuisines: stringList(stored.preferred_cuisines),
+    meals_per_day: clamp(stored.meals_per_day, MEALS_PER_DAY_RANGE, DEFAULT_MEALS_PER_DAY),
+    total_days: clamp(stored.total_days, TOTAL_DAYS_RANGE, DEFAULT_TOTAL_DAYS),
+    include_snacks: Boolean(stored.include_snacks),
+    batch_cooking: Boolean(stored.batch_cooking),
+    cooking_limits: normalizeCookingLimits(stored.cooking_limits),
+    weekend_long_recipes: Boolean(stored.weekend_long_recipes),
+    weekly_budget: positiveNumber(stored.weekly_budget),
+    currency: /^[A-Z]{3}$/.test(stored.currency ?? '') ? stored.currency : 'USD',
+    week_starts_on: weekStartsOn,
+    ...parsed.data,
+    start_date: startDate
+  };
+};
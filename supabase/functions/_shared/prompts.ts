@@ -0,0 +1,465 @@
+// Named, versioned prompt templates. Every saved meal plan records the version
+// that produced it, so prompt changes can be compared against real usage.
+//
+// Templates use {{variable}} placeholders; rendering fails on a missing variable
+// instead of sending the model a prompt with a hole in it. Add a new version
+// rather than editing one that has already been used for saved plans.
+//
+//   PROMPT_VERSIONS   optional JSON map from template name to a version, or to
+//                     version weights to run several side by side, e.g.
+//                     {"meal-plan-days": {"v7": 80, "v8": 20}}
+//                     Templates not listed use their default version.
+//
+// Versions marked retired ask for fewer fields than the meal schema now
+// requires (recipe steps, cooking times), so everything they return would fail
+// validation. They stay for the record of the plans they produced but are
+// never selected.
+
+import {
+  INGREDIENT_INSTRUCTIONS,
+  MEAL_JSON_EXAMPLE_V1,
+  MEAL_JSON_EXAMPLE_V2,
+  MEAL_JSON_EXAMPLE_V3,
+  RECIPE_INSTRUCTIONS
+} from './meal-plan-schema.ts';
+
+const JSON_SYSTEM_PROMPT = 'You are a helpful assistant that generates meal plans in valid JSON format.';
+
+const JSON_ONLY = 'IMPORTANT: Return ONLY valid JSON, no other text or markdown.';
+
+// Variables every template can use without the caller passing them
+const SHARED_VARIABLES = {
+  ingredientInstructions: INGREDIENT_INSTRUCTIONS,
+  recipeInstructions: RECIPE_INSTRUCTIONS,
+  mealJsonExampleV1: MEAL_JSON_EXAMPLE_V1,
+  mealJsonExampleV2: MEAL_JSON_EXAMPLE_V2,
+  mealJsonExampleV3: MEAL_JSON_EXAMPLE_V3,
+  jsonOnly: JSON_ONLY
+};
+
+export const PROMPT_TEMPLATES = {
+  // One chunk of days of a new plan
+  'meal-plan-days': {
+    defaultVersion: 'v7',
+    versions: {
+      v1: {
+        retired: true,
+        system: JSON_SYSTEM_PROMPT,
+        user: `Create {{dayRange}} of a {{totalDays}}-day {{dietType}} meal plan with {{mealsPerDay}} meals per day.
+Avoid: {{avoid}}.
+Preferred cuisines: {{cuisines}}.
+Include snacks: {{includeSnacks}}.
+{{nutritionTargets}}
+{{ingredientInstructions}}
+{{repeatRule}}
+
+Output as valid JSON with this exact structure, numbering days from {{firstDay}}:
+{
+  "days": [{
+    "day": {{firstDay}},
+    "date": "2024-01-01",
+    "meals": [{{mealJsonExampleV1}}]
+  }]
+}
+
+{{jsonOnly}}`
+      },
+      // v2: adds the user's pantry items
+      v2: {
+        retired: true,
+        system: JSON_SYSTEM_PROMPT,
+        user: `Create {{dayRange}} of a {{totalDays}}-day {{dietType}} meal plan with {{mealsPerDay}} meals per day.
+Avoid: {{avoid}}.
+Preferred cuisines: {{cuisines}}.
+Include snacks: {{includeSnacks}}.
+{{nutritionTargets}}
+{{ingredientInstructions}}
+{{repeatRule}}
+{{pantry}}
+
+Output as valid JSON with this exact structure, numbering days from {{firstDay}}:
+{
+  "days": [{
+    "day": {{firstDay}},
+    "date": "2024-01-01",
+    "meals": [{{mealJsonExampleV1}}]
+  }]
+}
+
+{{jsonOnly}}`
+      },
+      // v3: adds the grocery budget
+      v3: {
+        retired: true,
+        system: JSON_SYSTEM_PROMPT,
+        user: `Create {{dayRange}} of a {{totalDays}}-day {{dietType}} meal plan with {{mealsPerDay}} meals per day.
+Avoid: {{avoid}}.
+Preferred cuisines: {{cuisines}}.
+Include snacks: {{includeSnacks}}.
+{{nutritionTargets}}
+{{ingredientInstructions}}
+{{repeatRule}}
+{{pantry}}
+{{budget}}
+
+Output as valid JSON with this exact structure, numbering days from {{firstDay}}:
+{
+  "days": [{
+    "day": {{firstDay}},
+    "date": "2024-01-01",
+    "meals": [{{mealJsonExampleV1}}]
+  }]
+}
+
+{{jsonOnly}}`
+      },
+      // v4: adds batch cooking with leftovers
+      v4: {
+        retired: true,
+        system: JSON_SYSTEM_PROMPT,
+        user: `Create {{dayRange}} of a {{totalDays}}-day {{dietType}} meal plan with {{mealsPerDay}} meals per day.
+Avoid: {{avoid}}.
+Preferred cuisines: {{cuisines}}.
+Include snacks: {{includeSnacks}}.
+{{nutritionTargets}}
+{{ingredientInstructions}}
+{{repeatRule}}
+{{pantry}}
+{{budget}}
+{{leftovers}}
+
+Output as valid JSON with this exact structure, numbering days from {{firstDay}}:
+{
+  "days": [{
+    "day": {{firstDay}},
+    "date": "2024-01-01",
+    "meals": [{{mealJsonExampleV1}}]
+  }]
+}
+
+{{jsonOnly}}`
+      },
+      // v5: adds recent and disliked dishes and protein rotation
+      v5: {
+        retired: true,
+        system: JSON_SYSTEM_PROMPT,
+        user: `Create {{dayRange}} of a {{totalDays}}-day {{dietType}} meal plan with {{mealsPerDay}} meals per day.
+Avoid: {{avoid}}.
+Preferred cuisines: {{cuisines}}.
+Include snacks: {{includeSnacks}}.
+{{nutritionTargets}}
+{{ingredientInstructions}}
+{{repeatRule}}
+{{variety}}
+{{pantry}}
+{{budget}}
+{{leftovers}}
+
+Output as valid JSON with this exact structure, numbering days from {{firstDay}}:
+{
+  "days": [{
+    "day": {{firstDay}},
+    "date": "2024-01-01",
+    "meals": [{{mealJsonExampleV1}}]
+  }]
+}
+
+{{jsonOnly}}`
+      },
+      // v6: adds cooking time and skill limits
+      v6: {
+        retired: true,
+        system: JSON_SYSTEM_PROMPT,
+        user: `Create {{dayRange}} of a {{totalDays}}-day {{dietType}} meal plan with {{mealsPerDay}} meals per day.
+Avoid: {{avoid}}.
+Preferred cuisines: {{cuisines}}.
+Include snacks: {{includeSnacks}}.
+{{nutritionTargets}}
+{{ingredientInstructions}}
+{{repeatRule}}
+{{variety}}
+{{cookingLimits}}
+{{pantry}}
+{{budget}}
+{{leftovers}}
+
+Output as valid JSON with this exact structure, numbering days from {{firstDay}}:
+{
+  "days": [{
+    "day": {{firstDay}},
+    "date": "2024-01-01",
+    "meals": [{{mealJsonExampleV2}}]
+  }]
+}
+
+{{jsonOnly}}`
+      },
+      // v7: asks for full recipes with steps and equipment
+      v7: {
+        system: JSON_SYSTEM_PROMPT,
+        user: `Create {{dayRange}} of a {{totalDays}}-day {{dietType}} meal plan with {{mealsPerDay}} meals per day.
+Avoid: {{avoid}}.
+Preferred cuisines: {{cuisines}}.
+Include snacks: {{includeSnacks}}.
+{{nutritionTargets}}
+{{ingredientInstructions}}
+{{recipeInstructions}}
+{{repeatRule}}
+{{variety}}
+{{cookingLimits}}
+{{pantry}}
+{{budget}}
+{{leftovers}}
+
+Output as valid JSON with this exact structure, numbering days from {{firstDay}}:
+{
+  "days": [{
+    "day": {{firstDay}},
+    "date": "2024-01-01",
+    "meals": [{{mealJsonExampleV3}}]
+  }]
+}
+
+{{jsonOnly}}`
+      }
+    }
+  },
+
+  // Replacements for generated meals that break the allergy or avoid lists
+  'meal-replacements': {
+    defaultVersion: 'v2',
+    versions: {
+      v1: {
+        retired: true,
+        system: JSON_SYSTEM_PROMPT,
+        user: `These meals break the user's dietary restrictions:
+{{slots}}
+
+Create one replacement meal for each slot, keeping the same meal type and similar calories.
+The replacements must not contain any of: {{avoid}}.
+{{nutritionTargets}}
+{{ingredientInstructions}}
+
+Output as valid JSON with this exact structure:
+{
+  "meals": [{
+    "day": 1,
+    "index": 0,
+    "meal": {{mealJsonExampleV1}}
+  }]
+}
+
+{{jsonOnly}}`
+      },
+      // v2: asks for full recipes with steps and equipment
+      v2: {
+        system: JSON_SYSTEM_PROMPT,
+        user: `These meals break the user's dietary restrictions:
+{{slots}}
+
+Create one replacement meal for each slot, keeping the same meal type and similar calories.
+The replacements must not contain any of: {{avoid}}.
+{{nutritionTargets}}
+{{ingredientInstructions}}
+{{recipeInstructions}}
+
+Output as valid JSON with this exact structure:
+{
+  "meals": [{
+    "day": 1,
+    "index": 0,
+    "meal": {{mealJsonExampleV3}}
+  }]
+}
+
+{{jsonOnly}}`
+      }
+    }
+  },
+
+  // A single meal the user asked to swap out
+  'swap-meal': {
+    defaultVersion: 'v3',
+    versions: {
+      v1: {
+        retired: true,
+        system: JSON_SYSTEM_PROMPT,
+        user: `Suggest one {{dietType}} {{mealType}} to replace "{{mealName}}".
+Avoid: {{avoid}}.
+Preferred cuisines: {{cuisines}}.
+It must be different from every meal already in this week's plan: {{weekMealNames}}.
+Aim for about {{targetCalories}} kcal.
+{{nutritionTargets}}
+{{ingredientInstructions}}
+
+Output as valid JSON with this exact structure:
+{
+  "meal": {{mealJsonExampleV1}}
+}
+
+{{jsonOnly}}`
+      },
+      // v2: adds the slot's cooking time and skill limit
+      v2: {
+        retired: true,
+        system: JSON_SYSTEM_PROMPT,
+        user: `Suggest one {{dietType}} {{mealType}} to replace "{{mealName}}".
+Avoid: {{avoid}}.
+Preferred cuisines: {{cuisines}}.
+It must be different from every meal already in this week's plan: {{weekMealNames}}.
+Aim for about {{targetCalories}} kcal.
+{{cookingLimit}}
+{{nutritionTargets}}
+{{ingredientInstructions}}
+
+Output as valid JSON with this exact structure:
+{
+  "meal": {{mealJsonExampleV2}}
+}
+
+{{jsonOnly}}`
+      },
+      // v3: asks for a full recipe with steps and equipment
+      v3: {
+        system: JSON_SYSTEM_PROMPT,
+        user: `Suggest one {{dietType}} {{mealType}} to replace "{{mealName}}".
+Avoid: {{avoid}}.
+Preferred cuisines: {{cuisines}}.
+It must be different from every meal already in this week's plan: {{weekMealNames}}.
+Aim for about {{targetCalories}} kcal.
+{{cookingLimit}}
+{{nutritionTargets}}
+{{ingredientInstructions}}
+{{recipeInstructions}}
+
+Output as valid JSON with this exact structure:
+{
+  "meal": {{mealJsonExampleV3}}
+}
+
+{{jsonOnly}}`
+      }
+    }
+  },
+
+  // Meals of a finished plan, translated into the user's language
+  'translate-meals': {
+    defaultVersion: 'v1',
+    versions: {
+      v1: {
+        system: 'You are a helpful assistant that translates recipes and returns valid JSON.',
+        user: `Translate these meals into {{language}}.
+Translate every string value, keeping the same order and the same number of items in every list.
+Use the names cooks in {{language}}-speaking countries would use for dishes and ingredients. Keep quantities and units as they are.
+
+{{meals}}
+
+Output as valid JSON with this exact structure, one entry per meal in the same order:
+{
+  "meals": [
+    {
+      "name": "...",
+      "recipe": "...",
+      "ingredients": [{ "name": "...", "preparation": "..." }],
+      "instructions": ["..."],
+      "equipment": ["..."],
+      "tips": ["..."]
+    }
+  ]
+}
+
+{{jsonOnly}}`
+      }
+    }
+  }
+};
+
+// Stable number in [0, 1) for a seed string (FNV-1a), so one job keeps the
+// same version across chunks and retries
+const seedFraction = (seed) => {
+  let hash = 0x811c9dc5;
+  for (const char of String(seed)) {
+    hash ^= char.codePointAt(0);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash / 0x100000000;
+};
+
+const readVersionConfig = (env) => {
+  const raw = env.get('PROMPT_VERSIONS');
+  if (!raw) return {};
+  try {
+    const config = JSON.parse(raw);
+    return config && typeof config === 'object' && !Array.isArray(config) ? config : {};
+  } catch (parseError) {
+    console.error('PROMPT_VERSIONS is not valid JSON, using default prompt versions:', parseError);
+    return {};
+  }
+};
+
+const isSelectable = (versions, version) => Boolean(versions[version]) && !versions[version].retired;
+
+// Pick a version from {"v1": 80, "v2": 20}, ignoring unknown and retired
+// versions and non-positive weights
+const pickWeighted = (weights, versions, seed) => {
+  const entries = Object.entries(weights).filter(
+    ([version, weight]) => isSelectable(versions, version) && Number(weight) > 0
+  );
+  if (!entries.length) return null;
+
+  const total = entries.reduce((sum, [, weight]) => sum + Number(weight), 0);
+  let point = (seed === undefined || seed === null ? Math.random() : seedFraction(seed)) * total;
+  for (const [version, weight] of entries) {
+    point -= Number(weight);
+    if (point < 0) return version;
+  }
+  return entries[entries.length - 1][0];
+};
+
+// Choose the version of a template to use, honouring PROMPT_VERSIONS
+export const selectPrompt = (name, { seed = null, env = Deno.env } = {}) => {
+  const template = PROMPT_TEMPLATES[name];
+  if (!template) {
+    throw new Error(`Unknown prompt template "${name}"`);
+  }
+
+  const configured = readVersionConfig(env)[name];
+  let version = template.defaultVersion;
+  const configuredVersions = typeof configured === 'string'
+    ? [configured]
+    : configured && typeof configured === 'object' ? Object.keys(configured) : [];
+  for (const retired of configuredVersions.filter((entry) => template.versions[entry]?.retired)) {
+    console.error(`Version "${retired}" of prompt "${name}" is retired and will not be used`);
+  }
+
+  if (typeof configured === 'string') {
+    if (isSelectable(template.versions, configured)) version = configured;
+    else if (!template.versions[configured]) console.error(`Unknown version "${configured}" for prompt "${name}", using ${version}`);
+  } else if (configured && typeof configured === 'object') {
+    version = pickWeighted(configured, template.versions, seed) ?? version;
+  }
+
+  return { name, version, ...template.versions[version] };
+};
+
+// "name@version", the form stored on meal plans
+export const promptId = (prompt) => `${prompt.name}@${prompt.version}`;
+
+const renderTemplate = (text, variables, id) =>
+  text.replace(/\{\{(\w+)\}\}/g, (_match, key) => {
+    const value = variables[key];
+    if (value === undefined || value === null) {
+      throw new Error(`Prompt ${id} is missing variable "${key}"`);
+    }
+    return String(value);
+  });
+
+// Chat messages for a selected prompt with its variables filled in
+export const renderPrompt = (prompt, variables) => {
+  const values = { ...SHARED_VARIABLES, ...variables };
+  const id = promptId(prompt);
+  return [
+    { role: 'system', content: renderTemplate(prompt.system, values, id) },
+    { role: 'user', content: renderTemplate(prompt.user, values, id) }
+  ];
+};
@@ -0,0 +1,674 @@
+import { findMealViolations } from './allergens.ts';
+import { countPantryMatches } from './pantry.ts';
+import { EMPTY_VARIETY_HISTORY, primaryProtein } from './variety.ts';
+import { cookingLimitFor, fitsCookingLimit } from './cooking.ts';
+import { planDayDate, todayIsoDate } from './dates.ts';
+
+// Curated offline recipes used when the LLM is unavailable or a meal has to be
+// substituted. Ingredients are [amount, unit, name]; allergens use the same keys
+// as UserProfileForm's allergyOptions. Times are in minutes for one serving.
+// instructions are the recipe's steps in order; tips are optional.
+
+export const RECIPE_BANK = [
+  // Breakfast
+  {
+    id: 'overnight-oats-berries', name: 'Berry Overnight Oats', cuisine: 'american', meal_types: ['breakfast'],
+    vegetarian: true, vegan: true, allergens: ['gluten'],
+    prep_minutes: 5, cook_minutes: 0, skill_level: 'beginner',
+    ingredients: [[0.5, 'cup', 'rolled oats'], [0.75, 'cup', 'oat milk'], [1, 'tbsp', 'chia seeds'], [0.5, 'cup', 'mixed berries'], [1, 'tsp', 'maple syrup']],
+    recipe: 'Stir oats, oat milk and chia seeds together, refrigerate overnight, then top with berries and maple syrup.',
+    instructions: ['Stir the oats, oat milk and chia seeds together in a jar.', 'Cover and refrigerate overnight, or for at least 4 hours.', 'Stir, then top with the berries and maple syrup.'],
+    equipment: ['jar with lid'],
+    tips: ['Keeps for up to 3 days in the fridge; add the berries just before eating.'],
+    macros: { calories: 360, protein_g: 11, carbs_g: 58, fat_g: 9 }
+  },
+  {
+    id: 'greek-yogurt-parfait', name: 'Greek Yogurt Parfait', cuisine: 'mediterranean', meal_types: ['breakfast', 'snack'],
+    vegetarian: true, vegan: false, allergens: ['dairy', 'nuts'],
+    prep_minutes: 5, cook_minutes: 0, skill_level: 'beginner',
+    ingredients: [[1, 'cup', 'greek yogurt'], [0.25, 'cup', 'walnuts'], [1, 'tbsp', 'honey'], [0.5, 'cup', 'strawberries']],
+    recipe: 'Layer yogurt with sliced strawberries, chopped walnuts and a drizzle of honey.',
+    instructions: ['Slice the strawberries and roughly chop the walnuts.', 'Spoon half the yogurt into a glass and add half the strawberries and walnuts.', 'Repeat the layers and drizzle with honey.'],
+    equipment: ['knife', 'cutting board', 'glass or bowl'],
+    macros: { calories: 380, protein_g: 24, carbs_g: 30, fat_g: 19 }
+  },
+  {
+    id: 'veggie-omelette', name: 'Spinach and Tomato Omelette', cuisine: 'american', meal_types: ['breakfast'],
+    vegetarian: true, vegan: false, allergens: ['eggs'],
+    prep_minutes: 5, cook_minutes: 10, skill_level: 'beginner',
+    ingredients: [[3, 'piece', 'eggs'], [1, 'cup', 'spinach'], [1, 'piece', 'tomato'], [1, 'tsp', 'olive oil'], [null, null, 'salt and pepper']],
+    recipe: 'Whisk the eggs, cook in olive oil over medium heat, add spinach and diced tomato, fold and serve.',
+    instructions: ['Dice the tomato and whisk the eggs with salt and pepper.', 'Heat the olive oil in a non-stick pan over medium heat.', 'Pour in the eggs and cook until the edges set, about 2 minutes.', 'Scatter the spinach and tomato over one half.', 'Fold the omelette over and cook 1 more minute until set.'],
+    equipment: ['non-stick pan', 'whisk', 'spatula'],
+    tips: ['Keep the heat at medium so the eggs stay tender.'],
+    macros: { calories: 290, protein_g: 20, carbs_g: 6, fat_g: 20 }
+  },
+  {
+    id: 'tofu-scramble', name: 'Turmeric Tofu Scramble', cuisine: 'american', meal_types: ['breakfast'],
+    vegetarian: true, vegan: true, allergens: ['soy'],
+    prep_minutes: 10, cook_minutes: 10, skill_level: 'beginner',
+    ingredients: [[200, 'g', 'firm tofu'], [0.5, 'piece', 'onion'], [1, 'piece', 'bell pepper'], [0.5, 'tsp', 'turmeric'], [1, 'tbsp', 'olive oil']],
+    recipe: 'Crumble tofu into a pan with sautéed onion and pepper, season with turmeric and cook until golden.',
+    instructions: ['Dice the onion and bell pepper.', 'Heat the olive oil in a pan and sauté the onion and pepper for 4 minutes.', 'Crumble the tofu into the pan and stir in the turmeric.', 'Cook, stirring, for 5 minutes until golden and heated through.'],
+    equipment: ['frying pan', 'spatula'],
+    tips: ['Press the tofu between paper towels first for a firmer scramble.'],
+    macros: { calories: 320, protein_g: 22, carbs_g: 12, fat_g: 21 }
+  },
+  {
+    id: 'poha', name: 'Vegetable Poha', cuisine: 'indian', meal_types: ['breakfast'],
+    vegetarian: true, vegan: true, allergens: [],
+    prep_minutes: 10, cook_minutes: 15, skill_level: 'intermediate',
+    ingredients: [[1.5, 'cup', 'flattened rice'], [1, 'piece', 'onion'], [0.5, 'cup', 'green peas'], [1, 'tsp', 'mustard seeds'], [0.5, 'tsp', 'turmeric'], [1, 'tbsp', 'sunflower oil'], [2, 'tbsp', 'fresh coriander']],
+    recipe: 'Rinse the flattened rice, temper mustard seeds in oil, add onion, peas and turmeric, then fold in the rice and garnish with coriander.',
+    instructions: ['Rinse the flattened rice in a sieve until soft, then drain.', 'Chop the onion.', 'Heat the oil and fry the mustard seeds until they pop.', 'Add the onion, peas and turmeric and cook for 5 minutes.', 'Fold in the rice, season with salt and cook 2 more minutes.', 'Garnish with coriander.'],
+    equipment: ['sieve', 'frying pan'],
+    tips: ['Rinse the rice briefly; soaking it makes it mushy.'],
+    macros: { calories: 340, protein_g: 8, carbs_g: 58, fat_g: 8 }
+  },
+  {
+    id: 'besan-chilla', name: 'Besan Chilla with Mint Chutney', cuisine: 'indian', meal_types: ['breakfast', 'lunch'],
+    vegetarian: true, vegan: true, allergens: [],
+    prep_minutes: 10, cook_minutes: 15, skill_level: 'intermediate',
+    ingredients: [[1, 'cup', 'chickpea flour'], [1, 'piece', 'tomato'], [0.5, 'piece', 'onion'], [0.25, 'cup', 'fresh mint'], [1, 'tbsp', 'sunflower oil']],
+    recipe: 'Whisk chickpea flour with water, chopped onion and tomato into a batter, cook thin pancakes on a hot pan and serve with blended mint chutney.',
+    instructions: ['Finely chop the onion and tomato.', 'Whisk the chickpea flour with about 0.75 cup water into a smooth batter and stir in the onion and tomato.', 'Blend the mint with a splash of water and salt for the chutney.', 'Heat a little oil in a pan and spread a ladle of batter thinly.', 'Cook 2 minutes per side until golden; repeat with the rest.', 'Serve with the mint chutney.'],
+    equipment: ['mixing bowl', 'whisk', 'non-stick pan', 'blender'],
+    macros: { calories: 380, protein_g: 18, carbs_g: 48, fat_g: 12 }
+  },
+  {
+    id: 'congee', name: 'Ginger Rice Congee', cuisine: 'asian', meal_types: ['breakfast'],
+    vegetarian: true, vegan: true, allergens: [],
+    prep_minutes: 5, cook_minutes: 45, skill_level: 'beginner',
+    ingredients: [[0.5, 'cup', 'jasmine rice'], [4, 'cup', 'vegetable broth'], [1, 'tbsp', 'fresh ginger'], [2, 'piece', 'spring onions'], [1, 'tsp', 'sesame oil']],
+    recipe: 'Simmer rice in broth with ginger for 45 minutes until creamy, then top with spring onions and sesame oil.',
+    instructions: ['Rinse the rice and grate the ginger.', 'Bring the rice, broth and ginger to a boil in a pot.', 'Simmer on low for 45 minutes, stirring now and then, until creamy.', 'Slice the spring onions and scatter over with the sesame oil.'],
+    equipment: ['large pot', 'grater'],
+    tips: ['Add more broth if it gets too thick.'],
+    macros: { calories: 300, protein_g: 7, carbs_g: 58, fat_g: 5 }
+  },
+  {
+    id: 'huevos-rancheros', name: 'Huevos Rancheros', cuisine: 'mexican', meal_types: ['breakfast'],
+    vegetarian: true, vegan: false, allergens: ['eggs'],
+    prep_minutes: 10, cook_minutes: 15, skill_level: 'intermediate',
+    ingredients: [[2, 'piece', 'corn tortillas'], [2, 'piece', 'eggs'], [0.5, 'cup', 'black beans'], [0.5, 'cup', 'tomato salsa'], [0.5, 'piece', 'avocado']],
+    recipe: 'Warm the tortillas, top with warmed black beans, fried eggs, salsa and sliced avocado.',
+    instructions: ['Warm the black beans in a small pot.', 'Warm the tortillas in a dry pan.', 'Fry the eggs in the same pan until the whites are set.', 'Top the tortillas with the beans, eggs and salsa.', 'Finish with the sliced avocado.'],
+    equipment: ['frying pan', 'small pot'],
+    macros: { calories: 480, protein_g: 22, carbs_g: 46, fat_g: 23 }
+  },
+  {
+    id: 'avocado-toast', name: 'Avocado Toast with Seeds', cuisine: 'american', meal_types: ['breakfast'],
+    vegetarian: true, vegan: true, allergens: ['gluten'],
+    prep_minutes: 5, cook_minutes: 5, skill_level: 'beginner',
+    ingredients: [[2, 'slice', 'wholegrain bread'], [1, 'piece', 'avocado'], [1, 'tbsp', 'pumpkin seeds'], [0.5, 'piece', 'lemon'], [null, null, 'chili flakes']],
+    recipe: 'Toast the bread, spread with mashed avocado and lemon juice, and finish with pumpkin seeds and chili flakes.',
+    instructions: ['Toast the bread.', 'Mash the avocado with the lemon juice and a pinch of salt.', 'Spread the avocado on the toast.', 'Top with pumpkin seeds and chili flakes.'],
+    equipment: ['toaster', 'fork'],
+    macros: { calories: 420, protein_g: 12, carbs_g: 40, fat_g: 25 }
+  },
+  {
+    id: 'ricotta-toast', name: 'Ricotta and Tomato Bruschetta', cuisine: 'italian', meal_types: ['breakfast'],
+    vegetarian: true, vegan: false, allergens: ['gluten', 'dairy'],
+    prep_minutes: 10, cook_minutes: 5, skill_level: 'beginner',
+    ingredients: [[2, 'slice', 'sourdough bread'], [0.5, 'cup', 'ricotta'], [1, 'cup', 'cherry tomatoes'], [4, 'piece', 'basil leaves'], [1, 'tsp', 'olive oil']],
+    recipe: 'Toast the sourdough, spread with ricotta, top with halved cherry tomatoes, torn basil and olive oil.',
+    instructions: ['Toast the sourdough.', 'Halve the cherry tomatoes and tear the basil.', 'Spread the ricotta on the toast.', 'Top with the tomatoes and basil and drizzle with olive oil.'],
+    equipment: ['toaster', 'knife'],
+    macros: { calories: 400, protein_g: 18, carbs_g: 44, fat_g: 16 }
+  },
+  {
+    id: 'quinoa-porridge', name: 'Cinnamon Apple Quinoa Porridge', cuisine: 'mixed', meal_types: ['breakfast'],
+    vegetarian: true, vegan: true, allergens: [],
+    prep_minutes: 5, cook_minutes: 20, skill_level: 'beginner',
+    ingredients: [[0.5, 'cup', 'quinoa'], [1, 'cup', 'oat milk'], [1, 'piece', 'apple'], [0.5, 'tsp', 'cinnamon'], [1, 'tbsp', 'pumpkin seeds']],
+    recipe: 'Simmer quinoa in oat milk with cinnamon for 15 minutes, then stir in diced apple and top with pumpkin seeds.',
+    instructions: ['Rinse the quinoa.', 'Simmer it in the oat milk with the cinnamon for 15 minutes, stirring often.', 'Dice the apple and stir it in.', 'Top with the pumpkin seeds.'],
+    equipment: ['small pot', 'sieve'],
+    macros: { calories: 370, protein_g: 12, carbs_g: 62, fat_g: 9 }
+  },
+  {
+    id: 'shakshuka', name: 'Shakshuka', cuisine: 'mediterranean', meal_types: ['breakfast', 'lunch'],
+    vegetarian: true, vegan: false, allergens: ['eggs'],
+    prep_minutes: 10, cook_minutes: 20, skill_level: 'intermediate',
+    ingredients: [[1, 'can', 'chopped tomatoes'], [1, 'piece', 'red bell pepper'], [1, 'piece', 'onion'], [3, 'piece', 'eggs'], [1, 'tsp', 'cumin'], [1, 'tbsp', 'olive oil']],
+    recipe: 'Soften onion and pepper in olive oil, add tomatoes and cumin, simmer, then crack in the eggs and cook covered until set.',
+    instructions: ['Slice the onion and pepper.', 'Soften them in olive oil in a deep pan for 6 minutes.', 'Add the tomatoes and cumin and simmer for 10 minutes.', 'Make wells in the sauce and crack in the eggs.', 'Cover and cook for 6 to 8 minutes until the whites are set.'],
+    equipment: ['deep frying pan with lid'],
+    tips: ['Serve with bread to mop up the sauce.'],
+    macros: { calories: 350, protein_g: 20, carbs_g: 22, fat_g: 20 }
+  },
+
+  // Lunch
+  {
+    id: 'chickpea-salad', name: 'Mediterranean Chickpea Salad', cuisine: 'mediterranean', meal_types: ['lunch'],
+    vegetarian: true, vegan: true, allergens: ['citrus'],
+    prep_minutes: 15, cook_minutes: 0, skill_level: 'beginner',
+    ingredients: [[1, 'can', 'chickpeas'], [1, 'piece', 'cucumber'], [1, 'cup', 'cherry tomatoes'], [0.25, 'piece', 'red onion'], [2, 'tbsp', 'olive oil'], [1, 'piece', 'lemon'], [2, 'tbsp', 'fresh parsley']],
+    recipe: 'Toss chickpeas with diced cucumber, tomatoes and red onion, then dress with olive oil, lemon juice and parsley.',
+    instructions: ['Drain and rinse the chickpeas.', 'Dice the cucumber, tomatoes and red onion and chop the parsley.', 'Whisk the olive oil and lemon juice with salt and pepper.', 'Toss everything together with the dressing.'],
+    equipment: ['mixing bowl', 'knife', 'cutting board'],
+    tips: ['Keeps well for lunch the next day.'],
+    macros: { calories: 450, protein_g: 16, carbs_g: 50, fat_g: 20 }
+  },
+  {
+    id: 'lentil-soup', name: 'Red Lentil Soup', cuisine: 'mediterranean', meal_types: ['lunch', 'dinner'],
+    vegetarian: true, vegan: true, allergens: [],
+    prep_minutes: 10, cook_minutes: 30, skill_level: 'beginner',
+    ingredients: [[1, 'cup', 'red lentils'], [1, 'piece', 'carrot'], [1, 'piece', 'onion'], [2, 'clove', 'garlic'], [1, 'tsp', 'cumin'], [4, 'cup', 'vegetable broth'], [1, 'tbsp', 'olive oil']],
+    recipe: 'Sauté onion, carrot and garlic, add lentils, cumin and broth, simmer for 25 minutes and blend until smooth.',
+    instructions: ['Chop the onion and carrot and mince the garlic.', 'Sauté them in a pot for 5 minutes.', 'Add the rinsed lentils, cumin and broth and bring to a boil.', 'Simmer for 25 minutes until the lentils are soft.', 'Blend until smooth and season to taste.'],
+    equipment: ['large pot', 'blender'],
+    tips: ['Freezes well for up to 3 months.'],
+    macros: { calories: 420, protein_g: 24, carbs_g: 62, fat_g: 8 }
+  },
+  {
+    id: 'quinoa-buddha-bowl', name: 'Quinoa Buddha Bowl', cuisine: 'mixed', meal_types: ['lunch', 'dinner'],
+    vegetarian: true, vegan: true, allergens: [],
+    prep_minutes: 15, cook_minutes: 25, skill_level: 'beginner',
+    ingredients: [[0.75, 'cup', 'quinoa'], [1, 'cup', 'sweet potato'], [1, 'cup', 'kale'], [0.5, 'cup', 'chickpeas'], [2, 'tbsp', 'tahini'], [1, 'tbsp', 'olive oil']],
+    recipe: 'Roast cubed sweet potato and chickpeas, serve over cooked quinoa and massaged kale with a tahini drizzle.',
+    instructions: ['Heat the oven to 200°C.', 'Cube the sweet potato, toss with the drained chickpeas and a little oil and roast for 25 minutes.', 'Meanwhile, cook the quinoa in twice its volume of water for 15 minutes.', 'Massage the kale with a pinch of salt until soft.', 'Assemble the bowl and drizzle with tahini thinned with water.'],
+    equipment: ['oven', 'baking tray', 'small pot'],
+    macros: { calories: 560, protein_g: 20, carbs_g: 72, fat_g: 22 }
+  },
+  {
+    id: 'caprese-pasta-salad', name: 'Caprese Pasta Salad', cuisine: 'italian', meal_types: ['lunch'],
+    vegetarian: true, vegan: false, allergens: ['gluten', 'dairy'],
+    prep_minutes: 10, cook_minutes: 12, skill_level: 'beginner',
+    ingredients: [[1.5, 'cup', 'fusilli pasta'], [125, 'g', 'mozzarella'], [1, 'cup', 'cherry tomatoes'], [8, 'piece', 'basil leaves'], [1, 'tbsp', 'olive oil'], [1, 'tbsp', 'balsamic vinegar']],
+    recipe: 'Cook and cool the pasta, toss with mozzarella, halved tomatoes, basil, olive oil and balsamic.',
+    instructions: ['Cook the pasta in salted water until al dente, then rinse under cold water.', 'Halve the tomatoes, cube the mozzarella and tear the basil.', 'Toss everything with the olive oil and balsamic.'],
+    equipment: ['large pot', 'colander', 'mixing bowl'],
+    macros: { calories: 540, protein_g: 24, carbs_g: 60, fat_g: 22 }
+  },
+  {
+    id: 'minestrone', name: 'Hearty Minestrone', cuisine: 'italian', meal_types: ['lunch', 'dinner'],
+    vegetarian: true, vegan: true, allergens: ['gluten'],
+    prep_minutes: 20, cook_minutes: 40, skill_level: 'beginner',
+    ingredients: [[1, 'piece', 'onion'], [1, 'piece', 'carrot'], [1, 'piece', 'zucchini'], [1, 'can', 'cannellini beans'], [1, 'can', 'chopped tomatoes'], [0.5, 'cup', 'small pasta'], [4, 'cup', 'vegetable broth']],
+    recipe: 'Soften the vegetables, add tomatoes, beans and broth, simmer 20 minutes, then add pasta and cook until tender.',
+    instructions: ['Dice the vegetables.', 'Soften them in a little oil in a large pot for 5 minutes.', 'Add the tomatoes, beans and broth and simmer for 20 minutes.', 'Add the pasta and cook until tender, about 10 minutes.', 'Season to taste.'],
+    equipment: ['large pot'],
+    tips: ['Cook the pasta separately if you plan to keep leftovers.'],
+    macros: { calories: 430, protein_g: 18, carbs_g: 72, fat_g: 6 }
+  },
+  {
+    id: 'dal-rice', name: 'Dal Tadka with Rice', cuisine: 'indian', meal_types: ['lunch', 'dinner'],
+    vegetarian: true, vegan: true, allergens: [],
+    prep_minutes: 15, cook_minutes: 35, skill_level: 'intermediate',
+    ingredients: [[0.75, 'cup', 'yellow lentils'], [0.75, 'cup', 'basmati rice'], [1, 'piece', 'tomato'], [1, 'piece', 'onion'], [1, 'tsp', 'cumin seeds'], [0.5, 'tsp', 'turmeric'], [1, 'tbsp', 'sunflower oil']],
+    recipe: 'Pressure-cook lentils with turmeric, temper cumin, onion and tomato in oil, stir into the dal and serve with steamed rice.',
+    instructions: ['Rinse the lentils and cook them with turmeric and water until soft, about 20 minutes or 3 whistles in a pressure cooker.', 'Cook the rice.', 'Chop the onion and tomato.', 'Heat the oil, fry the cumin seeds, then add the onion and tomato and cook for 5 minutes.', 'Stir the tempering into the dal and serve with the rice.'],
+    equipment: ['pressure cooker or pot', 'small frying pan', 'rice pot'],
+    macros: { calories: 560, protein_g: 24, carbs_g: 96, fat_g: 9 }
+  },
+  {
+    id: 'rajma-chawal', name: 'Rajma Chawal', cuisine: 'indian', meal_types: ['lunch', 'dinner'],
+    vegetarian: true, vegan: true, allergens: [],
+    prep_minutes: 15, cook_minutes: 45, skill_level: 'intermediate',
+    ingredients: [[1, 'can', 'kidney beans'], [0.75, 'cup', 'basmati rice'], [1, 'piece', 'onion'], [2, 'piece', 'tomatoes'], [1, 'tbsp', 'ginger garlic paste'], [1, 'tsp', 'garam masala'], [1, 'tbsp', 'sunflower oil']],
+    recipe: 'Cook onion, ginger-garlic and tomatoes into a masala, add kidney beans and garam masala, simmer and serve over rice.',
+    instructions: ['Chop the onion and tomatoes and crush the ginger and garlic.', 'Cook the onion until golden, then add the ginger-garlic and tomatoes and cook into a thick masala.', 'Add the drained kidney beans, garam masala and a cup of water.', 'Simmer for 15 minutes, mashing a few beans to thicken.', 'Serve over steamed rice.'],
+    equipment: ['deep pan', 'rice pot'],
+    macros: { calories: 590, protein_g: 22, carbs_g: 102, fat_g: 9 }
+  },
+  {
+    id: 'veggie-burrito-bowl', name: 'Veggie Burrito Bowl', cuisine: 'mexican', meal_types: ['lunch', 'dinner'],
+    vegetarian: true, vegan: true, allergens: ['citrus'],
+    prep_minutes: 15, cook_minutes: 20, skill_level: 'beginner',
+    ingredients: [[0.75, 'cup', 'brown rice'], [1, 'can', 'black beans'], [1, 'cup', 'sweetcorn'], [0.5, 'cup', 'tomato salsa'], [0.5, 'piece', 'avocado'], [1, 'piece', 'lime']],
+    recipe: 'Layer brown rice, warmed black beans and corn, then top with salsa, sliced avocado and a squeeze of lime.',
+    instructions: ['Cook the brown rice.', 'Warm the black beans and corn together in a small pot.', 'Slice the avocado.', 'Layer the rice, beans and corn in a bowl.', 'Top with salsa and avocado and squeeze over the lime.'],
+    equipment: ['rice pot', 'small pot'],
+    macros: { calories: 610, protein_g: 21, carbs_g: 100, fat_g: 14 }
+  },
+  {
+    id: 'chicken-tortilla-soup', name: 'Chicken Tortilla Soup', cuisine: 'mexican', meal_types: ['lunch', 'dinner'],
+    vegetarian: false, vegan: false, allergens: [],
+    prep_minutes: 15, cook_minutes: 30, skill_level: 'intermediate',
+    ingredients: [[250, 'g', 'chicken breast'], [1, 'can', 'chopped tomatoes'], [1, 'cup', 'black beans'], [1, 'piece', 'onion'], [1, 'tsp', 'chili powder'], [2, 'piece', 'corn tortillas'], [4, 'cup', 'chicken broth']],
+    recipe: 'Simmer chicken in broth with onion, tomatoes, beans and chili, shred the chicken and serve topped with baked tortilla strips.',
+    instructions: ['Heat the oven to 200°C and bake the tortilla strips for 8 minutes until crisp.', 'Chop the onion.', 'Simmer the chicken in the broth with the onion, tomatoes, beans and chili for 20 minutes.', 'Lift out the chicken, shred it with two forks and return it to the pot.', 'Serve topped with the tortilla strips.'],
+    equipment: ['large pot', 'oven', 'baking tray'],
+    macros: { calories: 480, protein_g: 42, carbs_g: 44, fat_g: 12 }
+  },
+  {
+    id: 'soba-salad', name: 'Cold Buckwheat Soba Salad', cuisine: 'asian', meal_types: ['lunch'],
+    vegetarian: true, vegan: true, allergens: ['soy'],
+    prep_minutes: 15, cook_minutes: 8, skill_level: 'beginner',
+    ingredients: [[100, 'g', 'buckwheat soba noodles'], [1, 'piece', 'cucumber'], [1, 'piece', 'carrot'], [0.5, 'cup', 'edamame'], [1, 'tbsp', 'tamari'], [1, 'tsp', 'sesame oil']],
+    recipe: 'Cook and chill the soba, toss with julienned cucumber and carrot, edamame, tamari and sesame oil.',
+    instructions: ['Cook the soba for 4 minutes, then rinse under cold water.', 'Julienne the cucumber and carrot.', 'Toss the noodles with the vegetables, edamame, tamari and sesame oil.'],
+    equipment: ['pot', 'colander', 'knife'],
+    macros: { calories: 470, protein_g: 20, carbs_g: 72, fat_g: 11 }
+  },
+  {
+    id: 'turkey-club-wrap', name: 'Turkey and Avocado Wrap', cuisine: 'american', meal_types: ['lunch'],
+    vegetarian: false, vegan: false, allergens: ['gluten'],
+    prep_minutes: 10, cook_minutes: 0, skill_level: 'beginner',
+    ingredients: [[1, 'piece', 'wholewheat tortilla'], [100, 'g', 'sliced turkey breast'], [0.5, 'piece', 'avocado'], [1, 'cup', 'lettuce'], [1, 'piece', 'tomato']],
+    recipe: 'Fill the tortilla with turkey, sliced avocado, lettuce and tomato, roll tightly and slice in half.',
+    instructions: ['Slice the avocado and tomato.', 'Lay the turkey, avocado, lettuce and tomato on the tortilla.', 'Roll it up tightly and slice in half.'],
+    equipment: ['knife', 'cutting board'],
+    macros: { calories: 450, protein_g: 32, carbs_g: 38, fat_g: 18 }
+  },
+  {
+    id: 'tuna-nicoise', name: 'Tuna Niçoise Salad', cuisine: 'mediterranean', meal_types: ['lunch'],
+    vegetarian: false, vegan: false, allergens: ['eggs'],
+    prep_minutes: 15, cook_minutes: 12, skill_level: 'beginner',
+    ingredients: [[1, 'can', 'tuna in olive oil'], [200, 'g', 'new potatoes'], [1, 'cup', 'green beans'], [2, 'piece', 'eggs'], [8, 'piece', 'black olives'], [1, 'tbsp', 'red wine vinegar']],
+    recipe: 'Boil the potatoes, green beans and eggs, then arrange with tuna and olives and dress with vinegar and oil from the tuna.',
+    instructions: ['Boil the potatoes for 15 minutes, adding the green beans for the last 4.', 'Boil the eggs for 8 minutes, then cool and quarter them.', 'Arrange the potatoes, beans, eggs, tuna and olives on a plate.', 'Dress with the vinegar and oil from the tuna.'],
+    equipment: ['pot', 'knife'],
+    macros: { calories: 520, protein_g: 38, carbs_g: 34, fat_g: 24 }
+  },
+
+  // Dinner
+  {
+    id: 'chana-masala', name: 'Chana Masala with Brown Rice', cuisine: 'indian', meal_types: ['dinner'],
+    vegetarian: true, vegan: true, allergens: [],
+    prep_minutes: 15, cook_minutes: 35, skill_level: 'intermediate',
+    ingredients: [[1, 'can', 'chickpeas'], [0.75, 'cup', 'brown rice'], [1, 'piece', 'onion'], [2, 'piece', 'tomatoes'], [1, 'tbsp', 'ginger garlic paste'], [1, 'tsp', 'garam masala'], [1, 'tbsp', 'sunflower oil']],
+    recipe: 'Cook onion, ginger-garlic and tomatoes with garam masala, add chickpeas and simmer 15 minutes, then serve with brown rice.',
+    instructions: ['Cook the brown rice.', 'Chop the onion and tomatoes and crush the ginger and garlic.', 'Cook the onion until golden, add the ginger-garlic, tomatoes and garam masala.', 'Add the drained chickpeas and a splash of water and simmer for 15 minutes.', 'Serve with the rice.'],
+    equipment: ['deep pan', 'rice pot'],
+    tips: ['Tastes even better the next day.'],
+    macros: { calories: 600, protein_g: 21, carbs_g: 98, fat_g: 13 }
+  },
+  {
+    id: 'palak-paneer', name: 'Palak Paneer with Jeera Rice', cuisine: 'indian', meal_types: ['dinner'],
+    vegetarian: true, vegan: false, allergens: ['dairy'],
+    prep_minutes: 20, cook_minutes: 30, skill_level: 'intermediate',
+    ingredients: [[200, 'g', 'paneer'], [4, 'cup', 'spinach'], [1, 'piece', 'onion'], [0.75, 'cup', 'basmati rice'], [1, 'tsp', 'cumin seeds'], [1, 'tbsp', 'ghee']],
+    recipe: 'Blanch and purée spinach, cook with sautéed onion and spices, add cubed paneer and serve with cumin rice.',
+    instructions: ['Blanch the spinach for 1 minute, cool it in cold water and purée.', 'Cook the cumin rice.', 'Sauté the chopped onion with the spices until soft.', 'Stir in the spinach purée and simmer for 5 minutes.', 'Add the cubed paneer and heat through.', 'Serve with the rice.'],
+    equipment: ['pot', 'blender', 'frying pan', 'rice pot'],
+    macros: { calories: 650, protein_g: 30, carbs_g: 70, fat_g: 28 }
+  },
+  {
+    id: 'chicken-tikka-tray', name: 'Tandoori Chicken Tray Bake', cuisine: 'indian', meal_types: ['dinner'],
+    vegetarian: false, vegan: false, allergens: ['dairy'],
+    prep_minutes: 15, cook_minutes: 35, skill_level: 'intermediate',
+    ingredients: [[300, 'g', 'chicken thighs'], [0.5, 'cup', 'plain yogurt'], [1, 'tbsp', 'tandoori masala'], [1, 'piece', 'red onion'], [1, 'piece', 'cauliflower'], [1, 'tbsp', 'sunflower oil']],
+    recipe: 'Marinate chicken in yogurt and tandoori masala, roast with cauliflower and onion wedges at 220°C for 30 minutes.',
+    instructions: ['Mix the yogurt and tandoori masala and coat the chicken; marinate for at least 30 minutes.', 'Heat the oven to 220°C.', 'Cut the cauliflower into florets and the onion into wedges.', 'Spread everything on a tray and roast for 30 minutes until the chicken is cooked through.'],
+    equipment: ['oven', 'baking tray', 'mixing bowl'],
+    tips: ['Marinate overnight for the most flavour.'],
+    macros: { calories: 560, protein_g: 48, carbs_g: 24, fat_g: 30 }
+  },
+  {
+    id: 'baked-salmon', name: 'Herb Baked Salmon with Roasted Vegetables', cuisine: 'mediterranean', meal_types: ['dinner'],
+    vegetarian: false, vegan: false, allergens: [],
+    prep_minutes: 15, cook_minutes: 25, skill_level: 'beginner',
+    ingredients: [[200, 'g', 'salmon fillet'], [1, 'piece', 'zucchini'], [1, 'piece', 'red bell pepper'], [200, 'g', 'baby potatoes'], [1, 'tbsp', 'olive oil'], [1, 'tsp', 'dried oregano']],
+    recipe: 'Roast potatoes and vegetables with olive oil and oregano for 20 minutes, add the salmon and bake 12 more minutes.',
+    instructions: ['Heat the oven to 200°C.', 'Halve the potatoes and chop the zucchini and pepper.', 'Toss them with the olive oil and oregano and roast for 20 minutes.', 'Add the salmon to the tray and bake 12 more minutes until it flakes.'],
+    equipment: ['oven', 'baking tray'],
+    macros: { calories: 580, protein_g: 40, carbs_g: 38, fat_g: 28 }
+  },
+  {
+    id: 'stuffed-peppers', name: 'Quinoa Stuffed Peppers', cuisine: 'mediterranean', meal_types: ['dinner'],
+    vegetarian: true, vegan: true, allergens: [],
+    prep_minutes: 20, cook_minutes: 35, skill_level: 'intermediate',
+    ingredients: [[2, 'piece', 'bell peppers'], [0.5, 'cup', 'quinoa'], [0.5, 'can', 'chickpeas'], [1, 'cup', 'chopped tomatoes'], [1, 'tsp', 'smoked paprika'], [1, 'tbsp', 'olive oil']],
+    recipe: 'Fill halved peppers with cooked quinoa, chickpeas, tomatoes and paprika, then bake covered for 30 minutes.',
+    instructions: ['Heat the oven to 190°C and cook the quinoa.', 'Halve the peppers and remove the seeds.', 'Mix the quinoa with the chickpeas, tomatoes, paprika and olive oil.', 'Fill the peppers and bake covered for 30 minutes.'],
+    equipment: ['oven', 'baking dish', 'small pot'],
+    macros: { calories: 500, protein_g: 18, carbs_g: 76, fat_g: 14 }
+  },
+  {
+    id: 'pasta-primavera', name: 'Pasta Primavera', cuisine: 'italian', meal_types: ['dinner'],
+    vegetarian: true, vegan: true, allergens: ['gluten'],
+    prep_minutes: 15, cook_minutes: 15, skill_level: 'beginner',
+    ingredients: [[100, 'g', 'penne pasta'], [1, 'piece', 'zucchini'], [1, 'cup', 'broccoli'], [1, 'cup', 'cherry tomatoes'], [2, 'clove', 'garlic'], [1, 'tbsp', 'olive oil']],
+    recipe: 'Cook the penne, sauté garlic and vegetables in olive oil until tender, then toss everything together.',
+    instructions: ['Cook the penne in salted water.', 'Slice the zucchini, cut the broccoli into florets and halve the tomatoes.', 'Sauté the garlic and vegetables in the olive oil for 6 minutes.', 'Drain the pasta and toss it with the vegetables.'],
+    equipment: ['large pot', 'frying pan', 'colander'],
+    tips: ['Save a splash of pasta water to loosen the sauce.'],
+    macros: { calories: 540, protein_g: 18, carbs_g: 88, fat_g: 14 }
+  },
+  {
+    id: 'chicken-cacciatore', name: 'Chicken Cacciatore with Polenta', cuisine: 'italian', meal_types: ['dinner'],
+    vegetarian: false, vegan: false, allergens: [],
+    prep_minutes: 20, cook_minutes: 45, skill_level: 'advanced',
+    ingredients: [[300, 'g', 'chicken thighs'], [1, 'can', 'chopped tomatoes'], [1, 'piece', 'bell pepper'], [1, 'cup', 'mushrooms'], [0.5, 'cup', 'polenta'], [1, 'tbsp', 'olive oil']],
+    recipe: 'Brown the chicken, add pepper, mushrooms and tomatoes and simmer 30 minutes, then serve over soft polenta.',
+    instructions: ['Brown the chicken thighs in the olive oil in a deep pan and set aside.', 'Slice the pepper and mushrooms and cook them in the same pan for 5 minutes.', 'Add the tomatoes and return the chicken.', 'Simmer covered for 30 minutes.', 'Meanwhile whisk the polenta into 2 cups of simmering water and cook for 10 minutes, stirring.', 'Serve the chicken over the polenta.'],
+    equipment: ['deep pan with lid', 'pot', 'whisk'],
+    macros: { calories: 620, protein_g: 46, carbs_g: 50, fat_g: 24 }
+  },
+  {
+    id: 'risotto-mushroom', name: 'Mushroom Risotto', cuisine: 'italian', meal_types: ['dinner'],
+    vegetarian: true, vegan: false, allergens: ['dairy'],
+    prep_minutes: 15, cook_minutes: 35, skill_level: 'advanced',
+    ingredients: [[0.75, 'cup', 'arborio rice'], [2, 'cup', 'mushrooms'], [1, 'piece', 'onion'], [4, 'cup', 'vegetable broth'], [30, 'g', 'parmesan'], [1, 'tbsp', 'butter']],
+    recipe: 'Toast rice with onion, add broth a ladle at a time while stirring, fold in sautéed mushrooms, butter and parmesan.',
+    instructions: ['Keep the broth warm in a small pot.', 'Sauté the sliced mushrooms in half the butter and set aside.', 'Soften the chopped onion, then add the rice and toast for 1 minute.', 'Add the broth a ladle at a time, stirring, until the rice is creamy, about 20 minutes.', 'Stir in the mushrooms, the rest of the butter and the parmesan.'],
+    equipment: ['wide pan', 'small pot', 'ladle'],
+    tips: ['Stir often; it is what makes the risotto creamy.'],
+    macros: { calories: 590, protein_g: 18, carbs_g: 90, fat_g: 16 }
+  },
+  {
+    id: 'veggie-stir-fry', name: 'Vegetable Tofu Stir-Fry', cuisine: 'asian', meal_types: ['dinner'],
+    vegetarian: true, vegan: true, allergens: ['soy'],
+    prep_minutes: 15, cook_minutes: 10, skill_level: 'beginner',
+    ingredients: [[200, 'g', 'firm tofu'], [1, 'cup', 'broccoli'], [1, 'piece', 'red bell pepper'], [1, 'cup', 'snap peas'], [2, 'tbsp', 'tamari'], [1, 'tbsp', 'fresh ginger'], [0.75, 'cup', 'jasmine rice']],
+    recipe: 'Crisp the tofu in a hot wok, stir-fry the vegetables with ginger, toss with tamari and serve over rice.',
+    instructions: ['Cook the rice.', 'Cube the tofu and crisp it in a hot wok with a little oil, then set aside.', 'Stir-fry the broccoli, pepper, snap peas and ginger for 4 minutes.', 'Return the tofu, add the tamari and toss.', 'Serve over the rice.'],
+    equipment: ['wok', 'rice pot'],
+    macros: { calories: 580, protein_g: 28, carbs_g: 78, fat_g: 16 }
+  },
+  {
+    id: 'thai-green-curry', name: 'Thai Green Vegetable Curry', cuisine: 'asian', meal_types: ['dinner'],
+    vegetarian: true, vegan: true, allergens: [],
+    prep_minutes: 15, cook_minutes: 25, skill_level: 'intermediate',
+    ingredients: [[1, 'can', 'coconut milk'], [2, 'tbsp', 'vegan green curry paste'], [1, 'piece', 'eggplant'], [1, 'cup', 'green beans'], [1, 'cup', 'chickpeas'], [0.75, 'cup', 'jasmine rice'], [4, 'piece', 'thai basil leaves']],
+    recipe: 'Fry the curry paste, add coconut milk, eggplant, beans and chickpeas, simmer 15 minutes and serve with rice and basil.',
+    instructions: ['Cook the rice.', 'Cube the eggplant.', 'Fry the curry paste in a pot for 1 minute, then add the coconut milk.', 'Add the eggplant, beans and chickpeas and simmer for 15 minutes.', 'Serve with the rice and basil.'],
+    equipment: ['pot', 'rice pot'],
+    macros: { calories: 650, protein_g: 16, carbs_g: 74, fat_g: 32 }
+  },
+  {
+    id: 'teriyaki-chicken', name: 'Teriyaki Chicken Rice Bowl', cuisine: 'asian', meal_types: ['dinner', 'lunch'],
+    vegetarian: false, vegan: false, allergens: ['soy', 'gluten'],
+    prep_minutes: 15, cook_minutes: 20, skill_level: 'beginner',
+    ingredients: [[250, 'g', 'chicken breast'], [3, 'tbsp', 'teriyaki sauce'], [0.75, 'cup', 'jasmine rice'], [1, 'cup', 'broccoli'], [1, 'tsp', 'sesame seeds']],
+    recipe: 'Pan-fry sliced chicken, glaze with teriyaki sauce and serve over rice with steamed broccoli and sesame seeds.',
+    instructions: ['Cook the rice.', 'Slice the chicken and pan-fry it for 6 minutes until cooked through.', 'Add the teriyaki sauce and let it glaze for 1 minute.', 'Steam the broccoli for 4 minutes.', 'Serve the chicken over the rice with the broccoli and sesame seeds.'],
+    equipment: ['frying pan', 'rice pot', 'steamer basket'],
+    macros: { calories: 600, protein_g: 48, carbs_g: 72, fat_g: 10 }
+  },
+  {
+    id: 'bean-chili', name: 'Three Bean Chili', cuisine: 'mexican', meal_types: ['dinner'],
+    vegetarian: true, vegan: true, allergens: [],
+    prep_minutes: 15, cook_minutes: 40, skill_level: 'beginner',
+    ingredients: [[1, 'can', 'kidney beans'], [1, 'can', 'black beans'], [1, 'can', 'pinto beans'], [1, 'can', 'chopped tomatoes'], [1, 'piece', 'onion'], [1, 'tbsp', 'chili powder'], [1, 'tbsp', 'olive oil']],
+    recipe: 'Soften onion with chili powder, add the beans and tomatoes and simmer 30 minutes until thick.',
+    instructions: ['Chop the onion.', 'Soften it in the olive oil with the chili powder for 5 minutes.', 'Add the drained beans and the tomatoes.', 'Simmer for 30 minutes until thick, stirring now and then.'],
+    equipment: ['large pot'],
+    tips: ['Freezes well in portions.'],
+    macros: { calories: 520, protein_g: 28, carbs_g: 84, fat_g: 8 }
+  },
+  {
+    id: 'fish-tacos', name: 'Grilled Fish Tacos', cuisine: 'mexican', meal_types: ['dinner'],
+    vegetarian: false, vegan: false, allergens: ['citrus'],
+    prep_minutes: 15, cook_minutes: 10, skill_level: 'intermediate',
+    ingredients: [[250, 'g', 'white fish fillets'], [4, 'piece', 'corn tortillas'], [1, 'cup', 'red cabbage'], [0.5, 'piece', 'avocado'], [1, 'piece', 'lime'], [1, 'tsp', 'cumin']],
+    recipe: 'Season fish with cumin, grill until flaky, and serve in warm tortillas with shredded cabbage, avocado and lime.',
+    instructions: ['Season the fish with the cumin and a pinch of salt.', 'Shred the cabbage and slice the avocado.', 'Grill or pan-fry the fish for 3 minutes per side until flaky.', 'Warm the tortillas.', 'Fill with the fish, cabbage and avocado and squeeze over the lime.'],
+    equipment: ['grill pan', 'knife'],
+    macros: { calories: 540, protein_g: 40, carbs_g: 50, fat_g: 18 }
+  },
+  {
+    id: 'turkey-meatloaf', name: 'Turkey Meatloaf with Green Beans', cuisine: 'american', meal_types: ['dinner'],
+    vegetarian: false, vegan: false, allergens: ['eggs', 'gluten'],
+    prep_minutes: 15, cook_minutes: 55, skill_level: 'intermediate',
+    ingredients: [[400, 'g', 'ground turkey'], [0.5, 'cup', 'breadcrumbs'], [1, 'piece', 'egg'], [1, 'piece', 'onion'], [2, 'tbsp', 'tomato ketchup'], [2, 'cup', 'green beans']],
+    recipe: 'Mix turkey, breadcrumbs, egg and onion, shape into a loaf, glaze with ketchup and bake 45 minutes; serve with steamed beans.',
+    instructions: ['Heat the oven to 180°C and finely chop the onion.', 'Mix the turkey, breadcrumbs, egg and onion with salt and pepper.', 'Shape into a loaf in a tin and brush with the ketchup.', 'Bake for 45 minutes until cooked through.', 'Steam the green beans for 5 minutes and serve alongside.'],
+    equipment: ['oven', 'loaf tin', 'mixing bowl', 'steamer basket'],
+    tips: ['Rest the meatloaf 5 minutes before slicing.'],
+    macros: { calories: 560, protein_g: 48, carbs_g: 32, fat_g: 24 }
+  },
+  {
+    id: 'sheet-pan-chicken', name: 'Sheet Pan Chicken and Sweet Potato', cuisine: 'american', meal_types: ['dinner'],
+    vegetarian: false, vegan: false, allergens: [],
+    prep_minutes: 10, cook_minutes: 35, skill_level: 'beginner',
+    ingredients: [[300, 'g', 'chicken breast'], [2, 'piece', 'sweet potatoes'], [2, 'cup', 'brussels sprouts'], [1, 'tbsp', 'olive oil'], [1, 'tsp', 'smoked paprika']],
+    recipe: 'Toss chicken, cubed sweet potato and halved sprouts with oil and paprika, then roast at 200°C for 25 minutes.',
+    instructions: ['Heat the oven to 200°C.', 'Cube the sweet potatoes, halve the sprouts and cut the chicken into pieces.', 'Toss everything with the olive oil and paprika on a tray.', 'Roast for 25 minutes until the chicken is cooked through.'],
+    equipment: ['oven', 'baking tray'],
+    macros: { calories: 590, protein_g: 50, carbs_g: 58, fat_g: 16 }
+  },
+  {
+    id: 'coconut-veg-curry', name: 'Coconut Vegetable Korma', cuisine: 'mixed', meal_types: ['dinner'],
+    vegetarian: true, vegan: true, allergens: [],
+    prep_minutes: 15, cook_minutes: 25, skill_level: 'intermediate',
+    ingredients: [[1, 'can', 'coconut milk'], [1, 'piece', 'cauliflower'], [1, 'cup', 'green peas'], [1, 'piece', 'onion'], [1, 'tbsp', 'korma spice blend'], [0.75, 'cup', 'basmati rice']],
+    recipe: 'Cook onion with spices, add cauliflower, peas and coconut milk, simmer until tender and serve with rice.',
+    instructions: ['Cook the rice.', 'Chop the onion and cook it with the spices until soft.', 'Add the cauliflower, peas and coconut milk.', 'Simmer for 15 minutes until the cauliflower is tender.', 'Serve with the rice.'],
+    equipment: ['pot', 'rice pot'],
+    macros: { calories: 630, protein_g: 15, carbs_g: 78, fat_g: 30 }
+  },
+
+  // Snacks
+  {
+    id: 'hummus-veggies', name: 'Hummus with Veggie Sticks', cuisine: 'mediterranean', meal_types: ['snack'],
+    vegetarian: true, vegan: true, allergens: [],
+    prep_minutes: 5, cook_minutes: 0, skill_level: 'beginner',
+    ingredients: [[0.33, 'cup', 'hummus'], [1, 'piece', 'carrot'], [1, 'piece', 'cucumber'], [1, 'piece', 'celery stalk']],
+    recipe: 'Cut the vegetables into sticks and serve with hummus for dipping.',
+    instructions: ['Cut the vegetables into sticks.', 'Serve with the hummus for dipping.'],
+    equipment: ['knife', 'cutting board'],
+    macros: { calories: 180, protein_g: 6, carbs_g: 18, fat_g: 9 }
+  },
+  {
+    id: 'apple-peanut-butter', name: 'Apple Slices with Peanut Butter', cuisine: 'american', meal_types: ['snack'],
+    vegetarian: true, vegan: true, allergens: ['nuts'],
+    prep_minutes: 3, cook_minutes: 0, skill_level: 'beginner',
+    ingredients: [[1, 'piece', 'apple'], [2, 'tbsp', 'peanut butter']],
+    recipe: 'Slice the apple and serve with peanut butter.',
+    instructions: ['Core and slice the apple.', 'Serve with the peanut butter.'],
+    equipment: ['knife'],
+    macros: { calories: 280, protein_g: 8, carbs_g: 30, fat_g: 16 }
+  },
+  {
+    id: 'roasted-chickpeas', name: 'Spiced Roasted Chickpeas', cuisine: 'indian', meal_types: ['snack'],
+    vegetarian: true, vegan: true, allergens: [],
+    prep_minutes: 5, cook_minutes: 30, skill_level: 'beginner',
+    ingredients: [[1, 'can', 'chickpeas'], [1, 'tsp', 'olive oil'], [1, 'tsp', 'chaat masala']],
+    recipe: 'Pat chickpeas dry, toss with oil and chaat masala and roast at 200°C for 30 minutes until crunchy.',
+    instructions: ['Heat the oven to 200°C.', 'Drain the chickpeas and pat them dry.', 'Toss with the oil and chaat masala.', 'Roast for 30 minutes, shaking halfway, until crunchy.'],
+    equipment: ['oven', 'baking tray'],
+    tips: ['Let them cool on the tray so they stay crisp.'],
+    macros: { calories: 200, protein_g: 9, carbs_g: 28, fat_g: 6 }
+  },
+  {
+    id: 'edamame-snack', name: 'Sea Salt Edamame', cuisine: 'asian', meal_types: ['snack'],
+    vegetarian: true, vegan: true, allergens: ['soy'],
+    prep_minutes: 2, cook_minutes: 5, skill_level: 'beginner',
+    ingredients: [[1, 'cup', 'edamame'], [null, null, 'sea salt']],
+    recipe: 'Steam the edamame pods for 5 minutes and sprinkle with sea salt.',
+    instructions: ['Steam the edamame pods for 5 minutes.', 'Sprinkle with sea salt.'],
+    equipment: ['steamer basket'],
+    macros: { calories: 190, protein_g: 17, carbs_g: 14, fat_g: 8 }
+  },
+  {
+    id: 'trail-mix', name: 'Homemade Trail Mix', cuisine: 'mixed', meal_types: ['snack'],
+    vegetarian: true, vegan: true, allergens: ['nuts'],
+    prep_minutes: 5, cook_minutes: 0, skill_level: 'beginner',
+    ingredients: [[2, 'tbsp', 'almonds'], [2, 'tbsp', 'raisins'], [1, 'tbsp', 'pumpkin seeds'], [1, 'tbsp', 'dark chocolate chips']],
+    recipe: 'Mix everything together and portion into a small container.',
+    instructions: ['Mix everything together.', 'Portion into a small container.'],
+    equipment: ['small container'],
+    macros: { calories: 250, protein_g: 7, carbs_g: 24, fat_g: 15 }
+  },
+  {
+    id: 'guacamole-crudites', name: 'Guacamole with Bell Pepper Strips', cuisine: 'mexican', meal_types: ['snack'],
+    vegetarian: true, vegan: true, allergens: ['citrus'],
+    prep_minutes: 10, cook_minutes: 0, skill_level: 'beginner',
+    ingredients: [[1, 'piece', 'avocado'], [0.5, 'piece', 'lime'], [0.25, 'piece', 'red onion'], [1, 'piece', 'bell pepper']],
+    recipe: 'Mash avocado with lime juice and finely chopped onion, and serve with pepper strips.',
+    instructions: ['Finely chop the onion.', 'Mash the avocado with the lime juice, onion and a pinch of salt.', 'Cut the pepper into strips and serve with the guacamole.'],
+    equipment: ['bowl', 'fork', 'knife'],
+    macros: { calories: 220, protein_g: 3, carbs_g: 16, fat_g: 17 }
+  },
+  {
+    id: 'fruit-bowl', name: 'Seasonal Fruit Bowl', cuisine: 'mixed', meal_types: ['snack', 'breakfast'],
+    vegetarian: true, vegan: true, allergens: [],
+    prep_minutes: 5, cook_minutes: 0, skill_level: 'beginner',
+    ingredients: [[1, 'piece', 'banana'], [1, 'cup', 'melon'], [0.5, 'cup', 'grapes'], [1, 'tbsp', 'pumpkin seeds']],
+    recipe: 'Chop the fruit into bite-sized pieces and top with pumpkin seeds.',
+    instructions: ['Chop the fruit into bite-sized pieces.', 'Top with the pumpkin seeds.'],
+    equipment: ['knife', 'cutting board'],
+    macros: { calories: 210, protein_g: 4, carbs_g: 44, fat_g: 4 }
+  },
+  {
+    id: 'caprese-skewers', name: 'Caprese Skewers', cuisine: 'italian', meal_types: ['snack'],
+    vegetarian: true, vegan: false, allergens: ['dairy'],
+    prep_minutes: 10, cook_minutes: 0, skill_level: 'beginner',
+    ingredients: [[8, 'piece', 'cherry tomatoes'], [8, 'piece', 'mini mozzarella balls'], [8, 'piece', 'basil leaves'], [1, 'tsp', 'balsamic glaze']],
+    recipe: 'Thread tomatoes, mozzarella and basil onto skewers and drizzle with balsamic glaze.',
+    instructions: ['Thread the tomatoes, mozzarella and basil onto skewers.', 'Drizzle with balsamic glaze.'],
+    equipment: ['skewers'],
+    macros: { calories: 200, protein_g: 12, carbs_g: 6, fat_g: 14 }
+  }
+];
+
+// Meal slots for each meals_per_day value; snacks fill the extra slots
+const MEAL_SLOTS = {
+  1: ['Lunch'],
+  2: ['Breakfast', 'Dinner'],
+  3: ['Breakfast', 'Lunch', 'Dinner'],
+  4: ['Breakfast', 'Lunch', 'Dinner', 'Snack'],
+  5: ['Breakfast', 'Snack', 'Lunch', 'Snack', 'Dinner'],
+  6: ['Breakfast', 'Snack', 'Lunch', 'Snack', 'Dinner', 'Snack']
+};
+
+export const getMealSlots = (mealsPerDay) => MEAL_SLOTS[mealsPerDay] ?? MEAL_SLOTS[3];
+
+// Expand a bank tuple into the structured ingredient used in plan_data
+const toIngredient = ([amount, unit, name]) => ({ name, amount, unit, preparation: null });
+
+export const isDietCompatible = (recipe, dietType) => {
+  switch (dietType) {
+    case 'vegan':
+      return recipe.vegan;
+    case 'vegetarian':
+      return recipe.vegetarian;
+    case 'gluten_free':
+      return !recipe.allergens.includes('gluten');
+    case 'dairy_free':
+      return !recipe.allergens.includes('dairy');
+    case 'mediterranean':
+      return recipe.cuisine === 'mediterranean';
+    default:
+      return true;
+  }
+};
+
+export const recipeToMeal = (recipe, type) => ({
+  type,
+  name: recipe.name,
+  recipe: recipe.recipe,
+  ingredients: recipe.ingredients.map(toIngredient),
+  macros: { ...recipe.macros },
+  instructions: [...recipe.instructions],
+  equipment: [...recipe.equipment],
+  tips: [...(recipe.tips ?? [])],
+  prep_minutes: recipe.prep_minutes,
+  cook_minutes: recipe.cook_minutes,
+  skill_level: recipe.skill_level
+});
+
+// Recipes that fit the diet, allergies and avoid rules for a slot.
+// With strict = false the meal type is ignored so a slot is never left empty.
+const getCandidates = (slot, { dietType, allergies, avoidRules, strict }) =>
+  RECIPE_BANK.filter((recipe) =>
+    (!strict || recipe.meal_types.includes(slot.toLowerCase())) &&
+    isDietCompatible(recipe, dietType) &&
+    !recipe.allergens.some((allergen) => allergies.includes(allergen)) &&
+    findMealViolations(recipeToMeal(recipe, slot), avoidRules).length === 0
+  );
+
+// Pick the least-used compatible recipe for a slot, preferring ones that use
+// pantry items and then the user's cuisines.
+// exclude holds meal names already on the same day. Among equally used recipes,
+// avoidNames (e.g. recent dishes) and then avoidProteins rank last. Recipes
+// within cookingLimit are used when there are any.
+export const pickRecipe = (slot, {
+  dietType,
+  allergies = [],
+  preferredCuisines = [],
+  avoidRules = [],
+  pantryItems = [],
+  usage = {},
+  exclude = [],
+  avoidNames = [],
+  avoidProteins = [],
+  cookingLimit = null,
+  offset = 0
+}) => {
+  let candidates = getCandidates(slot, { dietType, allergies, avoidRules, strict: true });
+  if (!candidates.length) {
+    candidates = getCandidates(slot, { dietType, allergies, avoidRules, strict: false });
+  }
+  const available = candidates.filter((recipe) => !exclude.includes(recipe.name));
+  const allowed = available.length ? available : candidates;
+  const fitting = allowed.filter((recipe) => fitsCookingLimit(recipe, cookingLimit));
+  const pool = fitting.length ? fitting : allowed;
+  if (!pool.length) return null;
+
+  const cuisineScore = (recipe) =>
+    preferredCuisines.includes(recipe.cuisine) || preferredCuisines.includes('mixed') ? 1 : 0;
+  const pantryScore = (recipe) =>
+    countPantryMatches(recipe.ingredients.map(([, , name]) => name), pantryItems);
+  const rotation = (recipe) => (pool.indexOf(recipe) + offset) % pool.length;
+  const avoided = (recipe) =>
+    (avoidNames.includes(recipe.name) ? 2 : 0) +
+    (avoidProteins.includes(primaryProtein(recipeToMeal(recipe, slot))) ? 1 : 0);
+
+  return [...pool].sort((a, b) =>
+    (usage[a.id] ?? 0) - (usage[b.id] ?? 0) ||
+    avoided(a) - avoided(b) ||
+    pantryScore(b) - pantryScore(a) ||
+    cuisineScore(b) - cuisineScore(a) ||
+    rotation(a) - rotation(b)
+  )[0];
+};
+
+// Assemble consecutive days from the recipe bank. Pass the same usage object
+// across calls so recipes keep rotating when a plan is built in chunks.
+// Recent dishes from history are avoided and disliked ones left out.
+export const buildRecipeBankDays = (preferences, {
+  avoidRules = [],
+  pantryItems = [],
+  history = EMPTY_VARIETY_HISTORY,
+  startDate = todayIsoDate(),
+  firstDay = 1,
+  count,
+  usage = {}
+}) => {
+  const slots = getMealSlots(preferences.meals_per_day);
+  const options = {
+    dietType: preferences.diet_type,
+    allergies: preferences.allergies ?? [],
+    preferredCuisines: preferences.preferred_cuisines ?? [],
+    avoidRules,
+    pantryItems,
+    usage
+  };
+
+  return Array.from({ length: count }, (_, n) => {
+    const i = firstDay - 1 + n;
+    const usedToday = [];
+    const proteinsToday = [];
+    const meals = [];
+    slots.forEach((slot) => {
+      const recipe = pickRecipe(slot, {
+        ...options,
+        exclude: [...usedToday, ...history.dislikedMealNames],
+        avoidNames: history.recentMealNames,
+        avoidProteins: proteinsToday,
+        cookingLimit: cookingLimitFor(preferences, { startDate, day: i + 1, mealType: slot }),
+        offset: i
+      });
+      if (!recipe) return;
+      usedToday.push(recipe.name);
+      proteinsToday.push(primaryProtein(recipeToMeal(recipe, slot)));
+      usage[recipe.id] = (usage[recipe.id] ?? 0) + 1;
+      meals.push(recipeToMeal(recipe, slot));
+    });
+    return {
+      day: i + 1,
+      date: planDayDate(startDate, i + 1),
+      meals
+    };
+  });
+};
+
+// Assemble a full plan from the recipe bank
+export const buildRecipeBankPlan = (preferences, { avoidRules = [] } = {}) => ({
+  source: 'recipe_bank',
+  days: buildRecipeBankDays(preferences, { avoidRules, count: preferences.total_days })
+});
@@ -0,0 +1,148 @@
+// Meal reminders for a plan, stored in notifications. Each meal gets a prep
+// reminder an hour before it and one at meal time; the plan's last day gets a
+// reminder to plan the next one. Times are the user's wall-clock times in
+// their time zone, from diet_preferences.meal_times, and the texts are in the
+// language on their profile.
+
+import { planDayDate, zonedTime } from './dates.ts';
+
+export const DEFAULT_MEAL_TIMES = {
+  breakfast: '08:00',
+  lunch: '12:00',
+  dinner: '18:00'
+};
+
+// Meal types without a time of their own, like snacks, are reminded at noon
+const FALLBACK_MEAL_TIME = '12:00';
+const PREP_LEAD_MS = 60 * 60 * 1000;
+const REPLAN_TIME = '10:00';
+
+const HH_MM = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Stored meal times with anything that is not HH:MM left out
+export const normalizeMealTimes = (stored) => {
+  const times = { ...DEFAULT_MEAL_TIMES };
+  for (const [mealType, time] of Object.entries(stored ?? {})) {
+    if (HH_MM.test(time)) times[mealType.toLowerCase()] = time;
+  }
+  return times;
+};
+
+// Reminder texts per language and tone, with {name} for the meal and {type}
+// for its meal type
+const REMINDER_MESSAGES = {
+  en: {
+    funny: {
+      prep: '🍳 Time to channel your inner chef! Get ready to make {name}',
+      meal: '🍽️ Your stomach is calling - {name} is ready to be devoured!'
+    },
+    gentle: {
+      prep: "🌿 Gentle reminder: It's time to start preparing {name}",
+      meal: '🍃 Time for your {type}. Enjoy your {name}'
+    },
+    motivational: {
+      prep: '💪 Fuel your body! Time to prep {name}',
+      meal: "🌟 Your day gets better when you eat well. It's time for {name}!"
+    },
+    replan: "🗓️ Ready for your next week's plan? Time to regenerate your meal plan!"
+  },
+  es: {
+    funny: {
+      prep: '🍳 ¡Saca el chef que llevas dentro! Prepárate para cocinar {name}',
+      meal: '🍽️ Tu estómago te llama: ¡{name} está listo para devorar!'
+    },
+    gentle: {
+      prep: '🌿 Un pequeño recordatorio: es hora de empezar a preparar {name}',
+      meal: '🍃 Es la hora de tu {type}. Disfruta de {name}'
+    },
+    motivational: {
+      prep: '💪 ¡Dale energía a tu cuerpo! Es hora de preparar {name}',
+      meal: '🌟 Tu día mejora cuando comes bien. ¡Es hora de {name}!'
+    },
+    replan: '🗓️ ¿Listo para el plan de la próxima semana? ¡Es hora de generar un nuevo plan de comidas!'
+  },
+  fr: {
+    funny: {
+      prep: '🍳 Réveillez le chef qui sommeille en vous ! Préparez-vous à cuisiner {name}',
+      meal: '🍽️ Votre estomac vous appelle : {name} n’attend plus que vous !'
+    },
+    gentle: {
+      prep: '🌿 Petit rappel : il est temps de commencer à préparer {name}',
+      meal: '🍃 C’est l’heure de votre {type}. Bon appétit avec {name}'
+    },
+    motivational: {
+      prep: '💪 Donnez de l’énergie à votre corps ! Il est temps de préparer {name}',
+      meal: '🌟 Bien manger rend la journée meilleure. C’est l’heure de {name} !'
+    },
+    replan: '🗓️ Prêt pour le plan de la semaine prochaine ? Il est temps de générer un nouveau plan de repas !'
+  },
+  de: {
+    funny: {
+      prep: '🍳 Zeit für deinen inneren Küchenchef! Mach dich bereit für {name}',
+      meal: '🍽️ Dein Magen ruft – {name} wartet darauf, verputzt zu werden!'
+    },
+    gentle: {
+      prep: '🌿 Kleine Erinnerung: Zeit, mit {name} anzufangen',
+      meal: '🍃 Zeit für dein {type}. Guten Appetit mit {name}'
+    },
+    motivational: {
+      prep: '💪 Gib deinem Körper Energie! Zeit, {name} vorzubereiten',
+      meal: '🌟 Gutes Essen macht den Tag besser. Zeit für {name}!'
+    },
+    replan: '🗓️ Bereit für den Plan der nächsten Woche? Zeit, einen neuen Essensplan zu erstellen!'
+  }
+};
+
+// Plan meal types are English; other languages name them in the gentle reminder
+const MEAL_TYPE_NAMES = {
+  es: { breakfast: 'desayuno', lunch: 'almuerzo', dinner: 'cena', snack: 'merienda' },
+  fr: { breakfast: 'petit-déjeuner', lunch: 'déjeuner', dinner: 'dîner', snack: 'en-cas' },
+  de: { breakfast: 'Frühstück', lunch: 'Mittagessen', dinner: 'Abendessen', snack: 'Snack' }
+};
+
+const fillMessage = (template, meal, language) => {
+  const type = String(meal.type).toLowerCase();
+  return template
+    .replace('{name}', meal.name)
+    .replace('{type}', MEAL_TYPE_NAMES[language]?.[type] ?? type);
+};
+
+const reminderMessages = (meal, tone, language) => {
+  const messages = REMINDER_MESSAGES[language] ?? REMINDER_MESSAGES.en;
+  const toneMessages = messages[tone] ?? messages.motivational;
+  return {
+    prep: fillMessage(toneMessages.prep, meal, language),
+    meal: fillMessage(toneMessages.meal, meal, language)
+  };
+};
+
+// Notification rows for a plan, leaving out reminders that are already past
+export const buildReminderRows = (mealPlan, { userId, mealTimes, tone, timeZone, language = 'en', now = new Date() }) => {
+  const times = normalizeMealTimes(mealTimes);
+  const days = mealPlan.plan_data?.days ?? [];
+  const row = (message, scheduledTime) => ({
+    user_id: userId,
+    meal_plan_id: mealPlan.id,
+    message,
+    scheduled_time: scheduledTime.toISOString(),
+    is_sent: false
+  });
+
+  const rows = [];
+  for (const day of days) {
+    const date = planDayDate(mealPlan.week_start_date, day.day);
+    for (const meal of day.meals ?? []) {
+      const mealTime = zonedTime(date, times[String(meal.type).toLowerCase()] ?? FALLBACK_MEAL_TIME, timeZone);
+      const messages = reminderMessages(meal, tone, language);
+      rows.push(row(messages.prep, new Date(mealTime.getTime() - PREP_LEAD_MS)));
+      rows.push(row(messages.meal, mealTime));
+    }
+  }
+
+  if (days.length) {
+    const lastDay = planDayDate(mealPlan.week_start_date, Math.max(...days.map((day) => day.day)));
+    const { replan } = REMINDER_MESSAGES[language] ?? REMINDER_MESSAGES.en;
+    rows.push(row(replan, zonedTime(lastDay, REPLAN_TIME, timeZone)));
+  }
+  return rows.filter((reminder) => new Date(reminder.scheduled_time) > now);
+};
@@ -0,0 +1,72 @@
+// Unit conversion and product names for comparing ingredient amounts.
+// Mirrors src/lib/grocery.ts so the server and the app agree on totals.
+
+// Size in the base unit of each dimension: grams, millilitres or items
+const UNITS = {
+  mg: { dimension: 'mass', factor: 0.001, name: 'g' },
+  g: { dimension: 'mass', factor: 1, name: 'g' },
+  kg: { dimension: 'mass', factor: 1000, name: 'g' },
+  oz: { dimension: 'mass', factor: 28.35, name: 'g' },
+  lb: { dimension: 'mass', factor: 453.6, name: 'g' },
+  ml: { dimension: 'volume', factor: 1, name: 'ml' },
+  l: { dimension: 'volume', factor: 1000, name: 'ml' },
+  tsp: { dimension: 'volume', factor: 4.93, name: 'ml' },
+  tbsp: { dimension: 'volume', factor: 14.79, name: 'ml' },
+  cup: { dimension: 'volume', factor: 240, name: 'ml' },
+  piece: { dimension: 'count', factor: 1, name: 'piece' }
+};
+
+const UNIT_ALIASES = {
+  milligram: 'mg', milligrams: 'mg',
+  gram: 'g', grams: 'g', gr: 'g',
+  kilogram: 'kg', kilograms: 'kg', kgs: 'kg',
+  ounce: 'oz', ounces: 'oz',
+  pound: 'lb', pounds: 'lb', lbs: 'lb',
+  milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml',
+  liter: 'l', liters: 'l', litre: 'l', litres: 'l',
+  teaspoon: 'tsp', teaspoons: 'tsp',
+  tablespoon: 'tbsp', tablespoons: 'tbsp', tbs: 'tbsp',
+  cups: 'cup',
+  pieces: 'piece', pc: 'piece', pcs: 'piece', whole: 'piece', unit: 'piece', units: 'piece',
+  cloves: 'clove', slices: 'slice', cans: 'can', tins: 'can', tin: 'can',
+  bunches: 'bunch', handfuls: 'handful', pinches: 'pinch', stalks: 'stalk', sprigs: 'sprig'
+};
+
+// Words that end in "s" but are not plurals
+const SINGULAR_EXCEPTIONS = new Set(['molasses', 'series']);
+
+export const canonicalUnit = (unit) => {
+  if (!unit) return 'piece';
+  const cleaned = String(unit).trim().toLowerCase().replace(/\.$/, '');
+  return UNIT_ALIASES[cleaned] || cleaned;
+};
+
+// Count units other than piece each form their own group: 2 cloves and 1 can do not add up
+export const unitInfo = (unit) => UNITS[unit] || { dimension: 'count', factor: 1, name: unit };
+
+// e.g. { group: 'mass:g', total: 250 } for 0.25 kg
+export const toBaseAmount = (amount, unit) => {
+  const info = unitInfo(canonicalUnit(unit));
+  return { group: `${info.dimension}:${info.name}`, total: amount * info.factor };
+};
+
+const singularize = (word) => {
+  if (SINGULAR_EXCEPTIONS.has(word) || word.length <= 3) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('oes')) return word.slice(0, -2);
+  if (/(ches|shes|sses|xes)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+};
+
+// Grouping key: lowercase, singular last word, without preparation notes
+export const productKey = (name) => {
+  const words = String(name ?? '')
+    .split(',')[0]
+    .replace(/\([^)]*\)/g, '')
+    .toLowerCase()
+    .trim()
+    .split(/\s+/);
+  words[words.length - 1] = singularize(words[words.length - 1]);
+  return words.join(' ');
+};
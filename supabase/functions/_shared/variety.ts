@@ -0,0 +1,191 @@
+// Variety across and within plans. Generation looks back over the user's most
+// recent plans and ratings, keeps their dishes out of the new plan and rotates
+// the main protein so it is not the same twice in one day.
+
+import { normalizeIngredient } from './ingredients.ts';
+import { isLeftovers } from './leftovers.ts';
+
+// How many earlier plans count as recent
+export const RECENT_PLAN_COUNT = 3;
+
+// Ratings at or below this leave a dish out for good; at or above LIKED it may come back
+const DISLIKED_RATING = 2;
+const LIKED_RATING = 4;
+
+// Proteins used at least this often in recent plans are listed as overused
+const OVERUSED_PROTEIN_COUNT = 4;
+
+// Distinct main proteins a plan needs for full marks on protein spread
+const PROTEIN_SPREAD_TARGET = 5;
+
+// Main protein groups and the ingredient words that belong to them
+const PROTEINS = {
+  chicken: ['chicken'],
+  turkey: ['turkey'],
+  beef: ['beef', 'steak'],
+  pork: ['pork', 'bacon', 'ham', 'sausage'],
+  lamb: ['lamb'],
+  fish: ['fish', 'salmon', 'tuna', 'cod', 'tilapia', 'mackerel', 'sardine', 'trout', 'haddock'],
+  shellfish: ['shrimp', 'prawn', 'crab', 'scallop', 'mussel'],
+  eggs: ['egg'],
+  tofu: ['tofu', 'tempeh', 'seitan', 'edamame'],
+  lentils: ['lentil', 'dal'],
+  chickpeas: ['chickpea', 'hummus'],
+  beans: ['bean'],
+  paneer: ['paneer', 'halloumi', 'cottage cheese'],
+  yogurt: ['greek yogurt']
+};
+
+// Ingredients that mention a protein without being one
+const NOT_PROTEIN = /\b(broth|stock|bouillon|sauce|green beans?|vanilla bean|coffee beans?)\b/;
+
+const PROTEIN_PATTERNS = Object.entries(PROTEINS).map(([protein, words]) => ({
+  protein,
+  pattern: new RegExp(`\\b(${words.join('|')})(s|es)?\\b`)
+}));
+
+const dishKey = (name) => String(name ?? '').trim().toLowerCase();
+
+// Main protein of a meal: the first ingredient that belongs to a protein group
+export const primaryProtein = (meal) => {
+  for (const ingredient of (meal?.ingredients ?? []).map(normalizeIngredient)) {
+    const name = ingredient.name.toLowerCase();
+    if (NOT_PROTEIN.test(name)) continue;
+    const match = PROTEIN_PATTERNS.find(({ pattern }) => pattern.test(name));
+    if (match) return match.protein;
+  }
+  return null;
+};
+
+// Build the look-back from recent plan_data and the user's ratings
+export const buildVarietyHistory = (recentPlans, ratings) => {
+  const ratingByDish = new Map(ratings.map((row) => [dishKey(row.meal_name), row.rating]));
+  const recentMealNames = new Set();
+  const proteinCounts = {};
+
+  for (const plan of recentPlans) {
+    for (const day of plan?.plan_data?.days ?? []) {
+      for (const meal of day.meals ?? []) {
+        if (isLeftovers(meal)) continue;
+        // Translated plans keep the English name the new plan is generated in,
+        // which is also the name ratings are saved under
+        const name = meal.name_en ?? meal.name;
+        if ((ratingByDish.get(dishKey(name)) ?? 0) < LIKED_RATING) recentMealNames.add(name);
+        const protein = primaryProtein(meal);
+        if (protein) proteinCounts[protein] = (proteinCounts[protein] ?? 0) + 1;
+      }
+    }
+  }
+
+  return {
+    recentMealNames: Array.from(recentMealNames),
+    dislikedMealNames: ratings.filter((row) => row.rating <= DISLIKED_RATING).map((row) => row.meal_name),
+    overusedProteins: Object.entries(proteinCounts)
+      .filter(([, count]) => count >= OVERUSED_PROTEIN_COUNT)
+      .sort((a, b) => b[1] - a[1])
+      .map(([protein]) => protein)
+  };
+};
+
+export const EMPTY_VARIETY_HISTORY = { recentMealNames: [], dislikedMealNames: [], overusedProteins: [] };
+
+// Load the user's recent plans and ratings, or an empty history when they fail to load
+export const loadVarietyHistory = async (supabaseAdmin, userId) => {
+  const [{ data: plans, error: plansError }, { data: ratings, error: ratingsError }] = await Promise.all([
+    supabaseAdmin
+      .from('meal_plans')
+      .select('plan_data')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(RECENT_PLAN_COUNT),
+    supabaseAdmin
+      .from('meal_ratings')
+      .select('meal_name, rating')
+      .eq('user_id', userId)
+  ]);
+
+  if (plansError || ratingsError) {
+    console.error('Error loading recent meals, skipping variety history:', plansError ?? ratingsError);
+    return EMPTY_VARIETY_HISTORY;
+  }
+  return buildVarietyHistory(plans ?? [], ratings ?? []);
+};
+
+// Dishes the new plan should not use: recent ones and disliked ones
+export const excludedMealNames = (history) => [...history.recentMealNames, ...history.dislikedMealNames];
+
+// Meals in the given days that break the variety rules. earlierDays are the
+// plan's days before these ones. Leftovers are never counted as repeats.
+export const findVarietyIssues = (days, history, earlierDays = []) => {
+  const excluded = new Set(excludedMealNames(history).map(dishKey));
+  const seen = new Set(earlierDays.flatMap((day) => day.meals.filter((meal) => !isLeftovers(meal)).map((meal) => dishKey(meal.name))));
+  const issues = [];
+
+  days.forEach((day, dayIndex) => {
+    const proteinsToday = new Set();
+    day.meals.forEach((meal, mealIndex) => {
+      const protein = primaryProtein(meal);
+      if (isLeftovers(meal)) {
+        if (protein) proteinsToday.add(protein);
+        return;
+      }
+
+      const key = dishKey(meal.name);
+      let reason = null;
+      if (seen.has(key)) reason = 'repeated';
+      else if (excluded.has(key)) reason = 'recent';
+      else if (protein && proteinsToday.has(protein)) reason = 'protein';
+
+      seen.add(key);
+      if (protein) proteinsToday.add(protein);
+      if (reason) issues.push({ day: day.day, dayIndex, mealIndex, meal, protein, reason });
+    });
+  });
+  return issues;
+};
+
+// Prompt lines listing dishes and proteins to stay away from
+export const formatVarietyForPrompt = (history) => {
+  const lines = [];
+  if (history.recentMealNames.length) {
+    lines.push(`The user has had these dishes recently, do not use them: ${history.recentMealNames.join(', ')}.`);
+  }
+  if (history.dislikedMealNames.length) {
+    lines.push(`The user disliked these dishes, never use them: ${history.dislikedMealNames.join(', ')}.`);
+  }
+  lines.push('Rotate the main protein: do not use the same main protein (e.g. chicken, eggs, lentils) for two meals on the same day.');
+  if (history.overusedProteins.length) {
+    lines.push(`Recent plans leaned heavily on ${history.overusedProteins.join(', ')}; use them sparingly.`);
+  }
+  return lines.join('\n');
+};
+
+// Variety of a plan from 0 to 100: distinct dishes, dishes not from recent
+// plans, how many main proteins it uses and how often a protein repeats in a day
+export const scoreVariety = (days, history) => {
+  const meals = days.flatMap((day) => day.meals).filter((meal) => !isLeftovers(meal));
+  if (!meals.length) return { score: 0, repeated: 0, recent: 0, proteins: {}, protein_repeats: 0 };
+
+  const issues = findVarietyIssues(days, history);
+  const count = (reason) => issues.filter((issue) => issue.reason === reason).length;
+  const proteins = {};
+  for (const meal of meals) {
+    const protein = primaryProtein(meal);
+    if (protein) proteins[protein] = (proteins[protein] ?? 0) + 1;
+  }
+  const withProtein = Object.values(proteins).reduce((sum, n) => sum + n, 0);
+  const distinctProteins = Object.keys(proteins).length;
+
+  const uniqueness = 1 - count('repeated') / meals.length;
+  const freshness = 1 - count('recent') / meals.length;
+  const spread = withProtein ? Math.min(1, distinctProteins / Math.min(PROTEIN_SPREAD_TARGET, withProtein)) : 1;
+  const rotation = withProtein ? 1 - count('protein') / withProtein : 1;
+
+  return {
+    score: Math.round(100 * (0.35 * uniqueness + 0.25 * freshness + 0.2 * spread + 0.2 * rotation)),
+    repeated: count('repeated'),
+    recent: count('recent'),
+    proteins,
+    protein_repeats: count('protein')
+  };
+};
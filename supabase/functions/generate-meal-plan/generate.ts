@@ -0,0 +1,573 @@
+import { calculateNutritionTargets, formatTargetsForPrompt } from '../_shared/nutrition.ts';
+import { buildRepairPrompt, mealSchema, parseModelJson, validateMealPlan } from '../_shared/meal-plan-schema.ts';
+import { buildAvoidRules, findMealViolations, formatRulesForPrompt, scanMealPlan } from '../_shared/allergens.ts';
+import { buildRecipeBankDays, pickRecipe, recipeToMeal } from '../_shared/recipe-bank.ts';
+import { createLlmProvider, describeProvider } from '../_shared/llm.ts';
+import { buildGroceryRows } from '../_shared/grocery.ts';
+import { buildHousehold, combineHouseholdPreferences, loadHouseholdMembers } from '../_shared/household.ts';
+import { promptId, renderPrompt, selectPrompt } from '../_shared/prompts.ts';
+import { formatPantryForPrompt, loadPantryItems } from '../_shared/pantry.ts';
+import { budgetForDays, estimateCookedCost, estimatePlanCost, loadPriceLookup } from '../_shared/costs.ts';
+import { formatBatchOptions, linkLeftovers, MAX_LEFTOVER_AGE_DAYS, planDinnerLeftovers } from '../_shared/leftovers.ts';
+import {
+  EMPTY_VARIETY_HISTORY,
+  excludedMealNames,
+  findVarietyIssues,
+  formatVarietyForPrompt,
+  loadVarietyHistory,
+  primaryProtein,
+  scoreVariety
+} from '../_shared/variety.ts';
+import { cookingLimitFor, findCookingLimitIssues, fitsCookingLimit, formatCookingLimitsForPrompt } from '../_shared/cooking.ts';
+import { planDayDate, todayIsoDate } from '../_shared/dates.ts';
+import { DEFAULT_LANGUAGE, normalizeLanguage, translatePlanDays } from '../_shared/language.ts';
+
+// Days requested from the model per call; smaller chunks stream sooner and repair cheaper
+const DAYS_PER_CHUNK = 2;
+
+// How many times invalid model output is sent back for correction before falling back
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Rounds of asking the model to replace meals that break the allergy or avoid lists
+const MAX_ALLERGEN_RETRIES = 2;
+
+// Helper function to ask the model for safe replacements of offending meals
+const requestMealReplacements = async (llm, prompt, offenders, rules, nutritionTargets) => {
+  const slots = offenders
+    .map((o) => `- day ${o.day}, index ${o.mealIndex}: "${o.meal.name}" (${o.meal.type}) contains ${o.violations.map((v) => v.matched).join(', ')}`)
+    .join('\n');
+
+  const content = await llm.complete(renderPrompt(prompt, {
+    slots,
+    avoid: formatRulesForPrompt(rules),
+    nutritionTargets: formatTargetsForPrompt(nutritionTargets)
+  }));
+  const parsed = parseModelJson(content);
+  return Array.isArray(parsed?.meals) ? parsed.meals : [];
+};
+
+// Helper function to replace or remove meals that break the allergy or avoid lists.
+// Mutates planData and returns every violation found, with how it was resolved.
+const enforceAvoidRules = async (planData, rules, { llm, prompts, nutritionTargets, preferences }) => {
+  const violations = [];
+  let offenders = scanMealPlan(planData, rules);
+
+  for (let round = 0; llm && offenders.length && round < MAX_ALLERGEN_RETRIES; round++) {
+    let replacements = [];
+    try {
+      replacements = await requestMealReplacements(llm, prompts.replacements, offenders, rules, nutritionTargets);
+    } catch (replaceError) {
+      console.error('Error requesting replacement meals:', replaceError);
+      break;
+    }
+
+    const remaining = [];
+    for (const offender of offenders) {
+      const candidate = replacements.find((r) => r?.day === offender.day && r?.index === offender.mealIndex);
+      const parsed = candidate ? mealSchema.safeParse(candidate.meal) : null;
+      const safe = parsed?.success && findMealViolations(parsed.data, rules).length === 0;
+
+      if (safe) {
+        planData.days[offender.dayIndex].meals[offender.mealIndex] = parsed.data;
+        violations.push(...offender.violations.map((v) => ({
+          day: offender.day,
+          meal_type: offender.meal.type,
+          meal_name: offender.meal.name,
+          ...v,
+          resolution: 'regenerated',
+          replacement_name: parsed.data.name
+        })));
+      } else {
+        remaining.push(offender);
+      }
+    }
+    offenders = remaining;
+  }
+
+  // Then try a safe recipe from the offline bank for the same slot
+  const unresolved = [];
+  for (const offender of offenders) {
+    const day = planData.days[offender.dayIndex];
+    const recipe = pickRecipe(offender.meal.type, {
+      dietType: preferences.diet_type,
+      allergies: preferences.allergies ?? [],
+      preferredCuisines: preferences.preferred_cuisines ?? [],
+      avoidRules: rules,
+      exclude: day.meals.map((meal) => meal.name),
+      offset: offender.dayIndex
+    });
+    const taken = recipe && day.meals.some((meal) => meal.name === recipe.name);
+
+    if (recipe && !taken) {
+      day.meals[offender.mealIndex] = recipeToMeal(recipe, offender.meal.type);
+      violations.push(...offender.violations.map((v) => ({
+        day: offender.day,
+        meal_type: offender.meal.type,
+        meal_name: offender.meal.name,
+        ...v,
+        resolution: 'substituted',
+        replacement_name: recipe.name
+      })));
+    } else {
+      unresolved.push(offender);
+    }
+  }
+
+  // Anything still unsafe is dropped from the plan
+  const removals = [...unresolved].sort((a, b) => b.mealIndex - a.mealIndex);
+  for (const offender of removals) {
+    planData.days[offender.dayIndex].meals.splice(offender.mealIndex, 1);
+    violations.push(...offender.violations.map((v) => ({
+      day: offender.day,
+      meal_type: offender.meal.type,
+      meal_name: offender.meal.name,
+      ...v,
+      resolution: 'removed'
+    })));
+  }
+
+  return violations;
+};
+
+// Helper function to find a recipe-bank meal for a slot that is new to the plan,
+// not a recent or disliked dish, not a protein already eaten that day and within
+// the slot's cooking limit. Returns null when there is none.
+const findSubstituteMeal = (planData, { dayIndex, mealIndex, meal: current }, context) => {
+  const { history, plannedDays, preferences, avoidRules, pantryItems, usage, startDate } = context;
+  const day = planData.days[dayIndex];
+  const excludedNames = [
+    ...[...plannedDays, ...planData.days].flatMap((d) => d.meals.map((meal) => meal.name)),
+    ...excludedMealNames(history)
+  ];
+  const excluded = new Set(excludedNames.map((name) => name.toLowerCase()));
+  const proteinsToday = day.meals.filter((_, i) => i !== mealIndex).map(primaryProtein).filter(Boolean);
+  const cookingLimit = cookingLimitFor(preferences, { startDate, day: day.day, mealType: current.type });
+
+  const recipe = pickRecipe(current.type, {
+    dietType: preferences.diet_type,
+    allergies: preferences.allergies ?? [],
+    preferredCuisines: preferences.preferred_cuisines ?? [],
+    avoidRules,
+    pantryItems,
+    usage,
+    exclude: excludedNames,
+    avoidProteins: proteinsToday,
+    cookingLimit,
+    offset: dayIndex
+  });
+  if (!recipe) return null;
+
+  // pickRecipe falls back to recipes that break these rules when nothing else fits
+  const meal = recipeToMeal(recipe, current.type);
+  const protein = primaryProtein(meal);
+  if (excluded.has(meal.name.toLowerCase()) || (protein && proteinsToday.includes(protein))) return null;
+  if (!fitsCookingLimit(meal, cookingLimit)) return null;
+
+  usage[recipe.id] = (usage[recipe.id] ?? 0) + 1;
+  return meal;
+};
+
+// Helper function to swap meals that take longer or need more skill than their
+// slot allows. Meals without a fitting replacement stay. Returns how many were swapped.
+const enforceCookingLimits = (planData, context) => {
+  let swapped = 0;
+  for (const issue of findCookingLimitIssues(planData.days, context.preferences, context.startDate)) {
+    const meal = findSubstituteMeal(planData, issue, context);
+    if (!meal) continue;
+    planData.days[issue.dayIndex].meals[issue.mealIndex] = meal;
+    swapped += 1;
+  }
+  return swapped;
+};
+
+// Helper function to swap meals that repeat a dish, use a recent or disliked one,
+// or repeat a protein on the same day. Variety is a preference, so a meal
+// without a better replacement stays. Returns how many were swapped.
+const enforceVariety = (planData, context) => {
+  let swapped = 0;
+  for (const issue of findVarietyIssues(planData.days, context.history, context.plannedDays)) {
+    const meal = findSubstituteMeal(planData, issue, context);
+    if (!meal) continue;
+    planData.days[issue.dayIndex].meals[issue.mealIndex] = meal;
+    swapped += 1;
+  }
+  return swapped;
+};
+
+// Helper function to describe what is left of the grocery budget for the remaining days.
+// Ingredients are for one serving, so a household's budget is shared out per portion.
+const formatBudgetForPrompt = ({ preferences, spent, firstDay, portions = 1 }) => {
+  const budget = budgetForDays(preferences.weekly_budget, preferences.total_days);
+  if (budget === null) return '';
+
+  const { currency } = preferences;
+  const remainingDays = preferences.total_days - firstDay + 1;
+  const remaining = Math.round((budget - spent) * 100) / 100;
+  if (remaining <= 0) {
+    return `The plan is already over its grocery budget of ${budget} ${currency}. Keep these days as inexpensive as possible.`;
+  }
+  if (portions !== 1) {
+    const perPortion = Math.round((remaining / remainingDays / portions) * 100) / 100;
+    return `Grocery budget: about ${perPortion} ${currency} per person per day for all meals (${remaining} ${currency} left for a household of ${portions} portions for the remaining ${remainingDays} days). Favour affordable staples and reuse ingredients across meals to stay within it.`;
+  }
+  const perDay = Math.round((remaining / remainingDays) * 100) / 100;
+  return `Grocery budget: about ${perDay} ${currency} per day for all meals (${remaining} ${currency} left for the remaining ${remainingDays} days). Favour affordable staples and reuse ingredients across meals to stay within it.`;
+};
+
+// Helper function to explain batch cooking and which earlier meals still have portions to spare
+const formatLeftoversForPrompt = ({ preferences, plannedDays, firstDay }) => {
+  if (!preferences.batch_cooking) return '';
+
+  const options = formatBatchOptions(plannedDays, firstDay);
+  return `Batch cooking: cook some lunches or dinners in a bigger batch and eat the extra portions at later meals within ${MAX_LEFTOVER_AGE_DAYS} days. ` +
+    'Give a meal cooked in a batch "servings" set to the number of portions cooked, keeping its ingredients for one serving. ' +
+    'Give each meal eaten from a batch "leftovers_from": { "day": <day it was cooked>, "name": "<its exact name>" } and repeat its recipe, ingredients and macros; these do not count as repeated meals.' +
+    (options ? ` Earlier meals that can still be eaten as leftovers: ${options}.` : '');
+};
+
+// Helper function to build the messages for one chunk of days
+const buildChunkMessages = ({ prompts, preferences, avoidRules, nutritionTargets, pantryItems, history, startDate, portions, spent, plannedDays, firstDay, lastDay, previousMealNames }) =>
+  renderPrompt(prompts.days, {
+    dayRange: firstDay === lastDay ? `day ${firstDay}` : `days ${firstDay} to ${lastDay}`,
+    totalDays: preferences.total_days,
+    dietType: preferences.diet_type,
+    mealsPerDay: preferences.meals_per_day,
+    avoid: formatRulesForPrompt(avoidRules) || 'none',
+    cuisines: preferences.preferred_cuisines?.join(', ') || 'any',
+    includeSnacks: preferences.include_snacks ? 'Yes' : 'No',
+    nutritionTargets: formatTargetsForPrompt(nutritionTargets),
+    repeatRule: previousMealNames.length
+      ? `Do not repeat meals already planned for earlier days: ${previousMealNames.join(', ')}.`
+      : '',
+    variety: formatVarietyForPrompt(history),
+    cookingLimits: formatCookingLimitsForPrompt(preferences, { startDate, firstDay, lastDay }),
+    pantry: pantryItems.length
+      ? `Already in the user's pantry: ${formatPantryForPrompt(pantryItems)}. Build meals around these where they fit, using items with the earliest use-by date first.`
+      : '',
+    budget: formatBudgetForPrompt({ preferences, spent, firstDay, portions }),
+    leftovers: formatLeftoversForPrompt({ preferences, plannedDays, firstDay }),
+    firstDay
+  });
+
+// Helper function to generate one chunk of days, repairing invalid output
+const generateChunk = async (llm, context, { firstDay, count, previousMealNames, plannedDays, spent }) => {
+  const { preferences } = context;
+  let validationErrors = [];
+
+  const messages = buildChunkMessages({ ...context, firstDay, lastDay: firstDay + count - 1, previousMealNames, plannedDays, spent });
+
+  // Ask the model, then send validation errors back for a bounded number of repairs
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const content = await llm.complete(messages);
+
+    let candidate;
+    try {
+      candidate = parseModelJson(content);
+    } catch (parseError) {
+      validationErrors = [`Response is not valid JSON: ${parseError.message}`];
+    }
+
+    if (candidate !== undefined) {
+      const validation = validateMealPlan(candidate, {
+        totalDays: count,
+        mealsPerDay: preferences.meals_per_day,
+        firstDay
+      });
+      validationErrors = validation.errors;
+      if (validation.success) {
+        return {
+          days: validation.data.days,
+          path: attempt === 0 ? 'ai' : 'ai_repaired',
+          repairAttempts: attempt,
+          validationErrors: []
+        };
+      }
+    }
+
+    console.error(`Days ${firstDay}-${firstDay + count - 1} failed validation (attempt ${attempt + 1}):`, validationErrors);
+    messages.push(
+      { role: 'assistant', content },
+      { role: 'user', content: buildRepairPrompt(validationErrors) }
+    );
+  }
+
+  const error = new Error(`Meal plan still invalid after ${MAX_REPAIR_ATTEMPTS} repair attempts`);
+  error.validationErrors = validationErrors;
+  throw error;
+};
+
+// Generate the plan chunk by chunk, yielding each finished day as soon as its
+// chunk has been validated and checked against the avoid rules. The estimated
+// spend so far is passed to later chunks so the plan keeps to its budget.
+// Meals can take leftovers from earlier chunks, so a batch's servings may grow
+// after its day has been yielded.
+export async function* generatePlanDays({
+  llm,
+  prompts,
+  preferences,
+  nutritionTargets,
+  avoidRules,
+  pantryItems = [],
+  priceLookup = new Map(),
+  history = EMPTY_VARIETY_HISTORY,
+  startDate = todayIsoDate(),
+  portions = 1
+}) {
+  const context = { prompts, preferences, nutritionTargets, avoidRules, pantryItems, history, startDate, portions };
+  const recipeUsage = {};
+  const previousMealNames = [];
+  const plannedDays = [];
+  let spent = 0;
+
+  for (let firstDay = 1; firstDay <= preferences.total_days; firstDay += DAYS_PER_CHUNK) {
+    const count = Math.min(DAYS_PER_CHUNK, preferences.total_days - firstDay + 1);
+    let chunk;
+
+    if (!llm) {
+      chunk = { path: 'fallback', fallbackReason: 'no_provider', repairAttempts: 0, validationErrors: [] };
+    } else {
+      try {
+        chunk = await generateChunk(llm, context, { firstDay, count, previousMealNames, plannedDays, spent });
+      } catch (aiError) {
+        console.error(`Error generating days ${firstDay}-${firstDay + count - 1}, using fallback:`, aiError);
+        chunk = {
+          path: 'fallback',
+          fallbackReason: aiError.validationErrors ? 'validation_failed' : 'ai_error',
+          repairAttempts: aiError.validationErrors ? MAX_REPAIR_ATTEMPTS : 0,
+          validationErrors: aiError.validationErrors ?? []
+        };
+      }
+    }
+
+    if (chunk.path === 'fallback') {
+      chunk.days = buildRecipeBankDays(preferences, { avoidRules, pantryItems, history, startDate, firstDay, count, usage: recipeUsage });
+    }
+
+    // Check every meal against allergies and foods to avoid
+    const chunkPlan = { days: chunk.days };
+    const violations = await enforceAvoidRules(chunkPlan, avoidRules, {
+      llm: chunk.path === 'fallback' ? null : llm,
+      prompts,
+      nutritionTargets,
+      preferences
+    });
+
+    // Then keep to the cooking limits and the variety rules where the recipe bank allows
+    const substituteContext = { history, plannedDays, preferences, avoidRules, pantryItems, usage: recipeUsage, startDate };
+    const limitSwaps = enforceCookingLimits(chunkPlan, substituteContext);
+    const varietySwaps = enforceVariety(chunkPlan, substituteContext);
+    if (limitSwaps || varietySwaps) {
+      console.error(`Swapped ${limitSwaps} meals for cooking limits and ${varietySwaps} for variety in days ${firstDay}-${firstDay + count - 1}`);
+    }
+
+    // Link leftovers once the meals they come from are known to be safe
+    if (chunk.path === 'fallback' && preferences.batch_cooking) {
+      planDinnerLeftovers(chunkPlan.days, plannedDays);
+    } else {
+      linkLeftovers([...plannedDays, ...chunkPlan.days]);
+    }
+
+    for (const day of chunkPlan.days) {
+      // Every view reads the calendar date from the day itself
+      day.date = planDayDate(startDate, day.day);
+      plannedDays.push(day);
+      previousMealNames.push(...day.meals.map((meal) => meal.name));
+      spent += day.meals.reduce((sum, meal) => sum + estimateCookedCost(meal, priceLookup, portions).cost, 0);
+      yield {
+        day,
+        violations: violations.filter((v) => v.day === day.day),
+        chunk: {
+          firstDay,
+          count,
+          path: chunk.path,
+          fallbackReason: chunk.fallbackReason ?? null,
+          repairAttempts: chunk.repairAttempts,
+          validationErrors: chunk.validationErrors
+        }
+      };
+    }
+  }
+}
+
+// Overall generation path across all chunks
+export const summarizeGeneration = (chunks) => {
+  const paths = new Set(chunks.map((chunk) => chunk.path));
+  let path = 'ai';
+  if (paths.size === 1 && paths.has('fallback')) path = 'fallback';
+  else if (paths.has('fallback')) path = 'mixed';
+  else if (paths.has('ai_repaired')) path = 'ai_repaired';
+
+  return {
+    path,
+    fallbackReason: chunks.find((chunk) => chunk.fallbackReason)?.fallbackReason ?? null,
+    repairAttempts: chunks.reduce((sum, chunk) => sum + chunk.repairAttempts, 0),
+    validationErrors: chunks.flatMap((chunk) => chunk.validationErrors),
+    chunks
+  };
+};
+
+// Generate a plan for the user's job, calling onDay as each day is ready, and save it
+export const generateAndSaveMealPlan = async ({ supabaseAdmin, user, jobId, preferences: userPreferences, onDay = (_event) => {} }) => {
+  // Compute calorie and macro targets from the user's profile
+  const { data: profile, error: profileError } = await supabaseAdmin
+    .from('user_profiles')
+    .select('full_name, date_of_birth, gender, height_cm, weight_kg, fitness_goal, activity_level, time_zone, language')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (profileError) {
+    console.error('Error loading user profile, using default targets:', profileError);
+  }
+
+  const nutritionTargets = calculateNutritionTargets(profile);
+
+  // Meals have to suit everyone in the household and are cooked for all of them
+  const members = await loadHouseholdMembers(supabaseAdmin, user.id);
+  const preferences = combineHouseholdPreferences(userPreferences, members);
+  const household = buildHousehold({ name: profile?.full_name, calories: nutritionTargets.calories }, members);
+  const portions = household?.portions ?? 1;
+
+  const avoidRules = buildAvoidRules({
+    allergies: preferences.allergies,
+    foodsToAvoid: preferences.foods_to_avoid
+  });
+
+  // The user's date today, for pantry expiry and jobs queued without a start date
+  const today = todayIsoDate(new Date(), profile?.time_zone);
+
+  // Ingredients on hand are offered to the model and preferred by the recipe bank
+  const pantryItems = await loadPantryItems(supabaseAdmin, user.id, today);
+  const priceLookup = await loadPriceLookup(supabaseAdmin, user.id, preferences.currency);
+  // Dishes from recent plans and disliked ones are kept out of the new plan
+  const history = await loadVarietyHistory(supabaseAdmin, user.id);
+
+  // Generate meal plan (try the configured LLM first, fallback to local generation)
+  const llm = createLlmProvider();
+  if (!llm) {
+    console.error('No LLM provider configured, using fallback meal plan');
+  }
+
+  // Seeding with the job id keeps a retried job on the same prompt versions
+  const prompts = {
+    days: selectPrompt('meal-plan-days', { seed: jobId }),
+    replacements: selectPrompt('meal-replacements', { seed: jobId }),
+    translate: selectPrompt('translate-meals', { seed: jobId })
+  };
+  // Days are generated in English and translated once the plan is complete
+  const language = normalizeLanguage(profile?.language);
+  const translating = Boolean(llm) && language !== DEFAULT_LANGUAGE;
+
+  // Day 1 is the start date chosen when the job was created; jobs queued before
+  // start dates were stored begin today. Weekday limits depend on the dates.
+  const weekStartDate = preferences.start_date ?? today;
+
+  const days = [];
+  const allergenViolations = [];
+  const chunks = [];
+  const planDays = generatePlanDays({
+    llm,
+    prompts,
+    preferences,
+    nutritionTargets,
+    avoidRules,
+    pantryItems,
+    priceLookup,
+    history,
+    startDate: weekStartDate,
+    portions
+  });
+  for await (const result of planDays) {
+    days.push(result.day);
+    allergenViolations.push(...result.violations);
+    if (!chunks.some((chunk) => chunk.firstDay === result.chunk.firstDay)) {
+      chunks.push(result.chunk);
+    }
+    await onDay({ day: result.day, index: days.length - 1, total: preferences.total_days });
+  }
+
+  const generation = {
+    ...summarizeGeneration(chunks),
+    llm: describeProvider(llm),
+    prompts: {
+      days: promptId(prompts.days),
+      replacements: promptId(prompts.replacements),
+      ...(translating ? { translate: promptId(prompts.translate) } : {})
+    }
+  };
+  const planData = generation.path === 'fallback' ? { source: 'recipe_bank', days } : { days };
+  if (household) planData.household = household;
+
+  if (allergenViolations.length) {
+    console.error(`Resolved ${allergenViolations.length} allergen/avoid-list violations`);
+  }
+
+  const costEstimate = estimatePlanCost(planData.days, priceLookup, {
+    currency: preferences.currency,
+    weeklyBudget: preferences.weekly_budget,
+    totalDays: preferences.total_days,
+    portions
+  });
+  if (costEstimate.over_budget) {
+    console.error(`Plan estimated at ${costEstimate.total} ${costEstimate.currency}, over its budget of ${costEstimate.budget}`);
+  }
+
+  const variety = scoreVariety(planData.days, history);
+  if (variety.repeated || variety.recent) {
+    console.error(`Plan repeats ${variety.repeated} dishes and reuses ${variety.recent} recent ones (variety ${variety.score})`);
+  }
+
+  // Cost and variety above are worked out on the English names; the saved plan
+  // and its grocery list are in the user's language
+  if (translating) {
+    await translatePlanDays(llm, prompts.translate, planData.days, language);
+    planData.language = language;
+  }
+
+  // Save the plan and its grocery rows in one transaction; saving the same job
+  // twice returns the plan from the first save
+  const groceryRows = buildGroceryRows(planData.days.flatMap((day) => day.meals), {
+    userId: user.id,
+    weekStartDate,
+    portions
+  });
+  const { data: mealPlan, error: saveError } = await supabaseAdmin.rpc('save_generated_meal_plan', {
+    p_job_id: jobId,
+    p_user_id: user.id,
+    p_meal_plan: {
+      week_start_date: weekStartDate,
+      plan_data: planData,
+      meals_per_day: preferences.meals_per_day,
+      total_days: preferences.total_days,
+      nutrition_targets: nutritionTargets,
+      allergen_violations: allergenViolations,
+      // Plans built only from the recipe bank used no prompt or model
+      prompt_version: llm ? generation.prompts.days : null,
+      model: llm?.model ?? null,
+      generation_params: llm
+        ? {
+          ...generation.llm,
+          prompts: generation.prompts,
+          path: generation.path
+        }
+        : { path: generation.path },
+      cost_estimate: costEstimate,
+      variety_score: variety.score
+    },
+    p_grocery_rows: groceryRows
+  });
+
+  if (saveError) {
+    console.error('Error saving meal plan:', saveError);
+    throw new Error('Failed to save meal plan');
+  }
+
+  return {
+    success: true,
+    mealPlan,
+    planData,
+    nutritionTargets,
+    allergenViolations,
+    costEstimate,
+    generation
+  };
+};
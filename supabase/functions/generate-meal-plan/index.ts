@@ -1,29 +1,34 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  'Access-Control-Allow-Methods': 'POST, OPTIONS'
-};
-
-// Helper function to generate a fallback meal plan
-const generateFallbackMealPlan = (preferences) => {
-  const mealTypes = ['Breakfast', 'Lunch', 'Dinner', 'Snack'];
-  return {
-    days: Array.from({ length: preferences.total_days }, (_, i) => ({
-      day: i + 1,
-      date: new Date(Date.now() + i * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-      meals: Array.from({ length: preferences.meals_per_day }, (_, j) => ({
-        type: mealTypes[j % mealTypes.length],
-        name: `Sample ${mealTypes[j % mealTypes.length]}`,
-        recipe: `A delicious ${preferences.diet_type} ${mealTypes[j % mealTypes.length].toLowerCase()} with healthy ingredients.`,
-        ingredients: ['Sample ingredient 1', 'Sample ingredient 2']
-      }))
-    }))
-  };
-};
+import { corsHeaders } from '../_shared/cors.ts';
+import { loadDietPreferences, resolvePreferences } from '../_shared/preferences.ts';
+import { loadTimeZone, todayIsoDate } from '../_shared/dates.ts';
+import {
+  createGenerationJob,
+  isStaleJob,
+  processGenerationJob,
+  replayGenerationJob,
+  requeueGenerationJob,
+  runGenerationWorker,
+  runInBackground
+} from './jobs.ts';
+import { getQuotaStatus } from './quota.ts';
+
+const encoder = new TextEncoder();
+
+// Helper function to format one server-sent event
+const sseEvent = (event, data) => encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+const jsonResponse = (body, status = 200, headers = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+      ...headers
+    }
+  });
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -39,187 +44,159 @@ serve(async (req) => {
     const supabase = createClient(supabaseUrl, supabaseAnonKey);
     const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
 
+    // Parse request body
+    let requestData;
+    try {
+      requestData = await req.json();
+    } catch (parseError) {
+      console.error('Error parsing request body:', parseError);
+      throw new Error('Invalid request body');
+    }
+    const action = requestData.action ?? 'generate';
+
     // Authentication
     const authHeader = req.headers.get('Authorization');
     if (!authHeader) {
       throw new Error('No authorization header');
     }
+    const token = authHeader.replace('Bearer ', '');
 
-    const { data: { user }, error: authError } = await supabase.auth.getUser(
-      authHeader.replace('Bearer ', '')
-    );
+    // Worker path, called on a schedule with the service role key
+    if (action === 'worker') {
+      if (!Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || token !== supabaseServiceKey) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+      }
+      const summary = await runGenerationWorker(supabaseAdmin);
+      return jsonResponse({ success: true, ...summary });
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
 
     if (authError || !user) {
       console.error('Authentication error:', authError?.message);
       throw new Error('Unauthorized');
     }
 
-    // Parse request body
-    let preferences;
-    try {
-      const requestData = await req.json();
-      preferences = requestData.preferences;
-      if (!preferences) {
-        throw new Error('No preferences provided');
-      }
-    } catch (parseError) {
-      console.error('Error parsing request body:', parseError);
-      throw new Error('Invalid request body');
+    // Remaining generations for the viewer
+    if (action === 'quota') {
+      const quota = await getQuotaStatus(supabaseAdmin, user.id);
+      return jsonResponse({ success: true, quota });
     }
 
-    // Generate meal plan (try OpenRouter first, fallback to local generation)
-    let planData;
-    const openRouterApiKey = Deno.env.get('OPENROUTER_API_KEY');
-    
-    if (!openRouterApiKey) {
-      console.error('OPENROUTER_API_KEY not configured, using fallback meal plan');
-      planData = generateFallbackMealPlan(preferences);
-    } else {
-
-    try {
-      const prompt = `Create a ${preferences.total_days}-day ${preferences.diet_type} meal plan with ${preferences.meals_per_day} meals per day. 
-      Avoid: ${preferences.allergies?.join(', ') || 'none'} and ${preferences.foods_to_avoid?.join(', ') || 'none'}.
-      Preferred cuisines: ${preferences.preferred_cuisines?.join(', ') || 'any'}.
-      Include snacks: ${preferences.include_snacks ? 'Yes' : 'No'}.
-      
-      Output as valid JSON with this exact structure:
-      {
-        "days": [{
-          "day": 1,
-          "date": "2024-01-01",
-          "meals": [{
-            "type": "Breakfast",
-            "name": "Meal Name",
-            "recipe": "Short recipe description",
-            "ingredients": ["ingredient 1", "ingredient 2"]
-          }]
-        }]
-      }`;
-
-      const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${openRouterApiKey}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': 'https://ai-nourish-hub.com',
-          'X-Title': 'AI Nourish Hub'
-        },
-        body: JSON.stringify({
-          model: 'mistralai/mistral-7b-instruct',
-          messages: [
-            { 
-              role: 'system', 
-              content: 'You are a helpful assistant that generates meal plans in valid JSON format.' 
-            },
-            { 
-              role: 'user', 
-              content: prompt + '\n\nIMPORTANT: Return ONLY valid JSON, no other text or markdown.'
-            }
-          ],
-          response_format: { type: "json_object" },
-          temperature: 0.7,
-          max_tokens: 4000
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`OpenRouter API error: ${response.statusText}`);
+    // Retry a failed or stuck job in the background; the client polls its status
+    if (action === 'retry') {
+      const { data: job } = await supabaseAdmin
+        .from('generation_jobs')
+        .select('*')
+        .eq('id', requestData.jobId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (!job) {
+        return jsonResponse({ success: false, error: 'Generation job not found' }, 404);
+      }
+      if (job.status === 'succeeded' || (job.status === 'running' && !isStaleJob(job))) {
+        return jsonResponse({ success: false, error: `Generation job is already ${job.status}` }, 409);
       }
 
-      const aiResponse = await response.json();
-      const content = aiResponse.choices[0].message.content;
-      
-      // Try to extract JSON if it's wrapped in markdown code blocks
-      const jsonMatch = content.match(/```(?:json)?\n([\s\S]*?)\n```/);
-      planData = JSON.parse(jsonMatch ? jsonMatch[1] : content);
+      const queuedJob = await requeueGenerationJob(supabaseAdmin, job);
+      runInBackground(processGenerationJob(supabaseAdmin, queuedJob));
+      return jsonResponse({ success: true, job: queuedJob }, 202);
+    }
 
-    } catch (aiError) {
-      console.error('Error generating AI meal plan, using fallback:', aiError);
-      planData = generateFallbackMealPlan(preferences);
+    // Preferences come from the database; the body may only carry validated overrides
+    if (requestData.preferences) {
+      console.warn('Ignoring preferences in request body; use overrides instead');
     }
+    // Plans start on the user's own date, not the server's
+    const timeZone = await loadTimeZone(supabaseAdmin, user.id, requestData.timeZone);
+    const preferences = resolvePreferences(
+      await loadDietPreferences(supabaseAdmin, user.id),
+      requestData.overrides,
+      todayIsoDate(new Date(), timeZone)
+    );
+
+    // Every generation is tracked as a job so it can be resumed if this request dies
+    // and counts against the user's quota, which is checked in the same transaction
+    const idempotencyKey = req.headers.get('Idempotency-Key') ?? requestData.idempotencyKey ?? null;
+    if (idempotencyKey !== null && (typeof idempotencyKey !== 'string' || !idempotencyKey || idempotencyKey.length > 200)) {
+      return jsonResponse({ success: false, error: 'Invalid idempotency key' }, 400);
     }
 
-    // Save to database using service role to bypass RLS
-    const weekStartDate = new Date().toISOString().split('T')[0];
-    const { data: mealPlan, error: saveError } = await supabaseAdmin
-      .from('meal_plans')
-      .insert({
-        user_id: user.id,
-        week_start_date: weekStartDate,
-        plan_data: planData,
-        meals_per_day: preferences.meals_per_day,
-        total_days: preferences.total_days
-      })
-      .select()
-      .single();
-
-    if (saveError) {
-      console.error('Error saving meal plan:', saveError);
-      throw new Error('Failed to save meal plan');
+    const { job, existing, quota } = await createGenerationJob(supabaseAdmin, {
+      userId: user.id,
+      preferences,
+      idempotencyKey
+    });
+    if (existing) {
+      return jsonResponse(await replayGenerationJob(supabaseAdmin, job));
     }
 
-    // Save ingredients to grocery list
-    try {
-      const ingredients = [];
-      for (const day of planData.days) {
-        for (const meal of day.meals) {
-          if (meal.ingredients?.length) {
-            for (const ingredient of meal.ingredients) {
-              ingredients.push({
-                user_id: user.id,
-                week_start_date: weekStartDate,
-                item_name: ingredient,
-                quantity: '1 unit',
-                is_purchased: false
-              });
+    const runJob = async (options = {}) => {
+      const outcome = await processGenerationJob(supabaseAdmin, job, options);
+      if (!outcome) {
+        // A worker claimed the job first; the client can follow it by polling
+        const error = new Error('Generation continues in the background');
+        error.job = job;
+        throw error;
+      }
+      return outcome;
+    };
+
+    // Stream progress as server-sent events when the client asks for it
+    if (requestData.stream === true) {
+      const body = new ReadableStream({
+        async start(controller) {
+          // The client may go away mid-stream; keep generating so the job still completes
+          const send = (event, data) => {
+            try {
+              controller.enqueue(sseEvent(event, data));
+            } catch (_closedError) {
+              // Stream already closed by the client
+            }
+          };
+
+          try {
+            send('start', { total: preferences.total_days, jobId: job.id, quota });
+            const outcome = await runJob({ onDay: (progress) => send('day', progress) });
+            send('complete', { ...outcome.result, job: outcome.job, quota });
+          } catch (streamError) {
+            console.error('Error during streamed generation:', streamError);
+            send('error', {
+              success: false,
+              error: streamError.message || 'Internal server error',
+              job: streamError.job ?? job
+            });
+          } finally {
+            try {
+              controller.close();
+            } catch (_closedError) {
+              // Stream already closed by the client
             }
           }
         }
-      }
-
-      if (ingredients.length > 0) {
-        const { error: groceryError } = await supabaseAdmin
-          .from('grocery_lists')
-          .insert(ingredients);
-
-        if (groceryError) {
-          console.error('Error saving grocery items:', groceryError);
-          // Don't fail the whole request if grocery list fails
-        }
-      }
-    } catch (groceryError) {
-      console.error('Error processing grocery list:', groceryError);
-      // Continue even if grocery list fails
-    }
+      });
 
-    return new Response(
-      JSON.stringify({
-        success: true,
-        mealPlan,
-        planData
-      }),
-      {
+      return new Response(body, {
         headers: {
           ...corsHeaders,
-          'Content-Type': 'application/json'
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive'
         }
-      }
-    );
+      });
+    }
+
+    const outcome = await runJob();
+    return jsonResponse({ ...outcome.result, job: outcome.job, quota });
 
   } catch (error) {
     console.error('Unhandled error in generate-meal-plan:', error);
-    return new Response(
-      JSON.stringify({
-        success: false,
-        error: error.message || 'Internal server error'
-      }),
-      {
-        status: error.status || 500,
-        headers: {
-          ...corsHeaders,
-          'Content-Type': 'application/json'
-        }
-      }
-    );
+    return jsonResponse({
+      success: false,
+      error: error.message || 'Internal server error',
+      job: error.job,
+      quota: error.quota
+    }, error.status || 500, error.retryAfter ? { 'Retry-After': String(error.retryAfter) } : {});
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,269 @@
+import { generateAndSaveMealPlan } from './generate.ts';
+import { getQuotaLimits, quotaExceededError } from './quota.ts';
+
+// A running job that has not been touched for this long is treated as lost
+const JOB_STALE_AFTER_MS = 10 * 60 * 1000;
+
+// Queued jobs picked up per worker run
+const WORKER_BATCH_SIZE = 3;
+
+const updateJob = async (supabaseAdmin, jobId, changes) => {
+  const { data, error } = await supabaseAdmin
+    .from('generation_jobs')
+    .update(changes)
+    .eq('id', jobId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error(`Error updating generation job ${jobId}:`, error);
+    throw new Error('Failed to update generation job');
+  }
+  return data;
+};
+
+export const isStaleJob = (job) =>
+  job.status === 'running' && Date.now() - new Date(job.updated_at).getTime() > JOB_STALE_AFTER_MS;
+
+// Create a job if the user is within their generation quota; throws a 429 error otherwise
+// A repeated idempotency key returns the existing job with existing: true.
+export const createGenerationJob = async (supabaseAdmin, { userId, preferences, idempotencyKey = null, limits = getQuotaLimits() }) => {
+  const { data: outcome, error } = await supabaseAdmin.rpc('enqueue_generation_job', {
+    p_user_id: userId,
+    p_preferences: preferences,
+    p_daily_limit: limits.dailyLimit,
+    p_min_interval_seconds: limits.minIntervalSeconds,
+    p_idempotency_key: idempotencyKey
+  });
+
+  if (error) {
+    console.error('Error creating generation job:', error);
+    throw new Error('Failed to queue meal plan generation');
+  }
+  if (!outcome.allowed) {
+    throw quotaExceededError(outcome);
+  }
+  if (outcome.existing) {
+    return { job: outcome.job, existing: true, quota: null };
+  }
+
+  return {
+    job: outcome.job,
+    existing: false,
+    quota: {
+      limit: outcome.limit,
+      used: outcome.used,
+      remaining: Math.max(0, outcome.limit - outcome.used),
+      retry_after: limits.minIntervalSeconds
+    }
+  };
+};
+
+// Mark a queued job as running. Returns null when another worker claimed it first.
+const claimJob = async (supabaseAdmin, job) => {
+  const { data, error } = await supabaseAdmin
+    .from('generation_jobs')
+    .update({
+      status: 'running',
+      attempts: job.attempts + 1,
+      days_completed: 0,
+      started_at: new Date().toISOString(),
+      finished_at: null
+    })
+    .eq('id', job.id)
+    .eq('status', 'queued')
+    .eq('attempts', job.attempts)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error claiming generation job ${job.id}:`, error);
+    throw new Error('Failed to start generation job');
+  }
+  return data;
+};
+
+// Run one queued job. A failed attempt puts the job back in the queue until
+// max_attempts is reached; the thrown error carries the updated job.
+export const processGenerationJob = async (supabaseAdmin, job, { onDay = (_event) => {} } = {}) => {
+  const claimed = await claimJob(supabaseAdmin, job);
+  if (!claimed) return null;
+
+  try {
+    const result = await generateAndSaveMealPlan({
+      supabaseAdmin,
+      user: { id: claimed.user_id },
+      jobId: claimed.id,
+      preferences: claimed.preferences,
+      onDay: async (event) => {
+        // Progress writes also refresh updated_at, which keeps the job from looking stale
+        const { error } = await supabaseAdmin
+          .from('generation_jobs')
+          .update({ days_completed: event.index + 1 })
+          .eq('id', claimed.id);
+        if (error) console.error('Error recording generation progress:', error);
+        await onDay(event);
+      }
+    });
+
+    const finished = await updateJob(supabaseAdmin, claimed.id, {
+      status: 'succeeded',
+      meal_plan_id: result.mealPlan.id,
+      days_completed: result.planData.days.length,
+      error: null,
+      finished_at: new Date().toISOString()
+    });
+    return { job: finished, result };
+  } catch (error) {
+    console.error(`Generation job ${claimed.id} failed (attempt ${claimed.attempts}):`, error);
+    const willRetry = claimed.attempts < claimed.max_attempts;
+    try {
+      error.job = await updateJob(supabaseAdmin, claimed.id, {
+        status: willRetry ? 'queued' : 'failed',
+        error: error.message || 'Meal plan generation failed',
+        finished_at: willRetry ? null : new Date().toISOString()
+      });
+    } catch (updateError) {
+      console.error('Error recording generation failure:', updateError);
+    }
+    throw error;
+  }
+};
+
+// Put running jobs whose worker disappeared back in the queue, or fail them
+// once they are out of attempts
+const recoverStaleJobs = async (supabaseAdmin) => {
+  const cutoff = new Date(Date.now() - JOB_STALE_AFTER_MS).toISOString();
+  const { data: staleJobs, error } = await supabaseAdmin
+    .from('generation_jobs')
+    .select('*')
+    .eq('status', 'running')
+    .lt('updated_at', cutoff);
+
+  if (error) {
+    console.error('Error loading stale generation jobs:', error);
+    return 0;
+  }
+
+  for (const job of staleJobs ?? []) {
+    const willRetry = job.attempts < job.max_attempts;
+    const { error: recoverError } = await supabaseAdmin
+      .from('generation_jobs')
+      .update({
+        status: willRetry ? 'queued' : 'failed',
+        error: 'Generation was interrupted',
+        finished_at: willRetry ? null : new Date().toISOString()
+      })
+      .eq('id', job.id)
+      .eq('status', 'running');
+    if (recoverError) console.error(`Error recovering generation job ${job.id}:`, recoverError);
+  }
+  return staleJobs?.length ?? 0;
+};
+
+// Worker path: recover lost jobs, then process the oldest queued ones
+export const runGenerationWorker = async (supabaseAdmin, { limit = WORKER_BATCH_SIZE } = {}) => {
+  const recovered = await recoverStaleJobs(supabaseAdmin);
+
+  const { data: queuedJobs, error } = await supabaseAdmin
+    .from('generation_jobs')
+    .select('*')
+    .eq('status', 'queued')
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error loading queued generation jobs:', error);
+    throw new Error('Failed to load queued generation jobs');
+  }
+
+  const processed = [];
+  for (const job of queuedJobs ?? []) {
+    try {
+      const outcome = await processGenerationJob(supabaseAdmin, job);
+      if (outcome) processed.push({ id: job.id, status: outcome.job.status });
+    } catch (jobError) {
+      processed.push({ id: job.id, status: jobError.job?.status ?? 'failed', error: jobError.message });
+    }
+  }
+
+  return { recovered, processed };
+};
+
+// Response for a repeated request: the saved plan when the job succeeded,
+// otherwise a 409 error carrying the job so the client can follow or retry it
+export const replayGenerationJob = async (supabaseAdmin, job) => {
+  if (job.status === 'succeeded' && job.meal_plan_id) {
+    const { data: mealPlan, error } = await supabaseAdmin
+      .from('meal_plans')
+      .select('*')
+      .eq('id', job.meal_plan_id)
+      .single();
+
+    if (error) {
+      console.error(`Error loading meal plan for generation job ${job.id}:`, error);
+      throw new Error('Failed to load meal plan');
+    }
+    return {
+      success: true,
+      replayed: true,
+      mealPlan,
+      planData: mealPlan.plan_data,
+      nutritionTargets: mealPlan.nutrition_targets,
+      allergenViolations: mealPlan.allergen_violations,
+      costEstimate: mealPlan.cost_estimate,
+      job
+    };
+  }
+
+  const error = new Error(`A generation with this idempotency key is already ${job.status}`);
+  error.status = 409;
+  error.job = job;
+  throw error;
+};
+
+// Put a failed or stuck job back in the queue with a fresh set of attempts.
+// Each job can be retried maxRetries times; throws a 429 error after that.
+export const requeueGenerationJob = async (supabaseAdmin, job, limits = getQuotaLimits()) => {
+  if (job.retries >= limits.maxRetries) {
+    const error = new Error(`This generation was already retried ${job.retries} times; start a new one instead`);
+    error.status = 429;
+    error.job = job;
+    throw error;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('generation_jobs')
+    .update({
+      status: 'queued',
+      attempts: 0,
+      retries: job.retries + 1,
+      days_completed: 0,
+      error: null,
+      started_at: null,
+      finished_at: null
+    })
+    .eq('id', job.id)
+    // Another request already retried it
+    .eq('retries', job.retries)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error requeueing generation job ${job.id}:`, error);
+    throw new Error('Failed to update generation job');
+  }
+  if (!data) {
+    const conflict = new Error('Generation job is already being retried');
+    conflict.status = 409;
+    conflict.job = job;
+    throw conflict;
+  }
+  return data;
+};
+
+// Keep work running after the response is sent when the runtime allows it
+export const runInBackground = (promise) => {
+  const handled = promise.catch((error) => console.error('Background generation job failed:', error));
+  globalThis.EdgeRuntime?.waitUntil?.(handled);
+};
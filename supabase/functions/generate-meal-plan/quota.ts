@@ -0,0 +1,72 @@
+// Per-user generation quotas, configured with env vars:
+//
+//   GENERATION_DAILY_LIMIT            generations per user in any 24 hours (default 5)
+//   GENERATION_MIN_INTERVAL_SECONDS   minimum gap between two generations (default 60)
+//   GENERATION_MAX_RETRIES            times one failed job can be retried (default 2)
+//
+// Usage is counted from generation_jobs; enqueue_generation_job checks the
+// limits and creates the job atomically. Retries reuse their job, so they are
+// capped per job instead of counted.
+
+const DEFAULT_DAILY_LIMIT = 5;
+const DEFAULT_MIN_INTERVAL_SECONDS = 60;
+const DEFAULT_MAX_RETRIES = 2;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const readLimit = (value, fallback) => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+export const getQuotaLimits = (env = Deno.env) => ({
+  dailyLimit: Math.max(1, readLimit(env.get('GENERATION_DAILY_LIMIT'), DEFAULT_DAILY_LIMIT)),
+  minIntervalSeconds: readLimit(env.get('GENERATION_MIN_INTERVAL_SECONDS'), DEFAULT_MIN_INTERVAL_SECONDS),
+  maxRetries: readLimit(env.get('GENERATION_MAX_RETRIES'), DEFAULT_MAX_RETRIES)
+});
+
+// Current usage for display; the authoritative check happens in enqueue_generation_job
+export const getQuotaStatus = async (supabaseAdmin, userId, limits = getQuotaLimits()) => {
+  const { data: jobs, error } = await supabaseAdmin
+    .from('generation_jobs')
+    .select('created_at')
+    .eq('user_id', userId)
+    .gt('created_at', new Date(Date.now() - DAY_MS).toISOString())
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error loading generation quota:', error);
+    throw new Error('Failed to load generation quota');
+  }
+
+  const used = jobs.length;
+  const now = Date.now();
+  let retryAfter = 0;
+
+  if (used > 0) {
+    const latest = new Date(jobs[used - 1].created_at).getTime();
+    retryAfter = Math.max(retryAfter, Math.ceil((latest + limits.minIntervalSeconds * 1000 - now) / 1000));
+  }
+  if (used >= limits.dailyLimit) {
+    const freedAt = new Date(jobs[used - limits.dailyLimit].created_at).getTime() + DAY_MS;
+    retryAfter = Math.max(retryAfter, Math.ceil((freedAt - now) / 1000));
+  }
+
+  return {
+    limit: limits.dailyLimit,
+    used,
+    remaining: Math.max(0, limits.dailyLimit - used),
+    retry_after: Math.max(0, retryAfter)
+  };
+};
+
+export const quotaExceededError = ({ used, limit, retry_after }) => {
+  const error = new Error(
+    used >= limit
+      ? `Daily limit of ${limit} meal plan generations reached`
+      : 'Please wait before generating another meal plan'
+  );
+  error.status = 429;
+  error.retryAfter = retry_after;
+  error.quota = { limit, used, remaining: Math.max(0, limit - used), retry_after };
+  return error;
+};
@@ -0,0 +1,116 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { loadTimeZone } from '../_shared/dates.ts';
+import { loadLanguage } from '../_shared/language.ts';
+import { buildReminderRows } from '../_shared/reminders.ts';
+
+const jsonResponse = (body, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json'
+    }
+  });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? supabaseAnonKey;
+
+    const supabase = createClient(supabaseUrl, supabaseAnonKey);
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Authentication
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: 'No authorization header' }, 401);
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+
+    if (authError || !user) {
+      console.error('Authentication error:', authError?.message);
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    // Parse request body
+    let mealPlanId, requestTimeZone;
+    try {
+      ({ mealPlanId, timeZone: requestTimeZone } = await req.json());
+    } catch (parseError) {
+      console.error('Error parsing request body:', parseError);
+      return jsonResponse({ success: false, error: 'Invalid request body' }, 400);
+    }
+
+    if (!mealPlanId) {
+      return jsonResponse({ success: false, error: 'mealPlanId is required' }, 400);
+    }
+
+    // Load the plan, the user's meal times, their time zone and language
+    const [
+      { data: mealPlan, error: planError },
+      { data: preferences },
+      timeZone,
+      language
+    ] = await Promise.all([
+      supabaseAdmin
+        .from('meal_plans')
+        .select('id, week_start_date, plan_data')
+        .eq('id', mealPlanId)
+        .eq('user_id', user.id)
+        .maybeSingle(),
+      supabaseAdmin.from('diet_preferences').select('meal_times, reminder_tone').eq('user_id', user.id).maybeSingle(),
+      loadTimeZone(supabaseAdmin, user.id, requestTimeZone),
+      loadLanguage(supabaseAdmin, user.id)
+    ]);
+
+    if (planError || !mealPlan) {
+      return jsonResponse({ success: false, error: 'Meal plan not found' }, 404);
+    }
+    if (!mealPlan.week_start_date) {
+      return jsonResponse({ success: false, error: 'Meal plan is missing its start date' }, 422);
+    }
+
+    const rows = buildReminderRows(mealPlan, {
+      userId: user.id,
+      mealTimes: preferences?.meal_times,
+      tone: preferences?.reminder_tone || 'motivational',
+      timeZone,
+      language
+    });
+
+    // Scheduling again replaces the plan's pending reminders instead of doubling them
+    const { error: deleteError } = await supabaseAdmin
+      .from('notifications')
+      .delete()
+      .eq('meal_plan_id', mealPlan.id)
+      .eq('is_sent', false);
+    if (deleteError) {
+      console.error('Error removing pending reminders:', deleteError);
+      throw new Error('Failed to schedule reminders');
+    }
+
+    if (rows.length) {
+      const { error: insertError } = await supabaseAdmin.from('notifications').insert(rows);
+      if (insertError) {
+        console.error('Error saving reminders:', insertError);
+        throw new Error('Failed to schedule reminders');
+      }
+    }
+
+    return jsonResponse({ success: true, count: rows.length, timeZone });
+
+  } catch (error) {
+    console.error('Unhandled error in schedule-reminders:', error);
+    return jsonResponse({ success: false, error: error.message || 'Internal server error' }, error.status || 500);
+  }
+});
@@ -0,0 +1,301 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { calculateNutritionTargets, formatTargetsForPrompt } from '../_shared/nutrition.ts';
+import { mealSchema, parseModelJson } from '../_shared/meal-plan-schema.ts';
+import { buildAvoidRules, findMealViolations, formatRulesForPrompt } from '../_shared/allergens.ts';
+import { createLlmProvider } from '../_shared/llm.ts';
+import { pickRecipe, recipeToMeal } from '../_shared/recipe-bank.ts';
+import { buildGroceryRows } from '../_shared/grocery.ts';
+import { combineHouseholdPreferences, loadHouseholdMembers, planPortions } from '../_shared/household.ts';
+import { renderPrompt, selectPrompt } from '../_shared/prompts.ts';
+import { replaceMeal } from '../_shared/leftovers.ts';
+import { normalizeLanguage, translateMeals } from '../_shared/language.ts';
+import { cookingLimitFor, fitsCookingLimit, formatCookingLimit, normalizeCookingLimits } from '../_shared/cooking.ts';
+
+// How many times the model is asked for a usable replacement before using the recipe bank
+const MAX_SWAP_ATTEMPTS = 2;
+
+// Swaps per user in any 24 hours, set with SWAP_DAILY_LIMIT
+const DEFAULT_SWAP_DAILY_LIMIT = 20;
+
+const swapDailyLimit = () => {
+  const parsed = Number(Deno.env.get('SWAP_DAILY_LIMIT'));
+  return Number.isInteger(parsed) && parsed >= 1 ? parsed : DEFAULT_SWAP_DAILY_LIMIT;
+};
+
+const jsonResponse = (body, status = 200, headers = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+      ...headers
+    }
+  });
+
+// Amounts come back from numeric columns, so they are compared with some tolerance
+const isSameGroceryRow = (stored, built) =>
+  stored.item_name === built.item_name &&
+  (stored.unit ?? null) === (built.unit ?? null) &&
+  (stored.amount === null || built.amount === null
+    ? stored.amount === built.amount
+    : Math.abs(Number(stored.amount) - built.amount) < 0.001);
+
+const swapLimitResponse = (quota) =>
+  jsonResponse(
+    { success: false, error: `Daily limit of ${quota.limit} meal swaps reached`, quota },
+    429,
+    { 'Retry-After': String(quota.retry_after) }
+  );
+
+// Helper function to ask the model for one replacement meal
+const requestReplacementMeal = async (llm, { currentMeal, weekMealNames, preferences, avoidRules, nutritionTargets, mealsPerDay, cookingLimit }) => {
+  const targetCalories = Math.round(
+    Number(currentMeal.macros?.calories) || nutritionTargets.calories / Math.max(1, mealsPerDay)
+  );
+
+  const content = await llm.complete(renderPrompt(selectPrompt('swap-meal'), {
+    dietType: preferences.diet_type,
+    mealType: currentMeal.type.toLowerCase(),
+    mealName: currentMeal.name_en ?? currentMeal.name,
+    avoid: formatRulesForPrompt(avoidRules) || 'none',
+    cuisines: preferences.preferred_cuisines?.join(', ') || 'any',
+    weekMealNames: weekMealNames.join(', '),
+    targetCalories,
+    cookingLimit: cookingLimit ? `Keep it to ${formatCookingLimit(cookingLimit)}.` : '',
+    nutritionTargets: formatTargetsForPrompt(nutritionTargets)
+  }));
+  return parseModelJson(content)?.meal;
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? supabaseAnonKey;
+
+    const supabase = createClient(supabaseUrl, supabaseAnonKey);
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Authentication
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: 'No authorization header' }, 401);
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+
+    if (authError || !user) {
+      console.error('Authentication error:', authError?.message);
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    // Parse request body
+    let mealPlanId, dayIndex, mealIndex;
+    try {
+      ({ mealPlanId, dayIndex, mealIndex } = await req.json());
+    } catch (parseError) {
+      console.error('Error parsing request body:', parseError);
+      return jsonResponse({ success: false, error: 'Invalid request body' }, 400);
+    }
+
+    if (!mealPlanId || !Number.isInteger(dayIndex) || !Number.isInteger(mealIndex)) {
+      return jsonResponse({ success: false, error: 'mealPlanId, dayIndex and mealIndex are required' }, 400);
+    }
+
+    // Load the plan and the user's preferences
+    const [
+      { data: mealPlan, error: planError },
+      { data: preferences },
+      { data: profile }
+    ] = await Promise.all([
+      supabaseAdmin.from('meal_plans').select('*').eq('id', mealPlanId).eq('user_id', user.id).maybeSingle(),
+      supabaseAdmin.from('diet_preferences').select('*').eq('user_id', user.id).maybeSingle(),
+      supabaseAdmin
+        .from('user_profiles')
+        .select('date_of_birth, gender, height_cm, weight_kg, fitness_goal, activity_level')
+        .eq('user_id', user.id)
+        .maybeSingle()
+    ]);
+
+    if (planError || !mealPlan) {
+      return jsonResponse({ success: false, error: 'Meal plan not found' }, 404);
+    }
+
+    const planData = mealPlan.plan_data;
+    const currentMeal = planData?.days?.[dayIndex]?.meals?.[mealIndex];
+    if (!currentMeal) {
+      return jsonResponse({ success: false, error: 'Meal not found in this plan' }, 404);
+    }
+
+    // Saved swaps count against the daily swap limit. It is checked here before
+    // any work, then again when the swap is saved, which is when it is recorded.
+    const dailyLimit = swapDailyLimit();
+    const { data: swapQuota, error: swapQuotaError } = await supabaseAdmin.rpc('meal_swap_quota', {
+      p_user_id: user.id,
+      p_daily_limit: dailyLimit
+    });
+    if (swapQuotaError) {
+      console.error('Error checking the swap limit:', swapQuotaError);
+      throw new Error('Failed to check the swap limit');
+    }
+    if (!swapQuota.allowed) {
+      return swapLimitResponse(swapQuota);
+    }
+
+    // The replacement has to suit everyone in the household
+    const dietPreferences = combineHouseholdPreferences(preferences ?? {}, await loadHouseholdMembers(supabaseAdmin, user.id));
+    const portions = planPortions(planData);
+    const nutritionTargets = mealPlan.nutrition_targets ?? calculateNutritionTargets(profile);
+    const avoidRules = buildAvoidRules({
+      allergies: dietPreferences.allergies,
+      foodsToAvoid: dietPreferences.foods_to_avoid
+    });
+    const cookingLimit = cookingLimitFor({
+      cooking_limits: normalizeCookingLimits(dietPreferences.cooking_limits),
+      weekend_long_recipes: Boolean(dietPreferences.weekend_long_recipes)
+    }, {
+      startDate: mealPlan.week_start_date,
+      day: planData.days[dayIndex].day,
+      mealType: currentMeal.type
+    });
+    // Translated plans keep the English names the replacement is generated against
+    const weekMealNames = planData.days.flatMap((day) => day.meals.map((meal) => meal.name_en ?? meal.name));
+    const isDuplicate = (name) =>
+      weekMealNames.some((existing) => existing.toLowerCase() === String(name).toLowerCase());
+
+    // Try the model first, then fall back to the recipe bank
+    let newMeal = null;
+    let source = 'recipe_bank';
+    const llm = createLlmProvider();
+
+    for (let attempt = 0; llm && !newMeal && attempt < MAX_SWAP_ATTEMPTS; attempt++) {
+      try {
+        const candidate = await requestReplacementMeal(llm, {
+          currentMeal,
+          weekMealNames,
+          preferences: dietPreferences,
+          avoidRules,
+          nutritionTargets,
+          mealsPerDay: mealPlan.meals_per_day,
+          cookingLimit
+        });
+        const parsed = mealSchema.safeParse({ ...candidate, type: currentMeal.type });
+        if (!parsed.success) {
+          console.error('Replacement meal failed validation:', parsed.error.issues);
+        } else if (isDuplicate(parsed.data.name)) {
+          console.error('Replacement meal duplicates the plan:', parsed.data.name);
+        } else if (findMealViolations(parsed.data, avoidRules).length) {
+          console.error('Replacement meal breaks dietary restrictions:', parsed.data.name);
+        } else if (!fitsCookingLimit(parsed.data, cookingLimit)) {
+          console.error('Replacement meal is over the cooking limit:', parsed.data.name);
+        } else {
+          newMeal = parsed.data;
+          source = 'ai';
+        }
+      } catch (aiError) {
+        console.error('Error requesting replacement meal:', aiError);
+      }
+    }
+
+    if (!newMeal) {
+      const recipe = pickRecipe(currentMeal.type, {
+        dietType: dietPreferences.diet_type,
+        allergies: dietPreferences.allergies ?? [],
+        preferredCuisines: dietPreferences.preferred_cuisines ?? [],
+        avoidRules,
+        exclude: weekMealNames,
+        cookingLimit,
+        offset: dayIndex + mealIndex
+      });
+      if (!recipe || isDuplicate(recipe.name)) {
+        return jsonResponse({ success: false, error: 'No alternative meal found that fits your preferences' }, 422);
+      }
+      newMeal = recipeToMeal(recipe, currentMeal.type);
+    }
+
+    // The replacement is in English; a translated plan gets it in the plan's language
+    [newMeal] = await translateMeals(llm, selectPrompt('translate-meals'), [newMeal], normalizeLanguage(planData.language));
+
+    // Update plan_data in place, moving any leftovers of the old meal onto the new one
+    const { before, after } = replaceMeal(planData.days, dayIndex, mealIndex, newMeal);
+    newMeal = planData.days[dayIndex].meals[mealIndex];
+
+    // Swap the changed meals' ingredients on the grocery list, leaving purchased items alone
+    const { data: groceryRows, error: groceryError } = await supabaseAdmin
+      .from('grocery_lists')
+      .select('id, item_name, amount, unit')
+      .eq('user_id', user.id)
+      // Rows saved before grocery items were linked to their plan only carry the week
+      .or(`meal_plan_id.eq.${mealPlan.id},and(meal_plan_id.is.null,week_start_date.eq.${mealPlan.week_start_date})`)
+      .eq('is_purchased', false);
+
+    if (groceryError) {
+      console.error('Error loading grocery list:', groceryError);
+      throw new Error('Failed to load grocery list');
+    }
+
+    const removableIds = [];
+    const available = [...(groceryRows ?? [])];
+    const oldRows = buildGroceryRows(before, {
+      userId: user.id,
+      weekStartDate: mealPlan.week_start_date,
+      portions
+    });
+    // Other meals can need the same item, so a row only belongs to the old meal
+    // when its amount and unit match too
+    for (const oldRow of oldRows) {
+      const index = available.findIndex((row) => isSameGroceryRow(row, oldRow));
+      if (index !== -1) {
+        removableIds.push(available[index].id);
+        available.splice(index, 1);
+      }
+    }
+
+    // Save the plan and the grocery changes and record the swap in one transaction
+    const { data: saved, error: updateError } = await supabaseAdmin.rpc('save_swapped_meal', {
+      p_user_id: user.id,
+      p_meal_plan_id: mealPlan.id,
+      p_plan_data: planData,
+      p_remove_ids: removableIds,
+      p_grocery_rows: buildGroceryRows(after, {
+        userId: user.id,
+        weekStartDate: mealPlan.week_start_date,
+        mealPlanId: mealPlan.id,
+        portions
+      }),
+      p_daily_limit: dailyLimit
+    });
+
+    if (updateError) {
+      console.error('Error updating meal plan:', updateError);
+      throw new Error('Failed to update meal plan');
+    }
+    // Other swaps reached the limit while this one was being made
+    if (!saved.plan) {
+      return swapLimitResponse(saved.quota);
+    }
+    const updatedPlan = saved.plan;
+
+    return jsonResponse({
+      success: true,
+      meal: newMeal,
+      source,
+      quota: saved.quota,
+      mealPlan: updatedPlan,
+      planData: updatedPlan.plan_data
+    });
+
+  } catch (error) {
+    console.error('Unhandled error in swap-meal:', error);
+    return jsonResponse({ success: false, error: error.message || 'Internal server error' }, error.status || 500);
+  }
+});
@@ -0,0 +1,3 @@
+-- Store the calorie and macro targets each meal plan was generated against
+ALTER TABLE public.meal_plans
+ADD COLUMN nutrition_targets JSONB;
@@ -0,0 +1,3 @@
+-- Record allergen and avoid-list violations found after generation
+ALTER TABLE public.meal_plans
+ADD COLUMN allergen_violations JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,33 @@
+-- Track meal plan generation as jobs so work survives a dropped request
+CREATE TABLE public.generation_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  preferences JSONB NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  error TEXT,
+  days_completed INTEGER NOT NULL DEFAULT 0,
+  total_days INTEGER,
+  meal_plan_id UUID REFERENCES public.meal_plans(id) ON DELETE SET NULL,
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX generation_jobs_user_id_created_at_idx ON public.generation_jobs (user_id, created_at DESC);
+CREATE INDEX generation_jobs_status_created_at_idx ON public.generation_jobs (status, created_at);
+
+ALTER TABLE public.generation_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are created and updated by the edge function; users can only read their own
+CREATE POLICY "Users can view their own generation jobs"
+ON public.generation_jobs
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_generation_jobs_updated_at
+  BEFORE UPDATE ON public.generation_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
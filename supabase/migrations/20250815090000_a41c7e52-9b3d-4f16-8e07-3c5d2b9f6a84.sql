@@ -0,0 +1,36 @@
+-- Store real quantities on grocery rows
+ALTER TABLE public.grocery_lists
+ADD COLUMN amount NUMERIC,
+ADD COLUMN unit TEXT;
+
+-- Convert plain-string ingredients in existing plans to structured ingredients
+CREATE OR REPLACE FUNCTION pg_temp.structure_ingredients(ingredients JSONB)
+RETURNS JSONB AS $$
+  SELECT COALESCE(jsonb_agg(
+    CASE WHEN jsonb_typeof(ingredient) = 'string'
+      THEN jsonb_build_object('name', ingredient #>> '{}', 'amount', NULL, 'unit', NULL, 'preparation', NULL)
+      ELSE ingredient
+    END ORDER BY position), '[]'::jsonb)
+  FROM jsonb_array_elements(ingredients) WITH ORDINALITY AS i(ingredient, position);
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION pg_temp.structure_meals(meals JSONB)
+RETURNS JSONB AS $$
+  SELECT COALESCE(jsonb_agg(
+    CASE WHEN jsonb_typeof(meal->'ingredients') = 'array'
+      THEN jsonb_set(meal, '{ingredients}', pg_temp.structure_ingredients(meal->'ingredients'))
+      ELSE meal
+    END ORDER BY position), '[]'::jsonb)
+  FROM jsonb_array_elements(meals) WITH ORDINALITY AS m(meal, position);
+$$ LANGUAGE sql IMMUTABLE;
+
+UPDATE public.meal_plans
+SET plan_data = jsonb_set(plan_data, '{days}', (
+  SELECT COALESCE(jsonb_agg(
+    CASE WHEN jsonb_typeof(day->'meals') = 'array'
+      THEN jsonb_set(day, '{meals}', pg_temp.structure_meals(day->'meals'))
+      ELSE day
+    END ORDER BY position), '[]'::jsonb)
+  FROM jsonb_array_elements(plan_data->'days') WITH ORDINALITY AS d(day, position)
+))
+WHERE jsonb_typeof(plan_data->'days') = 'array';
@@ -0,0 +1,65 @@
+-- Enforce per-user generation quotas and create the job in one transaction,
+-- so concurrent requests from the same user cannot both slip under the limit.
+-- Every job created in the last day counts, whatever its outcome.
+CREATE OR REPLACE FUNCTION public.enqueue_generation_job(
+  p_user_id UUID,
+  p_preferences JSONB,
+  p_daily_limit INTEGER,
+  p_min_interval_seconds INTEGER
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_used INTEGER;
+  v_latest TIMESTAMP WITH TIME ZONE;
+  v_freed_at TIMESTAMP WITH TIME ZONE;
+  v_retry_after INTEGER := 0;
+  v_job public.generation_jobs;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('generation_quota:' || p_user_id::TEXT));
+
+  SELECT count(*), max(created_at) INTO v_used, v_latest
+  FROM public.generation_jobs
+  WHERE user_id = p_user_id
+    AND created_at > now() - INTERVAL '1 day';
+
+  IF v_latest IS NOT NULL AND v_latest > now() - make_interval(secs => p_min_interval_seconds) THEN
+    v_retry_after := ceil(extract(EPOCH FROM v_latest + make_interval(secs => p_min_interval_seconds) - now()));
+  END IF;
+
+  IF v_used >= p_daily_limit THEN
+    -- A slot frees up when enough of the oldest jobs leave the one-day window
+    SELECT created_at + INTERVAL '1 day' INTO v_freed_at
+    FROM public.generation_jobs
+    WHERE user_id = p_user_id
+      AND created_at > now() - INTERVAL '1 day'
+    ORDER BY created_at ASC
+    OFFSET v_used - p_daily_limit
+    LIMIT 1;
+
+    v_retry_after := greatest(v_retry_after, ceil(extract(EPOCH FROM v_freed_at - now())));
+  END IF;
+
+  IF v_retry_after > 0 THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'used', v_used,
+      'limit', p_daily_limit,
+      'retry_after', v_retry_after
+    );
+  END IF;
+
+  INSERT INTO public.generation_jobs (user_id, preferences, total_days)
+  VALUES (p_user_id, p_preferences, (p_preferences->>'total_days')::INTEGER)
+  RETURNING * INTO v_job;
+
+  RETURN jsonb_build_object(
+    'allowed', true,
+    'used', v_used + 1,
+    'limit', p_daily_limit,
+    'job', to_jsonb(v_job)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the edge function (service role) may create jobs
+REVOKE EXECUTE ON FUNCTION public.enqueue_generation_job(UUID, JSONB, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,149 @@
+-- Idempotency keys let a client retry a generation request without starting a second one
+ALTER TABLE public.generation_jobs
+ADD COLUMN idempotency_key TEXT;
+
+CREATE UNIQUE INDEX generation_jobs_user_id_idempotency_key_idx
+ON public.generation_jobs (user_id, idempotency_key)
+WHERE idempotency_key IS NOT NULL;
+
+-- Each job saves at most one plan
+ALTER TABLE public.meal_plans
+ADD COLUMN generation_job_id UUID UNIQUE REFERENCES public.generation_jobs(id) ON DELETE SET NULL;
+
+-- Replace the quota function with one that also honours idempotency keys. A key
+-- that was already used returns the existing job and does not count against the quota.
+DROP FUNCTION public.enqueue_generation_job(UUID, JSONB, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.enqueue_generation_job(
+  p_user_id UUID,
+  p_preferences JSONB,
+  p_daily_limit INTEGER,
+  p_min_interval_seconds INTEGER,
+  p_idempotency_key TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_used INTEGER;
+  v_latest TIMESTAMP WITH TIME ZONE;
+  v_freed_at TIMESTAMP WITH TIME ZONE;
+  v_retry_after INTEGER := 0;
+  v_job public.generation_jobs;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('generation_quota:' || p_user_id::TEXT));
+
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_job
+    FROM public.generation_jobs
+    WHERE user_id = p_user_id
+      AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object('allowed', true, 'existing', true, 'job', to_jsonb(v_job));
+    END IF;
+  END IF;
+
+  SELECT count(*), max(created_at) INTO v_used, v_latest
+  FROM public.generation_jobs
+  WHERE user_id = p_user_id
+    AND created_at > now() - INTERVAL '1 day';
+
+  IF v_latest IS NOT NULL AND v_latest > now() - make_interval(secs => p_min_interval_seconds) THEN
+    v_retry_after := ceil(extract(EPOCH FROM v_latest + make_interval(secs => p_min_interval_seconds) - now()));
+  END IF;
+
+  IF v_used >= p_daily_limit THEN
+    -- A slot frees up when enough of the oldest jobs leave the one-day window
+    SELECT created_at + INTERVAL '1 day' INTO v_freed_at
+    FROM public.generation_jobs
+    WHERE user_id = p_user_id
+      AND created_at > now() - INTERVAL '1 day'
+    ORDER BY created_at ASC
+    OFFSET v_used - p_daily_limit
+    LIMIT 1;
+
+    v_retry_after := greatest(v_retry_after, ceil(extract(EPOCH FROM v_freed_at - now())));
+  END IF;
+
+  IF v_retry_after > 0 THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'used', v_used,
+      'limit', p_daily_limit,
+      'retry_after', v_retry_after
+    );
+  END IF;
+
+  INSERT INTO public.generation_jobs (user_id, preferences, total_days, idempotency_key)
+  VALUES (p_user_id, p_preferences, (p_preferences->>'total_days')::INTEGER, p_idempotency_key)
+  RETURNING * INTO v_job;
+
+  RETURN jsonb_build_object(
+    'allowed', true,
+    'existing', false,
+    'used', v_used + 1,
+    'limit', p_daily_limit,
+    'job', to_jsonb(v_job)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_generation_job(UUID, JSONB, INTEGER, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Write a generated plan, its grocery rows and the job link in one transaction.
+-- Saving the same job twice returns the plan from the first save.
+CREATE OR REPLACE FUNCTION public.save_generated_meal_plan(
+  p_job_id UUID,
+  p_user_id UUID,
+  p_meal_plan JSONB,
+  p_grocery_rows JSONB
+)
+RETURNS public.meal_plans AS $$
+DECLARE
+  v_plan public.meal_plans;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('save_meal_plan:' || p_job_id::TEXT));
+
+  SELECT * INTO v_plan
+  FROM public.meal_plans
+  WHERE generation_job_id = p_job_id;
+
+  IF FOUND THEN
+    RETURN v_plan;
+  END IF;
+
+  INSERT INTO public.meal_plans (
+    user_id,
+    generation_job_id,
+    week_start_date,
+    plan_data,
+    meals_per_day,
+    total_days,
+    nutrition_targets,
+    allergen_violations
+  )
+  VALUES (
+    p_user_id,
+    p_job_id,
+    (p_meal_plan->>'week_start_date')::DATE,
+    p_meal_plan->'plan_data',
+    (p_meal_plan->>'meals_per_day')::INTEGER,
+    (p_meal_plan->>'total_days')::INTEGER,
+    p_meal_plan->'nutrition_targets',
+    COALESCE(p_meal_plan->'allergen_violations', '[]'::JSONB)
+  )
+  RETURNING * INTO v_plan;
+
+  INSERT INTO public.grocery_lists (user_id, meal_plan_id, week_start_date, item_name, quantity, amount, unit, is_purchased)
+  SELECT p_user_id, v_plan.id, v_plan.week_start_date, item.item_name, item.quantity, item.amount, item.unit, false
+  FROM jsonb_to_recordset(COALESCE(p_grocery_rows, '[]'::JSONB))
+    AS item(item_name TEXT, quantity TEXT, amount NUMERIC, unit TEXT);
+
+  UPDATE public.generation_jobs
+  SET meal_plan_id = v_plan.id
+  WHERE id = p_job_id;
+
+  RETURN v_plan;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.save_generated_meal_plan(UUID, UUID, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,71 @@
+-- Record which prompt version, model and parameters produced each plan
+ALTER TABLE public.meal_plans
+ADD COLUMN prompt_version TEXT,
+ADD COLUMN model TEXT,
+ADD COLUMN generation_params JSONB;
+
+CREATE INDEX meal_plans_prompt_version_idx ON public.meal_plans (prompt_version);
+
+-- Same as before, now also storing the prompt and model details
+CREATE OR REPLACE FUNCTION public.save_generated_meal_plan(
+  p_job_id UUID,
+  p_user_id UUID,
+  p_meal_plan JSONB,
+  p_grocery_rows JSONB
+)
+RETURNS public.meal_plans AS $$
+DECLARE
+  v_plan public.meal_plans;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('save_meal_plan:' || p_job_id::TEXT));
+
+  SELECT * INTO v_plan
+  FROM public.meal_plans
+  WHERE generation_job_id = p_job_id;
+
+  IF FOUND THEN
+    RETURN v_plan;
+  END IF;
+
+  INSERT INTO public.meal_plans (
+    user_id,
+    generation_job_id,
+    week_start_date,
+    plan_data,
+    meals_per_day,
+    total_days,
+    nutrition_targets,
+    allergen_violations,
+    prompt_version,
+    model,
+    generation_params
+  )
+  VALUES (
+    p_user_id,
+    p_job_id,
+    (p_meal_plan->>'week_start_date')::DATE,
+    p_meal_plan->'plan_data',
+    (p_meal_plan->>'meals_per_day')::INTEGER,
+    (p_meal_plan->>'total_days')::INTEGER,
+    p_meal_plan->'nutrition_targets',
+    COALESCE(p_meal_plan->'allergen_violations', '[]'::JSONB),
+    p_meal_plan->>'prompt_version',
+    p_meal_plan->>'model',
+    p_meal_plan->'generation_params'
+  )
+  RETURNING * INTO v_plan;
+
+  INSERT INTO public.grocery_lists (user_id, meal_plan_id, week_start_date, item_name, quantity, amount, unit, is_purchased)
+  SELECT p_user_id, v_plan.id, v_plan.week_start_date, item.item_name, item.quantity, item.amount, item.unit, false
+  FROM jsonb_to_recordset(COALESCE(p_grocery_rows, '[]'::JSONB))
+    AS item(item_name TEXT, quantity TEXT, amount NUMERIC, unit TEXT);
+
+  UPDATE public.generation_jobs
+  SET meal_plan_id = v_plan.id
+  WHERE id = p_job_id;
+
+  RETURN v_plan;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.save_generated_meal_plan(UUID, UUID, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,27 @@
+-- Ingredients the user already has at home. Generation prefers them and the
+-- grocery list only shows what is still missing after subtracting them.
+CREATE TABLE public.pantry_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  quantity NUMERIC CHECK (quantity IS NULL OR quantity >= 0),
+  unit TEXT,
+  expires_on DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX pantry_items_user_id_name_idx ON public.pantry_items (user_id, name);
+
+ALTER TABLE public.pantry_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own pantry items"
+ON public.pantry_items
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_pantry_items_updated_at
+  BEFORE UPDATE ON public.pantry_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,230 @@
+-- Weekly grocery budget and currency on the diet preferences
+ALTER TABLE public.diet_preferences
+ADD COLUMN weekly_budget NUMERIC CHECK (weekly_budget IS NULL OR weekly_budget > 0),
+ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$');
+
+-- Ingredient prices used for cost estimates: price for amount of unit, e.g.
+-- 2.50 for 400 g. Rows without a user are shared defaults; a user's own row
+-- for the same ingredient and kind of unit takes precedence.
+CREATE TABLE public.ingredient_prices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  price NUMERIC NOT NULL CHECK (price >= 0),
+  amount NUMERIC NOT NULL DEFAULT 1 CHECK (amount > 0),
+  unit TEXT NOT NULL DEFAULT 'piece',
+  currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX ingredient_prices_user_id_idx ON public.ingredient_prices (user_id);
+
+ALTER TABLE public.ingredient_prices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view default and their own ingredient prices"
+ON public.ingredient_prices
+FOR SELECT
+USING (user_id IS NULL OR auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own ingredient prices"
+ON public.ingredient_prices
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_ingredient_prices_updated_at
+  BEFORE UPDATE ON public.ingredient_prices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rough US supermarket prices for the ingredients the recipe bank and most
+-- generated plans use. Generic names ("beans", "rice") also cover more specific
+-- ones ("black beans", "basmati rice").
+INSERT INTO public.ingredient_prices (name, price, amount, unit, currency) VALUES
+  ('rolled oats', 0.25, 1, 'cup'),
+  ('oat milk', 0.80, 1, 'cup'),
+  ('milk', 0.35, 1, 'cup'),
+  ('coconut milk', 2.00, 1, 'can'),
+  ('chia seeds', 0.35, 1, 'tbsp'),
+  ('pumpkin seeds', 0.25, 1, 'tbsp'),
+  ('sesame seeds', 0.05, 1, 'tsp'),
+  ('mixed berries', 1.50, 1, 'cup'),
+  ('strawberries', 1.25, 1, 'cup'),
+  ('grapes', 1.00, 1, 'cup'),
+  ('melon', 0.80, 1, 'cup'),
+  ('raisins', 0.15, 1, 'tbsp'),
+  ('apple', 0.80, 1, 'piece'),
+  ('banana', 0.30, 1, 'piece'),
+  ('avocado', 1.50, 1, 'piece'),
+  ('lemon', 0.60, 1, 'piece'),
+  ('lime', 0.40, 1, 'piece'),
+  ('greek yogurt', 1.50, 1, 'cup'),
+  ('yogurt', 1.00, 1, 'cup'),
+  ('ricotta', 1.20, 1, 'cup'),
+  ('paneer', 14.00, 1, 'kg'),
+  ('mozzarella', 11.00, 1, 'kg'),
+  ('mozzarella balls', 0.25, 1, 'piece'),
+  ('parmesan', 30.00, 1, 'kg'),
+  ('butter', 0.15, 1, 'tbsp'),
+  ('ghee', 0.35, 1, 'tbsp'),
+  ('eggs', 0.30, 1, 'piece'),
+  ('firm tofu', 2.50, 400, 'g'),
+  ('chicken breast', 11.00, 1, 'kg'),
+  ('chicken thighs', 8.80, 1, 'kg'),
+  ('ground turkey', 9.00, 1, 'kg'),
+  ('turkey breast', 15.00, 1, 'kg'),
+  ('salmon fillet', 22.00, 1, 'kg'),
+  ('fish fillets', 15.00, 1, 'kg'),
+  ('tuna in olive oil', 2.00, 1, 'can'),
+  ('walnuts', 4.00, 1, 'cup'),
+  ('almonds', 0.30, 1, 'tbsp'),
+  ('peanut butter', 0.20, 1, 'tbsp'),
+  ('tahini', 0.40, 1, 'tbsp'),
+  ('hummus', 1.50, 1, 'cup'),
+  ('honey', 0.25, 1, 'tbsp'),
+  ('maple syrup', 0.20, 1, 'tsp'),
+  ('chocolate chips', 0.20, 1, 'tbsp'),
+  ('olive oil', 0.20, 1, 'tbsp'),
+  ('sunflower oil', 0.08, 1, 'tbsp'),
+  ('sesame oil', 0.45, 1, 'tbsp'),
+  ('vinegar', 0.05, 1, 'tbsp'),
+  ('balsamic glaze', 0.10, 1, 'tsp'),
+  ('tamari', 0.10, 1, 'tbsp'),
+  ('teriyaki sauce', 0.15, 1, 'tbsp'),
+  ('tomato ketchup', 0.05, 1, 'tbsp'),
+  ('curry paste', 0.40, 1, 'tbsp'),
+  ('ginger garlic paste', 0.15, 1, 'tbsp'),
+  ('salsa', 0.80, 1, 'cup'),
+  ('rice', 0.40, 1, 'cup'),
+  ('quinoa', 1.00, 1, 'cup'),
+  ('polenta', 0.40, 1, 'cup'),
+  ('flour', 0.30, 1, 'cup'),
+  ('breadcrumbs', 0.40, 1, 'cup'),
+  ('pasta', 1.50, 500, 'g'),
+  ('pasta', 0.50, 1, 'cup'),
+  ('noodles', 4.00, 1, 'kg'),
+  ('bread', 0.35, 1, 'slice'),
+  ('tortilla', 0.25, 1, 'piece'),
+  ('beans', 1.20, 1, 'can'),
+  ('beans', 0.60, 1, 'cup'),
+  ('chickpeas', 1.20, 1, 'can'),
+  ('chickpeas', 0.60, 1, 'cup'),
+  ('lentils', 0.50, 1, 'cup'),
+  ('edamame', 0.80, 1, 'cup'),
+  ('peas', 0.40, 1, 'cup'),
+  ('sweetcorn', 0.50, 1, 'cup'),
+  ('chopped tomatoes', 1.30, 1, 'can'),
+  ('chopped tomatoes', 0.60, 1, 'cup'),
+  ('vegetable broth', 0.75, 1, 'cup'),
+  ('chicken broth', 0.75, 1, 'cup'),
+  ('spinach', 0.50, 1, 'cup'),
+  ('kale', 0.60, 1, 'cup'),
+  ('lettuce', 0.30, 1, 'cup'),
+  ('cabbage', 0.30, 1, 'cup'),
+  ('broccoli', 0.70, 1, 'cup'),
+  ('mushrooms', 1.00, 1, 'cup'),
+  ('green beans', 0.60, 1, 'cup'),
+  ('brussels sprouts', 1.00, 1, 'cup'),
+  ('sweet potato', 0.80, 1, 'cup'),
+  ('sweet potatoes', 1.00, 1, 'piece'),
+  ('potatoes', 2.00, 1, 'kg'),
+  ('tomatoes', 0.60, 1, 'piece'),
+  ('cherry tomatoes', 1.50, 1, 'cup'),
+  ('cherry tomatoes', 0.10, 1, 'piece'),
+  ('onion', 0.60, 1, 'piece'),
+  ('spring onions', 0.20, 1, 'piece'),
+  ('bell pepper', 1.20, 1, 'piece'),
+  ('cucumber', 1.00, 1, 'piece'),
+  ('zucchini', 1.20, 1, 'piece'),
+  ('carrot', 0.25, 1, 'piece'),
+  ('eggplant', 1.80, 1, 'piece'),
+  ('cauliflower', 3.00, 1, 'piece'),
+  ('celery stalk', 0.25, 1, 'piece'),
+  ('olives', 0.10, 1, 'piece'),
+  ('garlic', 0.10, 1, 'clove'),
+  ('ginger', 0.15, 1, 'tbsp'),
+  ('basil leaves', 0.05, 1, 'piece'),
+  ('mint', 1.00, 1, 'cup'),
+  ('coriander', 0.15, 1, 'tbsp'),
+  ('parsley', 0.15, 1, 'tbsp'),
+  ('turmeric', 0.10, 1, 'tsp'),
+  ('cumin', 0.10, 1, 'tsp'),
+  ('cumin seeds', 0.10, 1, 'tsp'),
+  ('mustard seeds', 0.10, 1, 'tsp'),
+  ('masala', 0.10, 1, 'tsp'),
+  ('spice blend', 0.10, 1, 'tsp'),
+  ('chili powder', 0.10, 1, 'tsp'),
+  ('paprika', 0.10, 1, 'tsp'),
+  ('cinnamon', 0.10, 1, 'tsp'),
+  ('oregano', 0.10, 1, 'tsp');
+
+-- Estimated cost of each generated plan against the budget at generation time
+ALTER TABLE public.meal_plans
+ADD COLUMN cost_estimate JSONB;
+
+-- Same as before, now also storing the cost estimate
+CREATE OR REPLACE FUNCTION public.save_generated_meal_plan(
+  p_job_id UUID,
+  p_user_id UUID,
+  p_meal_plan JSONB,
+  p_grocery_rows JSONB
+)
+RETURNS public.meal_plans AS $$
+DECLARE
+  v_plan public.meal_plans;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('save_meal_plan:' || p_job_id::TEXT));
+
+  SELECT * INTO v_plan
+  FROM public.meal_plans
+  WHERE generation_job_id = p_job_id;
+
+  IF FOUND THEN
+    RETURN v_plan;
+  END IF;
+
+  INSERT INTO public.meal_plans (
+    user_id,
+    generation_job_id,
+    week_start_date,
+    plan_data,
+    meals_per_day,
+    total_days,
+    nutrition_targets,
+    allergen_violations,
+    prompt_version,
+    model,
+    generation_params,
+    cost_estimate
+  )
+  VALUES (
+    p_user_id,
+    p_job_id,
+    (p_meal_plan->>'week_start_date')::DATE,
+    p_meal_plan->'plan_data',
+    (p_meal_plan->>'meals_per_day')::INTEGER,
+    (p_meal_plan->>'total_days')::INTEGER,
+    p_meal_plan->'nutrition_targets',
+    COALESCE(p_meal_plan->'allergen_violations', '[]'::JSONB),
+    p_meal_plan->>'prompt_version',
+    p_meal_plan->>'model',
+    p_meal_plan->'generation_params',
+    p_meal_plan->'cost_estimate'
+  )
+  RETURNING * INTO v_plan;
+
+  INSERT INTO public.grocery_lists (user_id, meal_plan_id, week_start_date, item_name, quantity, amount, unit, is_purchased)
+  SELECT p_user_id, v_plan.id, v_plan.week_start_date, item.item_name, item.quantity, item.amount, item.unit, false
+  FROM jsonb_to_recordset(COALESCE(p_grocery_rows, '[]'::JSONB))
+    AS item(item_name TEXT, quantity TEXT, amount NUMERIC, unit TEXT);
+
+  UPDATE public.generation_jobs
+  SET meal_plan_id = v_plan.id
+  WHERE id = p_job_id;
+
+  RETURN v_plan;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.save_generated_meal_plan(UUID, UUID, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,4 @@
+-- Batch cooking: when enabled, plans cook some meals in bigger batches and
+-- eat the extra portions as leftovers at later meals.
+ALTER TABLE public.diet_preferences
+  ADD COLUMN batch_cooking BOOLEAN NOT NULL DEFAULT false;
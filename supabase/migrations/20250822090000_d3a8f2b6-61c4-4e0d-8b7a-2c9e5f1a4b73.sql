@@ -0,0 +1,100 @@
+-- How much the user liked a dish, 1 to 5. Generation leaves out dishes rated
+-- 2 or lower and lets dishes rated 4 or higher come back sooner.
+CREATE TABLE public.meal_ratings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  meal_plan_id UUID REFERENCES public.meal_plans(id) ON DELETE SET NULL,
+  meal_name TEXT NOT NULL,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, meal_name)
+);
+
+ALTER TABLE public.meal_ratings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own meal ratings"
+ON public.meal_ratings
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_meal_ratings_updated_at
+BEFORE UPDATE ON public.meal_ratings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Variety of each generated plan from 0 to 100, see _shared/variety.ts
+ALTER TABLE public.meal_plans
+ADD COLUMN variety_score SMALLINT CHECK (variety_score BETWEEN 0 AND 100);
+
+-- Plans are read newest first when looking back for recent dishes
+CREATE INDEX meal_plans_user_id_created_at_idx ON public.meal_plans (user_id, created_at DESC);
+
+-- Same as before, now also storing the variety score
+CREATE OR REPLACE FUNCTION public.save_generated_meal_plan(
+  p_job_id UUID,
+  p_user_id UUID,
+  p_meal_plan JSONB,
+  p_grocery_rows JSONB
+)
+RETURNS public.meal_plans AS $$
+DECLARE
+  v_plan public.meal_plans;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('save_meal_plan:' || p_job_id::TEXT));
+
+  SELECT * INTO v_plan
+  FROM public.meal_plans
+  WHERE generation_job_id = p_job_id;
+
+  IF FOUND THEN
+    RETURN v_plan;
+  END IF;
+
+  INSERT INTO public.meal_plans (
+    user_id,
+    generation_job_id,
+    week_start_date,
+    plan_data,
+    meals_per_day,
+    total_days,
+    nutrition_targets,
+    allergen_violations,
+    prompt_version,
+    model,
+    generation_params,
+    cost_estimate,
+    variety_score
+  )
+  VALUES (
+    p_user_id,
+    p_job_id,
+    (p_meal_plan->>'week_start_date')::DATE,
+    p_meal_plan->'plan_data',
+    (p_meal_plan->>'meals_per_day')::INTEGER,
+    (p_meal_plan->>'total_days')::INTEGER,
+    p_meal_plan->'nutrition_targets',
+    COALESCE(p_meal_plan->'allergen_violations', '[]'::JSONB),
+    p_meal_plan->>'prompt_version',
+    p_meal_plan->>'model',
+    p_meal_plan->'generation_params',
+    p_meal_plan->'cost_estimate',
+    (p_meal_plan->>'variety_score')::SMALLINT
+  )
+  RETURNING * INTO v_plan;
+
+  INSERT INTO public.grocery_lists (user_id, meal_plan_id, week_start_date, item_name, quantity, amount, unit, is_purchased)
+  SELECT p_user_id, v_plan.id, v_plan.week_start_date, item.item_name, item.quantity, item.amount, item.unit, false
+  FROM jsonb_to_recordset(COALESCE(p_grocery_rows, '[]'::JSONB))
+    AS item(item_name TEXT, quantity TEXT, amount NUMERIC, unit TEXT);
+
+  UPDATE public.generation_jobs
+  SET meal_plan_id = v_plan.id
+  WHERE id = p_job_id;
+
+  RETURN v_plan;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.save_generated_meal_plan(UUID, UUID, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,6 @@
+-- Cooking time and skill limits per meal slot, e.g.
+-- {"dinner": {"max_minutes": 30, "skill": "beginner"}}. With
+-- weekend_long_recipes the time limits do not apply on Saturdays and Sundays.
+ALTER TABLE public.diet_preferences
+  ADD COLUMN cooking_limits JSONB NOT NULL DEFAULT '{}'::JSONB,
+  ADD COLUMN weekend_long_recipes BOOLEAN NOT NULL DEFAULT false;
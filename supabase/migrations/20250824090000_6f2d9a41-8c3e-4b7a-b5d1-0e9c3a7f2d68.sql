@@ -0,0 +1,36 @@
+-- Other people the account plans meals for. The account holder's own
+-- user_profiles and diet_preferences row is always the first eater; each
+-- member adds a diet, allergies and a calorie need of their own.
+CREATE TABLE public.household_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  date_of_birth DATE,
+  gender TEXT CHECK (gender IN ('male', 'female', 'other')),
+  height_cm NUMERIC,
+  weight_kg NUMERIC,
+  fitness_goal TEXT CHECK (fitness_goal IN ('weight_loss', 'maintain', 'muscle_gain')),
+  activity_level TEXT CHECK (activity_level IN ('sedentary', 'lightly_active', 'active', 'very_active')),
+  diet_type TEXT CHECK (diet_type IN ('vegetarian', 'vegan', 'gluten_free', 'dairy_free', 'mediterranean', 'custom')),
+  allergies TEXT[] NOT NULL DEFAULT '{}',
+  foods_to_avoid TEXT[] NOT NULL DEFAULT '{}',
+  -- Overrides the target worked out from the fields above, e.g. for children
+  calorie_target INTEGER CHECK (calorie_target IS NULL OR calorie_target > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX household_members_user_id_idx ON public.household_members (user_id);
+
+ALTER TABLE public.household_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own household members"
+ON public.household_members
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_household_members_updated_at
+  BEFORE UPDATE ON public.household_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
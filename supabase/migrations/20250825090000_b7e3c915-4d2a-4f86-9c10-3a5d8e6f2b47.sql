@@ -0,0 +1,9 @@
+-- When new plans start and which day the user's week starts on.
+-- plan_start: 'today', 'tomorrow' or 'next_week', the next day the week
+-- starts on. week_starts_on: 0 = Sunday through 6 = Saturday.
+-- meal_plans.week_start_date stays the date of day 1 of a plan.
+ALTER TABLE public.diet_preferences
+  ADD COLUMN plan_start TEXT NOT NULL DEFAULT 'today'
+    CHECK (plan_start IN ('today', 'tomorrow', 'next_week')),
+  ADD COLUMN week_starts_on SMALLINT NOT NULL DEFAULT 1
+    CHECK (week_starts_on BETWEEN 0 AND 6);
@@ -0,0 +1,20 @@
+-- The user's IANA time zone, e.g. 'Europe/Berlin'. Plan dates and reminder
+-- times are worked out in it, so "today" and "8:00" mean the user's own.
+ALTER TABLE public.user_profiles
+  ADD COLUMN time_zone TEXT NOT NULL DEFAULT 'UTC';
+
+-- Reject names Postgres does not know, so every stored zone can be converted
+CREATE OR REPLACE FUNCTION public.validate_time_zone()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.time_zone) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', NEW.time_zone;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER validate_user_profiles_time_zone
+  BEFORE INSERT OR UPDATE OF time_zone ON public.user_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_time_zone();
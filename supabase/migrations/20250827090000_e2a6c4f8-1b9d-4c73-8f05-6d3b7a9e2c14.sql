@@ -0,0 +1,25 @@
+-- The language the app is shown in and new meal plans are written in
+ALTER TABLE public.user_profiles
+  ADD COLUMN language TEXT NOT NULL DEFAULT 'en'
+    CHECK (language IN ('en', 'es', 'fr', 'de'));
+
+-- New accounts start in the language they signed up in
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.user_profiles (user_id, full_name, language)
+  VALUES (
+    NEW.id,
+    NEW.raw_user_meta_data->>'full_name',
+    CASE
+      WHEN NEW.raw_user_meta_data->>'language' IN ('en', 'es', 'fr', 'de') THEN NEW.raw_user_meta_data->>'language'
+      ELSE 'en'
+    END
+  );
+  
+  INSERT INTO public.diet_preferences (user_id)
+  VALUES (NEW.id);
+  
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
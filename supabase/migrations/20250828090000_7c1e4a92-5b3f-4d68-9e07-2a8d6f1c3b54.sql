@@ -0,0 +1,39 @@
+-- Save a swapped meal and its grocery changes in one transaction, so a failed
+-- insert cannot leave the list missing the old meal's items
+CREATE OR REPLACE FUNCTION public.save_swapped_meal(
+  p_user_id UUID,
+  p_meal_plan_id UUID,
+  p_plan_data JSONB,
+  p_remove_ids UUID[],
+  p_grocery_rows JSONB
+)
+RETURNS public.meal_plans AS $$
+DECLARE
+  v_plan public.meal_plans;
+BEGIN
+  UPDATE public.meal_plans
+  SET plan_data = p_plan_data
+  WHERE id = p_meal_plan_id
+    AND user_id = p_user_id
+  RETURNING * INTO v_plan;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Meal plan % not found', p_meal_plan_id;
+  END IF;
+
+  -- Purchased items are never removed
+  DELETE FROM public.grocery_lists
+  WHERE id = ANY(COALESCE(p_remove_ids, '{}'::UUID[]))
+    AND user_id = p_user_id
+    AND is_purchased = false;
+
+  INSERT INTO public.grocery_lists (user_id, meal_plan_id, week_start_date, item_name, quantity, amount, unit, is_purchased)
+  SELECT p_user_id, v_plan.id, v_plan.week_start_date, item.item_name, item.quantity, item.amount, item.unit, false
+  FROM jsonb_to_recordset(COALESCE(p_grocery_rows, '[]'::JSONB))
+    AS item(item_name TEXT, quantity TEXT, amount NUMERIC, unit TEXT);
+
+  RETURN v_plan;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.save_swapped_meal(UUID, UUID, JSONB, UUID[], JSONB) FROM PUBLIC, anon, authenticated;
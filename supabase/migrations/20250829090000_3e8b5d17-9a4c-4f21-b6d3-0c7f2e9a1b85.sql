@@ -0,0 +1,66 @@
+-- Retrying a failed job starts it over without going through the quota, so each
+-- job can only be retried a limited number of times
+ALTER TABLE public.generation_jobs
+ADD COLUMN retries INTEGER NOT NULL DEFAULT 0;
+
+-- One row per meal swap, for the daily swap limit
+CREATE TABLE public.meal_swaps (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  meal_plan_id UUID REFERENCES public.meal_plans(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.meal_swaps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own meal swaps"
+ON public.meal_swaps
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX meal_swaps_user_id_created_at_idx ON public.meal_swaps (user_id, created_at DESC);
+
+-- Count a swap against the user's daily limit. Returns allowed: false with the
+-- seconds until a swap frees up when the limit is reached.
+CREATE OR REPLACE FUNCTION public.record_meal_swap(
+  p_user_id UUID,
+  p_meal_plan_id UUID,
+  p_daily_limit INTEGER
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_used INTEGER;
+  v_freed_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('swap_quota:' || p_user_id::TEXT));
+
+  SELECT count(*) INTO v_used
+  FROM public.meal_swaps
+  WHERE user_id = p_user_id
+    AND created_at > now() - INTERVAL '1 day';
+
+  IF v_used >= p_daily_limit THEN
+    SELECT created_at + INTERVAL '1 day' INTO v_freed_at
+    FROM public.meal_swaps
+    WHERE user_id = p_user_id
+      AND created_at > now() - INTERVAL '1 day'
+    ORDER BY created_at ASC
+    OFFSET v_used - p_daily_limit
+    LIMIT 1;
+
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'used', v_used,
+      'limit', p_daily_limit,
+      'retry_after', greatest(1, ceil(extract(EPOCH FROM v_freed_at - now())))
+    );
+  END IF;
+
+  INSERT INTO public.meal_swaps (user_id, meal_plan_id)
+  VALUES (p_user_id, p_meal_plan_id);
+
+  RETURN jsonb_build_object('allowed', true, 'used', v_used + 1, 'limit', p_daily_limit);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.record_meal_swap(UUID, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
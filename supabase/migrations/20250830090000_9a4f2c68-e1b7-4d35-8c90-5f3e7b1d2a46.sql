@@ -0,0 +1,44 @@
+-- A profile without a time zone has not set one yet. The app saves the
+-- device's zone the first time it finds none, and the edge functions use the
+-- zone sent with the request until then.
+ALTER TABLE public.user_profiles
+  ALTER COLUMN time_zone DROP NOT NULL,
+  ALTER COLUMN time_zone DROP DEFAULT;
+
+-- 'UTC' came from the old column default on nearly every profile. Clearing it
+-- lets the app store the device's zone, which is UTC again for users really there.
+UPDATE public.user_profiles
+SET time_zone = NULL
+WHERE time_zone = 'UTC';
+
+CREATE OR REPLACE FUNCTION public.validate_time_zone()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.time_zone IS NOT NULL AND NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.time_zone) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', NEW.time_zone;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- New accounts start in the language and time zone they signed up in
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.user_profiles (user_id, full_name, language, time_zone)
+  VALUES (
+    NEW.id,
+    NEW.raw_user_meta_data->>'full_name',
+    CASE
+      WHEN NEW.raw_user_meta_data->>'language' IN ('en', 'es', 'fr', 'de') THEN NEW.raw_user_meta_data->>'language'
+      ELSE 'en'
+    END,
+    (SELECT name FROM pg_timezone_names WHERE name = NEW.raw_user_meta_data->>'time_zone' LIMIT 1)
+  );
+
+  INSERT INTO public.diet_preferences (user_id)
+  VALUES (NEW.id);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,18 @@
+-- Ratings are now saved under the dish's English name. Move ratings given to a
+-- translated plan over to the name_en the meal was stored with, unless the
+-- user has already rated the English name.
+UPDATE public.meal_ratings AS r
+SET meal_name = meal->>'name_en'
+FROM public.meal_plans AS p,
+  jsonb_array_elements(p.plan_data->'days') AS day,
+  jsonb_array_elements(day->'meals') AS meal
+WHERE p.id = r.meal_plan_id
+  AND meal->>'name_en' IS NOT NULL
+  AND lower(trim(meal->>'name')) = lower(trim(r.meal_name))
+  AND lower(trim(meal->>'name_en')) <> lower(trim(r.meal_name))
+  AND NOT EXISTS (
+    SELECT 1
+    FROM public.meal_ratings AS other
+    WHERE other.user_id = r.user_id
+      AND other.meal_name = meal->>'name_en'
+  );
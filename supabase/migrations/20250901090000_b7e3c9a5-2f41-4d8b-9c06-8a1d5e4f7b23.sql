@@ -0,0 +1,112 @@
+-- The English name of a translated grocery item. Prices and the grocery list
+-- match products by it; item_name is what the user sees. NULL for items that
+-- were never translated.
+ALTER TABLE public.grocery_lists
+ADD COLUMN name_en TEXT;
+
+-- Same as before, now also storing name_en
+CREATE OR REPLACE FUNCTION public.save_generated_meal_plan(
+  p_job_id UUID,
+  p_user_id UUID,
+  p_meal_plan JSONB,
+  p_grocery_rows JSONB
+)
+RETURNS public.meal_plans AS $$
+DECLARE
+  v_plan public.meal_plans;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('save_meal_plan:' || p_job_id::TEXT));
+
+  SELECT * INTO v_plan
+  FROM public.meal_plans
+  WHERE generation_job_id = p_job_id;
+
+  IF FOUND THEN
+    RETURN v_plan;
+  END IF;
+
+  INSERT INTO public.meal_plans (
+    user_id,
+    generation_job_id,
+    week_start_date,
+    plan_data,
+    meals_per_day,
+    total_days,
+    nutrition_targets,
+    allergen_violations,
+    prompt_version,
+    model,
+    generation_params,
+    cost_estimate,
+    variety_score
+  )
+  VALUES (
+    p_user_id,
+    p_job_id,
+    (p_meal_plan->>'week_start_date')::DATE,
+    p_meal_plan->'plan_data',
+    (p_meal_plan->>'meals_per_day')::INTEGER,
+    (p_meal_plan->>'total_days')::INTEGER,
+    p_meal_plan->'nutrition_targets',
+    COALESCE(p_meal_plan->'allergen_violations', '[]'::JSONB),
+    p_meal_plan->>'prompt_version',
+    p_meal_plan->>'model',
+    p_meal_plan->'generation_params',
+    p_meal_plan->'cost_estimate',
+    (p_meal_plan->>'variety_score')::SMALLINT
+  )
+  RETURNING * INTO v_plan;
+
+  INSERT INTO public.grocery_lists (user_id, meal_plan_id, week_start_date, item_name, name_en, quantity, amount, unit, is_purchased)
+  SELECT p_user_id, v_plan.id, v_plan.week_start_date, item.item_name, item.name_en, item.quantity, item.amount, item.unit, false
+  FROM jsonb_to_recordset(COALESCE(p_grocery_rows, '[]'::JSONB))
+    AS item(item_name TEXT, name_en TEXT, quantity TEXT, amount NUMERIC, unit TEXT);
+
+  UPDATE public.generation_jobs
+  SET meal_plan_id = v_plan.id
+  WHERE id = p_job_id;
+
+  RETURN v_plan;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.save_generated_meal_plan(UUID, UUID, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Same as before, now also storing name_en
+CREATE OR REPLACE FUNCTION public.save_swapped_meal(
+  p_user_id UUID,
+  p_meal_plan_id UUID,
+  p_plan_data JSONB,
+  p_remove_ids UUID[],
+  p_grocery_rows JSONB
+)
+RETURNS public.meal_plans AS $$
+DECLARE
+  v_plan public.meal_plans;
+BEGIN
+  UPDATE public.meal_plans
+  SET plan_data = p_plan_data
+  WHERE id = p_meal_plan_id
+    AND user_id = p_user_id
+  RETURNING * INTO v_plan;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Meal plan % not found', p_meal_plan_id;
+  END IF;
+
+  -- Purchased items are never removed
+  DELETE FROM public.grocery_lists
+  WHERE id = ANY(COALESCE(p_remove_ids, '{}'::UUID[]))
+    AND user_id = p_user_id
+    AND is_purchased = false;
+
+  INSERT INTO public.grocery_lists (user_id, meal_plan_id, week_start_date, item_name, name_en, quantity, amount, unit, is_purchased)
+  SELECT p_user_id, v_plan.id, v_plan.week_start_date, item.item_name, item.name_en, item.quantity, item.amount, item.unit, false
+  FROM jsonb_to_recordset(COALESCE(p_grocery_rows, '[]'::JSONB))
+    AS item(item_name TEXT, name_en TEXT, quantity TEXT, amount NUMERIC, unit TEXT);
+
+  RETURN v_plan;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.save_swapped_meal(UUID, UUID, JSONB, UUID[], JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,101 @@
+-- A swap only counts against the daily limit once it is saved. swap-meal checks
+-- the limit before looking for a replacement, and save_swapped_meal checks it
+-- again and records the swap in the same transaction as the plan update, so
+-- swaps that find no replacement or fail to save are not counted.
+DROP FUNCTION IF EXISTS public.record_meal_swap(UUID, UUID, INTEGER);
+
+-- The user's swaps in the last 24 hours against the limit. allowed is false,
+-- with the seconds until a swap frees up, when the limit is reached.
+CREATE OR REPLACE FUNCTION public.meal_swap_quota(
+  p_user_id UUID,
+  p_daily_limit INTEGER
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_used INTEGER;
+  v_freed_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT count(*) INTO v_used
+  FROM public.meal_swaps
+  WHERE user_id = p_user_id
+    AND created_at > now() - INTERVAL '1 day';
+
+  IF v_used >= p_daily_limit THEN
+    SELECT created_at + INTERVAL '1 day' INTO v_freed_at
+    FROM public.meal_swaps
+    WHERE user_id = p_user_id
+      AND created_at > now() - INTERVAL '1 day'
+    ORDER BY created_at ASC
+    OFFSET v_used - p_daily_limit
+    LIMIT 1;
+
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'used', v_used,
+      'limit', p_daily_limit,
+      'retry_after', greatest(1, ceil(extract(EPOCH FROM v_freed_at - now())))
+    );
+  END IF;
+
+  RETURN jsonb_build_object('allowed', true, 'used', v_used, 'limit', p_daily_limit);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.meal_swap_quota(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Now also checks and records the swap. Returns the updated plan and the quota,
+-- or only the quota when the limit was reached in the meantime.
+DROP FUNCTION IF EXISTS public.save_swapped_meal(UUID, UUID, JSONB, UUID[], JSONB);
+
+CREATE OR REPLACE FUNCTION public.save_swapped_meal(
+  p_user_id UUID,
+  p_meal_plan_id UUID,
+  p_plan_data JSONB,
+  p_remove_ids UUID[],
+  p_grocery_rows JSONB,
+  p_daily_limit INTEGER
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_plan public.meal_plans;
+  v_quota JSONB;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('swap_quota:' || p_user_id::TEXT));
+
+  v_quota := public.meal_swap_quota(p_user_id, p_daily_limit);
+  IF NOT (v_quota->>'allowed')::BOOLEAN THEN
+    RETURN jsonb_build_object('quota', v_quota);
+  END IF;
+
+  UPDATE public.meal_plans
+  SET plan_data = p_plan_data
+  WHERE id = p_meal_plan_id
+    AND user_id = p_user_id
+  RETURNING * INTO v_plan;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Meal plan % not found', p_meal_plan_id;
+  END IF;
+
+  -- Purchased items are never removed
+  DELETE FROM public.grocery_lists
+  WHERE id = ANY(COALESCE(p_remove_ids, '{}'::UUID[]))
+    AND user_id = p_user_id
+    AND is_purchased = false;
+
+  INSERT INTO public.grocery_lists (user_id, meal_plan_id, week_start_date, item_name, name_en, quantity, amount, unit, is_purchased)
+  SELECT p_user_id, v_plan.id, v_plan.week_start_date, item.item_name, item.name_en, item.quantity, item.amount, item.unit, false
+  FROM jsonb_to_recordset(COALESCE(p_grocery_rows, '[]'::JSONB))
+    AS item(item_name TEXT, name_en TEXT, quantity TEXT, amount NUMERIC, unit TEXT);
+
+  INSERT INTO public.meal_swaps (user_id, meal_plan_id)
+  VALUES (p_user_id, v_plan.id);
+
+  RETURN jsonb_build_object(
+    'plan', to_jsonb(v_plan),
+    'quota', v_quota || jsonb_build_object('used', (v_quota->>'used')::INTEGER + 1)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.save_swapped_meal(UUID, UUID, JSONB, UUID[], JSONB, INTEGER) FROM PUBLIC, anon, authenticated;